@@ -21,64 +21,29 @@ const db = admin.firestore();
 const sessionsPath = path.join(__dirname, "src", "data", "workoutSessions.json");
 const sessions = JSON.parse(fs.readFileSync(sessionsPath, "utf8"));
 
+// The bundled workoutSessions.json is Compass's schedule.
+const AO_ID = "compass";
+
+// Times are kept as stored in the JSON; new schedules come from the in-app
+// "Extend schedule" action, which reads AO_CONFIG scheduleBlocks directly.
+
 /**
- * Given a session with date like "11/22/2025 (Sat)" and time "0530",
- * return:
- *   - date with 2-digit year: "11/22/25 (Sat)"
- *   - time:
- *       Tue / Thu -> "0530"
- *       Sat       -> "0630"
- *       others    -> keep original or "0530"
+ * "11/22/2025 (Sat)" -> "11/22/25 (Sat)" (2-digit year; anything else is
+ * returned unchanged)
  */
-function computeDateAndTime(session) {
-  const originalDateStr = session.date;
-  const originalTime = session.time || "0530";
-
-  if (!originalDateStr) {
-    return {
-      newDate: originalDateStr,
-      fixedTime: originalTime,
-    };
-  }
+function computeShortDate(dateStr) {
+  if (!dateStr) return dateStr;
 
   // Split "11/22/2025 (Sat)" -> ["11/22/2025", "(Sat)"]
-  const parts = originalDateStr.split(" ");
-  const datePart = parts[0]; // "11/22/2025"
+  const parts = dateStr.split(" ");
   const suffix =
     parts.length > 1 ? " " + parts.slice(1).join(" ") : ""; // " (Sat)" if present
 
-  const [m, d, y] = datePart.split("/");
-  if (!m || !d || !y) {
-    return {
-      newDate: originalDateStr,
-      fixedTime: originalTime,
-    };
-  }
-
-  const yearFull = y.length === 2 ? Number("20" + y) : Number(y);
-  const monthIndex = Number(m) - 1;
-  const dayNum = Number(d);
-
-  const dateForDow = new Date(yearFull, monthIndex, dayNum);
-
-  let fixedTime = originalTime;
-
-  if (!isNaN(dateForDow.getTime())) {
-    const dow = dateForDow.getDay(); // 0=Sun, 1=Mon, 2=Tue, 3=Wed, 4=Thu, 5=Fri, 6=Sat
-
-    if (dow === 2 || dow === 4) {
-      // Tue / Thu
-      fixedTime = "0530";
-    } else if (dow === 6) {
-      // Sat
-      fixedTime = "0630";
-    }
-  }
-
-  const shortYear = String(yearFull).slice(-2); // "25", "26", etc.
-  const newDate = `${m}/${d}/${shortYear}${suffix}`; // e.g. "11/22/25 (Sat)"
+  const [m, d, y] = parts[0].split("/");
+  if (!m || !d || !y) return dateStr;
 
-  return { newDate, fixedTime };
+  const shortYear = y.slice(-2); // "25", "26", etc.
+  return `${m}/${d}/${shortYear}${suffix}`; // e.g. "11/22/25 (Sat)"
 }
 
 /**
@@ -101,20 +66,20 @@ async function importSessions() {
   const collectionRef = db.collection("workoutSessions");
 
   sessions.forEach((session) => {
-    const { newDate, fixedTime } = computeDateAndTime(session);
+    const newDate = computeShortDate(session.date);
     const dateKey = computeDateKey(newDate);
 
     // Mutate in-memory object so we can also rewrite the JSON file
     session.date = newDate;
-    session.time = fixedTime;
     if (dateKey) session.dateKey = dateKey;
 
     const docRef = collectionRef.doc(session.id);
     batch.set(
       docRef,
       {
+        aoId: AO_ID,
         date: newDate,
-        time: fixedTime,
+        ...(session.time ? { time: session.time } : {}),
         ...(dateKey ? { dateKey } : {}),
       },
       { merge: true }
@@ -126,7 +91,7 @@ async function importSessions() {
 
   // Also update the JSON file on disk so it matches the new format
   fs.writeFileSync(sessionsPath, JSON.stringify(sessions, null, 2), "utf8");
-  console.log("📝 Updated workoutSessions.json with 2-digit years and new times.");
+  console.log("📝 Updated workoutSessions.json with 2-digit years and dateKeys.");
 }
 
 importSessions().catch((err) => {
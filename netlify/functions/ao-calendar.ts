@@ -0,0 +1,133 @@
+import {
+  ALL_AOS_PARAM,
+  parseFromDate,
+  parseLookaheadDays,
+  resolveAoIdParam,
+} from "../../src/shared/compassQSchedule";
+import {
+  AO_CALENDAR_DEFAULT_LOOKAHEAD_DAYS,
+  buildAoCalendarIcs,
+  buildPaxCalendarIcs,
+} from "../../src/shared/aoCalendar";
+import { toPaxNameKey } from "../../src/shared/paxNames";
+import { AO_LIST, getAoById } from "../../src/ao/aoConfig";
+import {
+  WORKOUT_SESSIONS_COLLECTION_PATH,
+  getServiceAccountAccessToken,
+  isProductionRequest,
+  listCollectionDocuments,
+  listWorkoutSessionsForAo,
+  loadAoRegistry,
+  missingFirebaseConfig,
+  readServiceAccount,
+  type NetlifyEvent,
+} from "../lib/firestoreServer";
+
+/**
+ * Subscribe-able iCalendar feed for one AO:
+ *   /.netlify/functions/ao-calendar?ao=compass
+ * or for one Q across every AO ("My Qs"):
+ *   /.netlify/functions/ao-calendar?ao=all&q=Hardwood
+ * Events come from the AO's scheduleBlocks (exceptions applied) with the
+ * assigned Q from workoutSessions.
+ * Public on purpose, unlike the Q schedule API's format=ics: calendar apps
+ * subscribe to a bare URL, and the app links here for anyone who opens it.
+ */
+
+const ICS_HEADERS = {
+  "Content-Type": "text/calendar; charset=utf-8",
+  "Cache-Control": "public, max-age=900",
+};
+
+const JSON_HEADERS = {
+  "Content-Type": "application/json; charset=utf-8",
+  "Cache-Control": "no-store",
+};
+
+const jsonError = (statusCode: number, body: Record<string, unknown>) => ({
+  statusCode,
+  headers: JSON_HEADERS,
+  body: JSON.stringify({ ok: false, ...body }),
+});
+
+export const handler = async (event: NetlifyEvent) => {
+  const paxName = event.queryStringParameters?.q?.trim() || "";
+  // A Q's personal feed spans every AO unless narrowed with `ao`.
+  const requestedAo =
+    event.queryStringParameters?.ao?.trim() || (paxName ? ALL_AOS_PARAM : "compass");
+  const isAllAos = requestedAo.toLowerCase() === ALL_AOS_PARAM;
+  const lookaheadDays = parseLookaheadDays(
+    event.queryStringParameters?.lookaheadDays ??
+      String(AO_CALENDAR_DEFAULT_LOOKAHEAD_DAYS)
+  );
+  // Without fromDate each AO starts from "today" in its own time zone.
+  const requestedFromDate = event.queryStringParameters?.fromDate;
+  const fromDateIso =
+    requestedFromDate === undefined ? undefined : parseFromDate(requestedFromDate);
+
+  if (!lookaheadDays) {
+    return jsonError(400, { error: "Invalid lookaheadDays" });
+  }
+  if (fromDateIso === null) {
+    return jsonError(400, { error: "Invalid fromDate" });
+  }
+  if (paxName && !toPaxNameKey(paxName)) {
+    return jsonError(400, { error: "Invalid q" });
+  }
+  if (isAllAos && !paxName) {
+    return jsonError(400, { error: "ao=all requires q" });
+  }
+
+  const missingConfig = missingFirebaseConfig();
+  if (missingConfig.length > 0) {
+    return jsonError(500, {
+      error: "Missing Firebase configuration",
+      missing: missingConfig,
+    });
+  }
+
+  const serviceAccount = await readServiceAccount();
+  if (!serviceAccount && isProductionRequest(event)) {
+    return jsonError(500, {
+      error: "Missing Firebase service account configuration",
+    });
+  }
+
+  try {
+    const token = serviceAccount
+      ? await getServiceAccountAccessToken(serviceAccount)
+      : null;
+    await loadAoRegistry(serviceAccount, token);
+
+    const aoId = isAllAos ? null : resolveAoIdParam(requestedAo);
+    if (!isAllAos && !aoId) {
+      return jsonError(400, { error: "Unknown ao", ao: requestedAo });
+    }
+
+    // A Q's feed across every AO needs them all; one AO's feed only its own
+    const sessions = aoId
+      ? await listWorkoutSessionsForAo(serviceAccount, token, aoId)
+      : await listCollectionDocuments(serviceAccount, token, WORKOUT_SESSIONS_COLLECTION_PATH);
+    const aos = aoId ? [getAoById(aoId)] : AO_LIST;
+    const options = { fromDateIso, lookaheadDays };
+    const filename = paxName
+      ? `f3-qs-${toPaxNameKey(paxName).replace(/[^a-z0-9]/g, "")}`
+      : `f3-${aos[0].id}`;
+
+    return {
+      statusCode: 200,
+      headers: {
+        ...ICS_HEADERS,
+        "Content-Disposition": `inline; filename="${filename}.ics"`,
+      },
+      body: paxName
+        ? buildPaxCalendarIcs(paxName, sessions, options, aos)
+        : buildAoCalendarIcs(aos[0], sessions, options),
+    };
+  } catch (error) {
+    return jsonError(500, {
+      error: "Failed to build calendar",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,260 @@
+import { ALL_AOS_PARAM, resolveAoIdParam } from "../../src/shared/compassQSchedule";
+import type { SheetQField } from "../../src/shared/sheetQSchedule";
+import { getSessionSlotKey } from "../../src/utils/scheduleGenerator";
+import { getAoById, type AoConfig } from "../../src/ao/aoConfig";
+import {
+  WORKOUT_SESSIONS_COLLECTION_PATH,
+  getServiceAccountAccessToken,
+  isLocalDevRequest,
+  isProductionRequest,
+  loadAoRegistry,
+  missingFirebaseConfig,
+  readServiceAccount,
+  writeDocuments,
+  type NetlifyEvent,
+} from "../lib/firestoreServer";
+import { authorizeApiRequest, precheckApiKey } from "../lib/apiKeys";
+import {
+  historyWrite,
+  mirrorSheetSessions,
+  readAoSheet,
+  syncAllAos,
+  syncAo,
+  type FirestoreAccess,
+} from "../lib/aoSheetSync";
+import {
+  getSheetsAccessToken,
+  readSheetsServiceAccount,
+  updateSheetCell,
+} from "../lib/googleSheets";
+
+/**
+ * Q schedules kept in an AO's own Google Sheet (qSheet.googleSheetUrl):
+ *   GET  ?ao=colosseum          sheet rows as WorkoutSessions
+ *   GET  ?ao=colosseum&sync=1   same, and mirror them into workoutSessions ("q:write" key)
+ *   GET  ?ao=all                mirror every sheetSync AO ("q:write" key; the hourly
+ *                               run is ao-sheet-sync)
+ *   POST { ao, dateKey, time, q, expectedQ, editor? }
+ *        claim/release a Q on the sheet (qSheet.sheetWriteBack only; "q:write" key)
+ * The sheet stays the source of truth; workoutSessions is a copy so the
+ * schedule API, preblast and stats can see who's Q.
+ */
+
+const JSON_HEADERS = {
+  "Content-Type": "application/json; charset=utf-8",
+  "Cache-Control": "no-store",
+};
+
+const jsonError = (statusCode: number, body: Record<string, unknown>) => ({
+  statusCode,
+  headers: JSON_HEADERS,
+  body: JSON.stringify({ ok: false, ...body }),
+});
+
+// History editor for keyless write-backs (local dev before any key exists)
+const API_EDITOR = "AO sheet write-back";
+
+type WriteBackRequest = {
+  ao?: string;
+  dateKey?: string;
+  time?: string;
+  q?: string;
+  expectedQ?: string;
+  editor?: string;
+};
+
+const writeBackQ = async (
+  ao: AoConfig,
+  request: WriteBackRequest,
+  keyName: string,
+  sheetsToken: string,
+  firestore: FirestoreAccess
+) => {
+  const q = String(request.q ?? "").trim();
+  const expectedQ = String(request.expectedQ ?? "").trim();
+
+  // Re-read right before writing so we never overwrite a newer sheet edit
+  const sheet = await readAoSheet(ao, sheetsToken);
+  if (sheet.columns.q === undefined) {
+    return jsonError(422, { error: "No Q column found on the sheet" });
+  }
+  const slotKey = getSessionSlotKey({ dateKey: request.dateKey || "", time: request.time || "" });
+  const session = sheet.sessions.find((entry) => getSessionSlotKey(entry) === slotKey);
+  if (!session) {
+    return jsonError(404, { error: "That workout isn't on the sheet" });
+  }
+
+  const fields = Object.keys(sheet.columns) as SheetQField[];
+  const { idBySlot } = await mirrorSheetSessions(ao, sheet.sessions, fields, firestore);
+  if (session.q !== expectedQ) {
+    return jsonError(409, { error: "The Q changed on the sheet", currentQ: session.q });
+  }
+  if (session.q === q) {
+    return {
+      statusCode: 200,
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ ok: true, changed: false, session }),
+    };
+  }
+
+  await updateSheetCell(
+    sheet.spreadsheetId,
+    sheet.tabTitle,
+    session.sheetRow,
+    sheet.columns.q,
+    q,
+    sheetsToken
+  );
+  const id = idBySlot.get(slotKey) || session.id;
+  await writeDocuments(firestore.serviceAccount, firestore.token, [
+    { path: `${WORKOUT_SESSIONS_COLLECTION_PATH}/${id}`, data: { q } },
+    // Like compass-q-assign: History credits the key, and the caller's own
+    // `editor` is kept beside it, marked as unverified
+    historyWrite(
+      id,
+      "q",
+      session.q,
+      q,
+      keyName || API_EDITOR,
+      "api",
+      String(request.editor ?? "").trim()
+    ),
+  ]);
+
+  return {
+    statusCode: 200,
+    headers: JSON_HEADERS,
+    body: JSON.stringify({ ok: true, changed: true, session: { ...session, id, q } }),
+  };
+};
+
+const parseBody = (body: string | null | undefined): Record<string, unknown> | null => {
+  try {
+    const parsed = JSON.parse(body || "{}");
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+export const handler = async (event: NetlifyEvent) => {
+  if (event.httpMethod && !["GET", "POST"].includes(event.httpMethod)) {
+    return jsonError(405, { error: "Method not allowed" });
+  }
+  const body = event.httpMethod === "POST" ? parseBody(event.body) : {};
+  if (!body) return jsonError(400, { error: "Invalid JSON body" });
+
+  const isWriteBack = event.httpMethod === "POST";
+  const requestedAo = isWriteBack
+    ? String(body.ao ?? "").trim()
+    : event.queryStringParameters?.ao?.trim() || ALL_AOS_PARAM;
+  const isAllAos = !isWriteBack && requestedAo.toLowerCase() === ALL_AOS_PARAM;
+  const shouldSync = ["1", "true", "yes"].includes(
+    String(event.queryStringParameters?.sync || "").toLowerCase()
+  );
+
+  // Anything that writes (every AO's mirror, one AO's mirror, or its sheet)
+  // needs a "q:write" key; local dev may run without one until keys exist.
+  // Reading one AO's sheet stays open for the app's sheet table.
+  const scope = isAllAos || isWriteBack || shouldSync ? "q:write" : null;
+  const keyRequirement =
+    scope === "q:write" && !isLocalDevRequest(event) ? "required" : "ifConfigured";
+  if (scope) {
+    const precheck = precheckApiKey(event, scope, keyRequirement);
+    if (precheck) {
+      return {
+        ...jsonError(precheck.statusCode, precheck.body),
+        headers: { ...JSON_HEADERS, ...precheck.headers },
+      };
+    }
+  }
+
+  const missingConfig = missingFirebaseConfig();
+  if (missingConfig.length > 0) {
+    return jsonError(500, {
+      error: "Missing Firebase configuration",
+      missing: missingConfig,
+    });
+  }
+
+  const serviceAccount = await readServiceAccount();
+  if (!serviceAccount && isProductionRequest(event)) {
+    return jsonError(500, {
+      error: "Missing Firebase service account configuration",
+    });
+  }
+
+  try {
+    const token = serviceAccount
+      ? await getServiceAccountAccessToken(serviceAccount)
+      : null;
+    let keyName = "";
+    if (scope) {
+      const auth = await authorizeApiRequest(
+        event,
+        scope,
+        { serviceAccount, token },
+        keyRequirement
+      );
+      if (!auth.ok) {
+        return {
+          ...jsonError(auth.statusCode, auth.body),
+          headers: { ...JSON_HEADERS, ...auth.headers },
+        };
+      }
+      keyName = auth.key?.name || "";
+    }
+    await loadAoRegistry(serviceAccount, token);
+    const firestore = { serviceAccount, token };
+    const sheetsToken = await getSheetsAccessToken(await readSheetsServiceAccount(), {
+      write: isWriteBack,
+    });
+
+    if (isAllAos) {
+      const aos = await syncAllAos(sheetsToken, firestore);
+      return {
+        statusCode: 200,
+        headers: JSON_HEADERS,
+        body: JSON.stringify({ ok: aos.every((result) => result.ok), aoId: ALL_AOS_PARAM, aos }),
+      };
+    }
+
+    const aoId = resolveAoIdParam(requestedAo);
+    if (!aoId) {
+      return jsonError(400, { error: "Unknown ao", ao: requestedAo });
+    }
+    const ao = getAoById(aoId);
+    if (!ao.qSheet.sheetSync || !ao.qSheet.googleSheetUrl) {
+      return jsonError(400, { error: "Sheet sync is not turned on for this AO", ao: aoId });
+    }
+
+    if (isWriteBack) {
+      if (!ao.qSheet.sheetWriteBack) {
+        return jsonError(403, { error: "Writing back to the sheet is not turned on for this AO" });
+      }
+      return await writeBackQ(ao, body as WriteBackRequest, keyName, sheetsToken, firestore);
+    }
+
+    const { sheet, mirrored } = shouldSync
+      ? await syncAo(ao, sheetsToken, firestore)
+      : { sheet: await readAoSheet(ao, sheetsToken), mirrored: 0 };
+
+    return {
+      statusCode: 200,
+      headers: JSON_HEADERS,
+      body: JSON.stringify({
+        ok: true,
+        aoId,
+        writeBack: Boolean(ao.qSheet.sheetWriteBack),
+        columns: Object.keys(sheet.columns),
+        mirrored,
+        sessions: sheet.sessions,
+      }),
+    };
+  } catch (error) {
+    return jsonError(500, {
+      error: "Failed to read the AO's Google Sheet",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,64 @@
+import { ALL_AOS_PARAM } from "../../src/shared/compassQSchedule";
+import {
+  getServiceAccountAccessToken,
+  loadAoRegistry,
+  missingFirebaseConfig,
+  readServiceAccount,
+} from "../lib/firestoreServer";
+import { syncAllAos } from "../lib/aoSheetSync";
+import { getSheetsAccessToken, readSheetsServiceAccount } from "../lib/googleSheets";
+
+/**
+ * Hourly mirror of every sheetSync AO's Google Sheet into workoutSessions
+ * (schedule in netlify.toml). Netlify doesn't serve scheduled functions by
+ * URL, so manual syncs and the app's sheet table use ao-sheet-sessions.
+ */
+
+const JSON_HEADERS = {
+  "Content-Type": "application/json; charset=utf-8",
+  "Cache-Control": "no-store",
+};
+
+const jsonError = (statusCode: number, body: Record<string, unknown>) => ({
+  statusCode,
+  headers: JSON_HEADERS,
+  body: JSON.stringify({ ok: false, ...body }),
+});
+
+export const handler = async () => {
+  const missingConfig = missingFirebaseConfig();
+  if (missingConfig.length > 0) {
+    return jsonError(500, {
+      error: "Missing Firebase configuration",
+      missing: missingConfig,
+    });
+  }
+
+  const serviceAccount = await readServiceAccount();
+  if (!serviceAccount) {
+    return jsonError(500, {
+      error: "Missing Firebase service account configuration",
+    });
+  }
+
+  try {
+    const token = await getServiceAccountAccessToken(serviceAccount);
+    await loadAoRegistry(serviceAccount, token);
+    const sheetsToken = await getSheetsAccessToken(await readSheetsServiceAccount());
+    const aos = await syncAllAos(sheetsToken, { serviceAccount, token });
+    const failed = aos.filter((result) => !result.ok);
+    if (failed.length > 0) {
+      console.warn("Sheet sync failed for some AOs:", failed);
+    }
+    return {
+      statusCode: 200,
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ ok: failed.length === 0, aoId: ALL_AOS_PARAM, aos }),
+    };
+  } catch (error) {
+    return jsonError(500, {
+      error: "Failed to sync AO Google Sheets",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
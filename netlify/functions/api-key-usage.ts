@@ -0,0 +1,141 @@
+import { getApiKeyUsageBuckets, type ApiKeyUsageSummary } from "../../src/shared/apiKeys";
+import {
+  API_KEY_USAGE_COLLECTION_PATH,
+  getServiceAccountAccessToken,
+  isLocalDevRequest,
+  isProductionRequest,
+  listCollectionDocuments,
+  missingFirebaseConfig,
+  readServiceAccount,
+  type NetlifyEvent,
+} from "../lib/firestoreServer";
+import { authorizeApiRequest, loadApiKeys, precheckApiKey } from "../lib/apiKeys";
+
+/**
+ * Request counts per API key, for the site Q panel under Manage AOs:
+ *   GET                 last 14 days
+ *   GET ?days=30
+ *        with an API key that has the "admin" scope
+ * Names, scopes and counts only; key hashes never leave the server.
+ */
+
+const JSON_HEADERS = {
+  "Content-Type": "application/json; charset=utf-8",
+  "Cache-Control": "no-store",
+};
+
+const DEFAULT_DAYS = 14;
+const MAX_DAYS = 90;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const jsonError = (statusCode: number, body: Record<string, unknown>) => ({
+  statusCode,
+  headers: JSON_HEADERS,
+  body: JSON.stringify({ ok: false, ...body }),
+});
+
+// REST hands timestamps back as ISO strings, the web SDK as Timestamps
+const toIsoTimestamp = (value: unknown) => {
+  if (typeof value === "string" && value) return value;
+  if (value && typeof (value as { toDate?: unknown }).toDate === "function") {
+    return (value as { toDate: () => Date }).toDate().toISOString();
+  }
+  return null;
+};
+
+export const handler = async (event: NetlifyEvent) => {
+  if (event.httpMethod && event.httpMethod !== "GET") {
+    return jsonError(405, { error: "Method not allowed" });
+  }
+  const days = Math.max(
+    1,
+    Math.min(
+      Number.parseInt(event.queryStringParameters?.days || "", 10) || DEFAULT_DAYS,
+      MAX_DAYS
+    )
+  );
+
+  // Key names and usage are for admins; only local dev may skip the key
+  const keyRequirement = isLocalDevRequest(event) ? "ifConfigured" : "required";
+  const precheck = precheckApiKey(event, "admin", keyRequirement);
+  if (precheck) {
+    return {
+      ...jsonError(precheck.statusCode, precheck.body),
+      headers: { ...JSON_HEADERS, ...precheck.headers },
+    };
+  }
+
+  const missingConfig = missingFirebaseConfig();
+  if (missingConfig.length > 0) {
+    return jsonError(500, {
+      error: "Missing Firebase configuration",
+      missing: missingConfig,
+    });
+  }
+
+  const serviceAccount = await readServiceAccount();
+  if (!serviceAccount && isProductionRequest(event)) {
+    return jsonError(500, {
+      error: "Missing Firebase service account configuration",
+    });
+  }
+
+  try {
+    const token = serviceAccount
+      ? await getServiceAccountAccessToken(serviceAccount)
+      : null;
+    const auth = await authorizeApiRequest(
+      event,
+      "admin",
+      { serviceAccount, token },
+      keyRequirement
+    );
+    if (!auth.ok) {
+      return {
+        ...jsonError(auth.statusCode, auth.body),
+        headers: { ...JSON_HEADERS, ...auth.headers },
+      };
+    }
+    const keys = await loadApiKeys({ serviceAccount, token });
+    const usageById = new Map(
+      (await listCollectionDocuments(serviceAccount, token, API_KEY_USAGE_COLLECTION_PATH)).map(
+        (doc) => [doc.id, doc]
+      )
+    );
+
+    const now = Date.now();
+    const dateFields = Array.from({ length: days }, (_, index) =>
+      getApiKeyUsageBuckets(new Date(now - (days - 1 - index) * DAY_MS)).dateField
+    );
+
+    const summaries: ApiKeyUsageSummary[] = keys.map((key) => {
+      const usage: Record<string, unknown> = usageById.get(key.id) || {};
+      const byDate = (usage.byDate || {}) as Record<string, unknown>;
+      return {
+        id: key.id,
+        name: key.name,
+        scopes: key.scopes,
+        ...(key.rateLimitPerMinute ? { rateLimitPerMinute: key.rateLimitPerMinute } : {}),
+        disabled: key.disabled,
+        totalCount: Number(usage.totalCount) || 0,
+        rateLimitedCount: Number(usage.rateLimitedCount) || 0,
+        lastUsedAt: toIsoTimestamp(usage.lastUsedAt),
+        daily: dateFields.map((field) => ({
+          date: `${field.slice(1, 5)}-${field.slice(5, 7)}-${field.slice(7, 9)}`,
+          count: Number(byDate[field]) || 0,
+        })),
+      };
+    });
+
+    return {
+      statusCode: 200,
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ ok: true, days, keys: summaries }),
+    };
+  } catch (error) {
+    return jsonError(500, {
+      error: "Failed to load API key usage",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,297 @@
+import { randomUUID } from "crypto";
+import {
+  buildEffectiveWorkoutSessionsForAo,
+  dateStringToKey,
+  mapWorkoutSessionsToCompassSchedule,
+  parseFromDate,
+  resolveAoIdParam,
+} from "../../src/shared/compassQSchedule";
+import {
+  getAoTodayIsoDate,
+  getScheduleSlotsForIsoDate,
+  sessionTimeToTime24,
+} from "../../src/shared/scheduleExceptions";
+import { isoDateToLocalDate } from "../../src/shared/timeZone";
+import {
+  buildWorkoutSessionId,
+  toSessionDateLabel,
+  toSessionTime,
+} from "../../src/utils/scheduleGenerator";
+import { getAoById } from "../../src/ao/aoConfig";
+import {
+  WORKOUT_SESSIONS_COLLECTION_PATH,
+  getServiceAccountAccessToken,
+  isLocalDevRequest,
+  isProductionRequest,
+  listDocumentsWhere,
+  loadAoRegistry,
+  missingFirebaseConfig,
+  readServiceAccount,
+  runDocumentTransaction,
+  type NetlifyEvent,
+} from "../lib/firestoreServer";
+import { authorizeApiRequest, precheckApiKey } from "../lib/apiKeys";
+import { loadPaxDirectory, matchQFieldToDirectory, type PaxDirectory } from "../lib/paxDirectory";
+
+/**
+ * Assign or clear a Q from outside the app (e.g. the Apps Script sign-up form):
+ *   POST { ao, workoutDate, startTime, q, expectedQ?, editor? }
+ *        with an API key that has the "q:write" scope
+ * `q` must be PAX directory names ("" clears the slot), and the date/time has
+ * to be one of the AO's scheduled workouts. Answers with the slot's row in
+ * the compass-q-schedule shape.
+ */
+
+const JSON_HEADERS = {
+  "Content-Type": "application/json; charset=utf-8",
+  "Cache-Control": "no-store",
+};
+
+// History editor for keyless requests (local dev before any key exists)
+const API_EDITOR = "Q assignment API";
+
+// Warm instances reuse the directory; a name it doesn't know forces a reload
+const PAX_DIRECTORY_TTL_MS = 1000 * 60 * 60;
+let cachedPaxDirectory: { data: PaxDirectory; fetchedAt: number } | null = null;
+
+const getPaxDirectory = async (force = false) => {
+  if (
+    !force &&
+    cachedPaxDirectory &&
+    Date.now() - cachedPaxDirectory.fetchedAt < PAX_DIRECTORY_TTL_MS
+  ) {
+    return cachedPaxDirectory.data;
+  }
+  cachedPaxDirectory = { data: await loadPaxDirectory(), fetchedAt: Date.now() };
+  return cachedPaxDirectory.data;
+};
+
+const jsonError = (statusCode: number, body: Record<string, unknown>) => ({
+  statusCode,
+  headers: JSON_HEADERS,
+  body: JSON.stringify({ ok: false, ...body }),
+});
+
+const parseBody = (body: string | null | undefined): Record<string, unknown> | null => {
+  try {
+    const parsed = JSON.parse(body || "{}");
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+};
+
+const toText = (value: unknown) => (value == null ? "" : String(value).trim());
+
+type AssignOutcome =
+  | { conflict: true; currentQ: string }
+  | { conflict: false; changed: boolean; data: { id: string } & Record<string, unknown> };
+
+export const handler = async (event: NetlifyEvent) => {
+  if (event.httpMethod !== "POST") {
+    return jsonError(405, { error: "Method not allowed" });
+  }
+
+  const body = parseBody(event.body);
+  if (!body) return jsonError(400, { error: "Invalid JSON body" });
+
+  const requestedAo = toText(body.ao);
+  const workoutDate = parseFromDate(toText(body.workoutDate));
+  if (!workoutDate) return jsonError(400, { error: "Invalid workoutDate" });
+  const requestedTime = toText(body.startTime);
+  if (requestedTime && !/^\d{1,2}:?\d{2}$/.test(requestedTime)) {
+    return jsonError(400, { error: "Invalid startTime" });
+  }
+  if (typeof body.q !== "string") {
+    return jsonError(400, { error: "Missing q (use \"\" to clear the Q)" });
+  }
+
+  // Writes always need a key; only local dev may run without any configured
+  const keyRequirement = isLocalDevRequest(event) ? "ifConfigured" : "required";
+  const precheck = precheckApiKey(event, "q:write", keyRequirement);
+  if (precheck) {
+    return {
+      ...jsonError(precheck.statusCode, precheck.body),
+      headers: { ...JSON_HEADERS, ...precheck.headers },
+    };
+  }
+
+  const missingConfig = missingFirebaseConfig();
+  if (missingConfig.length > 0) {
+    return jsonError(500, {
+      error: "Missing Firebase configuration",
+      missing: missingConfig,
+    });
+  }
+
+  const serviceAccount = await readServiceAccount();
+  if (!serviceAccount && isProductionRequest(event)) {
+    return jsonError(500, {
+      error: "Missing Firebase service account configuration",
+    });
+  }
+
+  try {
+    const token = serviceAccount
+      ? await getServiceAccountAccessToken(serviceAccount)
+      : null;
+    const auth = await authorizeApiRequest(
+      event,
+      "q:write",
+      { serviceAccount, token },
+      keyRequirement
+    );
+    if (!auth.ok) {
+      return {
+        ...jsonError(auth.statusCode, auth.body),
+        headers: { ...JSON_HEADERS, ...auth.headers },
+      };
+    }
+    await loadAoRegistry(serviceAccount, token);
+    // Any key holder can type any name, so History credits the key; the
+    // caller's own `editor` is kept beside it, marked as unverified
+    const editor = auth.key?.name || API_EDITOR;
+    const reportedEditor = toText(body.editor);
+
+    const aoId = resolveAoIdParam(requestedAo);
+    if (!aoId) return jsonError(400, { error: "Unknown ao", ao: requestedAo });
+    const ao = getAoById(aoId);
+    if (ao.qSheet.sheetSync) {
+      // The sheet would overwrite this on its next sync
+      return jsonError(409, {
+        error: "This AO's Q schedule lives in its Google Sheet",
+        ao: aoId,
+      });
+    }
+
+    const slots = getScheduleSlotsForIsoDate(ao, workoutDate);
+    const startTime24 = requestedTime ? sessionTimeToTime24(requestedTime) : "";
+    const slot = startTime24
+      ? slots.find(
+          (entry) => entry.startTime24 === startTime24 || entry.regularStartTime24 === startTime24
+        )
+      : slots.length === 1
+        ? slots[0]
+        : undefined;
+    if (!slot) {
+      const needsTime = !startTime24 && slots.length > 1;
+      return jsonError(422, {
+        error: needsTime
+          ? "startTime is required on days with more than one workout"
+          : "No workout on the schedule at that date and time",
+        workoutDate,
+        scheduledStartTimes: slots.map((entry) => entry.startTime24),
+      });
+    }
+    if (!slot.isHappening) {
+      return jsonError(422, { error: "That workout isn't happening", label: slot.label || "" });
+    }
+    if (workoutDate < getAoTodayIsoDate(ao)) {
+      return jsonError(422, { error: "That workout is in the past" });
+    }
+
+    let directory = await getPaxDirectory();
+    let match = matchQFieldToDirectory(directory, aoId, body.q);
+    if (match.unknown.length > 0) {
+      directory = await getPaxDirectory(true);
+      match = matchQFieldToDirectory(directory, aoId, body.q);
+    }
+    if (match.unknown.length > 0) {
+      return jsonError(422, { error: "Not in the PAX directory", names: match.unknown });
+    }
+    const q = match.names.join(" & ");
+
+    // Sessions are stored under the slot's regular time, like the generator writes them
+    const dateKey = workoutDate.replace(/-/g, "");
+    const time = toSessionTime(slot.regularStartTime24);
+    // Only that day's docs; which one holds the slot can differ from the generated id
+    const persisted = await listDocumentsWhere(
+      serviceAccount,
+      token,
+      WORKOUT_SESSIONS_COLLECTION_PATH,
+      "dateKey",
+      dateKey
+    );
+    const session = buildEffectiveWorkoutSessionsForAo(aoId, persisted).sessions.find(
+      (entry) =>
+        (entry.dateKey || dateStringToKey(entry.date)) === dateKey &&
+        toSessionTime(entry.time || "") === time
+    );
+    const id = session?.id || buildWorkoutSessionId(aoId, dateKey, time);
+
+    // The Q check and the write are one transaction, so a claim made in the app
+    // after the read above can't be overwritten
+    const outcome = await runDocumentTransaction<AssignOutcome>(
+      serviceAccount,
+      token,
+      `${WORKOUT_SESSIONS_COLLECTION_PATH}/${id}`,
+      (current) => {
+        // A bundled Compass session has no doc until its first edit
+        const currentQ = toText(current && "q" in current ? current.q : session?.q);
+        // Without expectedQ, an assignment only lands on an open slot (or its own)
+        const expectedQ =
+          body.expectedQ === undefined ? (q ? "" : currentQ) : toText(body.expectedQ);
+        if (currentQ !== expectedQ && currentQ !== q) {
+          return { writes: [], result: { conflict: true, currentQ } };
+        }
+
+        const data: Record<string, unknown> = { q, aoId, dateKey, time };
+        if (!current) {
+          Object.assign(data, {
+            date: session?.date || toSessionDateLabel(isoDateToLocalDate(workoutDate)),
+            notes: session?.notes || "",
+            dbj: session?.dbj || "",
+            food: session?.food || "",
+          });
+        }
+        const changed = currentQ !== q;
+        return {
+          writes: changed
+            ? [
+                { path: `${WORKOUT_SESSIONS_COLLECTION_PATH}/${id}`, data },
+                {
+                  path: `${WORKOUT_SESSIONS_COLLECTION_PATH}/${id}/history/${randomUUID().replace(/-/g, "")}`,
+                  data: {
+                    field: "q",
+                    oldValue: currentQ,
+                    newValue: q,
+                    editor,
+                    ...(reportedEditor ? { unverifiedEditor: reportedEditor } : {}),
+                    changedAt: new Date(),
+                    source: "api",
+                  },
+                },
+              ]
+            : [],
+          result: { conflict: false, changed, data: { ...(current || {}), ...data, id } },
+        };
+      }
+    );
+    if (outcome.conflict) {
+      return jsonError(409, {
+        error: "That workout already has a different Q",
+        currentQ: outcome.currentQ,
+      });
+    }
+    const { changed } = outcome;
+
+    const updated = [...persisted.filter((doc) => doc.id !== id), outcome.data];
+    const row = mapWorkoutSessionsToCompassSchedule(updated, {
+      aoId,
+      fromDateIso: workoutDate,
+      lookaheadDays: 1,
+      includeOpen: true,
+    }).find((entry) => entry.startTime === slot.startTime24);
+
+    return {
+      statusCode: 200,
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ ok: true, changed, row: row ?? null }),
+    };
+  } catch (error) {
+    return jsonError(500, {
+      error: "Failed to update the Q",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -1,26 +1,39 @@
-import fs from "fs/promises";
-import path from "path";
-import { JWT } from "google-auth-library";
-import { initializeApp, getApps, type FirebaseOptions } from "firebase/app";
-import { collection, getDocs, getFirestore } from "firebase/firestore/lite";
+import { collection, getDocs } from "firebase/firestore/lite";
 import {
+  ALL_AOS_PARAM,
   type CompassQScheduleDiagnostics,
-  getCompassScheduleTodayIsoDate,
+  mapWorkoutSessionsToAllAoSchedules,
   mapWorkoutSessionsToCompassScheduleWithDiagnostics,
   parseFromDate,
+  parseIncludeOpen,
   parseLookaheadDays,
+  resolveAoIdParam,
 } from "../../src/shared/compassQSchedule";
-
-type NetlifyEvent = {
-  headers?: Record<string, string | undefined> | null;
-  queryStringParameters?: Record<string, string | undefined> | null;
-};
-
-type ServiceAccount = {
-  project_id: string;
-  client_email: string;
-  private_key: string;
-};
+import { getAoById } from "../../src/ao/aoConfig";
+import {
+  Q_SCHEDULE_CONTENT_TYPES,
+  parseScheduleFormat,
+  renderQSchedule,
+} from "../../src/shared/qScheduleFormats";
+import {
+  FIREBASE_CONFIG,
+  FIRESTORE_DATABASE_ID,
+  WORKOUT_SESSIONS_COLLECTION_PATH as COLLECTION_PATH,
+  firebaseConfigPresent,
+  flattenRestDocument,
+  getServiceAccountAccessToken,
+  getServiceAccountProjectId,
+  getWebSdkFirestore,
+  isLocalDevRequest,
+  isProductionRequest,
+  listCollectionDocumentsWithRest,
+  loadAoRegistry,
+  missingFirebaseConfig,
+  readServiceAccount,
+  type NetlifyEvent,
+  type ServiceAccount,
+} from "../lib/firestoreServer";
+import { authorizeApiRequest, precheckApiKey } from "../lib/apiKeys";
 
 type Diagnostics = {
   mode: "local" | "production";
@@ -43,6 +56,8 @@ type Diagnostics = {
   rawDoc74?: Record<string, unknown> | null;
   flattenedDoc74?: Record<string, unknown> | null;
   docCount?: number;
+  aoRegistrySource?: "firestore" | "bundled";
+  diagnosticsByAo?: Record<string, CompassQScheduleDiagnostics>;
 } & Partial<CompassQScheduleDiagnostics>;
 
 const JSON_HEADERS = {
@@ -50,50 +65,6 @@ const JSON_HEADERS = {
   "Cache-Control": "no-store",
 };
 
-const COLLECTION_PATH = "workoutSessions";
-const DEFAULT_LOCAL_SERVICE_ACCOUNT_PATH = "serviceAccountKey.json";
-const FIRESTORE_DATABASE_ID = process.env.FIRESTORE_DATABASE_ID || "(default)";
-
-const FIREBASE_CONFIG: FirebaseOptions = {
-  apiKey: process.env.VITE_FIREBASE_API_KEY,
-  authDomain: process.env.VITE_FIREBASE_AUTH_DOMAIN,
-  projectId: process.env.VITE_FIREBASE_PROJECT_ID,
-  storageBucket: process.env.VITE_FIREBASE_STORAGE_BUCKET,
-  messagingSenderId: process.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
-  appId: process.env.VITE_FIREBASE_APP_ID,
-};
-
-const getFirebaseApp = () => {
-  const existing = getApps()[0];
-  if (existing) return existing;
-  return initializeApp(FIREBASE_CONFIG);
-};
-
-const isLocalDevRequest = (event: NetlifyEvent) => {
-  const host = event.headers?.host || "";
-  return (
-    process.env.NETLIFY_DEV === "true" ||
-    host.includes("localhost") ||
-    host.includes("127.0.0.1")
-  );
-};
-
-const isProductionRequest = (event: NetlifyEvent) => !isLocalDevRequest(event);
-
-const firebaseConfigPresent = () => ({
-  apiKey: Boolean(FIREBASE_CONFIG.apiKey),
-  authDomain: Boolean(FIREBASE_CONFIG.authDomain),
-  projectId: Boolean(FIREBASE_CONFIG.projectId),
-  storageBucket: Boolean(FIREBASE_CONFIG.storageBucket),
-  messagingSenderId: Boolean(FIREBASE_CONFIG.messagingSenderId),
-  appId: Boolean(FIREBASE_CONFIG.appId),
-});
-
-const missingFirebaseConfig = () =>
-  Object.entries(FIREBASE_CONFIG)
-    .filter(([, value]) => !value)
-    .map(([key]) => key);
-
 const buildDiagnostics = (
   event: NetlifyEvent,
   overrides?: Partial<Diagnostics>
@@ -127,148 +98,18 @@ const withDiagnostics = (
   return { ...body, diagnostics };
 };
 
-const readServiceAccount = async (): Promise<ServiceAccount | null> => {
-  if (process.env.FIREBASE_SERVICE_ACCOUNT_JSON) {
-    return JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_JSON) as ServiceAccount;
-  }
-
-  if (process.env.GOOGLE_SHEETS_SERVICE_ACCOUNT_JSON) {
-    return JSON.parse(process.env.GOOGLE_SHEETS_SERVICE_ACCOUNT_JSON) as ServiceAccount;
-  }
-
-  const configuredPath =
-    process.env.FIREBASE_SERVICE_ACCOUNT_PATH || DEFAULT_LOCAL_SERVICE_ACCOUNT_PATH;
-  const fullPath = path.isAbsolute(configuredPath)
-    ? configuredPath
-    : path.join(process.cwd(), configuredPath);
-
-  try {
-    const raw = await fs.readFile(fullPath, "utf8");
-    return JSON.parse(raw) as ServiceAccount;
-  } catch {
-    return null;
-  }
-};
-
-const getServiceAccountAccessToken = async (serviceAccount: ServiceAccount) => {
-  const client = new JWT({
-    email: serviceAccount.client_email,
-    key: serviceAccount.private_key,
-    scopes: ["https://www.googleapis.com/auth/datastore"],
-  });
-  const { access_token } = await client.authorize();
-  if (!access_token) {
-    throw new Error("Failed to obtain Firestore access token from service account.");
-  }
-  return access_token;
-};
-
-type FirestoreValue =
-  | {
-      stringValue?: string;
-      integerValue?: string;
-      doubleValue?: number;
-      booleanValue?: boolean;
-      nullValue?: null;
-      timestampValue?: string;
-      mapValue?: { fields?: Record<string, FirestoreValue> };
-      arrayValue?: { values?: FirestoreValue[] };
-    }
-  | undefined;
-
-const decodeFirestoreValue = (value: FirestoreValue): unknown => {
-  if (!value) return "";
-  if ("stringValue" in value && value.stringValue !== undefined) return value.stringValue;
-  if ("integerValue" in value && value.integerValue !== undefined) return value.integerValue;
-  if ("doubleValue" in value && value.doubleValue !== undefined) return value.doubleValue;
-  if ("booleanValue" in value && value.booleanValue !== undefined) return value.booleanValue;
-  if ("timestampValue" in value && value.timestampValue !== undefined) return value.timestampValue;
-  if ("nullValue" in value) return null;
-  if ("mapValue" in value && value.mapValue !== undefined) {
-    const fields = value.mapValue.fields || {};
-    return Object.fromEntries(
-      Object.entries(fields).map(([key, nestedValue]) => [key, decodeFirestoreValue(nestedValue)])
-    );
-  }
-  if ("arrayValue" in value && value.arrayValue !== undefined) {
-    return (value.arrayValue.values || []).map((entry) => decodeFirestoreValue(entry));
-  }
-  return "";
-};
-
 const listWorkoutSessionsWithServiceAccount = async (
-  serviceAccount: ServiceAccount
+  serviceAccount: ServiceAccount,
+  token: string
 ) => {
-  const projectId = FIREBASE_CONFIG.projectId || serviceAccount.project_id;
-  const token = await getServiceAccountAccessToken(serviceAccount);
-  const allDocuments: Array<{
-    name?: string;
-    fields?: Record<string, FirestoreValue>;
-  }> = [];
-  const restDocsPerPage: number[] = [];
-  let nextPageToken: string | undefined;
-  let restPageCount = 0;
+  const projectId = getServiceAccountProjectId(serviceAccount);
+  const { documents, restPageCount, restDocsPerPage } =
+    await listCollectionDocumentsWithRest(token, projectId, COLLECTION_PATH);
 
-  do {
-    const url = new URL(
-      `https://firestore.googleapis.com/v1/projects/${projectId}/databases/${FIRESTORE_DATABASE_ID}/documents/${COLLECTION_PATH}`
-    );
-    url.searchParams.set("pageSize", "1000");
-    if (nextPageToken) {
-      url.searchParams.set("pageToken", nextPageToken);
-    }
-
-    const res = await fetch(url, {
-      headers: { Authorization: `Bearer ${token}` },
-    });
-
-    if (!res.ok) {
-      const text = await res.text();
-      throw new Error(`Firestore REST error: ${res.status} ${text}`);
-    }
-
-    const json = (await res.json()) as {
-      documents?: Array<{
-        name?: string;
-        fields?: Record<
-          string,
-          {
-            stringValue?: string;
-            integerValue?: string;
-            doubleValue?: number;
-            booleanValue?: boolean;
-            nullValue?: null;
-            timestampValue?: string;
-            mapValue?: { fields?: Record<string, FirestoreValue> };
-            arrayValue?: { values?: FirestoreValue[] };
-          }
-        >;
-      }>;
-      nextPageToken?: string;
-    };
-
-    const documents = json.documents || [];
-    allDocuments.push(...documents);
-    restDocsPerPage.push(documents.length);
-    restPageCount += 1;
-    nextPageToken = json.nextPageToken;
-  } while (nextPageToken);
-
-  const documents = allDocuments;
   const rawDoc74 =
     documents.find((doc) => doc.name?.split("/").pop() === "74") || null;
 
-  const sessions = documents.map((doc) => {
-    const fields = doc.fields || {};
-    const idFromPath = doc.name?.split("/").pop() || "";
-    const flattenedFields = Object.fromEntries(
-      Object.entries(fields).map(([key, value]) => [key, decodeFirestoreValue(value)])
-    );
-    return {
-      ...flattenedFields,
-      id: (decodeFirestoreValue(fields.id) as string) || idFromPath,
-    };
-  });
+  const sessions = documents.map(flattenRestDocument);
   const flattenedDoc74 =
     (sessions.find((session) => String(session.id) === "74") as Record<string, unknown> | undefined) ||
     null;
@@ -296,11 +137,7 @@ const listWorkoutSessionsWithServiceAccount = async (
 };
 
 const listWorkoutSessionsWithWebSdk = async () => {
-  const db =
-    FIRESTORE_DATABASE_ID === "(default)"
-      ? getFirestore(getFirebaseApp())
-      : getFirestore(getFirebaseApp(), FIRESTORE_DATABASE_ID);
-  const snapshot = await getDocs(collection(db, COLLECTION_PATH));
+  const snapshot = await getDocs(collection(getWebSdkFirestore(), COLLECTION_PATH));
   const sessions = snapshot.docs.map((doc) => ({
     id: doc.id,
     ...(doc.data() as Record<string, unknown>),
@@ -322,19 +159,29 @@ const listWorkoutSessionsWithWebSdk = async () => {
 };
 
 export const handler = async (event: NetlifyEvent) => {
-  const requiredKey = process.env.Q_SCHEDULE_API_KEY;
-  const providedKey = event.queryStringParameters?.key;
+  // `ao` defaults to Compass so existing callers keep working; `ao=all` spans every AO.
+  const requestedAo = event.queryStringParameters?.ao?.trim() || "compass";
+  const lookaheadDays = parseLookaheadDays(
+    event.queryStringParameters?.lookaheadDays
+  );
+  const includeOpen = parseIncludeOpen(event.queryStringParameters?.includeOpen);
+  // json (default), csv for IMPORTDATA, text for a ready-to-post message, or ics
+  const format = parseScheduleFormat(event.queryStringParameters?.format);
+  // Without fromDate each AO's window starts on "today" in its own time zone.
+  const requestedFromDate = event.queryStringParameters?.fromDate;
+  const fromDateIso =
+    requestedFromDate === undefined ? undefined : parseFromDate(requestedFromDate);
 
-  if (requiredKey && providedKey !== requiredKey) {
+  if (!lookaheadDays) {
     return {
-      statusCode: 401,
+      statusCode: 400,
       headers: JSON_HEADERS,
       body: JSON.stringify(
         withDiagnostics(
           event,
           {
             ok: false,
-            error: "Unauthorized",
+            error: "Invalid lookaheadDays",
           },
           buildDiagnostics(event)
         )
@@ -342,16 +189,7 @@ export const handler = async (event: NetlifyEvent) => {
     };
   }
 
-  const lookaheadDays = parseLookaheadDays(
-    event.queryStringParameters?.lookaheadDays
-  );
-  const requestedFromDate = event.queryStringParameters?.fromDate;
-  const fromDateIso =
-    requestedFromDate === undefined
-      ? getCompassScheduleTodayIsoDate()
-      : parseFromDate(requestedFromDate);
-
-  if (!lookaheadDays) {
+  if (!format) {
     return {
       statusCode: 400,
       headers: JSON_HEADERS,
@@ -360,7 +198,8 @@ export const handler = async (event: NetlifyEvent) => {
           event,
           {
             ok: false,
-            error: "Invalid lookaheadDays",
+            error: "Invalid format",
+            format: event.queryStringParameters?.format,
           },
           buildDiagnostics(event)
         )
@@ -385,6 +224,17 @@ export const handler = async (event: NetlifyEvent) => {
     };
   }
 
+  const precheck = precheckApiKey(event, "schedule:read");
+  if (precheck) {
+    return {
+      statusCode: precheck.statusCode,
+      headers: { ...JSON_HEADERS, ...precheck.headers },
+      body: JSON.stringify(
+        withDiagnostics(event, { ok: false, ...precheck.body }, buildDiagnostics(event))
+      ),
+    };
+  }
+
   const missingConfig = missingFirebaseConfig();
   if (missingConfig.length > 0) {
     return {
@@ -431,15 +281,78 @@ export const handler = async (event: NetlifyEvent) => {
   }
 
   try {
-    const result = serviceAccount
-      ? await listWorkoutSessionsWithServiceAccount(serviceAccount)
-      : await listWorkoutSessionsWithWebSdk();
+    const token = serviceAccount
+      ? await getServiceAccountAccessToken(serviceAccount)
+      : null;
+    const auth = await authorizeApiRequest(event, "schedule:read", { serviceAccount, token });
+    if (!auth.ok) {
+      return {
+        statusCode: auth.statusCode,
+        headers: { ...JSON_HEADERS, ...auth.headers },
+        body: JSON.stringify(
+          withDiagnostics(event, { ok: false, ...auth.body }, baseDiagnostics)
+        ),
+      };
+    }
+    const aoRegistrySource = await loadAoRegistry(serviceAccount, token);
+
+    const isAllAos = requestedAo.toLowerCase() === ALL_AOS_PARAM;
+    const aoId = isAllAos ? null : resolveAoIdParam(requestedAo);
+    if (!isAllAos && !aoId) {
+      return {
+        statusCode: 400,
+        headers: JSON_HEADERS,
+        body: JSON.stringify(
+          withDiagnostics(
+            event,
+            {
+              ok: false,
+              error: "Unknown ao",
+              ao: requestedAo,
+            },
+            { ...baseDiagnostics, aoRegistrySource }
+          )
+        ),
+      };
+    }
 
-    const mapped = mapWorkoutSessionsToCompassScheduleWithDiagnostics(result.sessions, {
-      lookaheadDays,
-      fromDateIso,
-    });
-    const { schedule, diagnostics: parserDiagnostics } = mapped;
+    const result =
+      serviceAccount && token
+        ? await listWorkoutSessionsWithServiceAccount(serviceAccount, token)
+        : await listWorkoutSessionsWithWebSdk();
+
+    const mapped = aoId
+      ? mapWorkoutSessionsToCompassScheduleWithDiagnostics(result.sessions, {
+          aoId,
+          lookaheadDays,
+          fromDateIso: fromDateIso ?? undefined,
+          includeOpen,
+        })
+      : null;
+    const allAos = aoId
+      ? null
+      : mapWorkoutSessionsToAllAoSchedules(result.sessions, {
+          lookaheadDays,
+          fromDateIso: fromDateIso ?? undefined,
+          includeOpen,
+        });
+    const schedule = mapped?.schedule ?? allAos?.schedule ?? [];
+    const parserDiagnostics = mapped?.diagnostics;
+    const aoName = aoId ? getAoById(aoId).displayName : "All AOs";
+
+    if (format !== "json") {
+      return {
+        statusCode: 200,
+        headers: {
+          "Content-Type": Q_SCHEDULE_CONTENT_TYPES[format],
+          "Cache-Control": "no-store",
+          ...(format === "ics"
+            ? { "Content-Disposition": `inline; filename="f3-qs-${aoId ?? ALL_AOS_PARAM}.ics"` }
+            : {}),
+        },
+        body: renderQSchedule(format, schedule, { aoName, lookaheadDays }),
+      };
+    }
 
     return {
       statusCode: 200,
@@ -449,13 +362,16 @@ export const handler = async (event: NetlifyEvent) => {
           event,
           {
             ok: true,
-            aoId: "compass",
-            aoName: "Compass at Lost Creek",
+            aoId: aoId ?? ALL_AOS_PARAM,
+            aoName,
             lookaheadDays,
+            includeOpen,
             schedule,
           },
           {
             ...baseDiagnostics,
+            aoRegistrySource,
+            diagnosticsByAo: allAos?.diagnosticsByAo,
             firestoreProjectId: result.projectId,
             docCount: result.docCount,
             restPageCount: result.restPageCount,
@@ -478,7 +394,7 @@ export const handler = async (event: NetlifyEvent) => {
           event,
           {
             ok: false,
-            error: "Failed to load Compass Q schedule",
+            error: "Failed to load Q schedule",
             message: error instanceof Error ? error.message : String(error),
           },
           baseDiagnostics
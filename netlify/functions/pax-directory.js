@@ -1,196 +1,113 @@
-import fs from "fs/promises";
-import path from "path";
-import { fileURLToPath } from "url";
-import { JWT } from "google-auth-library";
-
-const CACHE_TTL_MS = 1000 * 60 * 60 * 24 * 7; // 7 days
-let cached = null;
-
-const DEFAULT_SHEET_ID = "1y-u2voNBG6aQeqrO4ec0zma1N_1LHdasHRm6kjOxrk4";
-const DEFAULT_LOCAL_SA_PATH = ".secrets/google-sheets-service-account.json";
-
-const normalizeHeader = (value) =>
-  String(value || "")
-    .trim()
-    .toLowerCase()
-    .replace(/\s+/g, "")
-    .replace(/_/g, "");
-
-const normalizeString = (value) => String(value || "").trim();
-
-const isActiveValue = (value) => {
-  const v = normalizeString(value).toLowerCase();
-  return v === "true" || v === "yes" || v === "y" || v === "1";
-};
-
-const isAllowedRelationship = (value) => {
-  const v = normalizeString(value).toLowerCase();
-  return v === "home" || v === "regular";
-};
-
-const mapAoNameToId = (value) => {
-  const v = normalizeString(value);
-  const low = v.toLowerCase();
-  if (low === "colosseum") return "colosseum";
-  if (low === "compass at lost creek") return "compass";
-  if (low === "gator bay") return "gatorbay";
-  if (low === "jurassic park") return "jurassicpark";
-  if (low === "phoenix rising") return "phoenixrising";
-  if (low === "smoked grove" || low === "smoaked grove") return "smoakedgrove";
-  if (low === "the hill") return "thehill";
-  if (low === "the shadows") return "theshadows";
-  return null;
+import { createHash } from "crypto";
+import { authorizeApiRequest, precheckApiKey, readPresentedApiKey } from "../lib/apiKeys";
+import { getServiceAccountAccessToken, readServiceAccount } from "../lib/firestoreServer";
+import { loadPaxDirectory } from "../lib/paxDirectory";
+
+/**
+ * PAX names by AO from the PAX sheet:
+ *   GET                          -> { updatedAt, paxByAo, bandNameByF3Name, cached }
+ *   GET ?refresh=1               -> reloads the sheet first
+ *   GET with If-None-Match: etag -> 304 while the names haven't changed
+ */
+
+// Served from memory as-is for 10 minutes; after that the stale copy is
+// still served (up to 7 days) while a single Sheets reload runs behind it.
+const FRESH_MS = 1000 * 60 * 10;
+const MAX_STALE_MS = 1000 * 60 * 60 * 24 * 7; // 7 days
+let cached = null; // { data, etag, fetchedAt }
+let refreshing = null;
+
+// Hash of the names only, so a reload that finds nothing new keeps the same ETag
+const hashDirectory = (data) =>
+  `"${createHash("sha256")
+    .update(JSON.stringify([data.paxByAo, data.bandNameByF3Name]))
+    .digest("hex")
+    .slice(0, 32)}"`;
+
+const refreshDirectory = () => {
+  refreshing =
+    refreshing ||
+    loadPaxDirectory()
+      .then((data) => {
+        cached = { data, etag: hashDirectory(data), fetchedAt: Date.now() };
+        return cached;
+      })
+      .finally(() => {
+        refreshing = null;
+      });
+  return refreshing;
 };
 
-const readServiceAccount = async () => {
-  if (process.env.GOOGLE_SHEETS_SERVICE_ACCOUNT_JSON) {
-    return JSON.parse(process.env.GOOGLE_SHEETS_SERVICE_ACCOUNT_JSON);
-  }
-
-  const envPath = process.env.GOOGLE_SHEETS_SERVICE_ACCOUNT_PATH;
-  const relPath = envPath || DEFAULT_LOCAL_SA_PATH;
-  const cwd = process.cwd();
-  const fullPath = path.isAbsolute(relPath)
-    ? relPath
-    : path.join(cwd, relPath);
+// If-None-Match may list several tags, weakened (W/) by compression along the way
+const matchesEtag = (header, etag) =>
+  String(header || "")
+    .split(",")
+    .map((tag) => tag.trim().replace(/^W\//, ""))
+    .some((tag) => tag === etag || tag === "*");
 
+export const handler = async (event) => {
   try {
-    const raw = await fs.readFile(fullPath, "utf8");
-    return JSON.parse(raw);
-  } catch (err) {
-    throw new Error(
-      `Service account JSON not found. Set GOOGLE_SHEETS_SERVICE_ACCOUNT_JSON or GOOGLE_SHEETS_SERVICE_ACCOUNT_PATH. Tried: ${fullPath}`
-    );
-  }
-};
-
-const getAccessToken = async (serviceAccount) => {
-  const client = new JWT({
-    email: serviceAccount.client_email,
-    key: serviceAccount.private_key,
-    scopes: ["https://www.googleapis.com/auth/spreadsheets.readonly"],
-  });
-  const { access_token } = await client.authorize();
-  if (!access_token) throw new Error("Failed to obtain access token.");
-  return access_token;
-};
-
-const fetchSheetValues = async (sheetId, tabName, token) => {
-  const encoded = encodeURIComponent(tabName);
-  const url = `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${encoded}?majorDimension=ROWS`;
-  const res = await fetch(url, {
-    headers: { Authorization: `Bearer ${token}` },
-  });
-
-  if (!res.ok) {
-    const text = await res.text();
-    throw new Error(`Google Sheets API error: ${res.status} ${text}`);
-  }
-
-  const json = await res.json();
-  return json.values || [];
-};
-
-const parsePaxTab = (rows) => {
-  if (!rows.length) return {};
-  const headers = rows[0].map(normalizeHeader);
-  const idxId = headers.indexOf("paxid");
-  const idxNickname = headers.indexOf("f3nickname");
-  const idxBand = headers.indexOf("banddisplayname");
-
-  const byId = {};
-  for (const row of rows.slice(1)) {
-    const id = normalizeString(row[idxId]);
-    if (!id) continue;
-    const f3Name = normalizeString(row[idxNickname]);
-    if (!f3Name) continue;
-    const bandName = normalizeString(row[idxBand]) || f3Name;
-    byId[id] = { f3Name, bandName };
-  }
-  return byId;
-};
-
-const parsePaxAoTab = (rows, paxById) => {
-  if (!rows.length) return { paxByAo: {}, bandNameByF3Name: {} };
-  const headers = rows[0].map(normalizeHeader);
-  const idxId = headers.indexOf("paxid");
-  const idxHomeAo = headers.indexOf("homeao");
-  const idxRelationship = headers.indexOf("relationship");
-  const idxActive = headers.indexOf("active");
-
-  const paxByAo = {};
-  const bandNameByF3Name = {};
-
-  for (const row of rows.slice(1)) {
-    const paxId = normalizeString(row[idxId]);
-    if (!paxId) continue;
-    if (!isActiveValue(row[idxActive])) continue;
-    if (!isAllowedRelationship(row[idxRelationship])) continue;
-
-    const aoId = mapAoNameToId(row[idxHomeAo]);
-    if (!aoId) continue;
-
-    const pax = paxById[paxId];
-    if (!pax) continue;
-
-    if (!paxByAo[aoId]) paxByAo[aoId] = [];
-    if (!paxByAo[aoId].includes(pax.f3Name)) {
-      paxByAo[aoId].push(pax.f3Name);
-    }
-
-    if (!bandNameByF3Name[pax.f3Name]) {
-      bandNameByF3Name[pax.f3Name] = pax.bandName;
+    // The app reads the directory without a key; other consumers send a
+    // "pax:read" key so they're counted, rate limited and can be revoked
+    if (readPresentedApiKey(event)) {
+      const precheck = precheckApiKey(event, "pax:read", "optional");
+      if (precheck) {
+        return {
+          statusCode: precheck.statusCode,
+          headers: { "Content-Type": "application/json", ...precheck.headers },
+          body: JSON.stringify(precheck.body),
+        };
+      }
+      const serviceAccount = await readServiceAccount();
+      const token = serviceAccount
+        ? await getServiceAccountAccessToken(serviceAccount)
+        : null;
+      const auth = await authorizeApiRequest(
+        event,
+        "pax:read",
+        { serviceAccount, token },
+        "optional"
+      );
+      if (!auth.ok) {
+        return {
+          statusCode: auth.statusCode,
+          headers: { "Content-Type": "application/json", ...auth.headers },
+          body: JSON.stringify(auth.body),
+        };
+      }
     }
-  }
-
-  Object.values(paxByAo).forEach((list) => list.sort());
 
-  return { paxByAo, bandNameByF3Name };
-};
-
-const loadPaxDirectory = async () => {
-  const sheetId = process.env.PAX_SHEET_ID || DEFAULT_SHEET_ID;
-  const serviceAccount = await readServiceAccount();
-  const token = await getAccessToken(serviceAccount);
-
-  const paxRows = await fetchSheetValues(sheetId, "PAX", token);
-  const paxById = parsePaxTab(paxRows);
-  const paxAoRows = await fetchSheetValues(sheetId, "PAX_AO", token);
-  const { paxByAo, bandNameByF3Name } = parsePaxAoTab(paxAoRows, paxById);
-
-  return {
-    sheetId,
-    updatedAt: new Date().toISOString(),
-    paxByAo,
-    bandNameByF3Name,
-  };
-};
-
-export const handler = async (event) => {
-  try {
     const forceRefresh =
       event?.queryStringParameters?.refresh === "1" ||
       event?.queryStringParameters?.force === "1";
 
-    if (
-      !forceRefresh &&
-      cached &&
-      Date.now() - cached.fetchedAt < CACHE_TTL_MS
-    ) {
-      return {
-        statusCode: 200,
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ ...cached.data, cached: true }),
-      };
+    const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+    let entry = cached;
+    let cacheStatus = age < FRESH_MS ? "fresh" : "stale";
+    if (forceRefresh || !cached || age > MAX_STALE_MS) {
+      entry = await refreshDirectory();
+      cacheStatus = "miss";
+    } else if (cacheStatus === "stale") {
+      // A frozen instance picks this up again on its next request
+      refreshDirectory().catch((err) => console.warn("PAX directory refresh failed:", err));
     }
 
-    const data = await loadPaxDirectory();
-    cached = { data, fetchedAt: Date.now() };
+    const headers = {
+      "Content-Type": "application/json",
+      ETag: entry.etag,
+      // Browsers may keep it, but must revalidate (If-None-Match) before using it
+      "Cache-Control": "private, no-cache",
+      "X-Pax-Directory-Cache": cacheStatus,
+    };
+    const ifNoneMatch = event?.headers?.["if-none-match"] || event?.headers?.["If-None-Match"];
+    if (matchesEtag(ifNoneMatch, entry.etag)) {
+      return { statusCode: 304, headers, body: "" };
+    }
 
     return {
       statusCode: 200,
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ ...data, cached: false }),
+      headers,
+      body: JSON.stringify({ ...entry.data, cached: cacheStatus !== "miss" }),
     };
   } catch (err) {
     return {
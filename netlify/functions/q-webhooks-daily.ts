@@ -0,0 +1,61 @@
+import {
+  getServiceAccountAccessToken,
+  loadAoRegistry,
+  missingFirebaseConfig,
+  readServiceAccount,
+} from "../lib/firestoreServer";
+import { runQWebhooks } from "../lib/qWebhookRun";
+
+/**
+ * Daily "tomorrow's Q" post to every subscribed webhook (schedule in
+ * netlify.toml). Netlify doesn't serve scheduled functions by URL, so manual
+ * and dry runs go through q-webhooks.
+ */
+
+const JSON_HEADERS = {
+  "Content-Type": "application/json; charset=utf-8",
+  "Cache-Control": "no-store",
+};
+
+const jsonError = (statusCode: number, body: Record<string, unknown>) => ({
+  statusCode,
+  headers: JSON_HEADERS,
+  body: JSON.stringify({ ok: false, ...body }),
+});
+
+export const handler = async () => {
+  const missingConfig = missingFirebaseConfig();
+  if (missingConfig.length > 0) {
+    return jsonError(500, {
+      error: "Missing Firebase configuration",
+      missing: missingConfig,
+    });
+  }
+
+  const serviceAccount = await readServiceAccount();
+  if (!serviceAccount) {
+    return jsonError(500, {
+      error: "Missing Firebase service account configuration",
+    });
+  }
+
+  try {
+    const token = await getServiceAccountAccessToken(serviceAccount);
+    await loadAoRegistry(serviceAccount, token);
+    const results = await runQWebhooks({ serviceAccount, token }, { aoId: null });
+    const failed = results.filter((result) => result.status === "failed");
+    if (failed.length > 0) {
+      console.warn("Some Q webhooks failed:", failed);
+    }
+    return {
+      statusCode: 200,
+      headers: JSON_HEADERS,
+      body: JSON.stringify({ ok: failed.length === 0, dryRun: false, results }),
+    };
+  } catch (error) {
+    return jsonError(500, {
+      error: "Failed to send Q webhooks",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,125 @@
+import {
+  ALL_AOS_PARAM,
+  parseFromDate,
+  resolveAoIdParam,
+} from "../../src/shared/compassQSchedule";
+import {
+  getServiceAccountAccessToken,
+  isLocalDevRequest,
+  isProductionRequest,
+  loadAoRegistry,
+  missingFirebaseConfig,
+  readServiceAccount,
+  type NetlifyEvent,
+} from "../lib/firestoreServer";
+import { authorizeApiRequest, precheckApiKey } from "../lib/apiKeys";
+import { runQWebhooks } from "../lib/qWebhookRun";
+
+/**
+ * Posts tomorrow's Qs to every subscribed webhook (qWebhooks docs), by hand:
+ *   GET ?key=...                 post now ("admin" key)
+ *   GET ?ao=compass&dryRun=1     build the payloads without posting them ("schedule:read")
+ * The daily run is q-webhooks-daily, since Netlify doesn't serve scheduled
+ * functions by URL. "Tomorrow" is on each AO's own clock.
+ */
+
+const JSON_HEADERS = {
+  "Content-Type": "application/json; charset=utf-8",
+  "Cache-Control": "no-store",
+};
+
+const jsonError = (statusCode: number, body: Record<string, unknown>) => ({
+  statusCode,
+  headers: JSON_HEADERS,
+  body: JSON.stringify({ ok: false, ...body }),
+});
+
+const isTruthyParam = (value: string | undefined) =>
+  ["1", "true", "yes"].includes(String(value || "").trim().toLowerCase());
+
+export const handler = async (event: NetlifyEvent) => {
+  if (event.httpMethod && event.httpMethod !== "GET") {
+    return jsonError(405, { error: "Method not allowed" });
+  }
+  const params = event.queryStringParameters || {};
+
+  const dryRun = isTruthyParam(params.dryRun);
+  const force = isTruthyParam(params.force);
+  const requestedAo = params.ao?.trim() || ALL_AOS_PARAM;
+  const isAllAos = requestedAo.toLowerCase() === ALL_AOS_PARAM;
+  const workoutDate =
+    params.workoutDate === undefined ? undefined : parseFromDate(params.workoutDate);
+  if (workoutDate === null) {
+    return jsonError(400, { error: "Invalid workoutDate" });
+  }
+
+  // Building payloads only reads the schedule; a real run posts to every
+  // subscribed channel (with force, again), so it needs an admin key outside local dev
+  const scope = dryRun ? "schedule:read" : "admin";
+  const keyRequirement = dryRun || isLocalDevRequest(event) ? "ifConfigured" : "required";
+  const precheck = precheckApiKey(event, scope, keyRequirement);
+  if (precheck) {
+    return {
+      ...jsonError(precheck.statusCode, precheck.body),
+      headers: { ...JSON_HEADERS, ...precheck.headers },
+    };
+  }
+
+  const missingConfig = missingFirebaseConfig();
+  if (missingConfig.length > 0) {
+    return jsonError(500, {
+      error: "Missing Firebase configuration",
+      missing: missingConfig,
+    });
+  }
+
+  const serviceAccount = await readServiceAccount();
+  if (!serviceAccount && isProductionRequest(event)) {
+    return jsonError(500, {
+      error: "Missing Firebase service account configuration",
+    });
+  }
+
+  try {
+    const token = serviceAccount
+      ? await getServiceAccountAccessToken(serviceAccount)
+      : null;
+    const auth = await authorizeApiRequest(
+      event,
+      scope,
+      { serviceAccount, token },
+      keyRequirement
+    );
+    if (!auth.ok) {
+      return {
+        ...jsonError(auth.statusCode, auth.body),
+        headers: { ...JSON_HEADERS, ...auth.headers },
+      };
+    }
+    await loadAoRegistry(serviceAccount, token);
+
+    const aoId = isAllAos ? null : resolveAoIdParam(requestedAo);
+    if (!isAllAos && !aoId) {
+      return jsonError(400, { error: "Unknown ao", ao: requestedAo });
+    }
+
+    const results = await runQWebhooks(
+      { serviceAccount, token },
+      { aoId, workoutDate, dryRun, force }
+    );
+    return {
+      statusCode: 200,
+      headers: JSON_HEADERS,
+      body: JSON.stringify({
+        ok: results.every((result) => result.status !== "failed"),
+        dryRun,
+        results,
+      }),
+    };
+  } catch (error) {
+    return jsonError(500, {
+      error: "Failed to send Q webhooks",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,134 @@
+import {
+  ALL_AOS_PARAM,
+  parseFromDate,
+  parseLookaheadDays,
+  resolveAoIdParam,
+} from "../../src/shared/compassQSchedule";
+import {
+  QS_NEEDED_DEFAULT_LOOKAHEAD_DAYS,
+  buildQsNeededPost,
+  listQsNeeded,
+  toQsNeededJson,
+} from "../../src/shared/qsNeeded";
+import { AO_LIST, getAoById } from "../../src/ao/aoConfig";
+import {
+  WORKOUT_SESSIONS_COLLECTION_PATH,
+  getServiceAccountAccessToken,
+  isProductionRequest,
+  listCollectionDocuments,
+  loadAoRegistry,
+  missingFirebaseConfig,
+  readServiceAccount,
+  type NetlifyEvent,
+} from "../lib/firestoreServer";
+import { authorizeApiRequest, precheckApiKey } from "../lib/apiKeys";
+
+/**
+ * Open Q slots for Apps Script, plus the ready-to-post BAND text:
+ *   /.netlify/functions/qs-needed?lookaheadDays=14
+ *   /.netlify/functions/qs-needed?ao=compass
+ * Defaults to every AO. Needs an API key with the "schedule:read" scope
+ * once any key exists, same as the Q schedule API.
+ */
+
+const JSON_HEADERS = {
+  "Content-Type": "application/json; charset=utf-8",
+  "Cache-Control": "no-store",
+};
+
+const jsonError = (statusCode: number, body: Record<string, unknown>) => ({
+  statusCode,
+  headers: JSON_HEADERS,
+  body: JSON.stringify({ ok: false, ...body }),
+});
+
+export const handler = async (event: NetlifyEvent) => {
+  const requestedAo = event.queryStringParameters?.ao?.trim() || ALL_AOS_PARAM;
+  const isAllAos = requestedAo.toLowerCase() === ALL_AOS_PARAM;
+  const lookaheadDays = parseLookaheadDays(
+    event.queryStringParameters?.lookaheadDays ??
+      String(QS_NEEDED_DEFAULT_LOOKAHEAD_DAYS)
+  );
+  // Without fromDate each AO starts from "today" in its own time zone.
+  const requestedFromDate = event.queryStringParameters?.fromDate;
+  const fromDateIso =
+    requestedFromDate === undefined ? undefined : parseFromDate(requestedFromDate);
+
+  if (!lookaheadDays) {
+    return jsonError(400, { error: "Invalid lookaheadDays" });
+  }
+  if (fromDateIso === null) {
+    return jsonError(400, { error: "Invalid fromDate" });
+  }
+
+  const precheck = precheckApiKey(event, "schedule:read");
+  if (precheck) {
+    return {
+      ...jsonError(precheck.statusCode, precheck.body),
+      headers: { ...JSON_HEADERS, ...precheck.headers },
+    };
+  }
+
+  const missingConfig = missingFirebaseConfig();
+  if (missingConfig.length > 0) {
+    return jsonError(500, {
+      error: "Missing Firebase configuration",
+      missing: missingConfig,
+    });
+  }
+
+  const serviceAccount = await readServiceAccount();
+  if (!serviceAccount && isProductionRequest(event)) {
+    return jsonError(500, {
+      error: "Missing Firebase service account configuration",
+    });
+  }
+
+  try {
+    const token = serviceAccount
+      ? await getServiceAccountAccessToken(serviceAccount)
+      : null;
+    const auth = await authorizeApiRequest(event, "schedule:read", { serviceAccount, token });
+    if (!auth.ok) {
+      return {
+        ...jsonError(auth.statusCode, auth.body),
+        headers: { ...JSON_HEADERS, ...auth.headers },
+      };
+    }
+    await loadAoRegistry(serviceAccount, token);
+
+    const aoId = isAllAos ? null : resolveAoIdParam(requestedAo);
+    if (!isAllAos && !aoId) {
+      return jsonError(400, { error: "Unknown ao", ao: requestedAo });
+    }
+
+    const sessions = await listCollectionDocuments(
+      serviceAccount,
+      token,
+      WORKOUT_SESSIONS_COLLECTION_PATH
+    );
+    const groups = listQsNeeded(
+      sessions,
+      { fromDateIso, lookaheadDays },
+      aoId ? [getAoById(aoId)] : AO_LIST
+    );
+
+    return {
+      statusCode: 200,
+      headers: JSON_HEADERS,
+      body: JSON.stringify({
+        ok: true,
+        aoId: aoId ?? ALL_AOS_PARAM,
+        lookaheadDays,
+        openSlotCount: groups.reduce((sum, group) => sum + group.slots.length, 0),
+        aos: toQsNeededJson(groups),
+        post: buildQsNeededPost(groups, lookaheadDays),
+      }),
+    };
+  } catch (error) {
+    return jsonError(500, {
+      error: "Failed to list open Q slots",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
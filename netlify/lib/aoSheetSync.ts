@@ -0,0 +1,157 @@
+import { randomUUID } from "crypto";
+import { dateStringToKey } from "../../src/shared/compassQSchedule";
+import {
+  parseGoogleSheetUrl,
+  parseSheetQSchedule,
+  type SheetQField,
+  type SheetWorkoutSession,
+} from "../../src/shared/sheetQSchedule";
+import { getSessionSlotKey } from "../../src/utils/scheduleGenerator";
+import { AO_LIST, type AoConfig } from "../../src/ao/aoConfig";
+import {
+  WORKOUT_SESSIONS_COLLECTION_PATH,
+  listWorkoutSessionsForAo,
+  writeDocuments,
+  type FirestoreMergeWrite,
+  type ServiceAccount,
+} from "./firestoreServer";
+import { fetchSheetRows, fetchSheetTabTitle } from "./googleSheets";
+
+/* ----------------------------------------------------
+   Mirroring AO Google Sheet Q schedules into
+   workoutSessions, shared by ao-sheet-sessions (on
+   demand) and ao-sheet-sync (hourly).
+---------------------------------------------------- */
+
+export type FirestoreAccess = { serviceAccount: ServiceAccount | null; token: string | null };
+
+// History entries mirrored from the sheet are logged under this name
+const SHEET_EDITOR = "Google Sheet";
+
+export const readAoSheet = async (ao: AoConfig, sheetsToken: string) => {
+  const sheet = parseGoogleSheetUrl(ao.qSheet.googleSheetUrl || "");
+  if (!sheet) throw new Error(`${ao.id} has no readable googleSheetUrl`);
+  const tabTitle = await fetchSheetTabTitle(sheet.spreadsheetId, sheet.gid, sheetsToken);
+  const rows = await fetchSheetRows(sheet.spreadsheetId, tabTitle, sheetsToken);
+  return { ...sheet, tabTitle, ...parseSheetQSchedule(ao, rows) };
+};
+
+export const historyWrite = (
+  sessionId: string,
+  field: SheetQField,
+  oldValue: string,
+  newValue: string,
+  editor: string,
+  source?: "sheet" | "api",
+  unverifiedEditor?: string
+): FirestoreMergeWrite => ({
+  path: `${WORKOUT_SESSIONS_COLLECTION_PATH}/${sessionId}/history/${randomUUID().replace(/-/g, "")}`,
+  data: {
+    field,
+    oldValue,
+    newValue,
+    editor,
+    ...(unverifiedEditor ? { unverifiedEditor } : {}),
+    changedAt: new Date(),
+    ...(source ? { source } : {}),
+  },
+});
+
+/**
+ * Copy sheet values into workoutSessions, only for the columns the sheet
+ * has and only where they differ. Existing docs are matched by day + time,
+ * so docs created in the app before syncing was turned on are reused.
+ */
+export const mirrorSheetSessions = async (
+  ao: AoConfig,
+  sessions: SheetWorkoutSession[],
+  fields: SheetQField[],
+  { serviceAccount, token }: FirestoreAccess
+) => {
+  const persisted = await listWorkoutSessionsForAo(serviceAccount, token, ao.id);
+  const persistedBySlot = new Map(
+    persisted.map((session) => [
+      getSessionSlotKey({
+        dateKey: String(session.dateKey || "") || dateStringToKey(String(session.date || "")),
+        time: String(session.time || ""),
+      }),
+      session,
+    ])
+  );
+
+  const writes: FirestoreMergeWrite[] = [];
+  let mirrored = 0;
+
+  for (const session of sessions) {
+    const existing = persistedBySlot.get(getSessionSlotKey(session));
+    const id = existing?.id || session.id;
+    const changed = fields.filter(
+      (field) => session[field] !== String(existing?.[field] ?? "").trim()
+    );
+    if (existing && changed.length === 0) continue;
+
+    const data: Record<string, unknown> = { aoId: ao.id, dateKey: session.dateKey };
+    if (!existing) {
+      Object.assign(data, {
+        date: session.date,
+        time: session.time,
+        q: "",
+        notes: "",
+        dbj: "",
+        food: "",
+      });
+    }
+    changed.forEach((field) => {
+      data[field] = session[field];
+    });
+    writes.push({ path: `${WORKOUT_SESSIONS_COLLECTION_PATH}/${id}`, data });
+
+    changed
+      .filter((field) => existing || session[field])
+      .forEach((field) =>
+        writes.push(
+          historyWrite(
+            id,
+            field,
+            String(existing?.[field] ?? "").trim(),
+            session[field],
+            SHEET_EDITOR,
+            "sheet"
+          )
+        )
+      );
+    mirrored++;
+  }
+
+  await writeDocuments(serviceAccount, token, writes);
+  const idBySlot = new Map([...persistedBySlot].map(([slot, doc]) => [slot, doc.id]));
+  return { mirrored, idBySlot };
+};
+
+export const syncAo = async (ao: AoConfig, sheetsToken: string, firestore: FirestoreAccess) => {
+  const sheet = await readAoSheet(ao, sheetsToken);
+  const fields = Object.keys(sheet.columns) as SheetQField[];
+  const { mirrored } = await mirrorSheetSessions(ao, sheet.sessions, fields, firestore);
+  return { sheet, mirrored };
+};
+
+export const syncAllAos = async (sheetsToken: string, firestore: FirestoreAccess) => {
+  const results = [];
+  const syncedAos = AO_LIST.filter(
+    (entry) => entry.qSheet.sheetSync && entry.qSheet.googleSheetUrl
+  );
+  for (const ao of syncedAos) {
+    try {
+      const { sheet, mirrored } = await syncAo(ao, sheetsToken, firestore);
+      results.push({ aoId: ao.id, ok: true, sessionCount: sheet.sessions.length, mirrored });
+    } catch (error) {
+      // One unshared or reshaped sheet shouldn't stop the others
+      results.push({
+        aoId: ao.id,
+        ok: false,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return results;
+};
@@ -0,0 +1,203 @@
+import { createHash } from "crypto";
+import {
+  API_KEY_SCOPE_LABELS,
+  LEGACY_API_KEY_ID,
+  getApiKeyUsageBuckets,
+  normalizeApiKeyRecord,
+  type ApiKeyRecord,
+  type ApiKeyScope,
+} from "../../src/shared/apiKeys";
+import {
+  API_KEYS_COLLECTION_PATH,
+  API_KEY_USAGE_COLLECTION_PATH,
+  incrementDocumentFields,
+  listCollectionDocuments,
+  type NetlifyEvent,
+  type ServiceAccount,
+} from "./firestoreServer";
+
+/* ----------------------------------------------------
+   Per-consumer API keys: who is calling, whether the
+   key may do this, and whether it's over its rate limit.
+---------------------------------------------------- */
+
+type FirestoreAccess = { serviceAccount: ServiceAccount | null; token: string | null };
+
+/**
+ * required:     every request needs a key (writes)
+ * ifConfigured: a key is needed once any key exists (reads; keeps local dev open)
+ * optional:     keyless requests pass; a presented key is still checked and counted
+ */
+export type ApiKeyRequirement = "required" | "ifConfigured" | "optional";
+
+export type ApiKeyDenial = {
+  ok: false;
+  statusCode: 401 | 403 | 429;
+  body: Record<string, unknown>;
+  headers: Record<string, string>;
+};
+
+export type ApiKeyCheck = { ok: true; key: ApiKeyRecord | null } | ApiKeyDenial;
+
+// scripts/createApiKey.mjs issues "f3_" + 24 random bytes as base64url
+const API_KEY_PATTERN = /^f3_[A-Za-z0-9_-]{32}$/;
+
+// Warm instances reuse the registry, so a revoked key stops working within a minute
+const REGISTRY_TTL_MS = 1000 * 60;
+let cachedRegistry: { keys: ApiKeyRecord[]; fetchedAt: number } | null = null;
+
+// Per-minute counters only matter briefly; a Firestore TTL policy on expiresAt deletes them
+const MINUTE_COUNTER_TTL_MS = 1000 * 60 * 60;
+
+export const hashApiKey = (key: string) => createHash("sha256").update(key).digest("hex");
+
+/**
+ * apiKeys docs plus the legacy key. The rules keep the web SDK out of
+ * apiKeys, so without a service account (local dev) no docs are read and
+ * only Q_SCHEDULE_API_KEY, if set, counts as configured.
+ */
+export const loadApiKeys = async ({ serviceAccount, token }: FirestoreAccess) => {
+  if (cachedRegistry && Date.now() - cachedRegistry.fetchedAt < REGISTRY_TTL_MS) {
+    return cachedRegistry.keys;
+  }
+
+  const keys = (
+    serviceAccount && token
+      ? await listCollectionDocuments(serviceAccount, token, API_KEYS_COLLECTION_PATH)
+      : []
+  )
+    .map(normalizeApiKeyRecord)
+    .filter((key): key is ApiKeyRecord => Boolean(key));
+  const legacyKey = process.env.Q_SCHEDULE_API_KEY;
+  if (legacyKey) {
+    keys.push({
+      id: LEGACY_API_KEY_ID,
+      name: "Q_SCHEDULE_API_KEY (legacy)",
+      keyHash: hashApiKey(legacyKey),
+      scopes: ["schedule:read"],
+      disabled: false,
+    });
+  }
+
+  cachedRegistry = { keys, fetchedAt: Date.now() };
+  return keys;
+};
+
+/** `Authorization: Bearer <key>`, else the `?key=` query param. */
+export const readPresentedApiKey = (event: NetlifyEvent) => {
+  const header = event.headers?.authorization || event.headers?.Authorization || "";
+  const bearer = /^Bearer\s+(\S+)$/i.exec(header.trim())?.[1];
+  return (bearer || event.queryStringParameters?.key || "").trim();
+};
+
+/** Count the request; returns this minute's count when the key is rate limited. */
+const recordApiKeyUsage = async (key: ApiKeyRecord, access: FirestoreAccess, now: Date) => {
+  const { dateField, minuteId } = getApiKeyUsageBuckets(now);
+  const usagePath = `${API_KEY_USAGE_COLLECTION_PATH}/${key.id}`;
+  const [, minute] = await incrementDocumentFields(access.serviceAccount, access.token, [
+    {
+      path: usagePath,
+      increments: { totalCount: 1, [`byDate.${dateField}`]: 1 },
+      data: { name: key.name, lastUsedAt: now },
+    },
+    ...(key.rateLimitPerMinute
+      ? [
+          {
+            path: `${usagePath}/minutes/${minuteId}`,
+            increments: { count: 1 },
+            data: { expiresAt: new Date(now.getTime() + MINUTE_COUNTER_TTL_MS) },
+          },
+        ]
+      : []),
+  ]);
+  return minute?.count ?? 0;
+};
+
+const denied = (
+  statusCode: 401 | 403 | 429,
+  error: string,
+  extra: Record<string, unknown> = {},
+  headers: Record<string, string> = {}
+): ApiKeyDenial => ({ ok: false, statusCode, body: { error, ...extra }, headers });
+
+const deniedScope = (scope: ApiKeyScope, keyName: string) =>
+  denied(403, `This API key doesn't allow "${API_KEY_SCOPE_LABELS[scope]}"`, { scope, keyName });
+
+/**
+ * What can be refused without Firestore: no key where one is required, a key
+ * createApiKey.mjs couldn't have issued, or the legacy key outside its scope.
+ * Call it before fetching a token so unauthenticated callers cost nothing;
+ * null means authorizeApiRequest still has to look the key up.
+ */
+export const precheckApiKey = (
+  event: NetlifyEvent,
+  scope: ApiKeyScope,
+  requirement: ApiKeyRequirement = "ifConfigured"
+): ApiKeyDenial | null => {
+  const presented = readPresentedApiKey(event);
+  if (!presented) return requirement === "required" ? denied(401, "Unauthorized") : null;
+
+  const legacyKey = process.env.Q_SCHEDULE_API_KEY;
+  if (legacyKey && presented === legacyKey) {
+    return scope === "schedule:read" ? null : deniedScope(scope, "Q_SCHEDULE_API_KEY (legacy)");
+  }
+  return API_KEY_PATTERN.test(presented) ? null : denied(401, "Unauthorized");
+};
+
+/**
+ * Check the request's key against the registry (apiKeys docs plus the legacy
+ * Q_SCHEDULE_API_KEY, which can only read the schedule) and count it.
+ * A failed usage write lets the request through uncounted.
+ */
+export const authorizeApiRequest = async (
+  event: NetlifyEvent,
+  scope: ApiKeyScope,
+  access: FirestoreAccess,
+  requirement: ApiKeyRequirement = "ifConfigured"
+): Promise<ApiKeyCheck> => {
+  const early = precheckApiKey(event, scope, requirement);
+  if (early) return early;
+  const presented = readPresentedApiKey(event);
+  if (!presented && requirement === "optional") return { ok: true, key: null };
+
+  const keys = await loadApiKeys(access);
+  if (!presented) {
+    return requirement === "ifConfigured" && keys.length === 0
+      ? { ok: true, key: null }
+      : denied(401, "Unauthorized");
+  }
+
+  const keyHash = hashApiKey(presented);
+  const key = keys.find((entry) => entry.keyHash === keyHash);
+  if (!key || key.disabled) return denied(401, "Unauthorized");
+  if (!key.scopes.includes(scope)) return deniedScope(scope, key.name);
+
+  // Usage docs are server-only too, so local dev without a service account doesn't count
+  const now = new Date();
+  let minuteCount = 0;
+  if (access.serviceAccount && access.token) {
+    try {
+      minuteCount = await recordApiKeyUsage(key, access, now);
+    } catch (error) {
+      console.warn(`API key usage for ${key.id} wasn't recorded:`, error);
+    }
+  }
+
+  if (key.rateLimitPerMinute && minuteCount > key.rateLimitPerMinute) {
+    await incrementDocumentFields(access.serviceAccount, access.token, [
+      {
+        path: `${API_KEY_USAGE_COLLECTION_PATH}/${key.id}`,
+        increments: { rateLimitedCount: 1 },
+      },
+    ]).catch(() => undefined);
+    const retryAfterSeconds = 60 - now.getUTCSeconds();
+    return denied(
+      429,
+      "Rate limit exceeded",
+      { rateLimitPerMinute: key.rateLimitPerMinute, retryAfterSeconds },
+      { "Retry-After": String(retryAfterSeconds) }
+    );
+  }
+
+  return { ok: true, key };
+};
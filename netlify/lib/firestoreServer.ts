@@ -0,0 +1,593 @@
+import fs from "fs/promises";
+import path from "path";
+import { JWT } from "google-auth-library";
+import { initializeApp, getApps, type FirebaseOptions } from "firebase/app";
+import {
+  collection,
+  doc,
+  getDocs,
+  getFirestore,
+  query,
+  runTransaction,
+  where,
+  writeBatch,
+} from "firebase/firestore/lite";
+import { normalizeAoConfig, setAoRegistry, type AoConfig } from "../../src/ao/aoConfig";
+import {
+  LEGACY_WORKOUT_SESSION_AO_ID,
+  getWorkoutSessionAoId,
+  type WorkoutSessionScheduleSource,
+} from "../../src/shared/compassQSchedule";
+
+/* ----------------------------------------------------
+   Shared Firestore access for Netlify functions:
+   service account + REST in production, web SDK in local dev.
+---------------------------------------------------- */
+
+export type NetlifyEvent = {
+  httpMethod?: string;
+  headers?: Record<string, string | undefined> | null;
+  queryStringParameters?: Record<string, string | undefined> | null;
+  body?: string | null;
+};
+
+export type ServiceAccount = {
+  project_id: string;
+  client_email: string;
+  private_key: string;
+};
+
+export const WORKOUT_SESSIONS_COLLECTION_PATH = "workoutSessions";
+export const AO_COLLECTION_PATH = "aos";
+// "Tomorrow's Q" webhook subscriptions; URLs are secrets, so only functions read them
+export const Q_WEBHOOKS_COLLECTION_PATH = "qWebhooks";
+// API key registry (hashes only) and per-key request counters; server-only too
+export const API_KEYS_COLLECTION_PATH = "apiKeys";
+export const API_KEY_USAGE_COLLECTION_PATH = "apiKeyUsage";
+const DEFAULT_LOCAL_SERVICE_ACCOUNT_PATH = "serviceAccountKey.json";
+export const FIRESTORE_DATABASE_ID = process.env.FIRESTORE_DATABASE_ID || "(default)";
+
+export const FIREBASE_CONFIG: FirebaseOptions = {
+  apiKey: process.env.VITE_FIREBASE_API_KEY,
+  authDomain: process.env.VITE_FIREBASE_AUTH_DOMAIN,
+  projectId: process.env.VITE_FIREBASE_PROJECT_ID,
+  storageBucket: process.env.VITE_FIREBASE_STORAGE_BUCKET,
+  messagingSenderId: process.env.VITE_FIREBASE_MESSAGING_SENDER_ID,
+  appId: process.env.VITE_FIREBASE_APP_ID,
+};
+
+const getFirebaseApp = () => {
+  const existing = getApps()[0];
+  if (existing) return existing;
+  return initializeApp(FIREBASE_CONFIG);
+};
+
+export const getWebSdkFirestore = () =>
+  FIRESTORE_DATABASE_ID === "(default)"
+    ? getFirestore(getFirebaseApp())
+    : getFirestore(getFirebaseApp(), FIRESTORE_DATABASE_ID);
+
+export const isLocalDevRequest = (event: NetlifyEvent) => {
+  const host = event.headers?.host || "";
+  return (
+    process.env.NETLIFY_DEV === "true" ||
+    host.includes("localhost") ||
+    host.includes("127.0.0.1")
+  );
+};
+
+export const isProductionRequest = (event: NetlifyEvent) => !isLocalDevRequest(event);
+
+export const firebaseConfigPresent = () => ({
+  apiKey: Boolean(FIREBASE_CONFIG.apiKey),
+  authDomain: Boolean(FIREBASE_CONFIG.authDomain),
+  projectId: Boolean(FIREBASE_CONFIG.projectId),
+  storageBucket: Boolean(FIREBASE_CONFIG.storageBucket),
+  messagingSenderId: Boolean(FIREBASE_CONFIG.messagingSenderId),
+  appId: Boolean(FIREBASE_CONFIG.appId),
+});
+
+export const missingFirebaseConfig = () =>
+  Object.entries(FIREBASE_CONFIG)
+    .filter(([, value]) => !value)
+    .map(([key]) => key);
+
+export const readServiceAccount = async (): Promise<ServiceAccount | null> => {
+  if (process.env.FIREBASE_SERVICE_ACCOUNT_JSON) {
+    return JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_JSON) as ServiceAccount;
+  }
+
+  if (process.env.GOOGLE_SHEETS_SERVICE_ACCOUNT_JSON) {
+    return JSON.parse(process.env.GOOGLE_SHEETS_SERVICE_ACCOUNT_JSON) as ServiceAccount;
+  }
+
+  const configuredPath =
+    process.env.FIREBASE_SERVICE_ACCOUNT_PATH || DEFAULT_LOCAL_SERVICE_ACCOUNT_PATH;
+  const fullPath = path.isAbsolute(configuredPath)
+    ? configuredPath
+    : path.join(process.cwd(), configuredPath);
+
+  try {
+    const raw = await fs.readFile(fullPath, "utf8");
+    return JSON.parse(raw) as ServiceAccount;
+  } catch {
+    return null;
+  }
+};
+
+export const getServiceAccountAccessToken = async (serviceAccount: ServiceAccount) => {
+  const client = new JWT({
+    email: serviceAccount.client_email,
+    key: serviceAccount.private_key,
+    scopes: ["https://www.googleapis.com/auth/datastore"],
+  });
+  const { access_token } = await client.authorize();
+  if (!access_token) {
+    throw new Error("Failed to obtain Firestore access token from service account.");
+  }
+  return access_token;
+};
+
+export const getServiceAccountProjectId = (serviceAccount: ServiceAccount) =>
+  FIREBASE_CONFIG.projectId || serviceAccount.project_id;
+
+type FirestoreValue =
+  | {
+      stringValue?: string;
+      integerValue?: string;
+      doubleValue?: number;
+      booleanValue?: boolean;
+      nullValue?: null;
+      timestampValue?: string;
+      mapValue?: { fields?: Record<string, FirestoreValue> };
+      arrayValue?: { values?: FirestoreValue[] };
+    }
+  | undefined;
+
+const decodeFirestoreValue = (value: FirestoreValue): unknown => {
+  if (!value) return "";
+  if ("stringValue" in value && value.stringValue !== undefined) return value.stringValue;
+  if ("integerValue" in value && value.integerValue !== undefined) return value.integerValue;
+  if ("doubleValue" in value && value.doubleValue !== undefined) return value.doubleValue;
+  if ("booleanValue" in value && value.booleanValue !== undefined) return value.booleanValue;
+  if ("timestampValue" in value && value.timestampValue !== undefined) return value.timestampValue;
+  if ("nullValue" in value) return null;
+  if ("mapValue" in value && value.mapValue !== undefined) {
+    const fields = value.mapValue.fields || {};
+    return Object.fromEntries(
+      Object.entries(fields).map(([key, nestedValue]) => [key, decodeFirestoreValue(nestedValue)])
+    );
+  }
+  if ("arrayValue" in value && value.arrayValue !== undefined) {
+    return (value.arrayValue.values || []).map((entry) => decodeFirestoreValue(entry));
+  }
+  return "";
+};
+
+export type FirestoreRestDocument = {
+  name?: string;
+  fields?: Record<string, FirestoreValue>;
+};
+
+export const listCollectionDocumentsWithRest = async (
+  token: string,
+  projectId: string,
+  collectionPath: string
+) => {
+  const documents: FirestoreRestDocument[] = [];
+  const restDocsPerPage: number[] = [];
+  let nextPageToken: string | undefined;
+  let restPageCount = 0;
+
+  do {
+    const url = new URL(
+      `https://firestore.googleapis.com/v1/projects/${projectId}/databases/${FIRESTORE_DATABASE_ID}/documents/${collectionPath}`
+    );
+    url.searchParams.set("pageSize", "1000");
+    if (nextPageToken) {
+      url.searchParams.set("pageToken", nextPageToken);
+    }
+
+    const res = await fetch(url, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`Firestore REST error: ${res.status} ${text}`);
+    }
+
+    const json = (await res.json()) as {
+      documents?: FirestoreRestDocument[];
+      nextPageToken?: string;
+    };
+
+    const page = json.documents || [];
+    documents.push(...page);
+    restDocsPerPage.push(page.length);
+    restPageCount += 1;
+    nextPageToken = json.nextPageToken;
+  } while (nextPageToken);
+
+  return { documents, restPageCount, restDocsPerPage };
+};
+
+export const flattenRestDocument = (doc: FirestoreRestDocument) => {
+  const fields = doc.fields || {};
+  const idFromPath = doc.name?.split("/").pop() || "";
+  const flattenedFields = Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [key, decodeFirestoreValue(value)])
+  );
+  return {
+    ...flattenedFields,
+    id: (decodeFirestoreValue(fields.id) as string) || idFromPath,
+  };
+};
+
+/**
+ * Every doc in a collection as plain objects (with `id`), via REST when a
+ * service account token is available and the web SDK otherwise.
+ */
+export const listCollectionDocuments = async (
+  serviceAccount: ServiceAccount | null,
+  token: string | null,
+  collectionPath: string
+): Promise<Array<{ id: string } & Record<string, unknown>>> => {
+  if (serviceAccount && token) {
+    const { documents } = await listCollectionDocumentsWithRest(
+      token,
+      getServiceAccountProjectId(serviceAccount),
+      collectionPath
+    );
+    return documents.map(flattenRestDocument);
+  }
+
+  const snapshot = await getDocs(collection(getWebSdkFirestore(), collectionPath));
+  return snapshot.docs.map((doc) => ({
+    ...(doc.data() as Record<string, unknown>),
+    id: doc.id,
+  }));
+};
+
+/**
+ * Docs in a top-level collection whose `fieldPath` equals `value`, via REST
+ * runQuery when a service account token is available and the web SDK otherwise.
+ */
+export const listDocumentsWhere = async (
+  serviceAccount: ServiceAccount | null,
+  token: string | null,
+  collectionPath: string,
+  fieldPath: string,
+  value: string
+): Promise<Array<{ id: string } & Record<string, unknown>>> => {
+  if (serviceAccount && token) {
+    const database = `projects/${getServiceAccountProjectId(serviceAccount)}/databases/${FIRESTORE_DATABASE_ID}`;
+    const res = await fetch(`https://firestore.googleapis.com/v1/${database}/documents:runQuery`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        structuredQuery: {
+          from: [{ collectionId: collectionPath }],
+          where: {
+            fieldFilter: { field: { fieldPath }, op: "EQUAL", value: { stringValue: value } },
+          },
+        },
+      }),
+    });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`Firestore REST error: ${res.status} ${text}`);
+    }
+    const results = (await res.json()) as Array<{ document?: FirestoreRestDocument }>;
+    return results
+      .map((result) => result.document)
+      .filter((document): document is FirestoreRestDocument => Boolean(document))
+      .map(flattenRestDocument);
+  }
+
+  const snapshot = await getDocs(
+    query(collection(getWebSdkFirestore(), collectionPath), where(fieldPath, "==", value))
+  );
+  return snapshot.docs.map((doc) => ({
+    ...(doc.data() as Record<string, unknown>),
+    id: doc.id,
+  }));
+};
+
+/**
+ * One AO's workoutSessions. Compass also owns the docs written before sessions
+ * had an aoId, which no query can match, so only Compass reads the whole collection.
+ */
+export const listWorkoutSessionsForAo = async (
+  serviceAccount: ServiceAccount | null,
+  token: string | null,
+  aoId: string
+) =>
+  aoId === LEGACY_WORKOUT_SESSION_AO_ID
+    ? (
+        await listCollectionDocuments(serviceAccount, token, WORKOUT_SESSIONS_COLLECTION_PATH)
+      ).filter((session) => getWorkoutSessionAoId(session as WorkoutSessionScheduleSource) === aoId)
+    : listDocumentsWhere(serviceAccount, token, WORKOUT_SESSIONS_COLLECTION_PATH, "aoId", aoId);
+
+const encodeFirestoreValue = (value: unknown): NonNullable<FirestoreValue> => {
+  if (value === null || value === undefined) return { nullValue: null };
+  if (value instanceof Date) return { timestampValue: value.toISOString() };
+  if (typeof value === "boolean") return { booleanValue: value };
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? { integerValue: String(value) } : { doubleValue: value };
+  }
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map((entry) => encodeFirestoreValue(entry)) } };
+  }
+  if (typeof value === "object") {
+    return {
+      mapValue: {
+        fields: Object.fromEntries(
+          Object.entries(value).map(([key, nested]) => [key, encodeFirestoreValue(nested)])
+        ),
+      },
+    };
+  }
+  return { stringValue: String(value) };
+};
+
+export type FirestoreMergeWrite = {
+  // "workoutSessions/<id>" or "workoutSessions/<id>/history/<id>"
+  path: string;
+  data: Record<string, unknown>;
+};
+
+// Both REST commit and the web SDK cap a batch at 500 writes
+const WRITE_BATCH_LIMIT = 450;
+
+/**
+ * Merge-set docs (only the given fields change), via REST commit when a
+ * service account token is available and the web SDK otherwise.
+ */
+export const writeDocuments = async (
+  serviceAccount: ServiceAccount | null,
+  token: string | null,
+  writes: FirestoreMergeWrite[]
+) => {
+  for (let start = 0; start < writes.length; start += WRITE_BATCH_LIMIT) {
+    const chunk = writes.slice(start, start + WRITE_BATCH_LIMIT);
+
+    if (serviceAccount && token) {
+      const database = `projects/${getServiceAccountProjectId(serviceAccount)}/databases/${FIRESTORE_DATABASE_ID}`;
+      const res = await fetch(`https://firestore.googleapis.com/v1/${database}/documents:commit`, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          writes: chunk.map((write) => ({
+            update: {
+              name: `${database}/documents/${write.path}`,
+              fields: encodeFirestoreValue(write.data).mapValue?.fields,
+            },
+            updateMask: { fieldPaths: Object.keys(write.data) },
+          })),
+        }),
+      });
+      if (!res.ok) {
+        const text = await res.text();
+        throw new Error(`Firestore REST error: ${res.status} ${text}`);
+      }
+      continue;
+    }
+
+    const firestore = getWebSdkFirestore();
+    const batch = writeBatch(firestore);
+    chunk.forEach((write) => batch.set(doc(firestore, write.path), write.data, { merge: true }));
+    await batch.commit();
+  }
+};
+
+// REST commits retried when contention aborts them, like the web SDK does
+const TRANSACTION_ATTEMPTS = 3;
+
+/**
+ * Read one doc and write based on what it holds, atomically: nothing else can
+ * change the doc between the read and the writes. `decide` gets the doc's
+ * data (null if it doesn't exist) and returns the merge writes to make (none
+ * to leave everything as is) plus a result to hand back. REST transaction
+ * when a service account token is available, web SDK transaction otherwise.
+ */
+export const runDocumentTransaction = async <T>(
+  serviceAccount: ServiceAccount | null,
+  token: string | null,
+  path: string,
+  decide: (current: Record<string, unknown> | null) => {
+    writes: FirestoreMergeWrite[];
+    result: T;
+  }
+): Promise<T> => {
+  if (serviceAccount && token) {
+    const database = `projects/${getServiceAccountProjectId(serviceAccount)}/databases/${FIRESTORE_DATABASE_ID}`;
+    const documentsRoot = `https://firestore.googleapis.com/v1/${database}/documents`;
+    const headers = { Authorization: `Bearer ${token}`, "Content-Type": "application/json" };
+
+    for (let attempt = 1; ; attempt++) {
+      const begin = await fetch(`${documentsRoot}:beginTransaction`, {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ options: { readWrite: {} } }),
+      });
+      if (!begin.ok) {
+        const text = await begin.text();
+        throw new Error(`Firestore REST error: ${begin.status} ${text}`);
+      }
+      const { transaction } = (await begin.json()) as { transaction: string };
+
+      // A read or decide() that throws, or a failed commit, would otherwise
+      // hold the document's lock until Firestore times the transaction out
+      let committed = false;
+      try {
+        const read = await fetch(
+          `${documentsRoot}/${path}?transaction=${encodeURIComponent(transaction)}`,
+          { headers }
+        );
+        if (!read.ok && read.status !== 404) {
+          const text = await read.text();
+          throw new Error(`Firestore REST error: ${read.status} ${text}`);
+        }
+        const current =
+          read.status === 404
+            ? null
+            : flattenRestDocument((await read.json()) as FirestoreRestDocument);
+
+        const { writes, result } = decide(current);
+        // An empty commit still ends the transaction and releases its lock
+        const commit = await fetch(`${documentsRoot}:commit`, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            transaction,
+            writes: writes.map((write) => ({
+              update: {
+                name: `${database}/documents/${write.path}`,
+                fields: encodeFirestoreValue(write.data).mapValue?.fields,
+              },
+              updateMask: { fieldPaths: Object.keys(write.data) },
+            })),
+          }),
+        });
+        if (commit.ok) {
+          committed = true;
+          return result;
+        }
+        const text = await commit.text();
+        if (commit.status !== 409 || attempt >= TRANSACTION_ATTEMPTS) {
+          throw new Error(`Firestore REST error: ${commit.status} ${text}`);
+        }
+      } finally {
+        if (!committed) {
+          await fetch(`${documentsRoot}:rollback`, {
+            method: "POST",
+            headers,
+            body: JSON.stringify({ transaction }),
+          }).catch(() => undefined);
+        }
+      }
+    }
+  }
+
+  const firestore = getWebSdkFirestore();
+  return runTransaction(firestore, async (transaction) => {
+    const snapshot = await transaction.get(doc(firestore, path));
+    const { writes, result } = decide(
+      snapshot.exists() ? { ...(snapshot.data() as Record<string, unknown>), id: snapshot.id } : null
+    );
+    writes.forEach((write) =>
+      transaction.set(doc(firestore, write.path), write.data, { merge: true })
+    );
+    return result;
+  });
+};
+
+export type FirestoreIncrementWrite = {
+  path: string;
+  // Dotted field path ("byDate.d20261019") -> amount to add
+  increments: Record<string, number>;
+  // Plain top-level fields merge-set alongside
+  data?: Record<string, unknown>;
+};
+
+/** { "byDate.d20261019": 3 } -> { byDate: { d20261019: 3 } } */
+const nestFieldPaths = (values: Record<string, unknown>) => {
+  const nested: Record<string, unknown> = {};
+  for (const [fieldPath, value] of Object.entries(values)) {
+    const keys = fieldPath.split(".");
+    let target = nested;
+    for (const key of keys.slice(0, -1)) {
+      target[key] = (target[key] as Record<string, unknown>) || {};
+      target = target[key] as Record<string, unknown>;
+    }
+    target[keys[keys.length - 1]] = value;
+  }
+  return nested;
+};
+
+/**
+ * Add to counters atomically and return each write's new totals (in
+ * `increments` order), via REST commit field transforms when a service
+ * account token is available and a web SDK transaction otherwise.
+ */
+export const incrementDocumentFields = async (
+  serviceAccount: ServiceAccount | null,
+  token: string | null,
+  writes: FirestoreIncrementWrite[]
+): Promise<Array<Record<string, number>>> => {
+  if (serviceAccount && token) {
+    const database = `projects/${getServiceAccountProjectId(serviceAccount)}/databases/${FIRESTORE_DATABASE_ID}`;
+    const res = await fetch(`https://firestore.googleapis.com/v1/${database}/documents:commit`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        writes: writes.map((write) => ({
+          update: {
+            name: `${database}/documents/${write.path}`,
+            fields: encodeFirestoreValue(write.data || {}).mapValue?.fields,
+          },
+          updateMask: { fieldPaths: Object.keys(write.data || {}) },
+          updateTransforms: Object.entries(write.increments).map(([fieldPath, amount]) => ({
+            fieldPath,
+            increment: encodeFirestoreValue(amount),
+          })),
+        })),
+      }),
+    });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`Firestore REST error: ${res.status} ${text}`);
+    }
+    const json = (await res.json()) as {
+      writeResults?: Array<{ transformResults?: FirestoreValue[] }>;
+    };
+    return writes.map((write, writeIndex) =>
+      Object.fromEntries(
+        Object.keys(write.increments).map((fieldPath, fieldIndex) => [
+          fieldPath,
+          Number(
+            decodeFirestoreValue(json.writeResults?.[writeIndex]?.transformResults?.[fieldIndex])
+          ) || 0,
+        ])
+      )
+    );
+  }
+
+  const firestore = getWebSdkFirestore();
+  return runTransaction(firestore, async (transaction) => {
+    const refs = writes.map((write) => doc(firestore, write.path));
+    // Transactions need every read before the first write
+    const snapshots = await Promise.all(refs.map((ref) => transaction.get(ref)));
+    return writes.map((write, index) => {
+      const totals = Object.fromEntries(
+        Object.entries(write.increments).map(([fieldPath, amount]) => [
+          fieldPath,
+          (Number(snapshots[index].get(fieldPath)) || 0) + amount,
+        ])
+      );
+      transaction.set(refs[index], { ...write.data, ...nestFieldPaths(totals) }, { merge: true });
+      return totals;
+    });
+  });
+};
+
+// The AO registry only adds/overrides AOs; a failed read keeps the bundled config.
+export const loadAoRegistry = async (
+  serviceAccount: ServiceAccount | null,
+  token: string | null
+): Promise<"firestore" | "bundled"> => {
+  try {
+    const configs = (
+      await listCollectionDocuments(serviceAccount, token, AO_COLLECTION_PATH)
+    )
+      .map((doc) => normalizeAoConfig(doc.id, doc))
+      .filter((ao): ao is AoConfig => Boolean(ao));
+    setAoRegistry(configs);
+    return configs.length ? "firestore" : "bundled";
+  } catch (error) {
+    console.warn("AO registry load failed; using bundled AO config:", error);
+    setAoRegistry(null);
+    return "bundled";
+  }
+};
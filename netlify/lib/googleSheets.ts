@@ -0,0 +1,127 @@
+import fs from "fs/promises";
+import path from "path";
+import { JWT } from "google-auth-library";
+import type { ServiceAccount } from "./firestoreServer";
+
+/* ----------------------------------------------------
+   Google Sheets access for Netlify functions, with the
+   same service account as pax-directory. The sheet has
+   to be shared with that account (Editor to write back).
+---------------------------------------------------- */
+
+const DEFAULT_LOCAL_SA_PATH = ".secrets/google-sheets-service-account.json";
+const SHEETS_API = "https://sheets.googleapis.com/v4/spreadsheets";
+
+export const readSheetsServiceAccount = async (): Promise<ServiceAccount> => {
+  if (process.env.GOOGLE_SHEETS_SERVICE_ACCOUNT_JSON) {
+    return JSON.parse(process.env.GOOGLE_SHEETS_SERVICE_ACCOUNT_JSON) as ServiceAccount;
+  }
+
+  const relPath = process.env.GOOGLE_SHEETS_SERVICE_ACCOUNT_PATH || DEFAULT_LOCAL_SA_PATH;
+  const fullPath = path.isAbsolute(relPath) ? relPath : path.join(process.cwd(), relPath);
+  try {
+    return JSON.parse(await fs.readFile(fullPath, "utf8")) as ServiceAccount;
+  } catch {
+    throw new Error(
+      `Service account JSON not found. Set GOOGLE_SHEETS_SERVICE_ACCOUNT_JSON or GOOGLE_SHEETS_SERVICE_ACCOUNT_PATH. Tried: ${fullPath}`
+    );
+  }
+};
+
+export const getSheetsAccessToken = async (
+  serviceAccount: ServiceAccount,
+  { write = false }: { write?: boolean } = {}
+) => {
+  const client = new JWT({
+    email: serviceAccount.client_email,
+    key: serviceAccount.private_key,
+    scopes: [
+      write
+        ? "https://www.googleapis.com/auth/spreadsheets"
+        : "https://www.googleapis.com/auth/spreadsheets.readonly",
+    ],
+  });
+  const { access_token } = await client.authorize();
+  if (!access_token) throw new Error("Failed to obtain Google Sheets access token.");
+  return access_token;
+};
+
+const sheetsFetch = async (url: string, token: string, init: RequestInit = {}) => {
+  const res = await fetch(url, {
+    ...init,
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+      ...init.headers,
+    },
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Google Sheets API error: ${res.status} ${text}`);
+  }
+  return res.json();
+};
+
+/** Sheet URLs carry the tab's gid; the values API wants its title. */
+export const fetchSheetTabTitle = async (spreadsheetId: string, gid: string, token: string) => {
+  const json = (await sheetsFetch(
+    `${SHEETS_API}/${spreadsheetId}?fields=sheets.properties(sheetId,title)`,
+    token
+  )) as { sheets?: Array<{ properties?: { sheetId?: number; title?: string } }> };
+
+  const tab = (json.sheets || []).find(
+    (sheet) => String(sheet.properties?.sheetId ?? "") === gid
+  );
+  if (!tab?.properties?.title) {
+    throw new Error(`No tab with gid ${gid} in spreadsheet ${spreadsheetId}`);
+  }
+  return tab.properties.title;
+};
+
+// 'Q Schedule'!A1 — quotes in the title are doubled
+const toA1Range = (tabTitle: string, range: string) =>
+  `'${tabTitle.replace(/'/g, "''")}'!${range}`;
+
+/** 0 -> "A", 25 -> "Z", 26 -> "AA" */
+export const toA1Column = (columnIndex: number) => {
+  let column = "";
+  for (let n = columnIndex + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    column = String.fromCharCode(65 + ((n - 1) % 26)) + column;
+  }
+  return column;
+};
+
+/**
+ * Every row of a tab. UNFORMATTED_VALUE returns dates/times as serial
+ * numbers, so parsing doesn't depend on each sheet's display format.
+ */
+export const fetchSheetRows = async (
+  spreadsheetId: string,
+  tabTitle: string,
+  token: string
+): Promise<unknown[][]> => {
+  const range = encodeURIComponent(toA1Range(tabTitle, "A:Z"));
+  const json = (await sheetsFetch(
+    `${SHEETS_API}/${spreadsheetId}/values/${range}?majorDimension=ROWS&valueRenderOption=UNFORMATTED_VALUE`,
+    token
+  )) as { values?: unknown[][] };
+  return json.values || [];
+};
+
+/** Write one cell as plain text (RAW, so "@Name" isn't read as a formula). */
+export const updateSheetCell = async (
+  spreadsheetId: string,
+  tabTitle: string,
+  rowNumber: number,
+  columnIndex: number,
+  value: string,
+  token: string
+) => {
+  const range = encodeURIComponent(
+    toA1Range(tabTitle, `${toA1Column(columnIndex)}${rowNumber}`)
+  );
+  await sheetsFetch(`${SHEETS_API}/${spreadsheetId}/values/${range}?valueInputOption=RAW`, token, {
+    method: "PUT",
+    body: JSON.stringify({ values: [[value]] }),
+  });
+};
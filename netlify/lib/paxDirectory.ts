@@ -0,0 +1,137 @@
+import type { AoId } from "../../src/ao/aoConfig";
+import { splitQField, toPaxNameKey } from "../../src/shared/paxNames";
+import {
+  fetchSheetRows,
+  getSheetsAccessToken,
+  readSheetsServiceAccount,
+} from "./googleSheets";
+
+/* ----------------------------------------------------
+   The PAX directory (PAX + PAX_AO tabs of the region's
+   roster sheet), as served by pax-directory and used to
+   validate names written through the API.
+---------------------------------------------------- */
+
+const DEFAULT_SHEET_ID = "1y-u2voNBG6aQeqrO4ec0zma1N_1LHdasHRm6kjOxrk4";
+
+export type PaxDirectory = {
+  sheetId: string;
+  updatedAt: string;
+  // Active home/regular PAX per AO, sorted
+  paxByAo: Record<string, string[]>;
+  bandNameByF3Name: Record<string, string>;
+};
+
+const normalizeHeader = (value: unknown) =>
+  String(value ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, "")
+    .replace(/_/g, "");
+
+const normalizeString = (value: unknown) => String(value ?? "").trim();
+
+const isActiveValue = (value: unknown) =>
+  ["true", "yes", "y", "1"].includes(normalizeString(value).toLowerCase());
+
+const isAllowedRelationship = (value: unknown) =>
+  ["home", "regular"].includes(normalizeString(value).toLowerCase());
+
+// PAX_AO names AOs the way the region does, not by app id
+const AO_ID_BY_SHEET_NAME: Record<string, AoId> = {
+  colosseum: "colosseum",
+  "compass at lost creek": "compass",
+  "gator bay": "gatorbay",
+  "jurassic park": "jurassicpark",
+  "phoenix rising": "phoenixrising",
+  "smoked grove": "smoakedgrove",
+  "smoaked grove": "smoakedgrove",
+  "the hill": "thehill",
+  "the shadows": "theshadows",
+};
+
+const parsePaxTab = (rows: unknown[][]) => {
+  const byId: Record<string, { f3Name: string; bandName: string }> = {};
+  if (!rows.length) return byId;
+  const headers = rows[0].map(normalizeHeader);
+  const idxId = headers.indexOf("paxid");
+  const idxNickname = headers.indexOf("f3nickname");
+  const idxBand = headers.indexOf("banddisplayname");
+
+  for (const row of rows.slice(1)) {
+    const id = normalizeString(row[idxId]);
+    const f3Name = normalizeString(row[idxNickname]);
+    if (!id || !f3Name) continue;
+    byId[id] = { f3Name, bandName: normalizeString(row[idxBand]) || f3Name };
+  }
+  return byId;
+};
+
+const parsePaxAoTab = (rows: unknown[][], paxById: ReturnType<typeof parsePaxTab>) => {
+  const paxByAo: Record<string, string[]> = {};
+  const bandNameByF3Name: Record<string, string> = {};
+  if (!rows.length) return { paxByAo, bandNameByF3Name };
+  const headers = rows[0].map(normalizeHeader);
+  const idxId = headers.indexOf("paxid");
+  const idxHomeAo = headers.indexOf("homeao");
+  const idxRelationship = headers.indexOf("relationship");
+  const idxActive = headers.indexOf("active");
+
+  for (const row of rows.slice(1)) {
+    const pax = paxById[normalizeString(row[idxId])];
+    const aoId = AO_ID_BY_SHEET_NAME[normalizeString(row[idxHomeAo]).toLowerCase()];
+    if (!pax || !aoId) continue;
+    if (!isActiveValue(row[idxActive]) || !isAllowedRelationship(row[idxRelationship])) continue;
+
+    paxByAo[aoId] = paxByAo[aoId] || [];
+    if (!paxByAo[aoId].includes(pax.f3Name)) paxByAo[aoId].push(pax.f3Name);
+    bandNameByF3Name[pax.f3Name] = bandNameByF3Name[pax.f3Name] || pax.bandName;
+  }
+
+  Object.values(paxByAo).forEach((list) => list.sort());
+  return { paxByAo, bandNameByF3Name };
+};
+
+export const loadPaxDirectory = async (): Promise<PaxDirectory> => {
+  const sheetId = process.env.PAX_SHEET_ID || DEFAULT_SHEET_ID;
+  const token = await getSheetsAccessToken(await readSheetsServiceAccount());
+
+  const paxById = parsePaxTab(await fetchSheetRows(sheetId, "PAX", token));
+  const { paxByAo, bandNameByF3Name } = parsePaxAoTab(
+    await fetchSheetRows(sheetId, "PAX_AO", token),
+    paxById
+  );
+
+  return {
+    sheetId,
+    updatedAt: new Date().toISOString(),
+    paxByAo,
+    bandNameByF3Name,
+  };
+};
+
+/**
+ * Directory spelling of each name in a Q field ("hardwood & @sparky" ->
+ * ["Hardwood", "Sparky"]). The AO's own PAX are checked first, then every
+ * other AO's, since PAX Q away from home. Names not found go in `unknown`.
+ */
+export const matchQFieldToDirectory = (
+  directory: Pick<PaxDirectory, "paxByAo">,
+  aoId: AoId,
+  q: string
+) => {
+  const byKey = new Map<string, string>();
+  const lists = [directory.paxByAo[aoId] || [], ...Object.values(directory.paxByAo)];
+  for (const name of lists.flat()) {
+    if (!byKey.has(toPaxNameKey(name))) byKey.set(toPaxNameKey(name), name);
+  }
+
+  const names: string[] = [];
+  const unknown: string[] = [];
+  for (const name of splitQField(q)) {
+    const match = byKey.get(toPaxNameKey(name));
+    if (match) names.push(match);
+    else unknown.push(name);
+  }
+  return { names, unknown };
+};
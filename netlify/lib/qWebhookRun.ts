@@ -0,0 +1,187 @@
+import { mapWorkoutSessionsToCompassSchedule } from "../../src/shared/compassQSchedule";
+import {
+  buildQWebhookPayload,
+  normalizeQWebhookSubscription,
+  type QWebhookSubscription,
+} from "../../src/shared/qWebhooks";
+import { getAoTodayIsoDate } from "../../src/shared/scheduleExceptions";
+import { addDaysToIsoDate } from "../../src/shared/timeZone";
+import { getAoRegistry } from "../../src/ao/aoConfig";
+import {
+  Q_WEBHOOKS_COLLECTION_PATH,
+  WORKOUT_SESSIONS_COLLECTION_PATH,
+  listCollectionDocuments,
+  writeDocuments,
+  type ServiceAccount,
+} from "./firestoreServer";
+
+/* ----------------------------------------------------
+   Posting tomorrow's Qs to qWebhooks subscriptions,
+   shared by q-webhooks (manual and dry runs) and
+   q-webhooks-daily (scheduled).
+---------------------------------------------------- */
+
+type FirestoreAccess = { serviceAccount: ServiceAccount | null; token: string | null };
+
+// Scheduled functions get 30 seconds in total. Subscriptions are posted side
+// by side, and each one's tries (backoff included) have to fit in the budget
+const MAX_ATTEMPTS = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const REQUEST_TIMEOUT_MS = 5000;
+const DELIVERY_BUDGET_MS = 20000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+type Delivery = { ok: boolean; attempts: number; status?: number; message?: string };
+
+/**
+ * POST with exponential backoff (1s, 2s). Network errors, 429 and 5xx are
+ * retried; any other 4xx means the payload or URL is wrong, so it isn't.
+ * No try starts, and none runs, past `deadline`.
+ */
+const deliverWebhook = async (
+  url: string,
+  payload: Record<string, unknown>,
+  deadline: number
+): Promise<Delivery> => {
+  let last: Delivery = { ok: false, attempts: 0, message: "Out of time" };
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) break;
+    try {
+      const res = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(Math.min(REQUEST_TIMEOUT_MS, remaining)),
+      });
+      if (res.ok) return { ok: true, attempts: attempt, status: res.status };
+      last = {
+        ok: false,
+        attempts: attempt,
+        status: res.status,
+        message: (await res.text()).slice(0, 200),
+      };
+      if (res.status < 500 && res.status !== 429) return last;
+    } catch (error) {
+      last = {
+        ok: false,
+        attempts: attempt,
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+    const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+    if (attempt < MAX_ATTEMPTS && Date.now() + delay < deadline) await sleep(delay);
+    else break;
+  }
+  return last;
+};
+
+export type QWebhookResult = {
+  id: string;
+  aoId: string;
+  workoutDate: string;
+  status: "sent" | "failed" | "skipped" | "dryRun";
+  reason?: string;
+  delivery?: Delivery;
+  payload?: Record<string, unknown>;
+};
+
+export type QWebhookRunOptions = {
+  // null for every AO
+  aoId: string | null;
+  // Which workout date to announce; defaults to tomorrow on each AO's clock
+  workoutDate?: string;
+  dryRun?: boolean;
+  // Post again even if this workout date already went out
+  force?: boolean;
+};
+
+/**
+ * Post (or, for dry runs, build) the payload for every enabled subscription.
+ * Dry runs go to WEBHOOK_DRY_RUN_URL instead when it is set.
+ */
+export const runQWebhooks = async (
+  { serviceAccount, token }: FirestoreAccess,
+  { aoId, workoutDate: workoutDateParam, dryRun = false, force = false }: QWebhookRunOptions
+): Promise<QWebhookResult[]> => {
+  const subscriptions = (
+    await listCollectionDocuments(serviceAccount, token, Q_WEBHOOKS_COLLECTION_PATH)
+  )
+    .map(normalizeQWebhookSubscription)
+    .filter((entry): entry is QWebhookSubscription => Boolean(entry))
+    .filter((entry) => !entry.disabled && (!aoId || entry.aoId === aoId));
+  if (subscriptions.length === 0) return [];
+
+  const sessions = await listCollectionDocuments(
+    serviceAccount,
+    token,
+    WORKOUT_SESSIONS_COLLECTION_PATH
+  );
+  const dryRunUrl = process.env.WEBHOOK_DRY_RUN_URL || "";
+  const deadline = Date.now() + DELIVERY_BUDGET_MS;
+
+  // Each subscription records its own outcome as soon as it's known, so a
+  // dead endpoint can't hold back the others or their lastSentDate
+  const runSubscription = async (subscription: QWebhookSubscription): Promise<QWebhookResult> => {
+    const ao = getAoRegistry()[subscription.aoId];
+    const workoutDate =
+      workoutDateParam ?? addDaysToIsoDate(getAoTodayIsoDate(ao), 1);
+    const base = { id: subscription.id, aoId: subscription.aoId, workoutDate };
+
+    if (!ao || ao.archived) {
+      return { ...base, status: "skipped", reason: "Unknown or archived AO" };
+    }
+    if (!dryRun && !force && subscription.lastSentDate === workoutDate) {
+      return { ...base, status: "skipped", reason: "Already sent" };
+    }
+
+    const rows = mapWorkoutSessionsToCompassSchedule(sessions, {
+      aoId: ao.id,
+      fromDateIso: workoutDate,
+      lookaheadDays: 1,
+      includeOpen: true,
+    });
+    const payload = buildQWebhookPayload(subscription, ao, workoutDate, rows);
+    if (!payload) {
+      return { ...base, status: "skipped", reason: "No workout to announce" };
+    }
+
+    if (dryRun) {
+      return {
+        ...base,
+        status: "dryRun",
+        payload,
+        ...(dryRunUrl ? { delivery: await deliverWebhook(dryRunUrl, payload, deadline) } : {}),
+      };
+    }
+
+    const delivery = await deliverWebhook(subscription.url, payload, deadline);
+    await writeDocuments(serviceAccount, token, [
+      {
+        path: `${Q_WEBHOOKS_COLLECTION_PATH}/${subscription.id}`,
+        data: delivery.ok
+          ? { lastSentDate: workoutDate, lastSentAt: new Date(), lastError: "" }
+          : {
+              lastError: `${delivery.status ?? "network"}: ${delivery.message || ""}`.trim(),
+              lastErrorAt: new Date(),
+            },
+      },
+    ]);
+    return { ...base, status: delivery.ok ? "sent" : "failed", delivery };
+  };
+
+  const settled = await Promise.allSettled(subscriptions.map(runSubscription));
+  return settled.map((outcome, index) =>
+    outcome.status === "fulfilled"
+      ? outcome.value
+      : {
+          id: subscriptions[index].id,
+          aoId: subscriptions[index].aoId,
+          workoutDate: workoutDateParam ?? "",
+          status: "failed",
+          reason: outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason),
+        }
+  );
+};
@@ -0,0 +1,138 @@
+/**
+ * Create or revoke an API key for the Netlify functions (apiKeys docs).
+ *
+ * The key is printed once and only its sha256 is stored, so keep the output
+ * somewhere safe (e.g. the caller's Apps Script properties). Scopes mirror
+ * src/shared/apiKeys.ts.
+ *
+ * Run with:
+ *   node scripts/createApiKey.mjs --name="Sign-up form" --scopes=schedule:read,q:write --rate=30
+ *   node scripts/createApiKey.mjs --revoke=sign-up-form
+ */
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import { JWT } from "google-auth-library";
+
+const COLLECTION_PATH = "apiKeys";
+const FIRESTORE_DATABASE_ID = process.env.FIRESTORE_DATABASE_ID || "(default)";
+const SA_PATH =
+  process.env.FIREBASE_SERVICE_ACCOUNT_PATH || "serviceAccountKey.json";
+
+const API_KEY_SCOPES = ["schedule:read", "q:write", "pax:read", "admin"];
+
+const args = process.argv.slice(2);
+const readArg = (name) =>
+  args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3).trim() || "";
+
+const readServiceAccount = async () => {
+  if (process.env.FIREBASE_SERVICE_ACCOUNT_JSON) {
+    return JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_JSON);
+  }
+  const fullPath = path.isAbsolute(SA_PATH)
+    ? SA_PATH
+    : path.join(process.cwd(), SA_PATH);
+  const raw = await fs.readFile(fullPath, "utf8");
+  return JSON.parse(raw);
+};
+
+const getAccessToken = async (serviceAccount) => {
+  const client = new JWT({
+    email: serviceAccount.client_email,
+    key: serviceAccount.private_key,
+    scopes: ["https://www.googleapis.com/auth/datastore"],
+  });
+  const { access_token } = await client.authorize();
+  if (!access_token) throw new Error("Failed to obtain access token.");
+  return access_token;
+};
+
+/** "Sign-up Form!" -> "sign-up-form" */
+const slugify = (value) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+const commitWrite = async (token, documentsRoot, write) => {
+  const res = await fetch(`${documentsRoot}:commit`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ writes: [write] }),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Firestore commit error: ${res.status} ${text}`);
+  }
+};
+
+const main = async () => {
+  const revokeId = readArg("revoke");
+  const name = readArg("name");
+  const scopes = readArg("scopes")
+    .split(",")
+    .map((scope) => scope.trim())
+    .filter(Boolean);
+  const rateLimit = Number(readArg("rate") || 0);
+
+  if (!revokeId) {
+    if (!name) throw new Error("--name is required");
+    const unknown = scopes.filter((scope) => !API_KEY_SCOPES.includes(scope));
+    if (scopes.length === 0 || unknown.length > 0) {
+      throw new Error(`--scopes must be a comma list of ${API_KEY_SCOPES.join(", ")}`);
+    }
+    if (!Number.isInteger(rateLimit) || rateLimit < 0) {
+      throw new Error("--rate must be a whole number of requests per minute");
+    }
+  }
+
+  const serviceAccount = await readServiceAccount();
+  const projectId = process.env.FIREBASE_PROJECT_ID || serviceAccount.project_id;
+  const databaseRoot = `projects/${projectId}/databases/${FIRESTORE_DATABASE_ID}/documents`;
+  const documentsRoot = `https://firestore.googleapis.com/v1/${databaseRoot}`;
+  const token = await getAccessToken(serviceAccount);
+
+  if (revokeId) {
+    await commitWrite(token, documentsRoot, {
+      update: {
+        name: `${databaseRoot}/${COLLECTION_PATH}/${revokeId}`,
+        fields: { disabled: { booleanValue: true } },
+      },
+      updateMask: { fieldPaths: ["disabled"] },
+      currentDocument: { exists: true },
+    });
+    console.log(`✅ Revoked ${revokeId} (takes effect within a minute)`);
+    return;
+  }
+
+  const id = slugify(name);
+  const key = `f3_${crypto.randomBytes(24).toString("base64url")}`;
+  const keyHash = crypto.createHash("sha256").update(key).digest("hex");
+
+  await commitWrite(token, documentsRoot, {
+    update: {
+      name: `${databaseRoot}/${COLLECTION_PATH}/${id}`,
+      fields: {
+        name: { stringValue: name },
+        keyHash: { stringValue: keyHash },
+        scopes: { arrayValue: { values: scopes.map((scope) => ({ stringValue: scope })) } },
+        ...(rateLimit ? { rateLimitPerMinute: { integerValue: String(rateLimit) } } : {}),
+        disabled: { booleanValue: false },
+        createdAt: { timestampValue: new Date().toISOString() },
+      },
+    },
+    // Never overwrite an existing key's hash; pick another name instead
+    currentDocument: { exists: false },
+  });
+
+  console.log(`✅ Created ${id} (${scopes.join(", ")}${rateLimit ? `, ${rateLimit}/min` : ""})`);
+  console.log(`   Key (shown once): ${key}`);
+};
+
+main().catch((err) => {
+  console.error("❌ API key update failed:", err);
+  process.exitCode = 1;
+});
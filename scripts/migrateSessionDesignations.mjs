@@ -0,0 +1,200 @@
+/**
+ * One-time migration: turn free-text notes like "VQ", "AQ (2 yr)" or "2..0"
+ * into the typed `designations` field on workoutSessions docs.
+ *
+ * Notes that held nothing but tags ("VQ/BQ!!!") are cleared; anything with
+ * other words in it ("DQ. That's what I like about Texas") is kept as is.
+ * Docs that already have a designations field are left alone, so re-running
+ * is safe. The patterns mirror src/shared/sessionDesignations.ts.
+ *
+ * Run with:
+ *   node scripts/migrateSessionDesignations.mjs --dry-run
+ *   node scripts/migrateSessionDesignations.mjs
+ *   node scripts/migrateSessionDesignations.mjs --ao=compass
+ */
+import fs from "fs/promises";
+import path from "path";
+import { JWT } from "google-auth-library";
+
+const COLLECTION_PATH = "workoutSessions";
+const FIRESTORE_DATABASE_ID = process.env.FIRESTORE_DATABASE_ID || "(default)";
+const SA_PATH =
+  process.env.FIREBASE_SERVICE_ACCOUNT_PATH || "serviceAccountKey.json";
+const COMMIT_BATCH_SIZE = 400;
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const aoFilter =
+  args.find((arg) => arg.startsWith("--ao="))?.slice("--ao=".length).trim() || "";
+
+const DESIGNATION_PATTERNS = [
+  ["VQ", /\bVQ\b/gi],
+  ["GQ", /\bGQ\b/gi],
+  ["AQ", /\bAQ\b(?:\s*\(?\s*(\d+)\s*(?:yrs?|years?)\s*\)?)?/gi],
+  ["BQ", /\bBQ\b/gi],
+  ["CSAUP", /\bCSAUP\b/gi],
+  ["TIR", /\bTIR\b/gi],
+  ["CONVERGENCE", /\bconvergence\b/gi],
+  ["2.0", /\b2\s*\.+\s*0\b/g],
+];
+
+const readServiceAccount = async () => {
+  if (process.env.FIREBASE_SERVICE_ACCOUNT_JSON) {
+    return JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_JSON);
+  }
+  const fullPath = path.isAbsolute(SA_PATH)
+    ? SA_PATH
+    : path.join(process.cwd(), SA_PATH);
+  const raw = await fs.readFile(fullPath, "utf8");
+  return JSON.parse(raw);
+};
+
+const getAccessToken = async (serviceAccount) => {
+  const client = new JWT({
+    email: serviceAccount.client_email,
+    key: serviceAccount.private_key,
+    scopes: ["https://www.googleapis.com/auth/datastore"],
+  });
+  const { access_token } = await client.authorize();
+  if (!access_token) throw new Error("Failed to obtain access token.");
+  return access_token;
+};
+
+/**
+ * "AQ (1 Yr)" -> { designations: [{ kind: "AQ", years: 1 }], isOnlyDesignations: true }
+ */
+const parseDesignations = (notes) => {
+  let remaining = String(notes || "");
+  const designations = [];
+
+  for (const [kind, pattern] of DESIGNATION_PATTERNS) {
+    let years;
+    let found = false;
+    remaining = remaining.replace(pattern, (_match, yearText) => {
+      found = true;
+      // Patterns without a year group get the match offset here instead
+      if (typeof yearText === "string") years = Number(yearText);
+      return " ";
+    });
+    if (found) designations.push(years ? { kind, years } : { kind });
+  }
+
+  return {
+    designations,
+    isOnlyDesignations: designations.length > 0 && !/[a-z0-9]/i.test(remaining),
+  };
+};
+
+const toFirestoreDesignations = (designations) => ({
+  arrayValue: {
+    values: designations.map(({ kind, years }) => ({
+      mapValue: {
+        fields: {
+          kind: { stringValue: kind },
+          ...(years ? { years: { integerValue: String(years) } } : {}),
+        },
+      },
+    })),
+  },
+});
+
+const listDocuments = async (token, documentsRoot) => {
+  const documents = [];
+  let nextPageToken;
+
+  do {
+    const url = new URL(`${documentsRoot}/${COLLECTION_PATH}`);
+    url.searchParams.set("pageSize", "1000");
+    if (nextPageToken) url.searchParams.set("pageToken", nextPageToken);
+
+    const res = await fetch(url, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`Firestore REST error: ${res.status} ${text}`);
+    }
+
+    const json = await res.json();
+    documents.push(...(json.documents || []));
+    nextPageToken = json.nextPageToken;
+  } while (nextPageToken);
+
+  return documents;
+};
+
+const buildUpdate = (doc) => {
+  const fields = doc.fields || {};
+  if (fields.designations) return null;
+  if (aoFilter && (fields.aoId?.stringValue || "compass") !== aoFilter) return null;
+
+  const notes = fields.notes?.stringValue || "";
+  const { designations, isOnlyDesignations } = parseDesignations(notes);
+  if (designations.length === 0) return null;
+
+  const update = { designations: toFirestoreDesignations(designations) };
+  if (isOnlyDesignations) update.notes = { stringValue: "" };
+
+  return {
+    notes,
+    designations,
+    write: {
+      update: { name: doc.name, fields: update },
+      updateMask: { fieldPaths: Object.keys(update) },
+      currentDocument: { exists: true },
+    },
+  };
+};
+
+const commitWrites = async (token, documentsRoot, writes) => {
+  const res = await fetch(`${documentsRoot}:commit`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ writes }),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Firestore commit error: ${res.status} ${text}`);
+  }
+};
+
+const main = async () => {
+  const serviceAccount = await readServiceAccount();
+  const projectId = process.env.FIREBASE_PROJECT_ID || serviceAccount.project_id;
+  const documentsRoot = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/${FIRESTORE_DATABASE_ID}/documents`;
+  const token = await getAccessToken(serviceAccount);
+
+  const documents = await listDocuments(token, documentsRoot);
+  const updates = documents.map(buildUpdate).filter(Boolean);
+
+  console.log(
+    `${documents.length} ${COLLECTION_PATH} docs, ${updates.length} with designations in their notes`
+  );
+
+  if (dryRun) {
+    for (const { write, notes, designations } of updates.slice(0, 20)) {
+      console.log(
+        `  ${write.update.name.split("/").pop()}: ${JSON.stringify(notes)} ->`,
+        designations,
+        write.updateMask.fieldPaths.includes("notes") ? "(notes cleared)" : ""
+      );
+    }
+    console.log("Dry run: no changes written.");
+    return;
+  }
+
+  const writes = updates.map((entry) => entry.write);
+  for (let i = 0; i < writes.length; i += COMMIT_BATCH_SIZE) {
+    const chunk = writes.slice(i, i + COMMIT_BATCH_SIZE);
+    await commitWrites(token, documentsRoot, chunk);
+    console.log(`✅ Committed ${i + chunk.length}/${writes.length}`);
+  }
+};
+
+main().catch((err) => {
+  console.error("❌ Migration failed:", err);
+  process.exitCode = 1;
+});
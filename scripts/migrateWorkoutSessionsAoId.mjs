@@ -0,0 +1,151 @@
+/**
+ * One-time migration: tag legacy workoutSessions docs with an aoId.
+ *
+ * Every doc written before sessions were scoped per AO belongs to Compass.
+ * Docs that already carry an aoId are left alone, so re-running is safe.
+ * Missing dateKey fields are backfilled from `date` at the same time.
+ *
+ * Run with:
+ *   node scripts/migrateWorkoutSessionsAoId.mjs --dry-run
+ *   node scripts/migrateWorkoutSessionsAoId.mjs
+ *   node scripts/migrateWorkoutSessionsAoId.mjs --ao=compass
+ */
+import fs from "fs/promises";
+import path from "path";
+import { JWT } from "google-auth-library";
+
+const COLLECTION_PATH = "workoutSessions";
+const FIRESTORE_DATABASE_ID = process.env.FIRESTORE_DATABASE_ID || "(default)";
+const SA_PATH =
+  process.env.FIREBASE_SERVICE_ACCOUNT_PATH || "serviceAccountKey.json";
+const COMMIT_BATCH_SIZE = 400;
+
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const aoId =
+  args.find((arg) => arg.startsWith("--ao="))?.slice("--ao=".length).trim() ||
+  "compass";
+
+const readServiceAccount = async () => {
+  if (process.env.FIREBASE_SERVICE_ACCOUNT_JSON) {
+    return JSON.parse(process.env.FIREBASE_SERVICE_ACCOUNT_JSON);
+  }
+  const fullPath = path.isAbsolute(SA_PATH)
+    ? SA_PATH
+    : path.join(process.cwd(), SA_PATH);
+  const raw = await fs.readFile(fullPath, "utf8");
+  return JSON.parse(raw);
+};
+
+const getAccessToken = async (serviceAccount) => {
+  const client = new JWT({
+    email: serviceAccount.client_email,
+    key: serviceAccount.private_key,
+    scopes: ["https://www.googleapis.com/auth/datastore"],
+  });
+  const { access_token } = await client.authorize();
+  if (!access_token) throw new Error("Failed to obtain access token.");
+  return access_token;
+};
+
+/**
+ * Convert "11/22/25 (Sat)" or "11/22/2025" -> "20251122"
+ */
+const computeDateKey = (dateStr) => {
+  if (!dateStr) return undefined;
+  const cleaned = String(dateStr).trim().split(" ")[0];
+  const [m, d, y] = cleaned.split("/");
+  if (!m || !d || !y) return undefined;
+  const year = y.length === 2 ? `20${y}` : y;
+  return `${year}${m.padStart(2, "0")}${d.padStart(2, "0")}`;
+};
+
+const listDocuments = async (token, documentsRoot) => {
+  const documents = [];
+  let nextPageToken;
+
+  do {
+    const url = new URL(`${documentsRoot}/${COLLECTION_PATH}`);
+    url.searchParams.set("pageSize", "1000");
+    if (nextPageToken) url.searchParams.set("pageToken", nextPageToken);
+
+    const res = await fetch(url, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    if (!res.ok) {
+      const text = await res.text();
+      throw new Error(`Firestore REST error: ${res.status} ${text}`);
+    }
+
+    const json = await res.json();
+    documents.push(...(json.documents || []));
+    nextPageToken = json.nextPageToken;
+  } while (nextPageToken);
+
+  return documents;
+};
+
+const buildUpdate = (doc) => {
+  const fields = doc.fields || {};
+  if (fields.aoId?.stringValue) return null;
+
+  const update = { aoId: { stringValue: aoId } };
+  if (!fields.dateKey?.stringValue) {
+    const dateKey = computeDateKey(fields.date?.stringValue);
+    if (dateKey) update.dateKey = { stringValue: dateKey };
+  }
+
+  return {
+    update: { name: doc.name, fields: update },
+    updateMask: { fieldPaths: Object.keys(update) },
+    currentDocument: { exists: true },
+  };
+};
+
+const commitWrites = async (token, documentsRoot, writes) => {
+  const res = await fetch(`${documentsRoot}:commit`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ writes }),
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`Firestore commit error: ${res.status} ${text}`);
+  }
+};
+
+const main = async () => {
+  const serviceAccount = await readServiceAccount();
+  const projectId = process.env.FIREBASE_PROJECT_ID || serviceAccount.project_id;
+  const documentsRoot = `https://firestore.googleapis.com/v1/projects/${projectId}/databases/${FIRESTORE_DATABASE_ID}/documents`;
+  const token = await getAccessToken(serviceAccount);
+
+  const documents = await listDocuments(token, documentsRoot);
+  const writes = documents.map(buildUpdate).filter(Boolean);
+
+  console.log(
+    `${documents.length} ${COLLECTION_PATH} docs, ${writes.length} missing aoId -> "${aoId}"`
+  );
+
+  if (dryRun) {
+    for (const write of writes.slice(0, 20)) {
+      console.log(`  ${write.update.name.split("/").pop()}`, write.updateMask.fieldPaths);
+    }
+    console.log("Dry run: no changes written.");
+    return;
+  }
+
+  for (let i = 0; i < writes.length; i += COMMIT_BATCH_SIZE) {
+    const chunk = writes.slice(i, i + COMMIT_BATCH_SIZE);
+    await commitWrites(token, documentsRoot, chunk);
+    console.log(`✅ Committed ${i + chunk.length}/${writes.length}`);
+  }
+};
+
+main().catch((err) => {
+  console.error("❌ Migration failed:", err);
+  process.exitCode = 1;
+});
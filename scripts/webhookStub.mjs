@@ -0,0 +1,53 @@
+/**
+ * Local stand-in for a Slack / GroupMe / generic webhook, for testing the
+ * q-webhooks function's dry-run mode without posting anywhere real.
+ *
+ * Run with:
+ *   node scripts/webhookStub.mjs
+ *   node scripts/webhookStub.mjs --port=8787 --fail=2
+ *
+ * then start Netlify Dev with WEBHOOK_DRY_RUN_URL=http://localhost:8787 and open
+ *   http://localhost:8888/.netlify/functions/q-webhooks?dryRun=1
+ *
+ * --fail=N answers the first N requests with a 503, to watch the retries.
+ */
+import http from "http";
+
+const args = process.argv.slice(2);
+const readArg = (name, fallback) =>
+  args.find((arg) => arg.startsWith(`--${name}=`))?.slice(name.length + 3) ?? fallback;
+
+const port = Number(readArg("port", process.env.PORT || "8787"));
+let failuresLeft = Number(readArg("fail", "0"));
+let requestCount = 0;
+
+const server = http.createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => {
+    body += chunk;
+  });
+  req.on("end", () => {
+    requestCount += 1;
+    let payload = body;
+    try {
+      payload = JSON.stringify(JSON.parse(body), null, 2);
+    } catch {
+      // not JSON; print as received
+    }
+
+    const failing = failuresLeft > 0;
+    if (failing) failuresLeft -= 1;
+
+    console.log(
+      `#${requestCount} ${req.method} ${req.url} -> ${failing ? "503 (simulated)" : "200"}`
+    );
+    console.log(payload);
+
+    res.writeHead(failing ? 503 : 200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ ok: !failing }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook stub listening on http://localhost:${port}`);
+});
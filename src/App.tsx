@@ -24,6 +24,24 @@ const BackblastGeneratorView = lazy(() =>
     default: m.BackblastGeneratorView,
   }))
 );
+const AoAdminView = lazy(() =>
+  import("./ao/AoAdminView").then((m) => ({ default: m.AoAdminView }))
+);
+const MyQsView = lazy(() =>
+  import("./components/MyQsView").then((m) => ({ default: m.MyQsView }))
+);
+const RegionView = lazy(() =>
+  import("./components/RegionView").then((m) => ({ default: m.RegionView }))
+);
+const RegionMapView = lazy(() =>
+  import("./components/RegionMapView").then((m) => ({ default: m.RegionMapView }))
+);
+const QsNeededView = lazy(() =>
+  import("./components/QsNeededView").then((m) => ({ default: m.QsNeededView }))
+);
+const QStatsView = lazy(() =>
+  import("./components/QStatsView").then((m) => ({ default: m.QStatsView }))
+);
 
 import {
   F3LogoIcon,
@@ -35,15 +53,26 @@ import {
 } from "./components/icons";
 
 import type { WorkoutSession, PlannerData } from "./types";
-import { getPaxDirectory } from "./services/paxDirectory";
+import { getPaxDirectory, type PaxDirectory } from "./services/paxDirectory";
 import { setPaxDirectory } from "./constants";
 import { useBumpPaxDirectoryVersion } from "./pax/PaxDirectoryContext";
 
 // ✅ AO (new)
 import { useAo } from "./ao/AoContext";
 import { AoSelector } from "./ao/AoSelector";
-
-type View = "Q_SHEET" | "PRE_BLAST" | "WORKOUT_PLANNER" | "BACK_BLAST";
+import { SyncStatusBadge } from "./components/SyncStatusBadge";
+
+type View =
+  | "Q_SHEET"
+  | "PRE_BLAST"
+  | "WORKOUT_PLANNER"
+  | "BACK_BLAST"
+  | "AO_ADMIN"
+  | "MY_QS"
+  | "REGION"
+  | "REGION_MAP"
+  | "QS_NEEDED"
+  | "Q_STATS";
 
 const defaultLogged: WorkoutSession[] = [];
 
@@ -58,12 +87,31 @@ const VIEW_QUERY_TO_APP_VIEW: Record<string, View> = {
   "workout-planner": "WORKOUT_PLANNER",
   backblast: "BACK_BLAST",
   "back-blast": "BACK_BLAST",
+  admin: "AO_ADMIN",
+  "ao-admin": "AO_ADMIN",
+  myqs: "MY_QS",
+  "my-qs": "MY_QS",
+  region: "REGION",
+  week: "REGION",
+  map: "REGION_MAP",
+  "region-map": "REGION_MAP",
+  qsneeded: "QS_NEEDED",
+  "qs-needed": "QS_NEEDED",
+  qstats: "Q_STATS",
+  "q-stats": "Q_STATS",
+  stats: "Q_STATS",
 };
 const APP_VIEW_TO_QUERY: Record<View, string> = {
   Q_SHEET: "qsheet",
   PRE_BLAST: "preblast",
   WORKOUT_PLANNER: "planner",
   BACK_BLAST: "backblast",
+  AO_ADMIN: "admin",
+  MY_QS: "myqs",
+  REGION: "region",
+  REGION_MAP: "map",
+  QS_NEEDED: "qsneeded",
+  Q_STATS: "qstats",
 };
 
 const parseViewQueryParam = (): View | null => {
@@ -130,13 +178,14 @@ const App: React.FC = () => {
   }, [loggedWorkouts]);
 
   useEffect(() => {
-    getPaxDirectory()
-      .then((data) => {
-        if (data) {
-          setPaxDirectory(data);
-          bumpPaxDirectoryVersion();
-        }
-      })
+    const applyPaxDirectory = (data: PaxDirectory | null) => {
+      if (data) {
+        setPaxDirectory(data);
+        bumpPaxDirectoryVersion();
+      }
+    };
+    getPaxDirectory({ onUpdate: applyPaxDirectory })
+      .then(applyPaxDirectory)
       .catch((err) => {
         console.warn("PAX directory load failed:", err);
       });
@@ -225,6 +274,24 @@ const App: React.FC = () => {
           />
         );
 
+      case "AO_ADMIN":
+        return <AoAdminView />;
+
+      case "MY_QS":
+        return <MyQsView />;
+
+      case "REGION":
+        return <RegionView />;
+
+      case "REGION_MAP":
+        return <RegionMapView />;
+
+      case "QS_NEEDED":
+        return <QsNeededView />;
+
+      case "Q_STATS":
+        return <QStatsView />;
+
       default:
         return null;
     }
@@ -338,6 +405,7 @@ const App: React.FC = () => {
               </nav>
 
               {/* ✅ AO selector in header (dropdown shows Jurassic Park (JP) per your AoSelector update) */}
+              <SyncStatusBadge />
               <AoSelector />
             </div>
           </div>
@@ -405,6 +473,54 @@ const App: React.FC = () => {
         >
           {isPaxRefreshing ? "Refreshing PAX…" : "Refresh PAX"}
         </button>
+        <span className="mx-2 text-xs text-slate-600">·</span>
+        <button
+          onClick={() => setActiveView("AO_ADMIN")}
+          className="mt-2 text-xs text-slate-400 hover:text-slate-100"
+          title="Create and edit AOs, schedules, hashtags and links"
+        >
+          Manage AOs
+        </button>
+        <span className="mx-2 text-xs text-slate-600">·</span>
+        <button
+          onClick={() => setActiveView("MY_QS")}
+          className="mt-2 text-xs text-slate-400 hover:text-slate-100"
+          title="Every slot you're Q for, with a calendar feed"
+        >
+          My Qs
+        </button>
+        <span className="mx-2 text-xs text-slate-600">·</span>
+        <button
+          onClick={() => setActiveView("REGION")}
+          className="mt-2 text-xs text-slate-400 hover:text-slate-100"
+          title="Every workout in the next 7 days across all AOs"
+        >
+          This week
+        </button>
+        <span className="mx-2 text-xs text-slate-600">·</span>
+        <button
+          onClick={() => setActiveView("REGION_MAP")}
+          className="mt-2 text-xs text-slate-400 hover:text-slate-100"
+          title="Every AO on a map with its next workout and Q"
+        >
+          Region map
+        </button>
+        <span className="mx-2 text-xs text-slate-600">·</span>
+        <button
+          onClick={() => setActiveView("QS_NEEDED")}
+          className="mt-2 text-xs text-slate-400 hover:text-slate-100"
+          title="Copy-ready BAND post listing open Q slots"
+        >
+          Qs needed post
+        </button>
+        <span className="mx-2 text-xs text-slate-600">·</span>
+        <button
+          onClick={() => setActiveView("Q_STATS")}
+          className="mt-2 text-xs text-slate-400 hover:text-slate-100"
+          title="Qs per PAX per AO, VQ/GQ/AQ events, and who's due to Q"
+        >
+          Q stats
+        </button>
       </footer>
     </div>
   );
@@ -0,0 +1,841 @@
+// src/ao/AoAdminView.tsx
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  AO_CONFIG,
+  DEFAULT_AO_TIME_ZONE,
+  getAoRegistry,
+  normalizeGeoPoint,
+  type AoConfig,
+  type GeoPoint,
+  type ScheduleBlock,
+  type ScheduleException,
+  type ScheduleExceptionKind,
+} from "./aoConfig";
+import { useAo } from "./AoContext";
+import { deleteAoConfig, saveAoConfig } from "./aoRegistry";
+import { extendWorkoutSchedule } from "../services/qSheetService";
+import { isValidTimeZone } from "../shared/timeZone";
+import { PAX_NAME_STORAGE_KEY, isSiteQ, stripAt } from "../shared/paxNames";
+import { ApiKeyUsagePanel } from "./ApiKeyUsagePanel";
+
+const DAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const MODULE_LABELS: Array<[keyof AoConfig["modules"], string]> = [
+  ["qSheet", "Q-Sheet"],
+  ["preblast", "Pre-Blast"],
+  ["planner", "Planner"],
+  ["backblast", "Backblast"],
+];
+
+const EXCEPTION_KIND_LABELS: Array<[ScheduleExceptionKind, string]> = [
+  ["cancelled", "Cancelled"],
+  ["holiday", "Holiday"],
+  ["convergence", "Convergence"],
+  ["timeChange", "Time change"],
+];
+
+// Suggestions only; any IANA zone name is accepted.
+const TIME_ZONE_SUGGESTIONS = [
+  "America/New_York",
+  "America/Chicago",
+  "America/Denver",
+  "America/Phoenix",
+  "America/Los_Angeles",
+  "America/Anchorage",
+  "Pacific/Honolulu",
+];
+
+const NEW_AO_KEY = "__new__";
+
+const EXTEND_MONTH_OPTIONS = [1, 3, 6, 12];
+
+const emptyAo = (): AoConfig => ({
+  id: "",
+  shortName: "",
+  displayName: "",
+  whereName: "",
+  address: "",
+  timeZone: DEFAULT_AO_TIME_ZONE,
+  scheduleBlocks: [{ daysOfWeek: [6], startTime24: "06:30", endTime24: "07:30" }],
+  qSheet: {},
+  hashtags: [],
+  optionalHashtags: [],
+  siteQs: [],
+  modules: { planner: true, qSheet: false, preblast: true, backblast: true },
+});
+
+const cloneAo = (ao: AoConfig): AoConfig => ({
+  ...ao,
+  scheduleBlocks: ao.scheduleBlocks.map((b) => ({ ...b, daysOfWeek: [...b.daysOfWeek] })),
+  scheduleExceptions: (ao.scheduleExceptions || []).map((e) => ({ ...e })),
+  qSheet: { ...ao.qSheet },
+  hashtags: [...ao.hashtags],
+  optionalHashtags: [...(ao.optionalHashtags || [])],
+  siteQs: [...(ao.siteQs || [])],
+  modules: { ...ao.modules },
+});
+
+// "#compass #lostboys" / "compass, lostboys" -> ["#compass", "#lostboys"]
+const parseHashtagInput = (raw: string) =>
+  raw
+    .split(/[\s,]+/)
+    .map((t) => t.trim())
+    .filter(Boolean)
+    .map((t) => (t.startsWith("#") ? t : `#${t}`));
+
+// "Hardwood, @Sparky" -> ["Hardwood", "Sparky"]
+const parseNameListInput = (raw: string) =>
+  raw.split(",").map(stripAt).filter(Boolean);
+
+const formatGeoPoint = (point?: GeoPoint) => (point ? `${point.lat}, ${point.lng}` : "");
+
+const slugifyAoId = (value: string) =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, "");
+
+const inputClass =
+  "w-full bg-slate-700 border border-slate-600 rounded-md px-2 py-1.5 text-white text-sm";
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({
+  label,
+  children,
+}) => (
+  <label className="block">
+    <span className="block text-xs text-slate-400 mb-1">{label}</span>
+    {children}
+  </label>
+);
+
+export const AoAdminView: React.FC = () => {
+  const { registryVersion } = useAo();
+  const registry = useMemo(() => getAoRegistry(), [registryVersion]);
+  const aoIds = useMemo(
+    () =>
+      Object.values(registry)
+        .sort((a, b) => a.shortName.localeCompare(b.shortName))
+        .map((ao) => ao.id),
+    [registry]
+  );
+
+  const [selectedId, setSelectedId] = useState<string>(aoIds[0] || NEW_AO_KEY);
+  const [draft, setDraft] = useState<AoConfig>(() =>
+    registry[selectedId] ? cloneAo(registry[selectedId]) : emptyAo()
+  );
+  const [hashtagText, setHashtagText] = useState("");
+  const [optionalHashtagText, setOptionalHashtagText] = useState("");
+  const [siteQsText, setSiteQsText] = useState("");
+  // "lat, lng" as typed/pasted; parsed on save
+  const [coordinatesText, setCoordinatesText] = useState("");
+  const [meetingPointCoordinatesText, setMeetingPointCoordinatesText] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState("");
+  const [error, setError] = useState("");
+  const [extendMonths, setExtendMonths] = useState(3);
+  const [isExtending, setIsExtending] = useState(false);
+
+  // API usage is for site Qs; the name is the one saved on the Q-sheet / My Qs
+  const isViewerSiteQ = useMemo(() => {
+    const viewer = localStorage.getItem(PAX_NAME_STORAGE_KEY) || "";
+    return Object.values(registry).some((ao) => isSiteQ(ao.siteQs, viewer));
+  }, [registry]);
+
+  const isNew = selectedId === NEW_AO_KEY;
+  const isBundled = !isNew && selectedId in AO_CONFIG;
+  const savedAo = isNew ? undefined : registry[selectedId];
+
+  // What the form was last loaded from, to tell local edits from remote saves
+  const loadedIdRef = useRef<string | null>(null);
+  const loadedSourceRef = useRef("");
+  const loadedFormRef = useRef("");
+  const [hasRemoteChange, setHasRemoteChange] = useState(false);
+
+  const formSnapshot = JSON.stringify([
+    draft,
+    hashtagText,
+    optionalHashtagText,
+    siteQsText,
+    coordinatesText,
+    meetingPointCoordinatesText,
+  ]);
+  const currentFormRef = useRef(formSnapshot);
+  currentFormRef.current = formSnapshot;
+
+  const loadForm = (id: string, source: AoConfig | undefined) => {
+    const next = source ? cloneAo(source) : emptyAo();
+    const texts = {
+      hashtags: next.hashtags.join(" "),
+      optionalHashtags: (next.optionalHashtags || []).join(" "),
+      siteQs: (next.siteQs || []).join(", "),
+      coordinates: formatGeoPoint(next.coordinates),
+      meetingPointCoordinates: formatGeoPoint(next.meetingPointCoordinates),
+    };
+    setDraft(next);
+    setHashtagText(texts.hashtags);
+    setOptionalHashtagText(texts.optionalHashtags);
+    setSiteQsText(texts.siteQs);
+    setCoordinatesText(texts.coordinates);
+    setMeetingPointCoordinatesText(texts.meetingPointCoordinates);
+    loadedIdRef.current = id;
+    loadedSourceRef.current = JSON.stringify(source ?? null);
+    loadedFormRef.current = JSON.stringify([
+      next,
+      texts.hashtags,
+      texts.optionalHashtags,
+      texts.siteQs,
+      texts.coordinates,
+      texts.meetingPointCoordinates,
+    ]);
+    setHasRemoteChange(false);
+    setError("");
+  };
+
+  // Switching AOs always reloads the form
+  useEffect(() => {
+    if (loadedIdRef.current !== selectedId) loadForm(selectedId, registry[selectedId]);
+  }, [selectedId]);
+
+  // A registry snapshot (e.g. another admin's save) only replaces an unedited
+  // form; with unsaved edits it's flagged so they aren't thrown away.
+  useEffect(() => {
+    const source = registry[selectedId];
+    if (JSON.stringify(source ?? null) === loadedSourceRef.current) return;
+    if (currentFormRef.current === loadedFormRef.current) {
+      loadForm(selectedId, source);
+    } else {
+      setHasRemoteChange(true);
+    }
+  }, [registry]);
+
+  const update = (patch: Partial<AoConfig>) =>
+    setDraft((prev) => ({ ...prev, ...patch }));
+
+  const updateBlock = (index: number, patch: Partial<ScheduleBlock>) =>
+    setDraft((prev) => ({
+      ...prev,
+      scheduleBlocks: prev.scheduleBlocks.map((b, i) =>
+        i === index ? { ...b, ...patch } : b
+      ),
+    }));
+
+  const exceptions = draft.scheduleExceptions || [];
+  const slotTimes = Array.from(
+    new Set(draft.scheduleBlocks.map((b) => b.startTime24))
+  ).sort();
+
+  const updateException = (index: number, patch: Partial<ScheduleException>) =>
+    setDraft((prev) => ({
+      ...prev,
+      scheduleExceptions: (prev.scheduleExceptions || []).map((e, i) =>
+        i === index ? { ...e, ...patch } : e
+      ),
+    }));
+
+  const toggleBlockDay = (index: number, day: number) => {
+    const block = draft.scheduleBlocks[index];
+    const days = block.daysOfWeek.includes(day)
+      ? block.daysOfWeek.filter((d) => d !== day)
+      : [...block.daysOfWeek, day].sort();
+    updateBlock(index, { daysOfWeek: days });
+  };
+
+  const handleSave = async () => {
+    setError("");
+    setStatus("");
+
+    const id = isNew ? slugifyAoId(draft.id || draft.shortName) : draft.id;
+    if (!id) {
+      setError("An AO id (or short name) is required.");
+      return;
+    }
+    if (isNew && registry[id]) {
+      setError(`An AO with id "${id}" already exists.`);
+      return;
+    }
+    const coordinates = normalizeGeoPoint(coordinatesText);
+    const meetingPointCoordinates = normalizeGeoPoint(meetingPointCoordinatesText);
+    if (
+      (coordinatesText.trim() && !coordinates) ||
+      (meetingPointCoordinatesText.trim() && !meetingPointCoordinates)
+    ) {
+      setError('Coordinates must be "latitude, longitude" (e.g. 29.5947, -95.5897).');
+      return;
+    }
+    if (!isValidTimeZone(draft.timeZone)) {
+      setError(`"${draft.timeZone}" is not a time zone (try America/Chicago).`);
+      return;
+    }
+    if (!draft.scheduleBlocks.some((b) => b.daysOfWeek.length > 0)) {
+      setError("Add at least one schedule block with a day selected.");
+      return;
+    }
+    if (exceptions.some((e) => !e.date)) {
+      setError("Every schedule exception needs a date.");
+      return;
+    }
+    if (exceptions.some((e) => e.kind === "timeChange" && !e.newStartTime24)) {
+      setError("Time change exceptions need a new start time.");
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const saved = await saveAoConfig({
+        ...draft,
+        id,
+        coordinates,
+        meetingPointCoordinates,
+        hashtags: parseHashtagInput(hashtagText),
+        optionalHashtags: parseHashtagInput(optionalHashtagText),
+        siteQs: parseNameListInput(siteQsText),
+      });
+      setSelectedId(saved.id);
+      loadForm(saved.id, saved);
+      setStatus(`Saved ${saved.shortName}.`);
+    } catch (err) {
+      console.error("Error saving AO:", err);
+      setError(err instanceof Error ? err.message : "Failed to save AO.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = async () => {
+    if (!isBundled) return;
+    if (!window.confirm(`Discard registry edits for ${draft.shortName}?`)) return;
+    try {
+      setIsSaving(true);
+      await deleteAoConfig(draft.id);
+      loadForm(draft.id, (AO_CONFIG as Record<string, AoConfig>)[draft.id]);
+      setStatus(`${draft.shortName} reset to the bundled config.`);
+    } catch (err) {
+      console.error("Error resetting AO:", err);
+      setError("Failed to reset AO.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Uses the saved config, not the draft, so sessions match what's live.
+  const handleExtendSchedule = async () => {
+    if (!savedAo) return;
+    setError("");
+    setStatus("");
+    try {
+      setIsExtending(true);
+      const { created, existing } = await extendWorkoutSchedule(savedAo, extendMonths);
+      setStatus(
+        created
+          ? `Added ${created} session${created === 1 ? "" : "s"} to ${savedAo.shortName} (${existing} already scheduled).`
+          : `${savedAo.shortName} is already scheduled ${extendMonths} month${extendMonths === 1 ? "" : "s"} out.`
+      );
+    } catch (err) {
+      console.error("Error extending schedule:", err);
+      setError("Failed to extend schedule.");
+    } finally {
+      setIsExtending(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-2xl sm:text-3xl font-display tracking-wide">AO Registry</h2>
+        <select
+          value={selectedId}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="bg-slate-700 border border-slate-600 rounded-md py-1 px-2 text-white text-sm"
+        >
+          {aoIds.map((id) => (
+            <option key={id} value={id}>
+              {registry[id].shortName}
+              {registry[id].archived ? " (archived)" : ""}
+            </option>
+          ))}
+          <option value={NEW_AO_KEY}>+ New AO</option>
+        </select>
+      </div>
+
+      <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 space-y-4">
+        <div className="grid gap-3 sm:grid-cols-2">
+          <Field label="AO id">
+            <input
+              value={draft.id}
+              disabled={!isNew}
+              onChange={(e) => update({ id: slugifyAoId(e.target.value) })}
+              placeholder="e.g. thehill"
+              className={`${inputClass} disabled:opacity-60`}
+            />
+          </Field>
+          <Field label="Short name">
+            <input
+              value={draft.shortName}
+              onChange={(e) => update({ shortName: e.target.value })}
+              className={inputClass}
+            />
+          </Field>
+          <Field label="Display name">
+            <input
+              value={draft.displayName}
+              onChange={(e) => update({ displayName: e.target.value })}
+              className={inputClass}
+            />
+          </Field>
+          <Field label="Where name">
+            <input
+              value={draft.whereName}
+              onChange={(e) => update({ whereName: e.target.value })}
+              className={inputClass}
+            />
+          </Field>
+          <Field label="Address">
+            <input
+              value={draft.address}
+              onChange={(e) => update({ address: e.target.value })}
+              className={inputClass}
+            />
+          </Field>
+          <Field label="Meeting point (optional)">
+            <input
+              value={draft.meetingPoint || ""}
+              onChange={(e) => update({ meetingPoint: e.target.value || undefined })}
+              className={inputClass}
+            />
+          </Field>
+          <Field label="Map pin (lat, lng)">
+            <input
+              value={coordinatesText}
+              onChange={(e) => setCoordinatesText(e.target.value)}
+              placeholder="29.5947, -95.5897"
+              className={inputClass}
+            />
+          </Field>
+          <Field label="Meeting point pin (optional, lat, lng)">
+            <input
+              value={meetingPointCoordinatesText}
+              onChange={(e) => setMeetingPointCoordinatesText(e.target.value)}
+              className={inputClass}
+            />
+          </Field>
+          <Field label="Time zone (schedule times are local to it)">
+            <input
+              list="ao-time-zones"
+              value={draft.timeZone}
+              onChange={(e) => update({ timeZone: e.target.value.trim() })}
+              className={inputClass}
+            />
+            <datalist id="ao-time-zones">
+              {TIME_ZONE_SUGGESTIONS.map((zone) => (
+                <option key={zone} value={zone} />
+              ))}
+            </datalist>
+          </Field>
+        </div>
+
+        {/* Schedule blocks */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-slate-200">Schedule blocks</h3>
+            <button
+              type="button"
+              onClick={() =>
+                update({
+                  scheduleBlocks: [
+                    ...draft.scheduleBlocks,
+                    { daysOfWeek: [], startTime24: "05:30", endTime24: "06:15" },
+                  ],
+                })
+              }
+              className="text-xs bg-slate-700 hover:bg-slate-600 px-2 py-1 rounded"
+            >
+              + Add block
+            </button>
+          </div>
+          <div className="space-y-2">
+            {draft.scheduleBlocks.map((block, index) => (
+              <div
+                key={index}
+                className="flex flex-wrap items-center gap-2 border border-slate-700 rounded-md p-2"
+              >
+                <div className="flex gap-1">
+                  {DAY_LABELS.map((label, day) => (
+                    <button
+                      key={label}
+                      type="button"
+                      onClick={() => toggleBlockDay(index, day)}
+                      className={`text-xs px-2 py-1 rounded ${
+                        block.daysOfWeek.includes(day)
+                          ? "bg-red-600 text-white"
+                          : "bg-slate-700 text-slate-300"
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <input
+                  type="time"
+                  value={block.startTime24}
+                  onChange={(e) => updateBlock(index, { startTime24: e.target.value })}
+                  className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-white text-sm"
+                />
+                <span className="text-slate-400 text-xs">to</span>
+                <input
+                  type="time"
+                  value={block.endTime24}
+                  onChange={(e) => updateBlock(index, { endTime24: e.target.value })}
+                  className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-white text-sm"
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    update({
+                      scheduleBlocks: draft.scheduleBlocks.filter((_, i) => i !== index),
+                    })
+                  }
+                  className="ml-auto text-xs text-slate-400 hover:text-red-400"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Schedule exceptions */}
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-sm font-semibold text-slate-200">Schedule exceptions</h3>
+            <button
+              type="button"
+              onClick={() =>
+                update({
+                  scheduleExceptions: [...exceptions, { date: "", kind: "cancelled" }],
+                })
+              }
+              className="text-xs bg-slate-700 hover:bg-slate-600 px-2 py-1 rounded"
+            >
+              + Add exception
+            </button>
+          </div>
+          {exceptions.length === 0 && (
+            <p className="text-xs text-slate-400">
+              No cancellations, holidays, convergences or time changes.
+            </p>
+          )}
+          <div className="space-y-2">
+            {exceptions.map((exception, index) => (
+              <div
+                key={index}
+                className="flex flex-wrap items-center gap-2 border border-slate-700 rounded-md p-2"
+              >
+                <input
+                  type="date"
+                  value={exception.date}
+                  onChange={(e) => updateException(index, { date: e.target.value })}
+                  className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-white text-sm"
+                />
+                <select
+                  value={exception.kind}
+                  onChange={(e) =>
+                    updateException(index, {
+                      kind: e.target.value as ScheduleExceptionKind,
+                    })
+                  }
+                  className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-white text-sm"
+                >
+                  {EXCEPTION_KIND_LABELS.map(([kind, label]) => (
+                    <option key={kind} value={kind}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={exception.startTime24 || ""}
+                  onChange={(e) =>
+                    updateException(index, { startTime24: e.target.value || undefined })
+                  }
+                  className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-white text-sm"
+                >
+                  <option value="">All slots</option>
+                  {slotTimes.map((time) => (
+                    <option key={time} value={time}>
+                      {time} slot
+                    </option>
+                  ))}
+                </select>
+                {exception.kind === "timeChange" && (
+                  <>
+                    <input
+                      type="time"
+                      value={exception.newStartTime24 || ""}
+                      onChange={(e) =>
+                        updateException(index, { newStartTime24: e.target.value })
+                      }
+                      className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-white text-sm"
+                    />
+                    <span className="text-slate-400 text-xs">to</span>
+                    <input
+                      type="time"
+                      value={exception.newEndTime24 || ""}
+                      onChange={(e) =>
+                        updateException(index, { newEndTime24: e.target.value })
+                      }
+                      className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-white text-sm"
+                    />
+                  </>
+                )}
+                {exception.kind === "convergence" && (
+                  <select
+                    value={exception.convergenceAoId || ""}
+                    onChange={(e) =>
+                      updateException(index, {
+                        convergenceAoId: e.target.value || undefined,
+                      })
+                    }
+                    className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-white text-sm"
+                  >
+                    <option value="">Host AO…</option>
+                    {aoIds.map((id) => (
+                      <option key={id} value={id}>
+                        {registry[id].shortName}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                <input
+                  value={exception.label || ""}
+                  onChange={(e) =>
+                    updateException(index, { label: e.target.value || undefined })
+                  }
+                  placeholder="Label (e.g. Christmas)"
+                  className="flex-1 min-w-[140px] bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-white text-sm"
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    update({
+                      scheduleExceptions: exceptions.filter((_, i) => i !== index),
+                    })
+                  }
+                  className="text-xs text-slate-400 hover:text-red-400"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Hashtags */}
+        <div className="grid gap-3 sm:grid-cols-2">
+          <Field label="Hashtags">
+            <input
+              value={hashtagText}
+              onChange={(e) => setHashtagText(e.target.value)}
+              placeholder="#compass"
+              className={inputClass}
+            />
+          </Field>
+          <Field label="Optional hashtags">
+            <input
+              value={optionalHashtagText}
+              onChange={(e) => setOptionalHashtagText(e.target.value)}
+              placeholder="#lostboys"
+              className={inputClass}
+            />
+          </Field>
+        </div>
+
+        {/* Site Qs */}
+        <Field label="Site Qs (can confirm a Q takeover)">
+          <input
+            value={siteQsText}
+            onChange={(e) => setSiteQsText(e.target.value)}
+            placeholder="Hardwood, Sparky"
+            className={inputClass}
+          />
+        </Field>
+
+        {/* Links */}
+        <div className="grid gap-3 sm:grid-cols-2">
+          <Field label="BAND post URL">
+            <input
+              value={draft.bandPostUrl || ""}
+              onChange={(e) => update({ bandPostUrl: e.target.value || undefined })}
+              className={inputClass}
+            />
+          </Field>
+          <Field label="BAND URL">
+            <input
+              value={draft.bandUrl || ""}
+              onChange={(e) => update({ bandUrl: e.target.value || undefined })}
+              className={inputClass}
+            />
+          </Field>
+          <Field label="Report URL">
+            <input
+              value={draft.reportUrl || ""}
+              onChange={(e) => update({ reportUrl: e.target.value || undefined })}
+              className={inputClass}
+            />
+          </Field>
+          <Field label="Q-Sheet TinyURL">
+            <input
+              value={draft.qSheet.tinyUrl || ""}
+              onChange={(e) =>
+                update({ qSheet: { ...draft.qSheet, tinyUrl: e.target.value || undefined } })
+              }
+              className={inputClass}
+            />
+          </Field>
+          <Field label="Q-Sheet Google Sheet URL">
+            <input
+              value={draft.qSheet.googleSheetUrl || ""}
+              onChange={(e) =>
+                update({
+                  qSheet: { ...draft.qSheet, googleSheetUrl: e.target.value || undefined },
+                })
+              }
+              className={inputClass}
+            />
+          </Field>
+          <Field label="Q-Sheet external signup URL">
+            <input
+              value={draft.qSheet.externalUrl || ""}
+              onChange={(e) =>
+                update({
+                  qSheet: { ...draft.qSheet, externalUrl: e.target.value || undefined },
+                })
+              }
+              className={inputClass}
+            />
+          </Field>
+        </div>
+
+        {/* Modules */}
+        <div className="flex flex-wrap gap-4">
+          {MODULE_LABELS.map(([key, label]) => (
+            <label key={key} className="flex items-center gap-2 text-sm text-slate-200">
+              <input
+                type="checkbox"
+                checked={draft.modules[key]}
+                onChange={(e) =>
+                  update({ modules: { ...draft.modules, [key]: e.target.checked } })
+                }
+              />
+              {label}
+            </label>
+          ))}
+          <label className="flex items-center gap-2 text-sm text-slate-200">
+            <input
+              type="checkbox"
+              checked={!!draft.qSheet.native}
+              onChange={(e) =>
+                update({ qSheet: { ...draft.qSheet, native: e.target.checked } })
+              }
+            />
+            Native Q-Sheet (edit in app)
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-200">
+            <input
+              type="checkbox"
+              checked={!!draft.qSheet.sheetSync}
+              onChange={(e) =>
+                update({ qSheet: { ...draft.qSheet, sheetSync: e.target.checked } })
+              }
+            />
+            Sync Qs from Google Sheet
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-200">
+            <input
+              type="checkbox"
+              checked={!!draft.qSheet.sheetWriteBack}
+              disabled={!draft.qSheet.sheetSync}
+              onChange={(e) =>
+                update({ qSheet: { ...draft.qSheet, sheetWriteBack: e.target.checked } })
+              }
+            />
+            Let API keys write Q claims back to the sheet
+          </label>
+          <label className="flex items-center gap-2 text-sm text-slate-400">
+            <input
+              type="checkbox"
+              checked={!!draft.archived}
+              onChange={(e) => update({ archived: e.target.checked })}
+            />
+            Archived
+          </label>
+        </div>
+
+        {hasRemoteChange && (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-amber-300">
+            Someone else saved {savedAo?.shortName || "this AO"} while you were editing.
+            <button
+              type="button"
+              onClick={() => {
+                if (window.confirm("Discard your edits and load the latest version?")) {
+                  loadForm(selectedId, registry[selectedId]);
+                }
+              }}
+              className="underline hover:text-amber-200"
+            >
+              Load latest
+            </button>
+          </div>
+        )}
+        {error && <p className="text-red-400 text-sm">{error}</p>}
+        {status && !error && <p className="text-slate-300 text-sm">{status}</p>}
+
+        <div className="flex flex-wrap gap-2">
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={isSaving}
+            className="bg-red-600 hover:bg-red-700 disabled:opacity-60 text-white font-bold py-2 px-4 rounded-md"
+          >
+            {isSaving ? "Saving…" : isNew ? "Create AO" : "Save AO"}
+          </button>
+          {isBundled && (
+            <button
+              type="button"
+              onClick={handleReset}
+              disabled={isSaving}
+              className="bg-slate-600 hover:bg-slate-500 text-white py-2 px-4 rounded-md"
+            >
+              Reset to bundled
+            </button>
+          )}
+        </div>
+      </div>
+
+      {savedAo?.qSheet.native && (
+        <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 flex flex-wrap items-center gap-3">
+          <span className="text-sm text-slate-200">Extend Q-Sheet schedule through</span>
+          <select
+            value={extendMonths}
+            onChange={(e) => setExtendMonths(Number(e.target.value))}
+            className="bg-slate-700 border border-slate-600 rounded-md py-1 px-2 text-white text-sm"
+          >
+            {EXTEND_MONTH_OPTIONS.map((m) => (
+              <option key={m} value={m}>
+                {m} month{m === 1 ? "" : "s"}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleExtendSchedule}
+            disabled={isExtending}
+            className="bg-slate-600 hover:bg-slate-500 disabled:opacity-60 text-white py-1.5 px-4 rounded-md text-sm"
+          >
+            {isExtending ? "Extending…" : "Extend schedule"}
+          </button>
+          <span className="text-xs text-slate-400">
+            Only adds missing day/time slots from the saved schedule blocks.
+          </span>
+        </div>
+      )}
+
+      {isViewerSiteQ && <ApiKeyUsagePanel />}
+    </div>
+  );
+};
@@ -1,11 +1,14 @@
 // src/ao/AoContext.tsx
 import React, { createContext, useContext, useEffect, useMemo, useState } from "react";
-import { AO_CONFIG, type AoConfig, type AoId } from "./aoConfig";
+import { getAoByIdSafe, isKnownAoId, type AoConfig, type AoId } from "./aoConfig";
+import { subscribeToAoRegistry } from "./aoRegistry";
 
 type AoContextValue = {
   activeAoId: AoId;
   activeAo: AoConfig;
   setActiveAoId: (id: AoId) => void;
+  // Bumped whenever the Firestore AO registry changes
+  registryVersion: number;
 };
 
 const AoContext = createContext<AoContextValue | null>(null);
@@ -13,14 +16,22 @@ const AoContext = createContext<AoContextValue | null>(null);
 const STORAGE_KEY = "f3_active_ao";
 
 export const AoProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [registryVersion, setRegistryVersion] = useState(0);
+
   const [activeAoId, setActiveAoIdState] = useState<AoId>(() => {
-    const urlAo = new URLSearchParams(window.location.search).get("ao") as AoId | null;
-    if (urlAo && AO_CONFIG[urlAo]) return urlAo;
+    const urlAo = new URLSearchParams(window.location.search).get("ao");
+    if (urlAo) return urlAo;
 
-    const saved = localStorage.getItem(STORAGE_KEY) as AoId | null;
-    return saved && AO_CONFIG[saved] ? saved : "compass";
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved || "compass";
   });
 
+  // Load the AO registry (cached → Firestore); bundled config until then.
+  useEffect(() => {
+    const unsub = subscribeToAoRegistry(() => setRegistryVersion((v) => v + 1));
+    return () => unsub();
+  }, []);
+
   // Keep localStorage and the shareable `?ao=` URL in sync.
   useEffect(() => {
     localStorage.setItem(STORAGE_KEY, activeAoId);
@@ -31,15 +42,19 @@ export const AoProvider: React.FC<{ children: React.ReactNode }> = ({ children }
   }, [activeAoId]);
 
   const setActiveAoId = (id: AoId) => {
-    if (!AO_CONFIG[id]) return;
+    if (!isKnownAoId(id)) return;
     setActiveAoIdState(id);
   };
 
-  const activeAo = useMemo(() => AO_CONFIG[activeAoId], [activeAoId]);
+  // Unknown ids (e.g. an AO not in the registry yet) resolve to Compass.
+  const activeAo = useMemo(
+    () => getAoByIdSafe(activeAoId),
+    [activeAoId, registryVersion]
+  );
 
   const value = useMemo(
-    () => ({ activeAoId, activeAo, setActiveAoId }),
-    [activeAoId, activeAo]
+    () => ({ activeAoId: activeAo.id, activeAo, setActiveAoId, registryVersion }),
+    [activeAo, registryVersion]
   );
 
   return <AoContext.Provider value={value}>{children}</AoContext.Provider>;
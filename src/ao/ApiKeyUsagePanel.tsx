@@ -0,0 +1,138 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { API_KEY_SCOPE_LABELS, type ApiKeyUsageSummary } from "../shared/apiKeys";
+import {
+  ApiKeyUsageAuthError,
+  fetchApiKeyUsage,
+  getStoredAdminApiKey,
+  setStoredAdminApiKey,
+} from "../services/apiKeyUsage";
+
+/* ----------------------------------------------------
+   Who is calling the Netlify function APIs, for site Qs:
+   one row per API key with its scopes and request counts.
+   Needs an "admin" API key, entered once per device.
+---------------------------------------------------- */
+
+const formatLastUsed = (iso: string | null) =>
+  iso ? new Date(iso).toLocaleString([], { dateStyle: "short", timeStyle: "short" }) : "never";
+
+export const ApiKeyUsagePanel: React.FC = () => {
+  const [keys, setKeys] = useState<ApiKeyUsageSummary[] | null>(null);
+  const [error, setError] = useState("");
+  const [needsAdminKey, setNeedsAdminKey] = useState(false);
+  const [adminKeyText, setAdminKeyText] = useState("");
+
+  const load = useCallback(async (isCancelled: () => boolean = () => false) => {
+    try {
+      const next = await fetchApiKeyUsage();
+      if (isCancelled()) return;
+      setKeys(next);
+      setError("");
+      setNeedsAdminKey(false);
+    } catch (err) {
+      if (isCancelled()) return;
+      const isAuthError = err instanceof ApiKeyUsageAuthError;
+      setNeedsAdminKey(isAuthError);
+      // A stored key that no longer works is worth saying; a missing one isn't
+      setError(
+        isAuthError && !getStoredAdminApiKey()
+          ? ""
+          : err instanceof Error
+            ? err.message
+            : String(err)
+      );
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    load(() => cancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, [load]);
+
+  const saveAdminKey = (e: React.FormEvent) => {
+    e.preventDefault();
+    setStoredAdminApiKey(adminKeyText.trim());
+    setAdminKeyText("");
+    load();
+  };
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 space-y-3">
+      <h3 className="text-sm font-bold text-slate-200">API keys</h3>
+      {error && <p className="text-red-400 text-sm">{error}</p>}
+      {needsAdminKey && (
+        <form onSubmit={saveAdminKey} className="flex flex-wrap items-center gap-2">
+          <input
+            type="password"
+            value={adminKeyText}
+            onChange={(e) => setAdminKeyText(e.target.value)}
+            placeholder="Admin API key (f3_…)"
+            className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-white text-sm"
+          />
+          <button
+            type="submit"
+            disabled={!adminKeyText.trim()}
+            className="bg-slate-600 hover:bg-slate-500 disabled:opacity-60 text-white py-1 px-3 rounded-md text-sm"
+          >
+            Show usage
+          </button>
+          <span className="text-xs text-slate-400">
+            Create one with scripts/createApiKey.mjs --scopes=admin.
+          </span>
+        </form>
+      )}
+      {!error && !needsAdminKey && !keys && (
+        <p className="text-slate-400 text-sm">Loading…</p>
+      )}
+      {keys?.length === 0 && (
+        <p className="text-slate-400 text-sm">
+          No API keys yet. Create one with scripts/createApiKey.mjs.
+        </p>
+      )}
+      {keys && keys.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-slate-300">
+            <thead>
+              <tr className="text-left text-xs text-slate-400">
+                <th className="py-1 pr-3 font-normal">Key</th>
+                <th className="py-1 pr-3 font-normal">Scopes</th>
+                <th className="py-1 pr-3 font-normal text-right">Today</th>
+                <th className="py-1 pr-3 font-normal text-right">{keys[0].daily.length} days</th>
+                <th className="py-1 pr-3 font-normal text-right">Limited</th>
+                <th className="py-1 font-normal">Last used</th>
+              </tr>
+            </thead>
+            <tbody>
+              {keys.map((key) => (
+                <tr
+                  key={key.id}
+                  className={`border-t border-slate-700 ${key.disabled ? "opacity-50" : ""}`}
+                >
+                  <td className="py-1 pr-3 text-white">
+                    {key.name}
+                    {key.disabled && <span className="text-slate-500"> (revoked)</span>}
+                  </td>
+                  <td className="py-1 pr-3 text-xs">
+                    {key.scopes.map((scope) => API_KEY_SCOPE_LABELS[scope]).join(", ")}
+                    {key.rateLimitPerMinute ? ` · ${key.rateLimitPerMinute}/min` : ""}
+                  </td>
+                  <td className="py-1 pr-3 text-right">
+                    {key.daily[key.daily.length - 1]?.count ?? 0}
+                  </td>
+                  <td className="py-1 pr-3 text-right">
+                    {key.daily.reduce((sum, day) => sum + day.count, 0)}
+                  </td>
+                  <td className="py-1 pr-3 text-right">{key.rateLimitedCount}</td>
+                  <td className="py-1 text-xs">{formatLastUsed(key.lastUsedAt)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,12 @@
 // src/ao/aoConfig.ts
+import { isValidTimeZone } from "../shared/timeZone";
 
-export type AoId =
+// AOs shipped with the app. The Firestore `aos` registry can add more at runtime,
+// so anything that accepts an AO id takes the wider `AoId`.
+// Every bundled AO meets in Sugar Land / Missouri City.
+export const DEFAULT_AO_TIME_ZONE = "America/Chicago";
+
+export type BundledAoId =
   | "compass"
   | "colosseum"
   | "jurassicpark"
@@ -10,12 +16,37 @@ export type AoId =
   | "phoenixrising"
   | "smoakedgrove";
 
+export type AoId = BundledAoId | (string & {});
+
 export type ScheduleBlock = {
   daysOfWeek: number[]; // JS: 0=Sun ... 6=Sat
   startTime24: string;  // "05:30"
   endTime24: string;    // "06:15"
 };
 
+export type ScheduleExceptionKind =
+  | "cancelled"   // no workout (weather, park closed, …)
+  | "holiday"     // no workout, labeled with the holiday
+  | "convergence" // region meets at convergenceAoId instead
+  | "timeChange"; // same day, different start/end
+
+// WGS84 decimal degrees, as copied from Google Maps ("29.5947, -95.5897")
+export type GeoPoint = {
+  lat: number;
+  lng: number;
+};
+
+// One-off change to the recurring schedule on a single date.
+export type ScheduleException = {
+  date: string;           // "2025-12-25"
+  kind: ScheduleExceptionKind;
+  startTime24?: string;   // regular slot it applies to; omit = every slot that day
+  label?: string;         // "Christmas", "Region convergence", "5K"
+  newStartTime24?: string; // timeChange only
+  newEndTime24?: string;   // timeChange only
+  convergenceAoId?: string; // convergence only: host AO
+};
+
 export type AoConfig = {
   id: AoId;
 
@@ -25,9 +56,17 @@ export type AoConfig = {
   whereName: string;
   address: string;
   meetingPoint?: string;
+  // Map pin for the AO (more precise than the street address)
+  coordinates?: GeoPoint;
+  // Separate pin for where PAX actually gather, when it differs
+  meetingPointCoordinates?: GeoPoint;
+
+  // IANA zone the schedule times are in; all "today"/"next workout" math uses it
+  timeZone: string;
 
   // ✅ Multi-block schedule for per-day time blocks
   scheduleBlocks: ScheduleBlock[];
+  scheduleExceptions?: ScheduleException[];
 
   // Links
   bandPostUrl?: string;
@@ -37,6 +76,12 @@ export type AoConfig = {
     tinyUrl?: string;
     googleSheetUrl?: string;
     externalUrl?: string;
+    // Edit Qs in the app against workoutSessions instead of a sheet/signup link
+    native?: boolean;
+    // Mirror googleSheetUrl's rows into workoutSessions (ao-sheet-sessions and ao-sheet-sync functions)
+    sheetSync?: boolean;
+    // Also write Q claims made in the app back to the sheet
+    sheetWriteBack?: boolean;
   };
 
   // AO-specific hashtags (generators will append #preblast/#backblast)
@@ -44,6 +89,9 @@ export type AoConfig = {
   // Optional hashtags shown in Preblast UI (not included unless selected)
   optionalHashtags?: string[];
 
+  // F3 names that can confirm a Q takeover on the Q-sheet
+  siteQs?: string[];
+
   // Module applicability
   modules: {
     planner: boolean;
@@ -51,15 +99,20 @@ export type AoConfig = {
     preblast: boolean;
     backblast: boolean;
   };
+
+  // Hidden from AO_LIST (selector, region views) but still resolvable by id
+  archived?: boolean;
 };
 
-export const AO_CONFIG: Record<AoId, AoConfig> = {
+export const AO_CONFIG: Record<BundledAoId, AoConfig> = {
   compass: {
     id: "compass",
     shortName: "Compass",
     displayName: "Compass at Lost Creek",
     whereName: "Lost Creek Park",
     address: "3703 Lost Creek Blvd, Sugar Land 77479",
+    coordinates: { lat: 29.594717923278505, lng: -95.58967308684299 },
+    timeZone: DEFAULT_AO_TIME_ZONE,
 
     // ✅ Correct per-day time blocks
     scheduleBlocks: [
@@ -81,6 +134,7 @@ export const AO_CONFIG: Record<AoId, AoConfig> = {
     qSheet: {
       tinyUrl: undefined,
       googleSheetUrl: undefined,
+      native: true,
     },
     hashtags: ["#compass"],
     optionalHashtags: ["#lostboys"],
@@ -93,6 +147,8 @@ export const AO_CONFIG: Record<AoId, AoConfig> = {
     displayName: "Colosseum",
     whereName: "Old Kempner Stadium",
     address: "223 5th St, Sugar Land, TX 77498",
+    coordinates: { lat: 29.62695548953722, lng: -95.63029043988304 },
+    timeZone: DEFAULT_AO_TIME_ZONE,
 
     scheduleBlocks: [
       {
@@ -109,6 +165,7 @@ export const AO_CONFIG: Record<AoId, AoConfig> = {
       tinyUrl: "https://tinyurl.com/F3Colosseum",
       googleSheetUrl:
         "https://docs.google.com/spreadsheets/d/1C_AamtdoHPaodpH-pDUx92n4DYgJUKLQhII0MoZDxIM/edit?gid=0#gid=0",
+      sheetSync: true,
     },
     hashtags: ["#colosseum"],
     optionalHashtags: ["#f3sugarland"],
@@ -121,6 +178,8 @@ export const AO_CONFIG: Record<AoId, AoConfig> = {
     displayName: "Jurassic Park",
     whereName: "Houston Museum of Natural Science",
     address: "13016 University Blvd, Sugar Land, TX 77479",
+    coordinates: { lat: 29.591870310392448, lng: -95.64927266698801 },
+    timeZone: DEFAULT_AO_TIME_ZONE,
     meetingPoint: "Meeting point is the far south end of the parking lot.",
 
     scheduleBlocks: [
@@ -139,6 +198,7 @@ export const AO_CONFIG: Record<AoId, AoConfig> = {
       tinyUrl: "https://tinyurl.com/F3JurassicPark",
       googleSheetUrl:
         "https://docs.google.com/spreadsheets/d/1C_AamtdoHPaodpH-pDUx92n4DYgJUKLQhII0MoZDxIM/edit?gid=1205329126#gid=1205329126",
+      sheetSync: true,
     },
     hashtags: ["#jurassicpark", "#sundayrunday", "#sundayruckday"],
     optionalHashtags: [],
@@ -151,6 +211,7 @@ export const AO_CONFIG: Record<AoId, AoConfig> = {
     displayName: "The Hill",
     whereName: "The Hill",
     address: "9600 Scanlan Trce, Missouri City, TX 77459",
+    timeZone: DEFAULT_AO_TIME_ZONE,
 
     scheduleBlocks: [
       {
@@ -188,6 +249,7 @@ export const AO_CONFIG: Record<AoId, AoConfig> = {
     displayName: "The Shadows",
     whereName: "The Shadows",
     address: "5855 Sienna Spgs Blvd, Missouri City, TX 77459",
+    timeZone: DEFAULT_AO_TIME_ZONE,
 
     scheduleBlocks: [
       {
@@ -221,6 +283,7 @@ export const AO_CONFIG: Record<AoId, AoConfig> = {
     displayName: "Gator Bay",
     whereName: "Gator Bay",
     address: "10201 Mount Logan, Missouri City, TX 77459",
+    timeZone: DEFAULT_AO_TIME_ZONE,
 
     scheduleBlocks: [
       {
@@ -253,6 +316,7 @@ export const AO_CONFIG: Record<AoId, AoConfig> = {
     displayName: "Phoenix Rising",
     whereName: "Phoenix Rising",
     address: "1700 Glenn Lakes Ln, Missouri City, TX 77459",
+    timeZone: DEFAULT_AO_TIME_ZONE,
 
     scheduleBlocks: [
       {
@@ -290,6 +354,7 @@ export const AO_CONFIG: Record<AoId, AoConfig> = {
     displayName: "Smoaked Grove",
     whereName: "Smoaked Grove",
     address: "1515 Golden Vw Dr, Missouri City, TX 77459",
+    timeZone: DEFAULT_AO_TIME_ZONE,
 
     scheduleBlocks: [
       {
@@ -306,6 +371,7 @@ export const AO_CONFIG: Record<AoId, AoConfig> = {
       tinyUrl: undefined,
       googleSheetUrl:
         "https://docs.google.com/spreadsheets/d/1uuGHi17kkbw-Lsni1Ik5t4yfrABc87Qx44G6PiJufAY/edit?gid=0#gid=0",
+      sheetSync: true,
     },
     hashtags: ["#smoakedgrove"],
     optionalHashtags: [],
@@ -313,20 +379,216 @@ export const AO_CONFIG: Record<AoId, AoConfig> = {
   },
 };
 
-export const AO_LIST: AoConfig[] = Object.values(AO_CONFIG).sort((a, b) =>
-  a.shortName.localeCompare(b.shortName)
-);
+/* ----------------------------------------------------
+   AO registry
+   - Starts from the bundled AO_CONFIG above
+   - AoProvider replaces it with the Firestore `aos` collection at startup
+   - AO_LIST is a live binding, so importers see registry updates
+---------------------------------------------------- */
+let aoRegistry: Record<string, AoConfig> = { ...AO_CONFIG };
+
+const buildAoList = (registry: Record<string, AoConfig>) =>
+  Object.values(registry)
+    .filter((ao) => !ao.archived)
+    .sort((a, b) => a.shortName.localeCompare(b.shortName));
+
+export let AO_LIST: AoConfig[] = buildAoList(aoRegistry);
+
+const asString = (value: unknown): string =>
+  typeof value === "string" ? value.trim() : "";
+
+const asOptionalString = (value: unknown): string | undefined =>
+  asString(value) || undefined;
+
+const asStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(asString).filter(Boolean) : [];
+
+const TIME_24_PATTERN = /^\d{2}:\d{2}$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const EXCEPTION_KINDS: ScheduleExceptionKind[] = [
+  "cancelled",
+  "holiday",
+  "convergence",
+  "timeChange",
+];
+
+/** { lat, lng } (or "lat, lng") in range -> GeoPoint; anything else -> undefined */
+export const normalizeGeoPoint = (raw: unknown): GeoPoint | undefined => {
+  let lat: unknown;
+  let lng: unknown;
+  if (typeof raw === "string") {
+    [lat, lng] = raw.split(",").map((part) => part.trim());
+  } else if (raw && typeof raw === "object") {
+    ({ lat, lng } = raw as Record<string, unknown>);
+  }
+  const latNum = Number(lat);
+  const lngNum = Number(lng);
+  if (lat === "" || lng === "" || lat == null || lng == null) return undefined;
+  if (!Number.isFinite(latNum) || Math.abs(latNum) > 90) return undefined;
+  if (!Number.isFinite(lngNum) || Math.abs(lngNum) > 180) return undefined;
+  return { lat: latNum, lng: lngNum };
+};
+
+const normalizeScheduleBlock = (raw: unknown): ScheduleBlock | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const block = raw as Record<string, unknown>;
+  const daysOfWeek = Array.isArray(block.daysOfWeek)
+    ? block.daysOfWeek
+        .map(Number)
+        .filter((d) => Number.isInteger(d) && d >= 0 && d <= 6)
+    : [];
+  const startTime24 = asString(block.startTime24);
+  const endTime24 = asString(block.endTime24);
+  if (!daysOfWeek.length) return null;
+  if (!TIME_24_PATTERN.test(startTime24) || !TIME_24_PATTERN.test(endTime24)) {
+    return null;
+  }
+  return {
+    daysOfWeek: Array.from(new Set(daysOfWeek)).sort(),
+    startTime24,
+    endTime24,
+  };
+};
+
+const asOptionalTime = (value: unknown): string | undefined => {
+  const time = asString(value);
+  return TIME_24_PATTERN.test(time) ? time : undefined;
+};
+
+export const normalizeScheduleException = (raw: unknown): ScheduleException | null => {
+  if (!raw || typeof raw !== "object") return null;
+  const entry = raw as Record<string, unknown>;
+  const date = asString(entry.date);
+  const kind = asString(entry.kind) as ScheduleExceptionKind;
+  if (!ISO_DATE_PATTERN.test(date) || !EXCEPTION_KINDS.includes(kind)) return null;
+
+  const exception: ScheduleException = {
+    date,
+    kind,
+    startTime24: asOptionalTime(entry.startTime24),
+    label: asOptionalString(entry.label),
+  };
+  if (kind === "timeChange") {
+    exception.newStartTime24 = asOptionalTime(entry.newStartTime24);
+    exception.newEndTime24 = asOptionalTime(entry.newEndTime24);
+    if (!exception.newStartTime24) return null;
+  }
+  if (kind === "convergence") {
+    exception.convergenceAoId = asOptionalString(entry.convergenceAoId)?.toLowerCase();
+  }
+  return exception;
+};
+
+/**
+ * Coerce a registry document (Firestore or localStorage) into an AoConfig.
+ * Missing fields fall back to the bundled config for the same id, if any.
+ */
+export const normalizeAoConfig = (id: string, raw: unknown): AoConfig | null => {
+  const aoId = asString(id).toLowerCase();
+  if (!aoId || !raw || typeof raw !== "object") return null;
+
+  const data = raw as Record<string, unknown>;
+  const base = (AO_CONFIG as Record<string, AoConfig>)[aoId];
+  const qSheet = (data.qSheet && typeof data.qSheet === "object"
+    ? data.qSheet
+    : base?.qSheet || {}) as Record<string, unknown>;
+  const modules = (data.modules && typeof data.modules === "object"
+    ? data.modules
+    : {}) as Record<string, unknown>;
+  const moduleFlag = (key: keyof AoConfig["modules"]) =>
+    typeof modules[key] === "boolean"
+      ? (modules[key] as boolean)
+      : base?.modules[key] ?? true;
+
+  const shortName = asString(data.shortName) || base?.shortName || aoId;
+  const scheduleBlocks = Array.isArray(data.scheduleBlocks)
+    ? data.scheduleBlocks
+        .map(normalizeScheduleBlock)
+        .filter((block): block is ScheduleBlock => Boolean(block))
+    : base?.scheduleBlocks || [];
+  const scheduleExceptions = Array.isArray(data.scheduleExceptions)
+    ? data.scheduleExceptions
+        .map(normalizeScheduleException)
+        .filter((entry): entry is ScheduleException => Boolean(entry))
+        .sort((a, b) => a.date.localeCompare(b.date))
+    : base?.scheduleExceptions;
+
+  return {
+    id: aoId,
+    shortName,
+    displayName: asString(data.displayName) || base?.displayName || shortName,
+    whereName: asString(data.whereName) || base?.whereName || shortName,
+    address: asString(data.address) || base?.address || "",
+    meetingPoint: asOptionalString(data.meetingPoint) ?? base?.meetingPoint,
+    coordinates: normalizeGeoPoint(data.coordinates) ?? base?.coordinates,
+    meetingPointCoordinates:
+      normalizeGeoPoint(data.meetingPointCoordinates) ?? base?.meetingPointCoordinates,
+    timeZone: isValidTimeZone(asString(data.timeZone))
+      ? asString(data.timeZone)
+      : base?.timeZone || DEFAULT_AO_TIME_ZONE,
+    scheduleBlocks,
+    scheduleExceptions,
+    bandPostUrl: asOptionalString(data.bandPostUrl) ?? base?.bandPostUrl,
+    bandUrl: asOptionalString(data.bandUrl) ?? base?.bandUrl,
+    reportUrl: asOptionalString(data.reportUrl) ?? base?.reportUrl,
+    qSheet: {
+      tinyUrl: asOptionalString(qSheet.tinyUrl),
+      googleSheetUrl: asOptionalString(qSheet.googleSheetUrl),
+      externalUrl: asOptionalString(qSheet.externalUrl),
+      native:
+        typeof qSheet.native === "boolean" ? qSheet.native : base?.qSheet.native,
+      sheetSync:
+        typeof qSheet.sheetSync === "boolean" ? qSheet.sheetSync : base?.qSheet.sheetSync,
+      sheetWriteBack:
+        typeof qSheet.sheetWriteBack === "boolean"
+          ? qSheet.sheetWriteBack
+          : base?.qSheet.sheetWriteBack,
+    },
+    hashtags: Array.isArray(data.hashtags)
+      ? asStringList(data.hashtags)
+      : base?.hashtags || [],
+    optionalHashtags: Array.isArray(data.optionalHashtags)
+      ? asStringList(data.optionalHashtags)
+      : base?.optionalHashtags || [],
+    siteQs: Array.isArray(data.siteQs) ? asStringList(data.siteQs) : base?.siteQs || [],
+    modules: {
+      planner: moduleFlag("planner"),
+      qSheet: moduleFlag("qSheet"),
+      preblast: moduleFlag("preblast"),
+      backblast: moduleFlag("backblast"),
+    },
+    archived: data.archived === true,
+  };
+};
+
+/**
+ * Replace the registry with the given AOs layered over the bundled config.
+ * Passing null (or an empty list) resets to the bundled AO_CONFIG.
+ */
+export const setAoRegistry = (configs: AoConfig[] | null) => {
+  const next: Record<string, AoConfig> = { ...AO_CONFIG };
+  for (const config of configs || []) {
+    next[config.id] = config;
+  }
+  aoRegistry = next;
+  AO_LIST = buildAoList(aoRegistry);
+};
+
+export const getAoRegistry = (): Record<string, AoConfig> => aoRegistry;
+
+export const isKnownAoId = (id: string | null | undefined): id is AoId =>
+  Boolean(id && aoRegistry[id]);
 
 /**
  * ✅ Exported helper expected by geminiService.ts (and useful elsewhere)
  */
-export const getAoById = (id: AoId): AoConfig => AO_CONFIG[id];
+export const getAoById = (id: AoId): AoConfig =>
+  aoRegistry[id] ?? AO_CONFIG.compass;
 
 /**
  * ✅ Safe helper if you ever parse IDs from storage/querystring
  */
 export const getAoByIdSafe = (id: string | null | undefined): AoConfig => {
-  if (!id) return AO_CONFIG.compass;
-  const key = id as AoId;
-  return AO_CONFIG[key] ?? AO_CONFIG.compass;
+  if (!id) return aoRegistry.compass ?? AO_CONFIG.compass;
+  return aoRegistry[id] ?? aoRegistry.compass ?? AO_CONFIG.compass;
 };
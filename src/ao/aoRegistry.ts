@@ -0,0 +1,79 @@
+// src/ao/aoRegistry.ts
+import { collection, deleteDoc, doc, onSnapshot, setDoc } from "firebase/firestore";
+import { db } from "../firebase";
+import { normalizeAoConfig, setAoRegistry, type AoConfig } from "./aoConfig";
+
+export const AO_COLLECTION_PATH = "aos";
+
+const CACHE_KEY = "f3AoRegistryCache";
+
+const readCachedRegistry = (): AoConfig[] | null => {
+  try {
+    const raw = localStorage.getItem(CACHE_KEY);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw) as Array<{ id?: string }>;
+    if (!Array.isArray(parsed)) return null;
+    return parsed
+      .map((entry) => normalizeAoConfig(String(entry?.id || ""), entry))
+      .filter((ao): ao is AoConfig => Boolean(ao));
+  } catch {
+    return null;
+  }
+};
+
+const writeCachedRegistry = (configs: AoConfig[]) => {
+  localStorage.setItem(CACHE_KEY, JSON.stringify(configs));
+};
+
+// Firestore rejects `undefined` anywhere in a document.
+const stripUndefined = <T>(value: T): T => {
+  if (Array.isArray(value)) return value.map(stripUndefined) as T;
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>)
+        .filter(([, v]) => v !== undefined)
+        .map(([k, v]) => [k, stripUndefined(v)])
+    ) as T;
+  }
+  return value;
+};
+
+/**
+ * Apply the last registry we saw (so offline starts keep admin edits),
+ * then keep the registry in sync with the `aos` collection.
+ * Falls back to the bundled AO_CONFIG if Firestore is unreachable.
+ */
+export const subscribeToAoRegistry = (onChange: () => void) => {
+  const cached = readCachedRegistry();
+  if (cached?.length) {
+    setAoRegistry(cached);
+    onChange();
+  }
+
+  return onSnapshot(
+    collection(db, AO_COLLECTION_PATH),
+    (snapshot) => {
+      const configs = snapshot.docs
+        .map((d) => normalizeAoConfig(d.id, d.data()))
+        .filter((ao): ao is AoConfig => Boolean(ao));
+      setAoRegistry(configs);
+      writeCachedRegistry(configs);
+      onChange();
+    },
+    (err) => {
+      console.warn("AO registry load failed; using bundled AO config:", err);
+    }
+  );
+};
+
+export const saveAoConfig = async (config: AoConfig) => {
+  const normalized = normalizeAoConfig(config.id, config);
+  if (!normalized) throw new Error("AO id is required.");
+  await setDoc(doc(db, AO_COLLECTION_PATH, normalized.id), stripUndefined(normalized));
+  return normalized;
+};
+
+/** Removes the Firestore override; bundled AOs revert to AO_CONFIG. */
+export const deleteAoConfig = async (aoId: string) => {
+  await deleteDoc(doc(db, AO_COLLECTION_PATH, aoId));
+};
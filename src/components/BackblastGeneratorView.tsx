@@ -28,7 +28,16 @@ import { usePaxDirectoryVersion } from "../pax/PaxDirectoryContext";
 // ✅ AO
 import { useAo } from "../ao/AoContext";
 import { AoSelector } from "../ao/AoSelector";
-import type { AoId } from "../ao/aoConfig";
+import type { AoConfig, AoId } from "../ao/aoConfig";
+import {
+  findMostRecentScheduleSlot,
+  getAoTodayIsoDate,
+  type ResolvedScheduleSlot,
+} from "../shared/scheduleExceptions";
+import { isoDateToLocalDate } from "../shared/timeZone";
+import { prependDesignationCallouts } from "../shared/sessionDesignations";
+import { SessionDesignationBadges, useQSheetDesignations } from "./SessionDesignations";
+import { WorkoutSlotChooser, pickScheduleSlotForDate } from "./WorkoutSlotChooser";
 
 /* ---------- DND-KIT (same behavior as Workout Planner) ---------- */
 import {
@@ -274,67 +283,27 @@ const buildHashtags = (
   });
 };
 
-// Given an AO with scheduleBlocks, find the most recent workout (in the past)
-// scanning back up to 14 days.
-const getMostRecentWorkoutDetailsForAo = (ao: {
-  scheduleBlocks: {
-    daysOfWeek: number[];
-    startTime24: string;
-    endTime24: string;
-  }[];
-}) => {
-  const now = new Date();
-
-  const parseStart = (d: Date, start24: string) => {
-    const [hh, mm] = start24.split(":").map(Number);
-    const x = new Date(d);
-    x.setHours(hh || 0, mm || 0, 0, 0);
-    return x;
-  };
-
-  let best: {
-    start: Date;
-    startTime24: string;
-    endTime24: string;
-  } | null = null;
-
-  // Look back 14 days for the latest scheduled workout start that is <= now
-  for (let back = 0; back <= 14; back++) {
-    const day = new Date(now);
-    day.setDate(now.getDate() - back);
-
-    for (const block of ao.scheduleBlocks || []) {
-      if (!block.daysOfWeek.includes(day.getDay())) continue;
-
-      const start = parseStart(day, block.startTime24);
-      if (start.getTime() > now.getTime()) continue;
-
-      if (!best || start.getTime() > best.start.getTime()) {
-        best = {
-          start,
-          startTime24: block.startTime24,
-          endTime24: block.endTime24,
-        };
-      }
-    }
-  }
+// Given an AO with scheduleBlocks, find the most recent workout (in the past,
+// on the AO's clock) scanning back up to 14 days. Cancelled/holiday/convergence
+// dates are skipped.
+const getMostRecentWorkoutDetailsForAo = (
+  ao: Pick<AoConfig, "id" | "scheduleBlocks" | "scheduleExceptions" | "timeZone">
+) => {
+  const slot = findMostRecentScheduleSlot(ao);
 
   const fallbackBlock = (ao.scheduleBlocks && ao.scheduleBlocks[0]) || {
-    daysOfWeek: [now.getDay()],
     startTime24: "05:30",
     endTime24: "06:15",
   };
 
-  const chosen = best ?? {
-    start: parseStart(now, fallbackBlock.startTime24),
-    startTime24: fallbackBlock.startTime24,
-    endTime24: fallbackBlock.endTime24,
-  };
+  const isoDate = slot?.isoDate || getAoTodayIsoDate(ao);
+  const startTime24 = slot?.startTime24 || fallbackBlock.startTime24;
+  const endTime24 = slot ? slot.endTime24 : fallbackBlock.endTime24;
 
   return {
-    longDate: formatDateLong(chosen.start),
-    time: buildWorkoutTimeRange(chosen.startTime24, chosen.endTime24),
-    startTime24: chosen.startTime24,
+    longDate: formatDateLong(isoDateToLocalDate(isoDate)),
+    time: buildWorkoutTimeRange(startTime24, endTime24),
+    startTime24,
   };
 };
 
@@ -1216,6 +1185,14 @@ export const BackblastGeneratorView: React.FC<BackblastGeneratorViewProps> = ({
   const [startTime24, setStartTime24] = useState(parsedStart || "06:00");
   const [endTime24, setEndTime24] = useState(parsedEnd || "07:00");
 
+  // VQ / AQ / ... from the Q-sheet for this workout, celebrated at the top of the post
+  const qSheetDesignations = useQSheetDesignations(activeAo.id, dateInputValue, startTime24);
+  const withDesignationCallouts = (text: string, useEmojis: boolean) =>
+    prependDesignationCallouts(text, qSheetDesignations, stripAt(qName), {
+      tense: "past",
+      useEmojis,
+    });
+
   // Standard (non-JP) pax
   const [paxAttendance, setPaxAttendance] = useState<PaxAttendance[]>([]);
 
@@ -3235,6 +3212,13 @@ export const BackblastGeneratorView: React.FC<BackblastGeneratorViewProps> = ({
     }
   };
 
+  // Days with an AM and a PM workout: the chosen slot sets both times
+  const selectWorkoutSlot = (slot: ResolvedScheduleSlot) => {
+    setStartTime24(slot.startTime24);
+    setEndTime24(slot.endTime24);
+    updateWorkoutTimeRange(slot.startTime24, slot.endTime24);
+  };
+
   const markOutput = (label: string, mode: "AI" | "NO_AI") => {
     setOutputLabel(label);
     setOutputMode(mode);
@@ -3521,14 +3505,14 @@ export const BackblastGeneratorView: React.FC<BackblastGeneratorViewProps> = ({
       });
         const finalText =
           forceNoEmojis || !useEmojis ? stripEmojis(formatted) : formatted;
-        setGeneratedText(finalText);
+        setGeneratedText(withDesignationCallouts(finalText, useEmojis && !forceNoEmojis));
         markOutput("Generated by AI", "AI");
 
         // Log with JP flattening
         logWorkoutToHistory([]);
       } else {
         const normalized = normalizeBackblastEmojis(result, styleSeed, useEmojis);
-        setGeneratedText(normalized);
+        setGeneratedText(withDesignationCallouts(normalized, useEmojis && !forceNoEmojis));
         markOutput("Generated by AI", "AI");
         logWorkoutToHistory(validStandardPax);
       }
@@ -3559,7 +3543,7 @@ export const BackblastGeneratorView: React.FC<BackblastGeneratorViewProps> = ({
         });
         const finalText =
           forceNoEmojis || !useEmojis ? stripEmojis(formatted) : formatted;
-        setGeneratedText(finalText);
+        setGeneratedText(withDesignationCallouts(finalText, useEmojis && !forceNoEmojis));
         markOutput("Generated (No AI)", "NO_AI");
         logWorkoutToHistory([]);
       } else {
@@ -3581,7 +3565,7 @@ export const BackblastGeneratorView: React.FC<BackblastGeneratorViewProps> = ({
         });
         const finalText =
           forceNoEmojis || !useEmojis ? stripEmojis(formatted) : formatted;
-        setGeneratedText(finalText);
+        setGeneratedText(withDesignationCallouts(finalText, useEmojis && !forceNoEmojis));
         markOutput("Generated (No AI)", "NO_AI");
         logWorkoutToHistory(validStandardPax);
       }
@@ -3650,7 +3634,7 @@ export const BackblastGeneratorView: React.FC<BackblastGeneratorViewProps> = ({
 
     const finalText =
       forceNoEmojis || !useEmojis ? stripEmojis(formatted) : formatted;
-    setGeneratedText(finalText);
+    setGeneratedText(withDesignationCallouts(finalText, useEmojis && !forceNoEmojis));
     markOutput("Generated (No AI)", "NO_AI");
 
     // Log
@@ -3910,6 +3894,13 @@ export const BackblastGeneratorView: React.FC<BackblastGeneratorViewProps> = ({
                 className="mt-2 w-full min-h-[44px] bg-slate-700 border border-slate-600 rounded-md py-2 px-3 text-white text-sm"
               />
             )}
+            {qSheetDesignations.length > 0 && (
+              <div className="mt-2 flex flex-wrap items-center gap-1 text-xs text-slate-400">
+                <span>Q-sheet:</span>
+                <SessionDesignationBadges designations={qSheetDesignations} />
+                <span>called out at the top of the post.</span>
+              </div>
+            )}
           </div>
 
           {/* DATE + TIME */}
@@ -3946,6 +3937,8 @@ export const BackblastGeneratorView: React.FC<BackblastGeneratorViewProps> = ({
                       setDateInputValue(iso);
                       if (iso) {
                         setLongDate(formatDateLong(new Date(`${iso}T00:00:00`)));
+                        const slot = pickScheduleSlotForDate(activeAo, iso, startTime24);
+                        if (slot) selectWorkoutSlot(slot);
                       }
                     }}
                     className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
@@ -4016,6 +4009,12 @@ export const BackblastGeneratorView: React.FC<BackblastGeneratorViewProps> = ({
                 </div>
               </div>
             </div>
+            <WorkoutSlotChooser
+              ao={activeAo}
+              isoDate={dateInputValue}
+              startTime24={startTime24}
+              onSelect={selectWorkoutSlot}
+            />
           </div>
 
           {/* PAX */}
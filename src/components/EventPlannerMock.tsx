@@ -1,7 +1,6 @@
 import React, { useEffect, useMemo, useState } from "react";
 import {
   collection,
-  deleteDoc,
   doc,
   onSnapshot,
   orderBy,
@@ -10,6 +9,8 @@ import {
   serverTimestamp,
   setDoc,
   writeBatch,
+  type DocumentReference,
+  type QuerySnapshot,
 } from "firebase/firestore";
 import { getPaxListByAo } from "../constants";
 import { setPaxDirectory } from "../constants";
@@ -18,8 +19,15 @@ import {
   useBumpPaxDirectoryVersion,
   usePaxDirectoryVersion,
 } from "../pax/PaxDirectoryContext";
-import { getPaxDirectory } from "../services/paxDirectory";
+import { getPaxDirectory, type PaxDirectory } from "../services/paxDirectory";
+import {
+  isOffline,
+  readRevision,
+  setDocWithRevision,
+  trackPendingWrite,
+} from "../services/syncStatus";
 import { createId } from "../utils/ids";
+import { SyncStatusBadge } from "./SyncStatusBadge";
 import {
   BurgerIcon,
   CalendarIcon,
@@ -462,6 +470,21 @@ const getSignupItemsCollection = (group: SignupGroup, sectionId: string) =>
 
 const getNextOrder = (items: { id: string }[]) => items.length;
 
+// Doc path -> last `revision` a listener saw; the base for offline conflict checks
+const docRevisions = new Map<string, number>();
+
+const saveEventDoc = (
+  ref: DocumentReference,
+  data: Record<string, unknown>,
+  label: string,
+  merge = true
+) =>
+  setDocWithRevision(ref, data, {
+    baseRevision: docRevisions.get(ref.path) ?? 0,
+    label,
+    options: merge ? { merge: true } : undefined,
+  });
+
 const ensureSharedPlannerSeed = async () => {
   await runTransaction(db, async (transaction) => {
     const plannerRef = getEventPlannerDocRef();
@@ -606,6 +629,15 @@ const StatusSelect: React.FC<{
   </select>
 );
 
+const PendingSyncNote: React.FC = () => (
+  <div
+    className="mt-0.5 text-[10px] text-sky-300"
+    title="Saved on this device. It will sync when you're back online."
+  >
+    Pending sync
+  </div>
+);
+
 const SummaryCard: React.FC<{ label: string; value: string; hint?: string }> = ({
   label,
   value,
@@ -659,6 +691,24 @@ export const EventPlannerMock: React.FC = () => {
   const [draggedSignupItem, setDraggedSignupItem] = useState<DraggedSignupItem | null>(null);
   const [selectedPaxName, setSelectedPaxName] = useState("");
   const [isPaxFilterOpen, setIsPaxFilterOpen] = useState(false);
+  // Listener -> doc paths with local writes the server hasn't confirmed yet
+  const [pendingPathsByListener, setPendingPathsByListener] = useState<
+    Record<string, string[]>
+  >({});
+
+  const pendingPaths = useMemo(
+    () => new Set(Object.values(pendingPathsByListener).flat()),
+    [pendingPathsByListener]
+  );
+  const isPendingDoc = (ref: DocumentReference) => pendingPaths.has(ref.path);
+
+  const trackSnapshotSync = (key: string, snapshot: QuerySnapshot) => {
+    snapshot.docs.forEach((item) => docRevisions.set(item.ref.path, readRevision(item.data())));
+    const pending = snapshot.docs
+      .filter((item) => item.metadata.hasPendingWrites)
+      .map((item) => item.ref.path);
+    setPendingPathsByListener((current) => ({ ...current, [key]: pending }));
+  };
 
   const countdownLabel = useMemo(() => {
     const today = new Date();
@@ -675,13 +725,14 @@ export const EventPlannerMock: React.FC = () => {
   );
 
   useEffect(() => {
-    getPaxDirectory()
-      .then((data) => {
-        if (data) {
-          setPaxDirectory(data);
-          bumpPaxDirectoryVersion();
-        }
-      })
+    const applyPaxDirectory = (data: PaxDirectory | null) => {
+      if (data) {
+        setPaxDirectory(data);
+        bumpPaxDirectoryVersion();
+      }
+    };
+    getPaxDirectory({ onUpdate: applyPaxDirectory })
+      .then(applyPaxDirectory)
       .catch((error) => {
         console.warn("PAX directory load failed for Event Planner:", error);
       });
@@ -690,6 +741,12 @@ export const EventPlannerMock: React.FC = () => {
   useEffect(() => {
     let isMounted = true;
 
+    // The seed needs a transaction; offline, show whatever the cache has
+    if (isOffline()) {
+      setIsPlannerReady(true);
+      return;
+    }
+
     ensureSharedPlannerSeed()
       .then(() => {
         if (isMounted) setIsPlannerReady(true);
@@ -713,7 +770,9 @@ export const EventPlannerMock: React.FC = () => {
 
     const unsubscribe = onSnapshot(
       query(getLeadershipRolesCollection(), orderBy("order")),
+      { includeMetadataChanges: true },
       (snapshot) => {
+        trackSnapshotSync("roles", snapshot);
         setLeadershipRoles(
           snapshot.docs.map((item) => {
             const data = item.data() as LeadershipRole & { order?: number };
@@ -738,7 +797,9 @@ export const EventPlannerMock: React.FC = () => {
 
     const unsubscribe = onSnapshot(
       query(getWorkoutSectionsCollection(), orderBy("order")),
+      { includeMetadataChanges: true },
       (snapshot) => {
+        trackSnapshotSync("workout", snapshot);
         const sections = snapshot.docs.map((item) => {
           const data = item.data() as {
             title?: string;
@@ -842,7 +903,9 @@ export const EventPlannerMock: React.FC = () => {
     const unsubscribers = foodSectionIds.map((sectionId) =>
       onSnapshot(
         query(getSignupItemsCollection("food", sectionId), orderBy("order")),
+        { includeMetadataChanges: true },
         (snapshot) => {
+          trackSnapshotSync(`food/${sectionId}`, snapshot);
           const items = snapshot.docs.map((item) => {
             const data = item.data() as SignupItem & { order?: number };
             return {
@@ -905,7 +968,9 @@ export const EventPlannerMock: React.FC = () => {
     const unsubscribers = logisticsSectionIds.map((sectionId) =>
       onSnapshot(
         query(getSignupItemsCollection("logistics", sectionId), orderBy("order")),
+        { includeMetadataChanges: true },
         (snapshot) => {
+          trackSnapshotSync(`logistics/${sectionId}`, snapshot);
           const items = snapshot.docs.map((item) => {
             const data = item.data() as SignupItem & { order?: number };
             return {
@@ -1061,17 +1126,18 @@ export const EventPlannerMock: React.FC = () => {
     field: keyof LeadershipRole,
     value: string
   ) => {
+    const roleName = leadershipRoles.find((role) => role.id === id)?.role;
     setLeadershipRoles((current) =>
       current.map((role) => (role.id === id ? { ...role, [field]: value } : role))
     );
 
-    void setDoc(
+    void saveEventDoc(
       doc(getLeadershipRolesCollection(), id),
       {
         [field]: value,
         updatedAt: serverTimestamp(),
       },
-      { merge: true }
+      `Role “${roleName || "New role"}”`
     ).catch((error) => {
       console.error(`Failed to update leadership role ${id}:`, error);
     });
@@ -1090,11 +1156,16 @@ export const EventPlannerMock: React.FC = () => {
 
     setLeadershipRoles((current) => [...current, nextRole]);
 
-    void setDoc(doc(getLeadershipRolesCollection(), nextRole.id), {
-      ...nextRole,
-      order,
-      updatedAt: serverTimestamp(),
-    }).catch((error) => {
+    void saveEventDoc(
+      doc(getLeadershipRolesCollection(), nextRole.id),
+      {
+        ...nextRole,
+        order,
+        updatedAt: serverTimestamp(),
+      },
+      "New role",
+      false
+    ).catch((error) => {
       console.error("Failed to add leadership role:", error);
     });
   };
@@ -1102,24 +1173,20 @@ export const EventPlannerMock: React.FC = () => {
   const removeLeadershipRole = (id: string) => {
     setLeadershipRoles((current) => current.filter((role) => role.id !== id));
 
-    void (async () => {
-      try {
-        await deleteDoc(doc(getLeadershipRolesCollection(), id));
-
-        const remaining = leadershipRoles.filter((role) => role.id !== id);
-        const batch = writeBatch(db);
-        remaining.forEach((role, index) => {
-          batch.set(
-            doc(getLeadershipRolesCollection(), role.id),
-            { order: index, updatedAt: serverTimestamp() },
-            { merge: true }
-          );
-        });
-        await batch.commit();
-      } catch (error) {
-        console.error(`Failed to remove leadership role ${id}:`, error);
-      }
-    })();
+    // One batch, so an offline delete and its reorder sync together
+    const remaining = leadershipRoles.filter((role) => role.id !== id);
+    const batch = writeBatch(db);
+    batch.delete(doc(getLeadershipRolesCollection(), id));
+    remaining.forEach((role, index) => {
+      batch.set(
+        doc(getLeadershipRolesCollection(), role.id),
+        { order: index, updatedAt: serverTimestamp() },
+        { merge: true }
+      );
+    });
+    void trackPendingWrite(batch.commit(), "Removed role").catch((error) => {
+      console.error(`Failed to remove leadership role ${id}:`, error);
+    });
   };
 
   const moveLeadershipRole = (draggedId: string, targetId: string) => {
@@ -1135,21 +1202,17 @@ export const EventPlannerMock: React.FC = () => {
     next.splice(targetIndex, 0, draggedRole);
     setLeadershipRoles(next);
 
-    void (async () => {
-      try {
-        const batch = writeBatch(db);
-        next.forEach((role, index) => {
-          batch.set(
-            doc(getLeadershipRolesCollection(), role.id),
-            { order: index, updatedAt: serverTimestamp() },
-            { merge: true }
-          );
-        });
-        await batch.commit();
-      } catch (error) {
-        console.error("Failed to reorder leadership roles:", error);
-      }
-    })();
+    const batch = writeBatch(db);
+    next.forEach((role, index) => {
+      batch.set(
+        doc(getLeadershipRolesCollection(), role.id),
+        { order: index, updatedAt: serverTimestamp() },
+        { merge: true }
+      );
+    });
+    void trackPendingWrite(batch.commit(), "Role order").catch((error) => {
+      console.error("Failed to reorder leadership roles:", error);
+    });
   };
 
   const updateWorkoutSectionContent = (sectionId: string, value: string) => {
@@ -1159,16 +1222,17 @@ export const EventPlannerMock: React.FC = () => {
       )
     );
 
-    void setDoc(
+    const sectionTitle = workoutPlan.find((section) => section.id === sectionId)?.title;
+    void saveEventDoc(
       doc(getWorkoutSectionsCollection(), sectionId),
       {
         content: value,
         updatedAt: serverTimestamp(),
       },
-      { merge: true }
+      `Workout “${sectionTitle || sectionId}”`
     ).catch((error) => {
       console.error(`Failed to update workout section ${sectionId}:`, error);
-    })();
+    });
   };
 
   const addSignupItem = (group: SignupGroup, sectionId: string) => {
@@ -1193,12 +1257,17 @@ export const EventPlannerMock: React.FC = () => {
       )
     );
 
-    void setDoc(doc(getSignupItemsCollection(group, sectionId), nextItem.id), {
-      ...nextItem,
-      assignees: normalizeAssignees(nextItem.qtyNeeded, nextItem.assignees),
-      order,
-      updatedAt: serverTimestamp(),
-    }).catch((error) => {
+    void saveEventDoc(
+      doc(getSignupItemsCollection(group, sectionId), nextItem.id),
+      {
+        ...nextItem,
+        assignees: normalizeAssignees(nextItem.qtyNeeded, nextItem.assignees),
+        order,
+        updatedAt: serverTimestamp(),
+      },
+      "New sign-up item",
+      false
+    ).catch((error) => {
       console.error(`Failed to add ${group} signup item:`, error);
     });
   };
@@ -1217,23 +1286,18 @@ export const EventPlannerMock: React.FC = () => {
       )
     );
 
-    void (async () => {
-      try {
-        await deleteDoc(doc(getSignupItemsCollection(group, sectionId), itemId));
-
-        const batch = writeBatch(db);
-        remainingItems.forEach((item, index) => {
-          batch.set(
-            doc(getSignupItemsCollection(group, sectionId), item.id),
-            { order: index, updatedAt: serverTimestamp() },
-            { merge: true }
-          );
-        });
-        await batch.commit();
-      } catch (error) {
-        console.error(`Failed to remove ${group} signup item ${itemId}:`, error);
-      }
-    })();
+    const batch = writeBatch(db);
+    batch.delete(doc(getSignupItemsCollection(group, sectionId), itemId));
+    remainingItems.forEach((item, index) => {
+      batch.set(
+        doc(getSignupItemsCollection(group, sectionId), item.id),
+        { order: index, updatedAt: serverTimestamp() },
+        { merge: true }
+      );
+    });
+    void trackPendingWrite(batch.commit(), "Removed sign-up item").catch((error) => {
+      console.error(`Failed to remove ${group} signup item ${itemId}:`, error);
+    });
   };
 
   const updateSignupItem = (
@@ -1266,14 +1330,14 @@ export const EventPlannerMock: React.FC = () => {
       })
     );
 
-    void setDoc(
+    void saveEventDoc(
       doc(getSignupItemsCollection(group, sectionId), itemId),
       {
         ...nextItemForWrite,
         assignees: normalizeAssignees(nextItemForWrite.qtyNeeded, nextItemForWrite.assignees),
         updatedAt: serverTimestamp(),
       },
-      { merge: true }
+      `Sign-up “${existingItem.item || "New item"}”`
     ).catch((error) => {
       console.error(`Failed to update ${group} signup item ${itemId}:`, error);
     });
@@ -1307,13 +1371,13 @@ export const EventPlannerMock: React.FC = () => {
       })
     );
 
-    void setDoc(
+    void saveEventDoc(
       doc(getSignupItemsCollection(group, sectionId), itemId),
       {
         assignees: nextAssignees,
         updatedAt: serverTimestamp(),
       },
-      { merge: true }
+      `Sign-up “${existingItem.item || "New item"}”`
     ).catch((error) => {
       console.error(`Failed to update ${group} assignee for ${itemId}:`, error);
     });
@@ -1346,21 +1410,17 @@ export const EventPlannerMock: React.FC = () => {
       )
     );
 
-    void (async () => {
-      try {
-        const batch = writeBatch(db);
-        reorderedItems.forEach((item, index) => {
-          batch.set(
-            doc(getSignupItemsCollection(group, sectionId), item.id),
-            { order: index, updatedAt: serverTimestamp() },
-            { merge: true }
-          );
-        });
-        await batch.commit();
-      } catch (error) {
-        console.error(`Failed to reorder ${group} items for ${sectionId}:`, error);
-      }
-    })();
+    const batch = writeBatch(db);
+    reorderedItems.forEach((item, index) => {
+      batch.set(
+        doc(getSignupItemsCollection(group, sectionId), item.id),
+        { order: index, updatedAt: serverTimestamp() },
+        { merge: true }
+      );
+    });
+    void trackPendingWrite(batch.commit(), "Sign-up order").catch((error) => {
+      console.error(`Failed to reorder ${group} items for ${sectionId}:`, error);
+    });
   };
 
   const renderLeadershipTab = () => (
@@ -1433,6 +1493,9 @@ export const EventPlannerMock: React.FC = () => {
                         className={`${compactInputClass} w-[202px] min-w-[202px] max-w-[202px] sm:w-[284px] sm:min-w-[284px] sm:max-w-[284px] lg:w-full lg:min-w-0 lg:max-w-none`}
                         placeholder="Role"
                       />
+                      {isPendingDoc(doc(getLeadershipRolesCollection(), role.id)) && (
+                        <PendingSyncNote />
+                      )}
                     </td>
                     <td className="min-w-[118px] px-1 py-2 sm:min-w-[191px] sm:px-1 lg:w-[220px] lg:min-w-[220px] lg:max-w-[220px]">
                       <select
@@ -1491,6 +1554,9 @@ export const EventPlannerMock: React.FC = () => {
               <div className="flex items-center justify-between gap-3 border-b border-slate-700 px-2.5 py-2.5 sm:flex-col sm:items-center sm:justify-center sm:px-3">
                 <div className="flex min-w-0 items-center gap-2 sm:flex-col sm:text-center">
                   <h3 className="text-base font-semibold text-white">{section.title}</h3>
+                  {isPendingDoc(doc(getWorkoutSectionsCollection(), section.id)) && (
+                    <PendingSyncNote />
+                  )}
                 </div>
               </div>
 
@@ -1636,6 +1702,9 @@ export const EventPlannerMock: React.FC = () => {
                               className={`${compactInputClass} w-[154px] min-w-[154px] max-w-[154px] xl:w-full xl:min-w-0 xl:max-w-none`}
                               placeholder="Item"
                             />
+                            {isPendingDoc(doc(getSignupItemsCollection("food", section.id), item.id)) && (
+                              <PendingSyncNote />
+                            )}
                           </td>
                           <td className="w-[44px] min-w-[44px] max-w-[44px] px-1.5 py-2 pl-2 pr-2 sm:px-2 sm:pl-2 sm:pr-2 xl:w-[56px] xl:min-w-[56px] xl:max-w-[56px]">
                             <input
@@ -1831,6 +1900,9 @@ export const EventPlannerMock: React.FC = () => {
                               className={`${compactInputClass} w-[162px] min-w-[162px] max-w-[162px] xl:w-full xl:min-w-0 xl:max-w-none`}
                               placeholder="Item"
                             />
+                            {isPendingDoc(doc(getSignupItemsCollection("logistics", section.id), item.id)) && (
+                              <PendingSyncNote />
+                            )}
                           </td>
                           <td className="w-[32px] min-w-[32px] max-w-[32px] px-1.5 py-2 pl-2 pr-2 sm:px-2 sm:pl-2 sm:pr-2 xl:w-[56px] xl:min-w-[56px] xl:max-w-[56px]">
                             <input
@@ -2046,6 +2118,7 @@ export const EventPlannerMock: React.FC = () => {
               <div className="mt-1.5 flex flex-wrap gap-1.5 sm:justify-start">
                 <SummaryCard label="Date" value={eventOverview.dateLabel} />
                 <SummaryCard label="Countdown" value={countdownLabel} />
+                <SyncStatusBadge />
               </div>
             </div>
             <div className="hidden sm:flex sm:flex-shrink-0 sm:justify-end">
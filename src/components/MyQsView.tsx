@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { UserIcon, ExternalLinkIcon } from "./icons";
+import { PAX_LIST, getPaxListByAo } from "../constants";
+import { usePaxDirectoryVersion } from "../pax/PaxDirectoryContext";
+import { useAo } from "../ao/AoContext";
+import { AO_LIST } from "../ao/aoConfig";
+import { subscribeRegionWorkoutSessionsInRange } from "../services/qSheetService";
+import {
+  buildPreblastUrl,
+  type WorkoutSessionScheduleSource,
+} from "../shared/compassQSchedule";
+import {
+  buildPaxCalendarFeedUrl,
+  listPaxCalendarEntries,
+} from "../shared/aoCalendar";
+import { getRegionDateKeyWindow } from "../shared/regionSchedule";
+import { PAX_NAME_STORAGE_KEY, stripAt, toPaxNameKey } from "../shared/paxNames";
+
+const MY_QS_LOOKAHEAD_DAYS = 365;
+
+const formatSlotDate = (isoDate: string) =>
+  new Date(`${isoDate}T00:00:00`).toLocaleDateString("en-US", {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+
+const formatSlotTime = (time24: string) => {
+  const [hh, mm] = time24.split(":").map(Number);
+  const suffix = hh >= 12 ? "PM" : "AM";
+  return `${hh % 12 === 0 ? 12 : hh % 12}:${String(mm || 0).padStart(2, "0")} ${suffix}`;
+};
+
+export const MyQsView: React.FC = () => {
+  const { registryVersion } = useAo();
+  const paxDirectoryVersion = usePaxDirectoryVersion();
+
+  const [paxName, setPaxName] = useState(
+    () => localStorage.getItem(PAX_NAME_STORAGE_KEY) || ""
+  );
+  const [sessions, setSessions] = useState<WorkoutSessionScheduleSource[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    localStorage.setItem(PAX_NAME_STORAGE_KEY, stripAt(paxName));
+  }, [paxName]);
+
+  // Every AO's upcoming sessions; filtering by Q happens client-side so name
+  // matching can be tolerant
+  useEffect(() => {
+    const unsub = subscribeRegionWorkoutSessionsInRange(
+      getRegionDateKeyWindow(MY_QS_LOOKAHEAD_DAYS),
+      (windowSessions) => {
+        setSessions(windowSessions);
+        setIsLoading(false);
+      },
+      (err) => {
+        console.error("Firestore error:", err);
+        setIsLoading(false);
+      }
+    );
+    return () => unsub();
+  }, []);
+
+  // One entry per PAX across every AO's directory list, deduped by tolerant key
+  const paxNames = useMemo(() => {
+    const byKey = new Map<string, string>();
+    for (const name of [...PAX_LIST, ...AO_LIST.flatMap((ao) => getPaxListByAo(ao.id))]) {
+      const key = toPaxNameKey(name);
+      if (key && !byKey.has(key)) byKey.set(key, stripAt(name));
+    }
+    return Array.from(byKey.values()).sort((a, b) => a.localeCompare(b));
+  }, [paxDirectoryVersion, registryVersion]);
+
+  const entries = useMemo(() => {
+    if (!toPaxNameKey(paxName)) return [];
+    return listPaxCalendarEntries(paxName, sessions, {
+      lookaheadDays: MY_QS_LOOKAHEAD_DAYS,
+    });
+  }, [paxName, sessions, registryVersion]);
+
+  const host = window.location.host;
+  const webcalUrl = paxName ? buildPaxCalendarFeedUrl(host, paxName) : "";
+  const httpsUrl = paxName ? buildPaxCalendarFeedUrl(host, paxName, "https") : "";
+
+  const copyFeedUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(httpsUrl);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Copy failed:", err);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <UserIcon className="text-red-500 h-6 w-6" />
+        <h2 className="text-2xl sm:text-3xl font-display tracking-wide">My Qs</h2>
+      </div>
+
+      <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 space-y-3">
+        <label className="block">
+          <span className="block text-xs text-slate-400 mb-1">Your F3 name</span>
+          <input
+            list="my-qs-pax-names"
+            value={paxName}
+            onChange={(e) => setPaxName(e.target.value)}
+            placeholder="Start typing your F3 name…"
+            className="w-full sm:max-w-sm bg-slate-700 border border-slate-600 rounded-md px-2 py-1.5 text-white text-sm"
+          />
+          <datalist id="my-qs-pax-names">
+            {paxNames.map((name) => (
+              <option key={name} value={name} />
+            ))}
+          </datalist>
+        </label>
+
+        {paxName.trim() && (
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            <a
+              href={webcalUrl}
+              className="bg-red-600 hover:bg-red-700 text-white px-3 py-1.5 rounded-md"
+            >
+              📅 Subscribe to my Qs
+            </a>
+            <button
+              type="button"
+              onClick={copyFeedUrl}
+              className="bg-slate-600 hover:bg-slate-500 text-white px-3 py-1.5 rounded-md"
+              title="For Google Calendar: Other calendars → From URL"
+            >
+              {copied ? "Copied!" : "Copy calendar URL"}
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!paxName.trim() ? (
+        <p className="text-slate-400 text-sm">
+          Pick your name to see every upcoming slot you hold across all AOs.
+        </p>
+      ) : isLoading ? (
+        <p className="text-slate-300 text-sm">Loading schedule…</p>
+      ) : entries.length === 0 ? (
+        <p className="text-slate-400 text-sm">
+          No upcoming Qs for {stripAt(paxName)}. Time to sign up!
+        </p>
+      ) : (
+        <div className="overflow-x-auto border border-slate-700 rounded-lg bg-slate-800/50">
+          <table className="w-full text-left text-sm">
+            <thead className="bg-slate-900/60">
+              <tr>
+                <th className="p-2 text-slate-400 text-xs">Date</th>
+                <th className="p-2 text-slate-400 text-xs">Time</th>
+                <th className="p-2 text-slate-400 text-xs">AO</th>
+                <th className="p-2 text-slate-400 text-xs w-full">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(({ ao, slot, qName }) => (
+                <tr
+                  key={`${ao.id}-${slot.isoDate}-${slot.regularStartTime24}`}
+                  className={`border-t border-slate-700 ${
+                    slot.isHappening ? "" : "opacity-50"
+                  }`}
+                >
+                  <td className="p-2 whitespace-nowrap">
+                    <span className={slot.isHappening ? "" : "line-through"}>
+                      {formatSlotDate(slot.isoDate)}
+                    </span>
+                  </td>
+                  <td className="p-2 whitespace-nowrap">
+                    {formatSlotTime(slot.startTime24)}
+                  </td>
+                  <td className="p-2 whitespace-nowrap">{ao.shortName}</td>
+                  <td className="p-2 text-xs">
+                    {slot.label && (
+                      <span className="text-amber-300 mr-2">{slot.label}</span>
+                    )}
+                    {toPaxNameKey(qName) !== toPaxNameKey(paxName) && (
+                      <span className="text-slate-400 mr-2">Co-Q: {qName}</span>
+                    )}
+                    {slot.isHappening && (
+                      <a
+                        href={buildPreblastUrl(ao.id)}
+                        className="inline-flex items-center gap-1 text-slate-300 underline decoration-dotted hover:text-red-300"
+                      >
+                        Preblast <ExternalLinkIcon className="h-3 w-3" />
+                      </a>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -5,6 +5,16 @@ import { getPaxListByAo, getBandNameForF3Name } from "../constants";
 import { usePaxDirectoryVersion } from "../pax/PaxDirectoryContext";
 import { useAo } from "../ao/AoContext";
 import { AoSelector } from "../ao/AoSelector";
+import type { AoConfig } from "../ao/aoConfig";
+import {
+  findUpcomingScheduleSlot,
+  getAoTodayIsoDate,
+  type ResolvedScheduleSlot,
+} from "../shared/scheduleExceptions";
+import { isoDateToLocalDate } from "../shared/timeZone";
+import { prependDesignationCallouts } from "../shared/sessionDesignations";
+import { SessionDesignationBadges, useQSheetDesignations } from "./SessionDesignations";
+import { WorkoutSlotChooser, pickScheduleSlotForDate } from "./WorkoutSlotChooser";
 
 /* -------------------------------------------------
    Helpers: Time + Date formatting
@@ -247,65 +257,32 @@ const parseWorkoutDateToIso = (workoutDate: string): string => {
 
 /* -------------------------------------------------
    Find next workout date/time based on AO scheduleBlocks
+   (skipping cancelled/holiday/convergence dates, honoring time changes)
+   "Now" is read on the AO's clock, not the browser's.
 ------------------------------------------------- */
-const getUpcomingWorkoutDetailsForAo = (ao: {
-  scheduleBlocks: {
-    daysOfWeek: number[];
-    startTime24: string;
-    endTime24: string;
-  }[];
-}) => {
-  const now = new Date();
-
-  const parseStart = (d: Date, startTime24: string) => {
-    const [hh, mm] = startTime24.split(":").map(Number);
-    const x = new Date(d);
-    x.setHours(hh || 0, mm || 0, 0, 0);
-    return x;
-  };
-
-  let best: {
-    start: Date;
-    startTime24: string;
-    endTime24: string;
-  } | null = null;
-
-  for (let add = 0; add <= 14; add++) {
-    const day = new Date(now);
-    day.setDate(now.getDate() + add);
-
-    for (const block of ao.scheduleBlocks || []) {
-      if (!block.daysOfWeek.includes(day.getDay())) continue;
-
-      const start = parseStart(day, block.startTime24);
-      if (start.getTime() <= now.getTime()) continue;
-
-      if (!best || start.getTime() < best.start.getTime()) {
-        best = {
-          start,
-          startTime24: block.startTime24,
-          endTime24: block.endTime24,
-        };
-      }
-    }
-  }
+const getUpcomingWorkoutDetailsForAo = (
+  ao: Pick<AoConfig, "id" | "scheduleBlocks" | "scheduleExceptions" | "timeZone">
+) => {
+  const { slot, skipped } = findUpcomingScheduleSlot(ao);
 
   const fallbackBlock = (ao.scheduleBlocks && ao.scheduleBlocks[0]) || {
-    daysOfWeek: [now.getDay()],
     startTime24: "05:30",
     endTime24: "06:15",
   };
 
-  const chosen = best ?? {
-    start: parseStart(now, fallbackBlock.startTime24),
-    startTime24: fallbackBlock.startTime24,
-    endTime24: fallbackBlock.endTime24,
-  };
+  const isoDate = slot?.isoDate || getAoTodayIsoDate(ao);
+  const startTime24 = slot?.startTime24 || fallbackBlock.startTime24;
+  const endTime24 = slot ? slot.endTime24 : fallbackBlock.endTime24;
 
   return {
-    date: formatDateLong(chosen.start),
-    time: buildWorkoutTimeRange(chosen.startTime24, chosen.endTime24),
-    startTime24: chosen.startTime24,
+    date: formatDateLong(isoDateToLocalDate(isoDate)),
+    time: buildWorkoutTimeRange(startTime24, endTime24),
+    startTime24,
+    scheduleNote:
+      slot?.label ||
+      (skipped
+        ? `No workout ${formatDateLong(isoDateToLocalDate(skipped.isoDate))}: ${skipped.label}`
+        : undefined),
   };
 };
 
@@ -1194,7 +1171,7 @@ export const PreblastGeneratorView: React.FC = () => {
     return activeAo.whereName;
   }, [activeAo.id, activeAo.whereName, preblastAoLabel]);
 
-  const { date: defaultDate, time: defaultTime } = useMemo(() => {
+  const { date: defaultDate, time: defaultTime, scheduleNote } = useMemo(() => {
     return getUpcomingWorkoutDetailsForAo(activeAo);
   }, [activeAo]);
 
@@ -1437,6 +1414,14 @@ export const PreblastGeneratorView: React.FC = () => {
 
   const qDisplayName = useMemo(() => stripAt(qName) || "", [qName]);
 
+  // VQ / AQ / ... from the Q-sheet for this workout, celebrated at the top of the post
+  const qSheetDesignations = useQSheetDesignations(activeAo.id, dateInputValue, startTime24);
+  const withDesignationCallouts = (text: string, useEmojis: boolean) =>
+    prependDesignationCallouts(text, qSheetDesignations, qDisplayName, {
+      tense: "upcoming",
+      useEmojis,
+    });
+
   const defaultHashtags = useMemo(() => {
     return buildHashtags(activeAo.hashtags || [], "preblast", {
       aoId: activeAo.id,
@@ -1482,6 +1467,13 @@ export const PreblastGeneratorView: React.FC = () => {
     }
   };
 
+  // Days with an AM and a PM workout: the chosen slot sets both times
+  const selectWorkoutSlot = (slot: ResolvedScheduleSlot) => {
+    setStartTime24(slot.startTime24);
+    setEndTime24(slot.endTime24);
+    updateWorkoutTimeRange(slot.startTime24, slot.endTime24);
+  };
+
   const markOutput = (label: string, mode: "AI" | "NO_AI") => {
     setOutputLabel(label);
     setOutputMode(mode);
@@ -1534,42 +1526,42 @@ export const PreblastGeneratorView: React.FC = () => {
     const items = buildBringItems();
     const useEmojis = shouldUseEmojis(styleSeed, forceNoEmojis, false);
 
-    if (isJP) {
-      return formatJurassicParkNoAI({
-        qName: qDisplayName,
-        workoutDate,
-        workoutTime,
-        styleSeed,
-        useEmojis,
-        ao: {
-          id: activeAo.id,
-          displayName: preblastAoLabel,
-          whereName: preblastWhereName,
-          address: activeAo.address,
-          meetingPoint: activeAo.meetingPoint,
-          hashtags: activeAo.hashtags || [],
-        },
-        extraHashtags: normalizedExtraHashtags,
-      });
-    }
+    const formatted = isJP
+      ? formatJurassicParkNoAI({
+          qName: qDisplayName,
+          workoutDate,
+          workoutTime,
+          styleSeed,
+          useEmojis,
+          ao: {
+            id: activeAo.id,
+            displayName: preblastAoLabel,
+            whereName: preblastWhereName,
+            address: activeAo.address,
+            meetingPoint: activeAo.meetingPoint,
+            hashtags: activeAo.hashtags || [],
+          },
+          extraHashtags: normalizedExtraHashtags,
+        })
+      : formatStandardNoAI({
+          qName: qDisplayName,
+          workoutDate,
+          workoutTime,
+          bringItems: items,
+          styleSeed,
+          useEmojis,
+          ao: {
+            id: activeAo.id,
+            displayName: preblastAoLabel,
+            whereName: preblastWhereName,
+            address: activeAo.address,
+            meetingPoint: activeAo.meetingPoint,
+            hashtags: activeAo.hashtags || [],
+          },
+          extraHashtags: normalizedExtraHashtags,
+        });
 
-    return formatStandardNoAI({
-      qName: qDisplayName,
-      workoutDate,
-      workoutTime,
-      bringItems: items,
-      styleSeed,
-      useEmojis,
-      ao: {
-        id: activeAo.id,
-        displayName: preblastAoLabel,
-        whereName: preblastWhereName,
-        address: activeAo.address,
-        meetingPoint: activeAo.meetingPoint,
-        hashtags: activeAo.hashtags || [],
-      },
-      extraHashtags: normalizedExtraHashtags,
-    });
+    return withDesignationCallouts(formatted, useEmojis);
   };
 
   /* ---------------- Generate AI Button ---------------- */
@@ -1661,7 +1653,9 @@ export const PreblastGeneratorView: React.FC = () => {
 
       const finalText =
         forceNoEmojis || !useEmojis ? stripEmojis(formatted) : formatted;
-      setGeneratedPreblastText(finalText);
+      setGeneratedPreblastText(
+        withDesignationCallouts(finalText, useEmojis && !forceNoEmojis)
+      );
       markOutput("Generated by AI", "AI");
     } else {
       const msg = extractInspirationalMessage(cleanedRaw);
@@ -1685,7 +1679,9 @@ export const PreblastGeneratorView: React.FC = () => {
       });
       const finalText =
         forceNoEmojis || !useEmojis ? stripEmojis(formatted) : formatted;
-      setGeneratedPreblastText(finalText);
+      setGeneratedPreblastText(
+        withDesignationCallouts(finalText, useEmojis && !forceNoEmojis)
+      );
       markOutput("Generated by AI", "AI");
     }
 
@@ -1849,6 +1845,13 @@ export const PreblastGeneratorView: React.FC = () => {
                   <QNameSelect value={qName} onChange={setQName} paxList={paxList} />
                 </div>
               </div>
+              {qSheetDesignations.length > 0 && (
+                <div className="mt-2 flex flex-wrap items-center gap-1 text-xs text-slate-400">
+                  <span>Q-sheet:</span>
+                  <SessionDesignationBadges designations={qSheetDesignations} />
+                  <span>called out at the top of the post.</span>
+                </div>
+              )}
             </div>
 
             {/* DATE / TIME */}
@@ -1856,6 +1859,9 @@ export const PreblastGeneratorView: React.FC = () => {
               <label className="block text-sm font-bold text-slate-300 mb-2">
                 Workout Date & Time
               </label>
+              {scheduleNote && (
+                <p className="text-xs text-amber-300 mb-2">📅 {scheduleNote}</p>
+              )}
 
               <div className="grid grid-cols-[1.6fr_0.7fr_0.7fr] sm:grid-cols-[1.7fr_0.65fr_0.65fr] gap-3">
                 <div>
@@ -1886,6 +1892,8 @@ export const PreblastGeneratorView: React.FC = () => {
                           setWorkoutDate(
                             formatDateLong(new Date(`${iso}T00:00:00`))
                           );
+                          const slot = pickScheduleSlotForDate(activeAo, iso, startTime24);
+                          if (slot) selectWorkoutSlot(slot);
                         }
                       }}
                       className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10"
@@ -1958,6 +1966,12 @@ export const PreblastGeneratorView: React.FC = () => {
                   </div>
                 </div>
               </div>
+              <WorkoutSlotChooser
+                ao={activeAo}
+                isoDate={dateInputValue}
+                startTime24={startTime24}
+                onSelect={selectWorkoutSlot}
+              />
             </div>
 
             {/* HASHTAGS */}
@@ -0,0 +1,223 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  buildEffectiveWorkoutSessionsForAo,
+  type WorkoutSessionScheduleSource,
+} from "../shared/compassQSchedule";
+import {
+  diffQSheetImport,
+  parseQSheetTable,
+  type QSheetImportDiff,
+  type QSheetImportKind,
+} from "../shared/qSheetTable";
+import {
+  applyQSheetImport,
+  subscribeWorkoutSessionsInRange,
+} from "../services/qSheetService";
+
+/* ----------------------------------------------------
+   Paste rows from a spreadsheet, review what would
+   change, apply the accepted rows in one batch.
+---------------------------------------------------- */
+
+const KIND_STYLES: Record<QSheetImportKind, string> = {
+  new: "bg-emerald-700/70 text-emerald-50",
+  changed: "bg-blue-700/70 text-blue-50",
+  conflict: "bg-amber-600/80 text-amber-50",
+  unchanged: "bg-slate-700 text-slate-300",
+};
+
+const FIELD_LABELS = { q: "Q", notes: "Notes", dbj: "DBJ", food: "Food" };
+
+// New rows and gap-fills are safe; overwriting someone's entry is opt-in
+const isAcceptedByDefault = (diff: QSheetImportDiff) =>
+  diff.kind === "new" || diff.kind === "changed";
+
+export const QSheetImportPanel: React.FC<{
+  aoId: string;
+  resolveEditorName: () => string;
+  onClose: () => void;
+}> = ({ aoId, resolveEditorName, onClose }) => {
+  const [text, setText] = useState("");
+  // line -> accepted, only for rows the user toggled
+  const [overrides, setOverrides] = useState<Record<number, boolean>>({});
+  const [isApplying, setIsApplying] = useState(false);
+  const [status, setStatus] = useState("");
+  const [error, setError] = useState("");
+
+  const parsed = useMemo(() => parseQSheetTable(text), [text]);
+
+  // The pasted rows can fall outside the Q-sheet's loaded months, so diff
+  // against a query of exactly their date range
+  const dateKeys = parsed.rows.map((row) => row.dateKey).sort();
+  const fromDateKey = dateKeys[0] || "";
+  const toDateKey = dateKeys[dateKeys.length - 1] || "";
+  const [persistedInRange, setPersistedInRange] = useState<WorkoutSessionScheduleSource[]>(
+    []
+  );
+
+  useEffect(() => {
+    setPersistedInRange([]);
+    if (!fromDateKey) return;
+    return subscribeWorkoutSessionsInRange(
+      aoId,
+      { fromDateKey, toDateKey },
+      setPersistedInRange,
+      (err) => console.error("Firestore error:", err)
+    );
+  }, [aoId, fromDateKey, toDateKey]);
+
+  const existingSessions = useMemo(
+    () =>
+      fromDateKey
+        ? buildEffectiveWorkoutSessionsForAo(aoId, persistedInRange, { fromDateKey, toDateKey })
+            .sessions
+        : [],
+    [aoId, persistedInRange, fromDateKey, toDateKey]
+  );
+
+  // Re-diffed on every snapshot so the preview never applies stale "from" values
+  const diffs = useMemo(
+    () => diffQSheetImport(parsed.rows, existingSessions),
+    [parsed.rows, existingSessions]
+  );
+
+  const isAccepted = (diff: QSheetImportDiff) =>
+    diff.kind !== "unchanged" && (overrides[diff.row.line] ?? isAcceptedByDefault(diff));
+  const accepted = diffs.filter(isAccepted);
+
+  const counts = diffs.reduce(
+    (acc, diff) => ({ ...acc, [diff.kind]: acc[diff.kind] + 1 }),
+    { new: 0, changed: 0, conflict: 0, unchanged: 0 } as Record<QSheetImportKind, number>
+  );
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+    setOverrides({});
+  };
+
+  const apply = async () => {
+    const editor = resolveEditorName();
+    if (!editor) return;
+    setError("");
+    setStatus("");
+    try {
+      setIsApplying(true);
+      const result = await applyQSheetImport(aoId, accepted, editor);
+      setStatus(`Imported: ${result.created} new, ${result.updated} updated.`);
+      setText("");
+      setOverrides({});
+    } catch (err) {
+      console.error("Import failed:", err);
+      setError(err instanceof Error ? err.message : "Import failed.");
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 mb-4 space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-lg font-display tracking-wide">Import from a spreadsheet</h3>
+        <button
+          type="button"
+          onClick={onClose}
+          className="text-xs text-slate-400 hover:text-slate-100"
+        >
+          Close
+        </button>
+      </div>
+      <p className="text-xs text-slate-400">
+        Paste rows copied from Sheets/Excel, or load a CSV/TSV export. Columns: Date, Time, Q,
+        Notes, DBJ, Food (a header row is optional). Blank cells leave the current value alone.
+      </p>
+
+      <textarea
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setOverrides({});
+          setStatus("");
+        }}
+        rows={6}
+        placeholder={"11/22/25 (Sat)\t0630\tHardwood\tVQ"}
+        className="w-full bg-slate-900 border border-slate-700 rounded-md p-2 text-slate-100 text-xs font-mono"
+      />
+      <input
+        type="file"
+        accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values"
+        onChange={(e) => loadFile(e.target.files?.[0])}
+        className="block text-xs text-slate-400"
+      />
+
+      {parsed.errors.length > 0 && (
+        <ul className="text-xs text-amber-300 space-y-0.5">
+          {parsed.errors.map((err) => (
+            <li key={`${err.line}-${err.message}`}>
+              Line {err.line}: {err.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {diffs.length > 0 && (
+        <>
+          <p className="text-xs text-slate-300">
+            {counts.new} new · {counts.changed} changed · {counts.conflict} conflicting ·{" "}
+            {counts.unchanged} unchanged
+          </p>
+          <div className="max-h-80 overflow-y-auto border border-slate-700 rounded-md">
+            <table className="w-full text-left text-xs">
+              <tbody>
+                {diffs.map((diff) => (
+                  <tr key={diff.row.line} className="border-t border-slate-700 first:border-t-0">
+                    <td className="p-2 w-6">
+                      <input
+                        type="checkbox"
+                        disabled={diff.kind === "unchanged"}
+                        checked={isAccepted(diff)}
+                        onChange={(e) =>
+                          setOverrides((prev) => ({ ...prev, [diff.row.line]: e.target.checked }))
+                        }
+                      />
+                    </td>
+                    <td className="p-2 whitespace-nowrap">
+                      <span className={`rounded px-1.5 py-0.5 text-[10px] uppercase ${KIND_STYLES[diff.kind]}`}>
+                        {diff.kind}
+                      </span>
+                    </td>
+                    <td className="p-2 whitespace-nowrap">
+                      {diff.row.date} {diff.row.time}
+                    </td>
+                    <td className="p-2 w-full text-slate-300">
+                      {diff.changes.map((change) => (
+                        <div key={change.field}>
+                          {FIELD_LABELS[change.field]}:{" "}
+                          {change.from && <span className="line-through text-slate-500">{change.from}</span>}{" "}
+                          {change.to}
+                        </div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <button
+          type="button"
+          onClick={apply}
+          disabled={accepted.length === 0 || isApplying}
+          className="bg-red-600 hover:bg-red-700 disabled:opacity-50 px-3 py-1.5 rounded text-xs"
+        >
+          {isApplying ? "Importing…" : `Apply ${accepted.length} row${accepted.length === 1 ? "" : "s"}`}
+        </button>
+        {status && <span className="text-xs text-emerald-300">{status}</span>}
+        {error && <span className="text-xs text-red-300">{error}</span>}
+      </div>
+    </div>
+  );
+};
@@ -1,22 +1,66 @@
 import React, { useState, useMemo, useEffect, useCallback, useRef } from "react";
 import type { WorkoutSession } from "../types";
-import { db } from "../firebase";
-import { collection, doc, onSnapshot, setDoc } from "firebase/firestore";
-import {
-  CalendarIcon,
-  UserIcon,
-  SparklesIcon,
-  FireIcon,
-  ExternalLinkIcon,
-} from "./icons";
+import { CalendarIcon, ExternalLinkIcon, ClockIcon } from "./icons";
 import { PAX_LIST, getPaxListByAo } from "../constants";
 import { usePaxDirectoryVersion } from "../pax/PaxDirectoryContext";
 import { useAo } from "../ao/AoContext";
 import {
-  buildCompassEffectiveWorkoutSessions,
+  buildEffectiveWorkoutSessionsForAo,
+  compareWorkoutSessionSlots,
   dateStringToKey,
   filterWorkoutSessionsByMonthWindow,
+  getMonthWindowPages,
+  type DateKeyWindow,
 } from "../shared/compassQSchedule";
+import { buildAoCalendarSubscribeUrl } from "../shared/aoCalendar";
+import { getAoMapsUrl, getAoMeetingPointMapsUrl } from "../shared/aoMaps";
+import {
+  dateKeyToIsoDate,
+  getAoTodayIsoDate,
+  resolveScheduleSlot,
+  sessionTimeToTime24,
+  type ResolvedScheduleSlot,
+} from "../shared/scheduleExceptions";
+import { isoDateToLocalDate } from "../shared/timeZone";
+import {
+  PAX_NAME_STORAGE_KEY,
+  isSiteQ,
+  qFieldIncludesPax,
+  splitQField,
+  stripAt,
+  toPaxNameKey,
+} from "../shared/paxNames";
+import {
+  WorkoutSessionConflictError,
+  listWorkoutSessionHistory,
+  subscribeWorkoutSessionsInRange,
+  updateWorkoutSessionField,
+  type QSheetEditableField,
+  type WorkoutSessionChange,
+  type WorkoutSessionFieldUpdate,
+} from "../services/qSheetService";
+
+import { serializeQSheetTable, type QSheetTableFormat } from "../shared/qSheetTable";
+import { QSheetImportPanel } from "./QSheetImportPanel";
+import { SheetQSheetTable } from "./SheetQSheetTable";
+import { SessionDesignationPicker } from "./SessionDesignations";
+import { getSessionSlotLabel } from "../utils/scheduleGenerator";
+import {
+  formatSessionDesignations,
+  getSessionDesignations,
+  type SessionDesignation,
+} from "../shared/sessionDesignations";
+
+type SaveExtras = Pick<WorkoutSessionFieldUpdate, "revertOf" | "confirmedBy">;
+
+const downloadTextFile = (filename: string, text: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
 /* ----------------------------------------------------
    AO helpers: normalize context value + canonical key
@@ -64,15 +108,6 @@ const canonicalAoKey = (nameOrId: string): string => {
   return (nameOrId || "").trim();
 };
 
-/* ----------------------------------------------------
-   Map helpers: coordinate link builder
----------------------------------------------------- */
-const googleMapsCoordLink = (lat: number, lng: number) =>
-  `https://www.google.com/maps/search/?api=1&query=${lat},${lng}`;
-
-const googleMapsAddressLink = (address: string) =>
-  `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(address)}`;
-
 /* ----------------------------------------------------
    PAX SELECT CELL (now takes paxList)
 ---------------------------------------------------- */
@@ -187,6 +222,106 @@ const EditableCellComponent: React.FC<{
 const EditableCell = React.memo(EditableCellComponent);
 EditableCell.displayName = "EditableCell";
 
+// The text a field's history and conflict checks compare against
+const getEditableValue = (session: WorkoutSession, field: QSheetEditableField) =>
+  field === "designations"
+    ? formatSessionDesignations(getSessionDesignations(session))
+    : session[field] || "";
+
+/* ----------------------------------------------------
+   CHANGE HISTORY (per row)
+---------------------------------------------------- */
+const FIELD_LABELS: Record<QSheetEditableField, string> = {
+  q: "Q",
+  notes: "Notes",
+  dbj: "DBJ",
+  food: "Food",
+  designations: "Tags",
+};
+
+const formatChangedAt = (changedAt: Date | null) =>
+  changedAt
+    ? changedAt.toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        hour: "numeric",
+        minute: "2-digit",
+      })
+    : "just now";
+
+const SessionHistoryPanel: React.FC<{
+  session: WorkoutSession;
+  onRevert: (change: WorkoutSessionChange) => Promise<void>;
+}> = ({ session, onRevert }) => {
+  const [changes, setChanges] = useState<WorkoutSessionChange[] | null>(null);
+  const [revertingId, setRevertingId] = useState("");
+
+  // Reload whenever a tracked field moves, so a revert (or anyone's edit) shows up
+  useEffect(() => {
+    let cancelled = false;
+    listWorkoutSessionHistory(session.id)
+      .then((list) => !cancelled && setChanges(list))
+      .catch((err) => {
+        console.error("Error loading history:", err);
+        if (!cancelled) setChanges([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [session.id, session.q, session.notes, session.dbj, session.food]);
+
+  if (!changes) {
+    return <p className="text-xs text-slate-400">Loading history…</p>;
+  }
+  if (changes.length === 0) {
+    return <p className="text-xs text-slate-400">No changes recorded yet.</p>;
+  }
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {changes.map((change) => {
+        // Only the change that produced the current value can be undone
+        const canRevert = (session[change.field] || "") === change.newValue;
+        return (
+          <li key={change.id} className="flex flex-wrap items-center gap-x-2">
+            <span className="text-slate-500">{formatChangedAt(change.changedAt)}</span>
+            <span className="text-slate-300">{change.editor || "Unknown"}</span>
+            <span className="text-slate-200">
+              {FIELD_LABELS[change.field]}: {change.oldValue || <em>Open</em>} →{" "}
+              {change.newValue || <em>Open</em>}
+            </span>
+            {change.revertOf && <span className="text-slate-500">(revert)</span>}
+            {change.source === "import" && <span className="text-slate-500">(import)</span>}
+            {change.source === "sheet" && <span className="text-slate-500">(sheet)</span>}
+            {change.source === "api" && (
+              <span className="text-slate-500">
+                (api{change.unverifiedEditor && `, says ${change.unverifiedEditor}`})
+              </span>
+            )}
+            {change.confirmedBy && (
+              <span className="text-slate-500">OK'd by {change.confirmedBy}</span>
+            )}
+            {canRevert && (
+              <button
+                type="button"
+                disabled={revertingId === change.id}
+                onClick={async () => {
+                  setRevertingId(change.id);
+                  await onRevert(change);
+                  setRevertingId("");
+                }}
+                className="text-red-300 underline decoration-dotted hover:text-red-200 disabled:opacity-50"
+              >
+                Revert
+              </button>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
 /* ----------------------------------------------------
    GOOGLE-SHEET (NON-FIRESTORE) Q SHEET CARD
 ---------------------------------------------------- */
@@ -196,7 +331,9 @@ const GoogleSheetQSheet: React.FC<{
   address: string;
   sheetUrl: string;
   addressLinkUrl?: string;
-}> = ({ title, whereName, address, sheetUrl, addressLinkUrl }) => {
+  // Native table of the sheet's rows (qSheet.sheetSync); the embed becomes a fallback
+  syncedTable?: React.ReactNode;
+}> = ({ title, whereName, address, sheetUrl, addressLinkUrl, syncedTable }) => {
   const addressLines = address.split("\n");
   const showWhereName =
     Boolean(whereName?.trim()) &&
@@ -264,6 +401,8 @@ const GoogleSheetQSheet: React.FC<{
           This AO uses Google Sheets for Q signup.
         </p>
 
+        {syncedTable}
+
         <a
           href={sheetUrl}
           target="_blank"
@@ -274,14 +413,30 @@ const GoogleSheetQSheet: React.FC<{
           Open Q-Sheet (Google Sheet)
         </a>
 
-        <div className="w-full border border-slate-700 rounded-md overflow-hidden mb-4">
-          <iframe
-            title={`${title} Q-Sheet Preview`}
-            src={previewUrl}
-            className="w-full h-[520px] bg-white"
-            loading="lazy"
-          />
-        </div>
+        {syncedTable ? (
+          <details className="mb-4">
+            <summary className="text-slate-400 text-xs cursor-pointer hover:text-slate-200">
+              Show the sheet itself
+            </summary>
+            <div className="w-full border border-slate-700 rounded-md overflow-hidden mt-2">
+              <iframe
+                title={`${title} Q-Sheet Preview`}
+                src={previewUrl}
+                className="w-full h-[520px] bg-white"
+                loading="lazy"
+              />
+            </div>
+          </details>
+        ) : (
+          <div className="w-full border border-slate-700 rounded-md overflow-hidden mb-4">
+            <iframe
+              title={`${title} Q-Sheet Preview`}
+              src={previewUrl}
+              className="w-full h-[520px] bg-white"
+              loading="lazy"
+            />
+          </div>
+        )}
 
         <p className="text-slate-500 text-xs mt-3 break-all">{sheetUrl}</p>
       </div>
@@ -386,6 +541,14 @@ const ExternalQSheetPreview: React.FC<{
   );
 };
 
+const toPageKey = (page: DateKeyWindow) => `${page.fromDateKey}-${page.toDateKey}`;
+
+const omitKey = <T,>(record: Record<string, T>, key: string) => {
+  const next = { ...record };
+  delete next[key];
+  return next;
+};
+
 /* ----------------------------------------------------
    MAIN COMPONENT
 ---------------------------------------------------- */
@@ -396,10 +559,29 @@ export const QSheetView: React.FC = () => {
   const DEFAULT_FUTURE_MONTHS = 1;
   const [pastMonths, setPastMonths] = useState(0);
   const [futureMonths, setFutureMonths] = useState(DEFAULT_FUTURE_MONTHS);
-  const [persistedWorkoutSessions, setPersistedWorkoutSessions] = useState<
-    WorkoutSession[]
-  >([]);
-  const [isLoading, setIsLoading] = useState(true);
+  // Firestore docs per one-month dateKey page (see getMonthWindowPages)
+  const [sessionsByPage, setSessionsByPage] = useState<Record<string, WorkoutSession[]>>({});
+  // Per page: sessions with local edits Firestore hasn't confirmed yet
+  const [pendingByPage, setPendingByPage] = useState<Record<string, Set<string>>>({});
+  const pageListenersRef = useRef(new Map<string, () => void>());
+  const [editorName, setEditorName] = useState(
+    () => localStorage.getItem(PAX_NAME_STORAGE_KEY) || ""
+  );
+  const [historySessionId, setHistorySessionId] = useState("");
+  const [conflict, setConflict] = useState<{
+    session: WorkoutSession;
+    field: QSheetEditableField;
+    attemptedValue: string;
+    currentValue: string;
+    extras: SaveExtras;
+  } | null>(null);
+  const [takeover, setTakeover] = useState<{
+    session: WorkoutSession;
+    value: string;
+    extras: SaveExtras;
+  } | null>(null);
+  const [takeoverConfirmedBy, setTakeoverConfirmedBy] = useState("");
+  const [isImportOpen, setIsImportOpen] = useState(false);
 
   const loadMoreAnchorRef = useRef<HTMLDivElement | null>(null);
   const [pendingScrollToLoadMore, setPendingScrollToLoadMore] = useState(false);
@@ -412,26 +594,10 @@ export const QSheetView: React.FC = () => {
   const aoKey = canonicalAoKey(activeAoId || activeAoName);
 
   const isCompass = aoKey === "Compass";
-  const isColosseum = aoKey === "Colosseum";
-  const isJurassicPark = aoKey === "Jurassic Park";
-
-  // AO-specific coordinate links
-  const COMPASS_COORDS = { lat: 29.594717923278505, lng: -95.58967308684299 };
-  const COLOSSEUM_COORDS = { lat: 29.62695548953722, lng: -95.63029043988304 };
-  const JURASSIC_COORDS = { lat: 29.591870310392448, lng: -95.64927266698801 };
-
-  const compassLink = googleMapsCoordLink(COMPASS_COORDS.lat, COMPASS_COORDS.lng);
-  const colosseumLink = googleMapsCoordLink(
-    COLOSSEUM_COORDS.lat,
-    COLOSSEUM_COORDS.lng
-  );
-  const jurassicLink = googleMapsCoordLink(
-    JURASSIC_COORDS.lat,
-    JURASSIC_COORDS.lng
-  );
-  const genericAddressLink = activeAo?.address
-    ? googleMapsAddressLink(activeAo.address)
-    : undefined;
+  const isNativeQSheet = !!activeAo?.qSheet?.native;
+
+  const addressLink = activeAo ? getAoMapsUrl(activeAo) : undefined;
+  const meetingPointLink = activeAo ? getAoMeetingPointMapsUrl(activeAo) : undefined;
 
   // Dynamic pax list based on AO; fallback to global list
   const paxDirectoryVersion = usePaxDirectoryVersion();
@@ -443,61 +609,226 @@ export const QSheetView: React.FC = () => {
     return Array.isArray(list) && list.length ? list : PAX_LIST;
   }, [activeAo?.id, paxDirectoryVersion]);
 
-  const today = useMemo(() => {
-    const d = new Date();
-    d.setHours(0, 0, 0, 0);
-    return d;
-  }, []);
+  // The AO's calendar day, so a Q in another time zone sees the same cutoff
+  const today = useMemo(
+    () => isoDateToLocalDate(getAoTodayIsoDate(activeAo)),
+    [activeAo?.timeZone]
+  );
 
-  // Firestore: read all workoutSessions (client-side filtering)
+  // Firestore: only this AO's sessions inside the past/future month window
+  const windowPages = useMemo(
+    () => getMonthWindowPages(today, pastMonths, futureMonths),
+    [today, pastMonths, futureMonths]
+  );
+  const queryWindow: DateKeyWindow = {
+    fromDateKey: windowPages[0].fromDateKey,
+    toDateKey: windowPages[windowPages.length - 1].toDateKey,
+  };
+
+  // Switching AO (or away from the native sheet) drops every page listener
   useEffect(() => {
-    setIsLoading(true);
-    const ref = collection(db, "workoutSessions");
-
-    const unsub = onSnapshot(
-      ref,
-      (snapshot) => {
-        const sessions = snapshot.docs.map((d) => ({
-          id: d.id,
-          ...(d.data() as WorkoutSession),
-        }));
-        sessions.sort((a, b) =>
-          dateStringToKey(a.date).localeCompare(dateStringToKey(b.date))
-        );
-        setPersistedWorkoutSessions(sessions);
-        setIsLoading(false);
-      },
-      (err) => {
-        console.error("Firestore error:", err);
-        setIsLoading(false);
-      }
+    const listeners = pageListenersRef.current;
+    return () => {
+      listeners.forEach((unsubscribe) => unsubscribe());
+      listeners.clear();
+      setSessionsByPage({});
+      setPendingByPage({});
+    };
+  }, [activeAoId, isNativeQSheet]);
+
+  // Widening the window subscribes only the new months; narrowing it
+  // (Hide Past / Reset Future) stops the months no longer shown
+  useEffect(() => {
+    if (!isNativeQSheet || !activeAoId) return;
+
+    const listeners = pageListenersRef.current;
+    const pageKeys = new Set(windowPages.map(toPageKey));
+    for (const [key, unsubscribe] of listeners) {
+      if (pageKeys.has(key)) continue;
+      unsubscribe();
+      listeners.delete(key);
+      setSessionsByPage((prev) => omitKey(prev, key));
+      setPendingByPage((prev) => omitKey(prev, key));
+    }
+
+    for (const page of windowPages) {
+      const key = toPageKey(page);
+      if (listeners.has(key)) continue;
+      listeners.set(
+        key,
+        subscribeWorkoutSessionsInRange(
+          activeAoId,
+          page,
+          (sessions, pendingIds) => {
+            setSessionsByPage((prev) => ({ ...prev, [key]: sessions }));
+            setPendingByPage((prev) => ({ ...prev, [key]: pendingIds }));
+          },
+          (err) => {
+            console.error("Firestore error:", err);
+            setSessionsByPage((prev) => ({ ...prev, [key]: prev[key] || [] }));
+          }
+        )
+      );
+    }
+  }, [activeAoId, isNativeQSheet, windowPages]);
+
+  // Neighbouring pages share their boundary day, so merge by id
+  const persistedWorkoutSessions = useMemo(() => {
+    const byId = new Map<string, WorkoutSession>();
+    Object.values(sessionsByPage).forEach((page) =>
+      page.forEach((session) => byId.set(session.id, session))
     );
+    return [...byId.values()].sort(compareWorkoutSessionSlots);
+  }, [sessionsByPage]);
 
-    return () => unsub();
-  }, []);
+  const pendingSessionIds = useMemo(
+    () => new Set(Object.values(pendingByPage).flatMap((ids) => [...ids])),
+    [pendingByPage]
+  );
+
+  const isLoading =
+    isNativeQSheet && Boolean(activeAoId) && Object.keys(sessionsByPage).length === 0;
+  const isLoadingMore = windowPages.some((page) => !(toPageKey(page) in sessionsByPage));
+
+  useEffect(() => {
+    localStorage.setItem(PAX_NAME_STORAGE_KEY, stripAt(editorName));
+  }, [editorName]);
+
+  // Every change is logged under a name; ask once if we don't have one yet
+  const resolveEditorName = useCallback(() => {
+    const known = stripAt(editorName);
+    if (known) return known;
+    const entered = stripAt(
+      window.prompt("Your F3 name (shown in the Q-sheet change history):") || ""
+    );
+    if (entered) setEditorName(entered);
+    return entered;
+  }, [editorName]);
+
+  // Write one field against the value this PAX was looking at. If someone
+  // else got there first, surface a conflict instead of overwriting them.
+  const saveField = useCallback(
+    async (
+      session: WorkoutSession,
+      field: QSheetEditableField,
+      expectedValue: string,
+      value: string,
+      extras: SaveExtras = {}
+    ) => {
+      const editor = resolveEditorName();
+      if (!editor) return;
 
-  // Update one field inside a workoutSession document
-  const updateField = useCallback(
-    async (sessionId: string, field: keyof WorkoutSession, value: string) => {
       try {
-        const ref = doc(db, "workoutSessions", sessionId);
-        await setDoc(ref, { [field]: value }, { merge: true });
+        await updateWorkoutSessionField({
+          session,
+          aoId: activeAoId,
+          field,
+          expectedValue,
+          value,
+          editor,
+          ...extras,
+        });
       } catch (err) {
+        if (err instanceof WorkoutSessionConflictError) {
+          setConflict({
+            session,
+            field,
+            attemptedValue: value,
+            currentValue: err.currentValue,
+            extras,
+          });
+          return;
+        }
         console.error("Error updating Firestore:", err);
       }
     },
+    [activeAoId, resolveEditorName]
+  );
+
+  const siteQs = useMemo<string[]>(() => activeAo?.siteQs || [], [activeAo]);
+
+  // Open slots (and the holder's own slot) change freely. Anyone else taking
+  // over a held slot needs the holder or a Site Q to confirm it.
+  const requestQChange = useCallback(
+    async (session: WorkoutSession, value: string, extras: SaveExtras = {}) => {
+      const holder = session.q || "";
+      if (!holder) return saveField(session, "q", holder, value, extras);
+
+      const editor = resolveEditorName();
+      if (!editor) return;
+      if (qFieldIncludesPax(holder, editor)) {
+        return saveField(session, "q", holder, value, extras);
+      }
+      if (isSiteQ(siteQs, editor)) {
+        const action = value ? `Hand it to ${value}` : "Release it";
+        if (!window.confirm(`${holder} holds the ${getSessionSlotLabel(session)} Q. ${action}?`)) return;
+        return saveField(session, "q", holder, value, { ...extras, confirmedBy: editor });
+      }
+      setTakeoverConfirmedBy("");
+      setTakeover({ session, value, extras });
+    },
+    [saveField, resolveEditorName, siteQs]
+  );
+
+  const updateField = useCallback(
+    (session: WorkoutSession, field: QSheetEditableField, value: string) =>
+      field === "q"
+        ? requestQChange(session, value)
+        : saveField(session, field, getEditableValue(session, field), value),
+    [saveField, requestQChange]
+  );
+
+  const updateDesignations = useCallback(
+    (session: WorkoutSession, next: SessionDesignation[]) =>
+      saveField(
+        session,
+        "designations",
+        getEditableValue(session, "designations"),
+        formatSessionDesignations(next)
+      ),
+    [saveField]
+  );
+
+  const claimQ = useCallback(
+    (session: WorkoutSession) => {
+      const editor = resolveEditorName();
+      if (editor) requestQChange(session, editor);
+    },
+    [resolveEditorName, requestQChange]
+  );
+
+  const releaseQ = useCallback(
+    (session: WorkoutSession) => requestQChange(session, ""),
+    [requestQChange]
+  );
+
+  const toggleHistory = useCallback(
+    (sessionId: string) =>
+      setHistorySessionId((open) => (open === sessionId ? "" : sessionId)),
     []
   );
 
-  const effectiveWorkoutSessions = useMemo(() => {
-    if (isCompass) {
-      return buildCompassEffectiveWorkoutSessions(persistedWorkoutSessions).sessions;
-    }
+  // Undo only while the field still holds what that change wrote
+  const revertChange = useCallback(
+    (session: WorkoutSession, change: WorkoutSessionChange) =>
+      change.field === "q"
+        ? requestQChange({ ...session, q: change.newValue }, change.oldValue, {
+            revertOf: change.id,
+          })
+        : saveField(session, change.field, change.newValue, change.oldValue, {
+            revertOf: change.id,
+          }),
+    [saveField, requestQChange]
+  );
 
-    return [...persistedWorkoutSessions].sort((a, b) =>
-      dateStringToKey(a.date).localeCompare(dateStringToKey(b.date))
-    );
-  }, [isCompass, persistedWorkoutSessions]);
+  const effectiveWorkoutSessions = useMemo(
+    () =>
+      activeAoId
+        ? buildEffectiveWorkoutSessionsForAo(activeAoId, persistedWorkoutSessions, queryWindow)
+            .sessions
+        : [],
+    [activeAoId, persistedWorkoutSessions, queryWindow.fromDateKey, queryWindow.toDateKey]
+  );
 
   const displayed = useMemo(
     () =>
@@ -510,6 +841,21 @@ export const QSheetView: React.FC = () => {
     [effectiveWorkoutSessions, futureMonths, pastMonths, today]
   );
 
+  // Schedule exceptions (cancelled, holiday, convergence, time change) per row
+  const slotsBySessionId = useMemo(() => {
+    const slots = new Map<string, ResolvedScheduleSlot>();
+    if (!activeAo?.scheduleExceptions?.length) return slots;
+    for (const session of displayed) {
+      const slot = resolveScheduleSlot(
+        activeAo,
+        dateKeyToIsoDate(session.dateKey || dateStringToKey(session.date)),
+        { startTime24: sessionTimeToTime24(session.time), endTime24: "" }
+      );
+      if (slot.exception) slots.set(session.id, slot);
+    }
+    return slots;
+  }, [activeAo, displayed]);
+
   useEffect(() => {
     if (!import.meta.env.DEV || !isCompass) return;
 
@@ -579,45 +925,99 @@ export const QSheetView: React.FC = () => {
     });
   }, [pendingScrollToLoadMore, displayed.length]);
 
-  const noteIcon = (note: string = "") => {
-    const n = note.toLowerCase();
-    if (n.includes("vq")) return <FireIcon className="text-red-500" />;
-    if (n.includes("bq")) return <SparklesIcon className="text-yellow-400" />;
-    if (n.includes("gq")) return <UserIcon className="text-sky-400" />;
-    return null;
-  };
-
   const QSheetRow = React.memo(
     ({
       session,
+      slot,
       paxList,
       onUpdate,
+      onUpdateDesignations,
+      isHistoryOpen,
+      isPending,
+      onToggleHistory,
+      onClaim,
+      onRelease,
     }: {
       session: WorkoutSession;
+      slot?: ResolvedScheduleSlot;
       paxList: string[];
-      onUpdate: (id: string, field: keyof WorkoutSession, v: string) => void;
+      onUpdate: (
+        session: WorkoutSession,
+        field: QSheetEditableField,
+        v: string
+      ) => void;
+      onUpdateDesignations: (session: WorkoutSession, next: SessionDesignation[]) => void;
+      isHistoryOpen: boolean;
+      // Saved on this device, not yet confirmed by the server (offline)
+      isPending: boolean;
+      onToggleHistory: (sessionId: string) => void;
+      onClaim: (session: WorkoutSession) => void;
+      onRelease: (session: WorkoutSession) => void;
     }) => (
-      <tr className="border-t border-slate-700">
+      <tr
+        className={`border-t border-slate-700 ${
+          slot && !slot.isHappening ? "opacity-50" : ""
+        }`}
+      >
         <td className="p-2 text-xs whitespace-nowrap">
-          {session.date} {session.time}
+          <span className={slot && !slot.isHappening ? "line-through" : ""}>
+            {session.date}{" "}
+            {slot?.exception?.kind === "timeChange"
+              ? slot.startTime24.replace(":", "")
+              : session.time}
+          </span>
+          {slot?.label && (
+            <div className="text-[10px] text-amber-300">{slot.label}</div>
+          )}
+          {isPending && (
+            <div
+              className="text-[10px] text-sky-300"
+              title="Saved on this device. It will sync when you're back online."
+            >
+              Pending
+            </div>
+          )}
+          <button
+            type="button"
+            onClick={() => onToggleHistory(session.id)}
+            className={`ml-1 align-middle inline-flex scale-75 ${
+              isHistoryOpen ? "text-red-400" : "text-slate-500 hover:text-slate-300"
+            }`}
+            title="Change history"
+            aria-expanded={isHistoryOpen}
+          >
+            <ClockIcon />
+          </button>
         </td>
 
         <td className="p-2">
           <PaxSelectCell
             value={session.q}
-            onSave={(v) => onUpdate(session.id, "q", v)}
+            onSave={(v) => onUpdate(session, "q", v)}
             paxList={paxList}
           />
+          {(!slot || slot.isHappening) && (
+            <button
+              type="button"
+              onClick={() => (session.q ? onRelease(session) : onClaim(session))}
+              className={`mt-1 text-[11px] underline decoration-dotted ${
+                session.q ? "text-slate-400 hover:text-slate-200" : "text-red-300 hover:text-red-200"
+              }`}
+            >
+              {session.q ? "Release" : "Claim this Q"}
+            </button>
+          )}
         </td>
 
         <td className="p-2">
-          <div className="flex items-center gap-1">
-            {noteIcon(session.notes)}
-            <EditableCell
-              value={session.notes}
-              onSave={(v) => onUpdate(session.id, "notes", v)}
-            />
-          </div>
+          <SessionDesignationPicker
+            value={getSessionDesignations(session)}
+            onSave={(next) => onUpdateDesignations(session, next)}
+          />
+          <EditableCell
+            value={session.notes}
+            onSave={(v) => onUpdate(session, "notes", v)}
+          />
         </td>
 
       </tr>
@@ -625,45 +1025,30 @@ export const QSheetView: React.FC = () => {
   );
   QSheetRow.displayName = "QSheetRow";
 
-  // Now it is safe to return conditionally (hooks already ran)
-  if (isColosseum) {
-    return (
-      <GoogleSheetQSheet
-        title="Colosseum"
-        whereName="Old Kempner Stadium"
-        address={"223 5th St, Sugar Land, TX 77498"}
-        addressLinkUrl={colosseumLink}
-        sheetUrl="https://docs.google.com/spreadsheets/d/1C_AamtdoHPaodpH-pDUx92n4DYgJUKLQhII0MoZDxIM/edit?gid=0#gid=0"
-      />
+  // Exactly the rows on screen, so the file matches the window the PAX picked
+  const exportTable = (format: QSheetTableFormat) => {
+    const first = displayed[0]?.dateKey || "";
+    const last = displayed[displayed.length - 1]?.dateKey || "";
+    downloadTextFile(
+      `${activeAoId || "qsheet"}-qsheet-${first}-${last}.${format}`,
+      serializeQSheetTable(displayed, format),
+      format === "csv" ? "text/csv" : "text/tab-separated-values"
     );
-  }
+  };
 
-  if (isJurassicPark) {
-    return (
-      <GoogleSheetQSheet
-        title="Jurassic Park"
-        whereName="Houston Museum of Natural Science"
-        address={
-          "13016 University Blvd, Sugar Land, TX 77479\nMeeting point is the far south end of the parking lot."
-        }
-        addressLinkUrl={jurassicLink}
-        sheetUrl="https://docs.google.com/spreadsheets/d/1C_AamtdoHPaodpH-pDUx92n4DYgJUKLQhII0MoZDxIM/edit?gid=1205329126#gid=1205329126"
-      />
-    );
-  }
+  // Now it is safe to return conditionally (hooks already ran)
+  const aoAddress = activeAo?.meetingPoint
+    ? `${activeAo.address}\n${activeAo.meetingPoint}`
+    : activeAo?.address;
 
-  if (activeAo?.qSheet?.externalUrl) {
+  if (!isNativeQSheet && activeAo?.qSheet?.externalUrl) {
     return (
       <ExternalQSheetPreview
         title={activeAo.displayName}
         heading={activeAo.id === "theshadows" ? "Q Sign-Up" : "Q-Sheet"}
         whereName={activeAo.whereName}
-        address={
-          activeAo.meetingPoint
-            ? `${activeAo.address}\n${activeAo.meetingPoint}`
-            : activeAo.address
-        }
-        addressLinkUrl={genericAddressLink}
+        address={aoAddress}
+        addressLinkUrl={addressLink}
         externalUrl={activeAo.qSheet.externalUrl}
         ctaLabel={
           activeAo.id === "theshadows"
@@ -674,22 +1059,36 @@ export const QSheetView: React.FC = () => {
     );
   }
 
-  if (activeAo?.modules?.qSheet && activeAo?.qSheet?.googleSheetUrl) {
+  if (!isNativeQSheet && activeAo?.qSheet?.googleSheetUrl) {
     return (
       <GoogleSheetQSheet
         title={activeAo.displayName}
         whereName={activeAo.whereName}
-        address={
-          activeAo.meetingPoint
-            ? `${activeAo.address}\n${activeAo.meetingPoint}`
-            : activeAo.address
-        }
-        addressLinkUrl={genericAddressLink}
+        address={aoAddress}
+        addressLinkUrl={addressLink}
         sheetUrl={activeAo.qSheet.googleSheetUrl}
+        syncedTable={
+          activeAo.qSheet.sheetSync ? (
+            <SheetQSheetTable ao={activeAo} />
+          ) : undefined
+        }
       />
     );
   }
 
+  if (!isNativeQSheet) {
+    return (
+      <div className="bg-slate-800/50 border border-slate-700 p-6 rounded-lg text-center">
+        <h3 className="text-xl text-slate-100 font-display tracking-wide">
+          {activeAo?.displayName || "Q-Sheet"}
+        </h3>
+        <p className="text-slate-300 text-sm mt-2">
+          No Q-Sheet is set up for this AO yet.
+        </p>
+      </div>
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="h-96 flex flex-col items-center justify-center">
@@ -699,9 +1098,8 @@ export const QSheetView: React.FC = () => {
     );
   }
 
-  // Header content: default Compass text, but don’t hardcode if AO changes
-  const headerTitle = isCompass ? "Compass at Lost Creek" : aoKey || "Q-Sheet";
-  const headerSub = isCompass ? "Lost Creek Park — Sugar Land, TX" : " ";
+  const headerTitle = activeAo?.displayName || aoKey || "Q-Sheet";
+  const headerSub = activeAo?.whereName || " ";
 
   return (
     <div>
@@ -711,9 +1109,9 @@ export const QSheetView: React.FC = () => {
           {headerTitle}
         </h3>
 
-        {isCompass ? (
+        {addressLink ? (
           <a
-            href={compassLink}
+            href={addressLink}
             target="_blank"
             rel="noopener noreferrer"
             className="text-slate-300 text-sm underline decoration-dotted hover:decoration-solid hover:text-red-300 inline-block leading-tight"
@@ -724,6 +1122,23 @@ export const QSheetView: React.FC = () => {
           <p className="text-slate-300 text-sm leading-tight">{headerSub}</p>
         )}
 
+        {activeAo?.meetingPoint && (
+          <a
+            href={meetingPointLink}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block text-xs text-slate-400 underline decoration-dotted hover:text-red-300 mt-1"
+          >
+            🚩 Meet at {activeAo.meetingPoint}
+          </a>
+        )}
+
+        <a
+          href={buildAoCalendarSubscribeUrl(window.location.host, activeAoId)}
+          className="block text-xs text-slate-400 underline decoration-dotted hover:text-red-300 mt-1"
+        >
+          📅 Subscribe in your calendar
+        </a>
       </div>
 
       {/* CONTROLS */}
@@ -754,6 +1169,164 @@ export const QSheetView: React.FC = () => {
         </div>
       </div>
 
+      {/* EDITOR + IMPORT/EXPORT */}
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <label className="flex items-center gap-2 text-xs text-slate-400">
+          Editing as
+          <input
+            list="qsheet-editor-names"
+            value={editorName}
+            onChange={(e) => setEditorName(e.target.value)}
+            placeholder="Your F3 name"
+            className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1 text-white text-xs w-40"
+          />
+          <datalist id="qsheet-editor-names">
+            {paxListForAo.map((p: string) => (
+              <option key={p} value={stripAt(p)} />
+            ))}
+          </datalist>
+        </label>
+
+        <div className="flex gap-2 text-xs">
+          <button
+            onClick={() => exportTable("csv")}
+            className="bg-slate-700 hover:bg-slate-600 px-2 py-1 rounded"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={() => exportTable("tsv")}
+            className="bg-slate-700 hover:bg-slate-600 px-2 py-1 rounded"
+          >
+            Export TSV
+          </button>
+          <button
+            onClick={() => setIsImportOpen((open) => !open)}
+            className={`px-2 py-1 rounded ${
+              isImportOpen ? "bg-red-600" : "bg-slate-700 hover:bg-slate-600"
+            }`}
+          >
+            Import
+          </button>
+        </div>
+      </div>
+
+      {isImportOpen && (
+        <QSheetImportPanel
+          aoId={activeAoId}
+          resolveEditorName={resolveEditorName}
+          onClose={() => setIsImportOpen(false)}
+        />
+      )}
+
+      {/* CONFLICT */}
+      {conflict && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+          <div className="w-full max-w-sm rounded-lg border border-amber-600/70 bg-slate-800 p-4 text-sm space-y-3">
+            <h3 className="text-lg font-display tracking-wide text-amber-300">
+              Someone beat you to it
+            </h3>
+            <p className="text-slate-200">
+              {FIELD_LABELS[conflict.field]} for {getSessionSlotLabel(conflict.session)} was changed
+              while you were editing.
+            </p>
+            <dl className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs">
+              <dt className="text-slate-400">Now</dt>
+              <dd className="text-slate-100">{conflict.currentValue || "Open"}</dd>
+              <dt className="text-slate-400">Yours</dt>
+              <dd className="text-slate-100">{conflict.attemptedValue || "Open"}</dd>
+            </dl>
+            <div className="flex justify-end gap-2 pt-1">
+              <button
+                type="button"
+                onClick={() => setConflict(null)}
+                className="bg-slate-600 hover:bg-slate-500 px-3 py-1.5 rounded text-xs"
+              >
+                Keep theirs
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  const { session, field, currentValue, attemptedValue, extras } = conflict;
+                  setConflict(null);
+                  // A Q that changed hands underneath us is still a takeover
+                  if (field === "q") {
+                    requestQChange({ ...session, q: currentValue }, attemptedValue, extras);
+                  } else {
+                    saveField(session, field, currentValue, attemptedValue, extras);
+                  }
+                }}
+                className="bg-red-600 hover:bg-red-700 px-3 py-1.5 rounded text-xs"
+              >
+                Use mine
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* TAKEOVER */}
+      {takeover && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4">
+          <div className="w-full max-w-sm rounded-lg border border-slate-600 bg-slate-800 p-4 text-sm space-y-3">
+            <h3 className="text-lg font-display tracking-wide">
+              {takeover.value ? "Take over this Q?" : "Release this Q?"}
+            </h3>
+            <p className="text-slate-200">
+              {takeover.session.q} holds {getSessionSlotLabel(takeover.session)}. Changing it needs
+              their OK or a Site Q&apos;s.
+            </p>
+            <label className="block text-xs text-slate-400">
+              Confirmed by
+              <select
+                value={takeoverConfirmedBy}
+                onChange={(e) => setTakeoverConfirmedBy(e.target.value)}
+                className="mt-1 w-full bg-slate-700 border border-slate-600 rounded-md px-2 py-1.5 text-white text-sm"
+              >
+                <option value="">Who said it&apos;s OK?</option>
+                {Array.from(
+                  new Map(
+                    [...splitQField(takeover.session.q), ...siteQs].map((name) => [
+                      toPaxNameKey(name),
+                      stripAt(name),
+                    ])
+                  ).values()
+                ).map((name) => (
+                  <option key={name} value={name}>
+                    {name}
+                    {isSiteQ(siteQs, name) ? " (Site Q)" : ""}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="flex justify-end gap-2 pt-1">
+              <button
+                type="button"
+                onClick={() => setTakeover(null)}
+                className="bg-slate-600 hover:bg-slate-500 px-3 py-1.5 rounded text-xs"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                disabled={!takeoverConfirmedBy}
+                onClick={() => {
+                  const { session, value, extras } = takeover;
+                  setTakeover(null);
+                  saveField(session, "q", session.q, value, {
+                    ...extras,
+                    confirmedBy: takeoverConfirmedBy,
+                  });
+                }}
+                className="bg-red-600 hover:bg-red-700 disabled:opacity-50 px-3 py-1.5 rounded text-xs"
+              >
+                {takeover.value ? `Give it to ${takeover.value}` : "Release"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* TABLE */}
       <div className="overflow-x-auto border border-slate-700 rounded-lg bg-slate-800/50">
         <table className="w-full text-left">
@@ -772,12 +1345,30 @@ export const QSheetView: React.FC = () => {
           </thead>
           <tbody>
             {displayed.map((s) => (
-              <QSheetRow
-                key={s.id}
-                session={s}
-                paxList={paxListForAo}
-                onUpdate={updateField}
-              />
+              <React.Fragment key={s.id}>
+                <QSheetRow
+                  session={s}
+                  slot={slotsBySessionId.get(s.id)}
+                  paxList={paxListForAo}
+                  onUpdate={updateField}
+                  onUpdateDesignations={updateDesignations}
+                  isHistoryOpen={historySessionId === s.id}
+                  isPending={pendingSessionIds.has(s.id)}
+                  onToggleHistory={toggleHistory}
+                  onClaim={claimQ}
+                  onRelease={releaseQ}
+                />
+                {historySessionId === s.id && (
+                  <tr className="bg-slate-900/40">
+                    <td colSpan={3} className="px-3 py-2">
+                      <SessionHistoryPanel
+                        session={s}
+                        onRevert={(change) => revertChange(s, change)}
+                      />
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
             ))}
           </tbody>
         </table>
@@ -816,6 +1407,8 @@ export const QSheetView: React.FC = () => {
             Reset Future
           </button>
         )}
+
+        {isLoadingMore && <span className="self-center text-xs text-slate-400">Loading…</span>}
       </div>
     </div>
   );
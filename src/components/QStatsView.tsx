@@ -0,0 +1,316 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { collection, getDocs } from "firebase/firestore";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { db } from "../firebase";
+import { ChartBarIcon } from "./icons";
+import { useAo } from "../ao/AoContext";
+import { AO_LIST, getAoByIdSafe } from "../ao/aoConfig";
+import { initialQSheetData } from "../data";
+import { getPaxListByAo } from "../constants";
+import { usePaxDirectoryVersion } from "../pax/PaxDirectoryContext";
+import { FIRESTORE_COLLECTION_PATH } from "../shared/firestoreConfig";
+import type { WorkoutSessionScheduleSource } from "../shared/compassQSchedule";
+import { getAoTodayIsoDate } from "../shared/scheduleExceptions";
+import { isoDateToLocalDate } from "../shared/timeZone";
+import { toSessionDateLabel } from "../utils/scheduleGenerator";
+import {
+  Q_EVENT_TAGS,
+  Q_STATS_DORMANT_DAYS,
+  Q_STATS_WINDOWS,
+  buildQLeaderboard,
+  countQsByMonth,
+  getQStatsWindowStart,
+  listDormantQs,
+  listQEvents,
+  listQRecords,
+} from "../shared/qStats";
+
+/* ----------------------------------------------------
+   Q leadership stats: Qs per PAX per AO, VQ/GQ/AQ
+   events, and who hasn't Q'd lately.
+---------------------------------------------------- */
+
+const ALL_AOS = "all";
+const CHART_TOP_PAX = 12;
+
+const formatIsoDate = (isoDate: string) => toSessionDateLabel(isoDateToLocalDate(isoDate));
+
+// "2025-11" -> "Nov 25"
+const formatMonth = (month: string) =>
+  isoDateToLocalDate(`${month}-01`).toLocaleDateString("en-US", {
+    month: "short",
+    year: "2-digit",
+  });
+
+const aoShortName = (aoId: string) => getAoByIdSafe(aoId).shortName;
+
+// Compass's pre-Firestore sheet rows (no aoId, so they count as Compass)
+const HISTORICAL_SESSIONS: WorkoutSessionScheduleSource[] = initialQSheetData.map(
+  (session) => ({ ...session })
+);
+
+export const QStatsView: React.FC = () => {
+  const { activeAoId, activeAo, registryVersion } = useAo();
+  const paxDirectoryVersion = usePaxDirectoryVersion();
+
+  const [sessions, setSessions] = useState<WorkoutSessionScheduleSource[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [windowId, setWindowId] = useState(Q_STATS_WINDOWS[2].id);
+  const [scope, setScope] = useState<string>(activeAoId || ALL_AOS);
+
+  // Counts cover every past workout, so this is one read when the view opens
+  // rather than a live listener on the whole collection
+  useEffect(() => {
+    let cancelled = false;
+    getDocs(collection(db, FIRESTORE_COLLECTION_PATH))
+      .then((snapshot) => {
+        if (!cancelled) setSessions(snapshot.docs.map((d) => ({ ...d.data(), id: d.id })));
+      })
+      .catch((err) => console.error("Firestore error:", err))
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const todayIsoDate = getAoTodayIsoDate(activeAo);
+  const statsWindow =
+    Q_STATS_WINDOWS.find((entry) => entry.id === windowId) || Q_STATS_WINDOWS[0];
+  const fromIsoDate = getQStatsWindowStart(statsWindow, todayIsoDate);
+  const scopeAoIds = useMemo(
+    () => (scope === ALL_AOS ? AO_LIST.map((ao) => ao.id) : [scope]),
+    [scope, registryVersion]
+  );
+
+  // History first, so a Firestore doc for the same slot wins
+  const records = useMemo(
+    () =>
+      listQRecords([...HISTORICAL_SESSIONS, ...sessions], todayIsoDate).filter((record) =>
+        scopeAoIds.includes(record.aoId)
+      ),
+    [sessions, todayIsoDate, scopeAoIds]
+  );
+
+  const leaderboard = useMemo(
+    () => buildQLeaderboard(records, fromIsoDate),
+    [records, fromIsoDate]
+  );
+  const monthly = useMemo(
+    () =>
+      countQsByMonth(records, fromIsoDate).map((entry) => ({
+        ...entry,
+        label: formatMonth(entry.month),
+      })),
+    [records, fromIsoDate]
+  );
+  const events = useMemo(() => listQEvents(records, fromIsoDate), [records, fromIsoDate]);
+  const { dormant, neverQd } = useMemo(
+    () => listDormantQs(records, scopeAoIds, getPaxListByAo, todayIsoDate),
+    [records, scopeAoIds, todayIsoDate, paxDirectoryVersion]
+  );
+
+  const showAo = scope === ALL_AOS;
+  const chartData = leaderboard.slice(0, CHART_TOP_PAX).map((row) => ({
+    name: showAo ? `${row.paxName} (${aoShortName(row.aoId)})` : row.paxName,
+    count: row.count,
+  }));
+  const totalQs = leaderboard.reduce((sum, row) => sum + row.count, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <ChartBarIcon className="text-red-500 h-6 w-6" />
+        <h2 className="text-2xl sm:text-3xl font-display tracking-wide">Q Stats</h2>
+      </div>
+
+      <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 flex flex-wrap gap-3 items-end text-sm">
+        <label className="block">
+          <span className="block text-xs text-slate-400 mb-1">Window</span>
+          <select
+            value={windowId}
+            onChange={(e) => setWindowId(e.target.value)}
+            className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1.5 text-white text-sm"
+          >
+            {Q_STATS_WINDOWS.map((entry) => (
+              <option key={entry.id} value={entry.id}>
+                {entry.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs text-slate-400 mb-1">AO</span>
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+            className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1.5 text-white text-sm"
+          >
+            <option value={ALL_AOS}>All AOs</option>
+            {AO_LIST.map((ao) => (
+              <option key={ao.id} value={ao.id}>
+                {ao.shortName}
+                {ao.id === activeAoId ? " (current)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+        {!isLoading && (
+          <p className="text-slate-300 text-xs pb-2">
+            {totalQs} Q{totalQs === 1 ? "" : "s"} led by {leaderboard.length} PAX
+          </p>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-slate-300 text-sm">Loading Q history…</p>
+      ) : leaderboard.length === 0 ? (
+        <p className="text-slate-400 text-sm">No Qs on record in this window.</p>
+      ) : (
+        <>
+          <div className="grid gap-4 lg:grid-cols-2">
+            <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-3">
+              <h3 className="text-sm text-slate-300 mb-2">Most Qs</h3>
+              <ResponsiveContainer width="100%" height={Math.max(160, chartData.length * 26)}>
+                <BarChart data={chartData} layout="vertical" margin={{ left: 8, right: 16 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" horizontal={false} />
+                  <XAxis type="number" allowDecimals={false} stroke="#94a3b8" fontSize={11} />
+                  <YAxis
+                    type="category"
+                    dataKey="name"
+                    width={120}
+                    stroke="#94a3b8"
+                    fontSize={11}
+                  />
+                  <Tooltip
+                    contentStyle={{ background: "#0f172a", border: "1px solid #334155" }}
+                    cursor={{ fill: "#1e293b" }}
+                  />
+                  <Bar dataKey="count" name="Qs" fill="#dc2626" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-3">
+              <h3 className="text-sm text-slate-300 mb-2">Qs per month</h3>
+              <ResponsiveContainer width="100%" height={220}>
+                <BarChart data={monthly} margin={{ right: 16 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#334155" vertical={false} />
+                  <XAxis dataKey="label" stroke="#94a3b8" fontSize={11} />
+                  <YAxis allowDecimals={false} stroke="#94a3b8" fontSize={11} width={28} />
+                  <Tooltip
+                    contentStyle={{ background: "#0f172a", border: "1px solid #334155" }}
+                    cursor={{ fill: "#1e293b" }}
+                  />
+                  <Bar dataKey="count" name="Qs" fill="#64748b" />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto border border-slate-700 rounded-lg bg-slate-800/50">
+            <table className="w-full text-left text-sm">
+              <thead className="bg-slate-800 text-xs text-slate-400">
+                <tr>
+                  <th className="p-2">PAX</th>
+                  {showAo && <th className="p-2">AO</th>}
+                  <th className="p-2 text-right">Qs</th>
+                  <th className="p-2">Last Q</th>
+                  <th className="p-2 text-right">Longest gap</th>
+                  {Q_EVENT_TAGS.map((tag) => (
+                    <th key={tag} className="p-2 text-right">
+                      {tag}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {leaderboard.map((row) => (
+                  <tr key={`${row.aoId}-${row.paxKey}`} className="border-t border-slate-700">
+                    <td className="p-2">{row.paxName}</td>
+                    {showAo && <td className="p-2 text-slate-300">{aoShortName(row.aoId)}</td>}
+                    <td className="p-2 text-right">{row.count}</td>
+                    <td className="p-2 text-xs whitespace-nowrap text-slate-300">
+                      {formatIsoDate(row.lastQIsoDate)}
+                    </td>
+                    <td className="p-2 text-right text-slate-300">
+                      {row.longestGapDays === null ? "—" : `${row.longestGapDays}d`}
+                    </td>
+                    {Q_EVENT_TAGS.map((tag) => (
+                      <td key={tag} className="p-2 text-right text-slate-300">
+                        {row.events[tag] || ""}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+
+      {!isLoading && (
+        <div className="grid gap-4 lg:grid-cols-2 text-sm">
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-3">
+            <h3 className="text-sm text-slate-300 mb-2">VQ / GQ / AQ</h3>
+            {events.length === 0 ? (
+              <p className="text-slate-400 text-xs">None in this window.</p>
+            ) : (
+              <ul className="text-xs space-y-0.5">
+                {events.map((event) => (
+                  <li key={`${event.aoId}-${event.isoDate}-${event.paxKey}`}>
+                    <span className="text-slate-400">{formatIsoDate(event.isoDate)}</span>{" "}
+                    {event.tags.join("/")} · {event.paxName}
+                    {showAo && <span className="text-slate-500"> @ {aoShortName(event.aoId)}</span>}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-3">
+            <h3 className="text-sm text-slate-300 mb-1">
+              Hasn't Q'd in {Q_STATS_DORMANT_DAYS} days
+            </h3>
+            <p className="text-xs text-slate-500 mb-2">
+              For site Qs: PAX worth a nudge to take a slot.
+            </p>
+            {dormant.length === 0 ? (
+              <p className="text-slate-400 text-xs">Everyone who has Q'd here has done so recently.</p>
+            ) : (
+              <ul className="text-xs space-y-0.5">
+                {dormant.map((entry) => (
+                  <li key={`${entry.aoId}-${entry.paxName}`}>
+                    {entry.paxName}
+                    {showAo && <span className="text-slate-500"> @ {aoShortName(entry.aoId)}</span>}{" "}
+                    <span className="text-slate-400">
+                      last Q {formatIsoDate(entry.lastQIsoDate)} ({entry.daysSince} days)
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {neverQd.length > 0 && (
+              <>
+                <h4 className="text-xs text-slate-300 mt-3 mb-1">On the roster, no Q on record</h4>
+                <p className="text-xs text-slate-400">
+                  {neverQd
+                    .map((entry) =>
+                      showAo ? `${entry.paxName} (${aoShortName(entry.aoId)})` : entry.paxName
+                    )
+                    .join(", ")}
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
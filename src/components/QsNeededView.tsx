@@ -0,0 +1,188 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { MegaphoneIcon, ExternalLinkIcon } from "./icons";
+import { useAo } from "../ao/AoContext";
+import { AO_LIST } from "../ao/aoConfig";
+import { subscribeRegionWorkoutSessionsInRange } from "../services/qSheetService";
+import type { WorkoutSessionScheduleSource } from "../shared/compassQSchedule";
+import {
+  QS_NEEDED_DEFAULT_LOOKAHEAD_DAYS,
+  buildQsNeededPost,
+  formatQsNeededSlot,
+  listQsNeeded,
+} from "../shared/qsNeeded";
+import { getRegionDateKeyWindow } from "../shared/regionSchedule";
+
+/* ----------------------------------------------------
+   "Qs needed" BAND post: open slots per AO, ready to
+   copy, instead of hand-writing it every week.
+---------------------------------------------------- */
+
+const LOOKAHEAD_OPTIONS = [7, 14, 21, 28];
+const ALL_AOS = "all";
+
+export const QsNeededView: React.FC = () => {
+  const { activeAoId, registryVersion } = useAo();
+
+  const [sessions, setSessions] = useState<WorkoutSessionScheduleSource[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [lookaheadDays, setLookaheadDays] = useState(QS_NEEDED_DEFAULT_LOOKAHEAD_DAYS);
+  const [scope, setScope] = useState<string>(ALL_AOS);
+  const [postText, setPostText] = useState("");
+  const [copied, setCopied] = useState(false);
+
+  // Every AO's sessions in the chosen window; a longer window resubscribes
+  useEffect(() => {
+    const unsub = subscribeRegionWorkoutSessionsInRange(
+      getRegionDateKeyWindow(lookaheadDays),
+      (windowSessions) => {
+        setSessions(windowSessions);
+        setIsLoading(false);
+      },
+      (err) => {
+        console.error("Firestore error:", err);
+        setIsLoading(false);
+      }
+    );
+    return () => unsub();
+  }, [lookaheadDays]);
+
+  const groups = useMemo(
+    () =>
+      listQsNeeded(
+        sessions,
+        { lookaheadDays },
+        scope === ALL_AOS ? AO_LIST : AO_LIST.filter((ao) => ao.id === scope)
+      ),
+    [sessions, lookaheadDays, scope, registryVersion]
+  );
+  const generatedPost = useMemo(
+    () => buildQsNeededPost(groups, lookaheadDays),
+    [groups, lookaheadDays]
+  );
+
+  // Regenerate when the data or filters change; hand edits live until then
+  useEffect(() => setPostText(generatedPost), [generatedPost]);
+
+  const copyPost = async () => {
+    try {
+      await navigator.clipboard.writeText(postText);
+      setCopied(true);
+      window.setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error("Copy failed:", err);
+    }
+  };
+
+  const openSlotCount = groups.reduce((sum, group) => sum + group.slots.length, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <MegaphoneIcon className="text-red-500 h-6 w-6" />
+        <h2 className="text-2xl sm:text-3xl font-display tracking-wide">Qs Needed</h2>
+      </div>
+
+      <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 flex flex-wrap gap-3 items-end text-sm">
+        <label className="block">
+          <span className="block text-xs text-slate-400 mb-1">Look ahead</span>
+          <select
+            value={lookaheadDays}
+            onChange={(e) => setLookaheadDays(Number(e.target.value))}
+            className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1.5 text-white text-sm"
+          >
+            {LOOKAHEAD_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                Next {days} days
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block">
+          <span className="block text-xs text-slate-400 mb-1">AOs</span>
+          <select
+            value={scope}
+            onChange={(e) => setScope(e.target.value)}
+            className="bg-slate-700 border border-slate-600 rounded-md px-2 py-1.5 text-white text-sm"
+          >
+            <option value={ALL_AOS}>All AOs</option>
+            {AO_LIST.map((ao) => (
+              <option key={ao.id} value={ao.id}>
+                {ao.shortName}
+                {ao.id === activeAoId ? " (current)" : ""}
+              </option>
+            ))}
+          </select>
+        </label>
+        {!isLoading && (
+          <p className="text-slate-300 text-xs pb-2">
+            {openSlotCount
+              ? `${openSlotCount} open slot${openSlotCount === 1 ? "" : "s"} across ${groups.length} AO${groups.length === 1 ? "" : "s"}`
+              : "No open slots"}
+          </p>
+        )}
+      </div>
+
+      {isLoading ? (
+        <p className="text-slate-300 text-sm">Loading schedule…</p>
+      ) : (
+        <div className="grid gap-4 lg:grid-cols-2">
+          <div className="border border-slate-700 rounded-lg bg-slate-800/50 divide-y divide-slate-700 text-sm">
+            {groups.length === 0 ? (
+              <p className="p-3 text-slate-400">
+                Every workout in the next {lookaheadDays} days has a Q.
+              </p>
+            ) : (
+              groups.map(({ ao, qSheetUrl, slots }) => (
+                <div key={ao.id} className="p-3 space-y-1">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold">{ao.displayName}</span>
+                    <a
+                      href={qSheetUrl}
+                      className="inline-flex items-center gap-1 text-xs text-slate-300 underline decoration-dotted hover:text-red-300"
+                    >
+                      Q-Sheet <ExternalLinkIcon className="h-3 w-3" />
+                    </a>
+                  </div>
+                  <ul className="text-slate-300 text-xs space-y-0.5">
+                    {slots.map((slot) => (
+                      <li key={`${slot.isoDate}-${slot.regularStartTime24}`}>
+                        {formatQsNeededSlot(slot)}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <textarea
+              value={postText}
+              onChange={(e) => setPostText(e.target.value)}
+              rows={16}
+              className="w-full bg-slate-900 border border-slate-700 rounded-lg p-3 text-slate-100 text-sm font-mono"
+            />
+            <div className="flex gap-2 text-xs">
+              <button
+                type="button"
+                onClick={copyPost}
+                className="bg-red-600 hover:bg-red-700 text-white px-3 py-1.5 rounded-md"
+              >
+                {copied ? "Copied!" : "Copy post"}
+              </button>
+              {postText !== generatedPost && (
+                <button
+                  type="button"
+                  onClick={() => setPostText(generatedPost)}
+                  className="bg-slate-600 hover:bg-slate-500 text-white px-3 py-1.5 rounded-md"
+                >
+                  Reset
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,288 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { MapIcon, ExternalLinkIcon } from "./icons";
+import { useAo } from "../ao/AoContext";
+import { AO_LIST, type AoConfig, type GeoPoint } from "../ao/aoConfig";
+import { subscribeRegionWorkoutSessionsInRange } from "../services/qSheetService";
+import {
+  buildPreblastUrl,
+  getQAssignmentsBySlot,
+  toScheduleSlotKey,
+  type WorkoutSessionScheduleSource,
+} from "../shared/compassQSchedule";
+import {
+  SLOT_SEARCH_DAYS,
+  findUpcomingScheduleSlot,
+  type ResolvedScheduleSlot,
+} from "../shared/scheduleExceptions";
+import { getRegionDateKeyWindow } from "../shared/regionSchedule";
+import { getAoMapPoint, getAoMeetingPointMapsUrl } from "../shared/aoMaps";
+import { isoDateToLocalDate } from "../shared/timeZone";
+
+/* ----------------------------------------------------
+   Region map: every AO pinned on a plain SVG (no map
+   tiles, so it renders offline) with its next workout.
+---------------------------------------------------- */
+
+const VIEW_WIDTH = 800;
+const MIN_VIEW_HEIGHT = 320;
+const MAX_VIEW_HEIGHT = 560;
+const VIEW_PADDING = 70;
+// Keeps a lone AO (or two very close ones) from zooming in to street level
+const MIN_SPAN_DEGREES = 0.03;
+const KM_PER_DEGREE = 111.32;
+const GRID_STEPS = [0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2];
+const SCALE_BAR_KMS = [0.5, 1, 2, 5, 10, 20, 50, 100];
+
+type AoNextWorkout = {
+  ao: AoConfig;
+  point?: GeoPoint;
+  slot?: ResolvedScheduleSlot;
+  qName: string;
+};
+
+type PlottedAo = AoNextWorkout & { point: GeoPoint; x: number; y: number };
+
+const formatTime12 = (time24: string) => {
+  const [hh, mm] = time24.split(":").map(Number);
+  const ap = hh >= 12 ? "PM" : "AM";
+  return `${((hh + 11) % 12) + 1}:${String(mm || 0).padStart(2, "0")} ${ap}`;
+};
+
+const formatSlot = (slot: ResolvedScheduleSlot) => {
+  const date = isoDateToLocalDate(slot.isoDate);
+  const weekday = date.toLocaleDateString("en-US", { weekday: "short" });
+  return `${weekday} ${date.getMonth() + 1}/${date.getDate()} · ${formatTime12(slot.startTime24)}`;
+};
+
+/**
+ * Equirectangular projection scaled by cos(latitude), which is accurate
+ * enough across a single region and needs no map library.
+ */
+const projectAos = (items: Array<AoNextWorkout & { point: GeoPoint }>) => {
+  const lats = items.map((item) => item.point.lat);
+  const lngs = items.map((item) => item.point.lng);
+  const centerLat = (Math.min(...lats) + Math.max(...lats)) / 2;
+  const centerLng = (Math.min(...lngs) + Math.max(...lngs)) / 2;
+  const lngFactor = Math.cos((centerLat * Math.PI) / 180);
+
+  const spanX = Math.max((Math.max(...lngs) - Math.min(...lngs)) * lngFactor, MIN_SPAN_DEGREES);
+  const spanY = Math.max(Math.max(...lats) - Math.min(...lats), MIN_SPAN_DEGREES);
+
+  let scale = (VIEW_WIDTH - 2 * VIEW_PADDING) / spanX;
+  const height = Math.min(
+    MAX_VIEW_HEIGHT,
+    Math.max(MIN_VIEW_HEIGHT, spanY * scale + 2 * VIEW_PADDING)
+  );
+  scale = Math.min(scale, (height - 2 * VIEW_PADDING) / spanY);
+
+  const toX = (lng: number) => VIEW_WIDTH / 2 + (lng - centerLng) * lngFactor * scale;
+  const toY = (lat: number) => height / 2 - (lat - centerLat) * scale;
+  const toLng = (x: number) => centerLng + (x - VIEW_WIDTH / 2) / (lngFactor * scale);
+  const toLat = (y: number) => centerLat - (y - height / 2) / scale;
+
+  const plotted: PlottedAo[] = items.map((item) => ({
+    ...item,
+    x: toX(item.point.lng),
+    y: toY(item.point.lat),
+  }));
+
+  // Grid lines roughly every 60px, snapped to round degree values
+  const gridStep = GRID_STEPS.find((step) => step * scale >= 60) || 1;
+  const gridLngs: number[] = [];
+  for (let lng = Math.ceil(toLng(0) / gridStep) * gridStep; lng <= toLng(VIEW_WIDTH); lng += gridStep) {
+    gridLngs.push(lng);
+  }
+  const gridLats: number[] = [];
+  for (let lat = Math.ceil(toLat(height) / gridStep) * gridStep; lat <= toLat(0); lat += gridStep) {
+    gridLats.push(lat);
+  }
+
+  const kmPerPixel = KM_PER_DEGREE / scale;
+  const scaleBarKm =
+    SCALE_BAR_KMS.find((km) => km / kmPerPixel >= 60) || SCALE_BAR_KMS[SCALE_BAR_KMS.length - 1];
+
+  return {
+    height,
+    plotted,
+    gridXs: gridLngs.map(toX),
+    gridYs: gridLats.map(toY),
+    scaleBar: { km: scaleBarKm, width: scaleBarKm / kmPerPixel },
+  };
+};
+
+export const RegionMapView: React.FC = () => {
+  const { activeAoId, registryVersion } = useAo();
+
+  const [sessions, setSessions] = useState<WorkoutSessionScheduleSource[]>([]);
+  const [selectedAoId, setSelectedAoId] = useState<string>(activeAoId);
+
+  // Every AO's sessions as far ahead as a next workout is looked for
+  useEffect(() => {
+    const unsub = subscribeRegionWorkoutSessionsInRange(
+      getRegionDateKeyWindow(SLOT_SEARCH_DAYS),
+      setSessions,
+      (err) => {
+        console.error("Firestore error:", err);
+      }
+    );
+    return () => unsub();
+  }, []);
+
+  const nextWorkouts = useMemo<AoNextWorkout[]>(
+    () =>
+      AO_LIST.map((ao) => {
+        const { slot } = findUpcomingScheduleSlot(ao);
+        const qName = slot
+          ? getQAssignmentsBySlot(ao.id, sessions).get(
+              toScheduleSlotKey(slot.isoDate, slot.regularStartTime24)
+            ) || ""
+          : "";
+        return { ao, point: getAoMapPoint(ao), slot, qName };
+      }),
+    [sessions, registryVersion]
+  );
+
+  const map = useMemo(() => {
+    const pinned = nextWorkouts.filter(
+      (item): item is AoNextWorkout & { point: GeoPoint } => Boolean(item.point)
+    );
+    return pinned.length ? projectAos(pinned) : null;
+  }, [nextWorkouts]);
+  const selected = nextWorkouts.find((item) => item.ao.id === selectedAoId);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <MapIcon className="text-red-500 h-6 w-6" />
+        <h2 className="text-2xl sm:text-3xl font-display tracking-wide">Region Map</h2>
+      </div>
+
+      {map ? (
+        <div className="bg-slate-800/50 border border-slate-700 rounded-lg overflow-hidden">
+          <svg
+            viewBox={`0 0 ${VIEW_WIDTH} ${map.height}`}
+            className="w-full h-auto block"
+            role="img"
+            aria-label="Map of AO locations"
+          >
+            <rect width={VIEW_WIDTH} height={map.height} className="fill-slate-900" />
+            {map.gridXs.map((x) => (
+              <line key={`x${x}`} x1={x} x2={x} y1={0} y2={map.height} className="stroke-slate-800" />
+            ))}
+            {map.gridYs.map((y) => (
+              <line key={`y${y}`} x1={0} x2={VIEW_WIDTH} y1={y} y2={y} className="stroke-slate-800" />
+            ))}
+
+            {map.plotted.map((item) => {
+              const isSelected = item.ao.id === selectedAoId;
+              return (
+                <g
+                  key={item.ao.id}
+                  transform={`translate(${item.x} ${item.y})`}
+                  onClick={() => setSelectedAoId(item.ao.id)}
+                  className="cursor-pointer"
+                >
+                  <circle
+                    r={isSelected ? 11 : 8}
+                    className={isSelected ? "fill-red-500" : "fill-red-700"}
+                    stroke="white"
+                    strokeWidth={2}
+                  />
+                  <text x={15} y={-2} className="fill-slate-100 text-[15px] font-semibold">
+                    {item.ao.shortName}
+                  </text>
+                  <text x={15} y={15} className="fill-slate-400 text-[12px]">
+                    {item.slot
+                      ? `${formatSlot(item.slot)} · ${item.qName || "Q needed"}`
+                      : "No upcoming workout"}
+                  </text>
+                </g>
+              );
+            })}
+
+            <g transform={`translate(16 ${map.height - 20})`}>
+              <line x1={0} x2={map.scaleBar.width} y1={0} y2={0} className="stroke-slate-400" strokeWidth={2} />
+              <text x={0} y={-6} className="fill-slate-400 text-[11px]">
+                {map.scaleBar.km} km
+              </text>
+            </g>
+          </svg>
+        </div>
+      ) : (
+        <p className="text-slate-400 text-sm">
+          No AO has map coordinates yet. Add a map pin under Manage AOs.
+        </p>
+      )}
+
+      {selected && (
+        <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 text-sm space-y-1">
+          <h3 className="text-lg font-display tracking-wide">{selected.ao.displayName}</h3>
+          <p className="text-slate-300">
+            {[selected.ao.whereName, selected.ao.address].filter(Boolean).join(" · ")}
+          </p>
+          <p className="text-slate-200">
+            {selected.slot ? (
+              <>
+                Next: {formatSlot(selected.slot)} · Q:{" "}
+                {selected.qName || <span className="text-amber-300">needed</span>}
+                {selected.slot.label && (
+                  <span className="text-amber-300"> ({selected.slot.label})</span>
+                )}
+              </>
+            ) : (
+              "No workout in the next two weeks."
+            )}
+          </p>
+          <div className="flex flex-wrap gap-3 pt-1 text-xs">
+            {getAoMeetingPointMapsUrl(selected.ao) && (
+              <a
+                href={getAoMeetingPointMapsUrl(selected.ao)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="inline-flex items-center gap-1 text-slate-300 underline decoration-dotted hover:text-red-300"
+              >
+                Directions <ExternalLinkIcon className="h-3 w-3" />
+              </a>
+            )}
+            <a
+              href={buildPreblastUrl(selected.ao.id)}
+              className="inline-flex items-center gap-1 text-slate-300 underline decoration-dotted hover:text-red-300"
+            >
+              Preblast <ExternalLinkIcon className="h-3 w-3" />
+            </a>
+          </div>
+        </div>
+      )}
+
+      <div className="border border-slate-700 rounded-lg bg-slate-800/50 divide-y divide-slate-700">
+        {nextWorkouts.map((item) => (
+          <button
+            key={item.ao.id}
+            type="button"
+            onClick={() => setSelectedAoId(item.ao.id)}
+            className={`w-full flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-left text-sm hover:bg-slate-700/50 ${
+              item.ao.id === selectedAoId ? "bg-slate-700/40" : ""
+            }`}
+          >
+            <span className="font-semibold">
+              {item.ao.shortName}
+              {!item.point && (
+                <span className="ml-2 text-xs font-normal text-slate-500">no map pin</span>
+              )}
+            </span>
+            <span className="text-slate-300 text-xs">
+              {item.slot ? (
+                <>
+                  {formatSlot(item.slot)} ·{" "}
+                  {item.qName || <span className="text-amber-300">Q needed</span>}
+                </>
+              ) : (
+                "No upcoming workout"
+              )}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { UserGroupIcon, ExternalLinkIcon } from "./icons";
+import { useAo } from "../ao/AoContext";
+import { AO_LIST } from "../ao/aoConfig";
+import { subscribeRegionWorkoutSessionsInRange } from "../services/qSheetService";
+import {
+  buildPreblastUrl,
+  buildQSheetUrl,
+  type WorkoutSessionScheduleSource,
+} from "../shared/compassQSchedule";
+import {
+  REGION_DASHBOARD_DAYS,
+  countUnfilledSlotsByAo,
+  getRegionDateKeyWindow,
+  listRegionWorkouts,
+  type RegionWorkoutEntry,
+} from "../shared/regionSchedule";
+import { isoDateToLocalDate } from "../shared/timeZone";
+
+/* ----------------------------------------------------
+   Region dashboard: every workout in the next 7 days
+   across all AOs, for Site Qs and the Nantan.
+---------------------------------------------------- */
+
+const formatTime12 = (time24: string) => {
+  const [hh, mm] = time24.split(":").map(Number);
+  const ap = hh >= 12 ? "PM" : "AM";
+  return `${((hh + 11) % 12) + 1}:${String(mm || 0).padStart(2, "0")} ${ap}`;
+};
+
+const formatDayHeading = (isoDate: string) =>
+  isoDateToLocalDate(isoDate).toLocaleDateString("en-US", {
+    weekday: "long",
+    month: "numeric",
+    day: "numeric",
+  });
+
+const linkClass =
+  "inline-flex items-center gap-1 text-slate-300 underline decoration-dotted hover:text-red-300";
+
+const QCell: React.FC<{ entry: RegionWorkoutEntry }> = ({ entry }) => {
+  if (!entry.slot.isHappening) {
+    return <span className="text-slate-500">—</span>;
+  }
+  if (entry.qStatus === "assigned") {
+    return <span className="text-slate-100">{entry.qName}</span>;
+  }
+  if (entry.qStatus === "offApp") {
+    const sheetUrl =
+      entry.ao.qSheet.googleSheetUrl || entry.ao.qSheet.externalUrl || entry.ao.qSheet.tinyUrl;
+    return (
+      <a href={sheetUrl} target="_blank" rel="noopener noreferrer" className={linkClass}>
+        On sheet <ExternalLinkIcon className="h-3 w-3" />
+      </a>
+    );
+  }
+  return (
+    <span className="inline-block rounded bg-red-600/90 px-1.5 py-0.5 text-[11px] font-semibold tracking-wide text-white">
+      OPEN
+    </span>
+  );
+};
+
+export const RegionView: React.FC = () => {
+  const { registryVersion } = useAo();
+
+  const [sessions, setSessions] = useState<WorkoutSessionScheduleSource[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Every AO's sessions in the dashboard window
+  useEffect(() => {
+    const unsub = subscribeRegionWorkoutSessionsInRange(
+      getRegionDateKeyWindow(REGION_DASHBOARD_DAYS),
+      (windowSessions) => {
+        setSessions(windowSessions);
+        setIsLoading(false);
+      },
+      (err) => {
+        console.error("Firestore error:", err);
+        setIsLoading(false);
+      }
+    );
+    return () => unsub();
+  }, []);
+
+  const entries = useMemo(
+    () => listRegionWorkouts(sessions, { lookaheadDays: REGION_DASHBOARD_DAYS }),
+    [sessions, registryVersion]
+  );
+  const unfilledByAo = useMemo(() => countUnfilledSlotsByAo(entries), [entries]);
+
+  // Group by calendar date; entries are already in start-time order
+  const days = useMemo(() => {
+    const byDate = new Map<string, RegionWorkoutEntry[]>();
+    for (const entry of entries) {
+      const list = byDate.get(entry.slot.isoDate) || [];
+      list.push(entry);
+      byDate.set(entry.slot.isoDate, list);
+    }
+    return Array.from(byDate.entries()).sort(([a], [b]) => a.localeCompare(b));
+  }, [entries]);
+
+  const flaggedAos = AO_LIST.filter((ao) => unfilledByAo.has(ao.id));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <UserGroupIcon className="text-red-500 h-6 w-6" />
+        <h2 className="text-2xl sm:text-3xl font-display tracking-wide">This Week in the Region</h2>
+      </div>
+
+      {!isLoading && (
+        <div
+          className={`rounded-lg border px-4 py-3 text-sm ${
+            flaggedAos.length
+              ? "border-red-700/70 bg-red-900/20 text-red-100"
+              : "border-slate-700 bg-slate-800/50 text-slate-300"
+          }`}
+        >
+          {flaggedAos.length ? (
+            <>
+              <span className="font-semibold">Qs needed: </span>
+              {flaggedAos.map((ao, index) => (
+                <span key={ao.id}>
+                  {index > 0 && ", "}
+                  <a href={buildQSheetUrl(ao.id)} className="underline decoration-dotted hover:text-white">
+                    {ao.shortName}
+                  </a>{" "}
+                  ({unfilledByAo.get(ao.id)})
+                </span>
+              ))}
+              <a href="/?view=qsneeded" className="ml-3 underline decoration-dotted hover:text-white">
+                Write the BAND post
+              </a>
+            </>
+          ) : (
+            `Every workout in the next ${REGION_DASHBOARD_DAYS} days has a Q (or signs up off-app).`
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <p className="text-slate-300 text-sm">Loading schedule…</p>
+      ) : days.length === 0 ? (
+        <p className="text-slate-400 text-sm">No workouts scheduled in the next {REGION_DASHBOARD_DAYS} days.</p>
+      ) : (
+        days.map(([isoDate, dayEntries]) => (
+          <div key={isoDate} className="border border-slate-700 rounded-lg bg-slate-800/50 overflow-x-auto">
+            <h3 className="px-3 py-2 bg-slate-900/60 text-sm font-semibold text-slate-200">
+              {formatDayHeading(isoDate)}
+            </h3>
+            <table className="w-full text-left text-sm">
+              <tbody>
+                {dayEntries.map((entry) => (
+                  <tr
+                    key={`${entry.ao.id}-${entry.slot.regularStartTime24}`}
+                    className={`border-t border-slate-700 ${entry.slot.isHappening ? "" : "opacity-50"}`}
+                  >
+                    <td className="p-2 whitespace-nowrap w-24">
+                      <span className={entry.slot.isHappening ? "" : "line-through"}>
+                        {formatTime12(entry.slot.startTime24)}
+                      </span>
+                    </td>
+                    <td className="p-2 whitespace-nowrap font-semibold">{entry.ao.shortName}</td>
+                    <td className="p-2 whitespace-nowrap">
+                      <QCell entry={entry} />
+                    </td>
+                    <td className="p-2 text-xs w-full">
+                      {entry.slot.label && (
+                        <span className="text-amber-300 mr-3">{entry.slot.label}</span>
+                      )}
+                      {entry.slot.isHappening && (
+                        <span className="inline-flex flex-wrap gap-3">
+                          <a href={buildPreblastUrl(entry.ao.id)} className={linkClass}>
+                            Preblast <ExternalLinkIcon className="h-3 w-3" />
+                          </a>
+                          {entry.ao.modules.qSheet && (
+                            <a href={buildQSheetUrl(entry.ao.id)} className={linkClass}>
+                              Q-Sheet <ExternalLinkIcon className="h-3 w-3" />
+                            </a>
+                          )}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
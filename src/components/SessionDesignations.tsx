@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from "react";
+import {
+  SESSION_DESIGNATION_KINDS,
+  SESSION_DESIGNATION_LABELS,
+  formatSessionDesignation,
+  getSessionDesignations,
+  sortSessionDesignations,
+  type SessionDesignation,
+  type SessionDesignationKind,
+} from "../shared/sessionDesignations";
+import { subscribeWorkoutSessionsInRange } from "../services/qSheetService";
+import { toSessionTime } from "../utils/scheduleGenerator";
+
+/* ----------------------------------------------------
+   Designation badges, the Q-sheet picker, and the
+   lookup the pre/backblast generators use to find
+   what the Q-sheet says about a workout.
+---------------------------------------------------- */
+
+const BADGE_CLASSES: Record<SessionDesignationKind, string> = {
+  VQ: "bg-red-600/80 text-red-50",
+  GQ: "bg-sky-600/80 text-sky-50",
+  AQ: "bg-amber-500/80 text-amber-950",
+  BQ: "bg-pink-600/80 text-pink-50",
+  CSAUP: "bg-purple-700/80 text-purple-50",
+  TIR: "bg-orange-600/80 text-orange-50",
+  CONVERGENCE: "bg-emerald-700/80 text-emerald-50",
+  "2.0": "bg-teal-600/80 text-teal-50",
+};
+
+export const SessionDesignationBadges: React.FC<{ designations: SessionDesignation[] }> = ({
+  designations,
+}) => (
+  <>
+    {sortSessionDesignations(designations).map((designation) => (
+      <span
+        key={designation.kind}
+        title={SESSION_DESIGNATION_LABELS[designation.kind]}
+        className={`rounded px-1.5 py-0.5 text-[10px] font-semibold whitespace-nowrap ${
+          BADGE_CLASSES[designation.kind]
+        }`}
+      >
+        {formatSessionDesignation(designation)}
+      </span>
+    ))}
+  </>
+);
+
+/** Badges plus a toggle list; saves once when the PAX is done. */
+export const SessionDesignationPicker: React.FC<{
+  value: SessionDesignation[];
+  onSave: (next: SessionDesignation[]) => void;
+}> = ({ value, onSave }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState(value);
+
+  useEffect(() => {
+    if (!isOpen) setDraft(value);
+  }, [value, isOpen]);
+
+  const selected = (kind: SessionDesignationKind) => draft.find((entry) => entry.kind === kind);
+
+  const toggle = (kind: SessionDesignationKind) =>
+    setDraft((current) =>
+      current.some((entry) => entry.kind === kind)
+        ? current.filter((entry) => entry.kind !== kind)
+        : [...current, { kind }]
+    );
+
+  const setYears = (years: number) =>
+    setDraft((current) =>
+      current.map((entry) =>
+        entry.kind === "AQ" ? (years > 0 ? { kind: "AQ", years } : { kind: "AQ" }) : entry
+      )
+    );
+
+  const done = () => {
+    onSave(draft);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <SessionDesignationBadges designations={value} />
+      <button
+        type="button"
+        onClick={() => (isOpen ? done() : setIsOpen(true))}
+        className="text-[11px] text-slate-400 hover:text-slate-200 underline decoration-dotted"
+        title="VQ, GQ, AQ, CSAUP, TIR, convergence…"
+      >
+        {isOpen ? "Done" : value.length ? "Edit tags" : "+ Tag"}
+      </button>
+
+      {isOpen && (
+        <div className="basis-full flex flex-wrap items-center gap-1 mt-1">
+          {SESSION_DESIGNATION_KINDS.map((kind) => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() => toggle(kind)}
+              title={SESSION_DESIGNATION_LABELS[kind]}
+              className={`rounded px-1.5 py-0.5 text-[10px] font-semibold border ${
+                selected(kind)
+                  ? `${BADGE_CLASSES[kind]} border-transparent`
+                  : "border-slate-600 text-slate-400 hover:text-slate-200"
+              }`}
+            >
+              {formatSessionDesignation({ kind })}
+            </button>
+          ))}
+          {selected("AQ") && (
+            <label className="flex items-center gap-1 text-[10px] text-slate-400">
+              Years
+              <input
+                type="number"
+                min={1}
+                value={selected("AQ")?.years ?? ""}
+                onChange={(e) => setYears(Number(e.target.value))}
+                className="w-12 bg-slate-700 border border-slate-600 rounded px-1 py-0.5 text-white text-[11px]"
+              />
+            </label>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Designations the Q-sheet has for an AO's workout on `isoDate`. With more
+ * than one slot that day, only the one starting at `time24` ("05:30") counts;
+ * a lone slot counts even if the time was edited.
+ */
+export const useQSheetDesignations = (aoId: string, isoDate: string, time24 = "") => {
+  const [designations, setDesignations] = useState<SessionDesignation[]>([]);
+
+  useEffect(() => {
+    setDesignations([]);
+    const dateKey = isoDate.replace(/-/g, "");
+    if (!aoId || !/^\d{8}$/.test(dateKey)) return;
+
+    return subscribeWorkoutSessionsInRange(
+      aoId,
+      { fromDateKey: dateKey, toDateKey: dateKey },
+      (sessions) => {
+        const session =
+          sessions.find((entry) => toSessionTime(entry.time) === toSessionTime(time24)) ||
+          (sessions.length === 1 ? sessions[0] : undefined);
+        setDesignations(session ? getSessionDesignations(session) : []);
+      },
+      (err) => console.error("Q-sheet designations lookup failed:", err)
+    );
+  }, [aoId, isoDate, time24]);
+
+  return designations;
+};
@@ -0,0 +1,102 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import type { AoConfig } from "../ao/aoConfig";
+import {
+  dateKeyToIsoDate,
+  getAoTodayIsoDate,
+  getScheduleSlotsForIsoDate,
+} from "../shared/scheduleExceptions";
+import type { SheetWorkoutSession } from "../shared/sheetQSchedule";
+import { fetchSheetWorkoutSessions } from "../services/qSheetService";
+
+/* ----------------------------------------------------
+   Upcoming rows of an AO's own Google Sheet, shown as
+   a native table. Qs are claimed on the sheet itself.
+---------------------------------------------------- */
+
+export const SheetQSheetTable: React.FC<{ ao: AoConfig }> = ({ ao }) => {
+  const [sessions, setSessions] = useState<SheetWorkoutSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      setSessions(await fetchSheetWorkoutSessions(ao.id));
+      setError("");
+    } catch (err) {
+      console.error("Sheet read failed:", err);
+      setError("Couldn't read the Google Sheet right now.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [ao.id]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    setSessions([]);
+    load();
+  }, [load]);
+
+  const todayKey = getAoTodayIsoDate(ao).replace(/-/g, "");
+  const upcoming = useMemo(
+    () => sessions.filter((session) => (session.dateKey || "") >= todayKey),
+    [sessions, todayKey]
+  );
+  const hasNotes = upcoming.some((session) => session.notes);
+
+  if (isLoading) {
+    return <p className="text-slate-300 text-sm mb-4">Loading the Q schedule…</p>;
+  }
+  if (error) {
+    return <p className="text-amber-300 text-sm mb-4">{error}</p>;
+  }
+  if (upcoming.length === 0) {
+    return (
+      <p className="text-slate-300 text-sm mb-4">No upcoming workouts on the sheet yet.</p>
+    );
+  }
+
+  return (
+    <div className="mb-4">
+      <div className="border border-slate-700 rounded-md overflow-hidden">
+        <table className="w-full text-left text-sm">
+          <thead className="bg-slate-800 text-xs text-slate-400">
+            <tr>
+              <th className="p-2">Date</th>
+              <th className="p-2">Q</th>
+              {hasNotes && <th className="p-2">Notes</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {upcoming.map((session) => {
+              const slot = getScheduleSlotsForIsoDate(
+                ao,
+                dateKeyToIsoDate(session.dateKey || "")
+              ).find((entry) => entry.regularStartTime24.replace(":", "") === session.time);
+              const isHappening = !slot || slot.isHappening;
+
+              return (
+                <tr
+                  key={session.id}
+                  className={`border-t border-slate-700 ${isHappening ? "" : "opacity-50"}`}
+                >
+                  <td className="p-2 text-xs whitespace-nowrap">
+                    <span className={isHappening ? "" : "line-through"}>
+                      {session.date} {session.time}
+                    </span>
+                    {slot?.label && (
+                      <div className="text-[10px] text-amber-300">{slot.label}</div>
+                    )}
+                  </td>
+                  <td className="p-2">
+                    {session.q || <em className="text-slate-500">Open</em>}
+                  </td>
+                  {hasNotes && <td className="p-2 text-slate-300">{session.notes}</td>}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React, { useState, useSyncExternalStore } from "react";
+import {
+  dismissSyncConflict,
+  getSyncStatus,
+  subscribeSyncStatus,
+} from "../services/syncStatus";
+
+/* ----------------------------------------------------
+   Header badge: offline / saving / synced, and the
+   writes that collided with someone else's edit.
+---------------------------------------------------- */
+
+export const SyncStatusBadge: React.FC = () => {
+  const { online, pendingWrites, conflicts } = useSyncExternalStore(
+    subscribeSyncStatus,
+    getSyncStatus
+  );
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Nothing to say while online and caught up
+  if (online && pendingWrites === 0 && conflicts.length === 0) return null;
+
+  const label = [
+    online ? "" : "Offline",
+    pendingWrites === 0 ? "" : online ? `Syncing ${pendingWrites}…` : `${pendingWrites} pending`,
+    conflicts.length === 0
+      ? ""
+      : `${conflicts.length} conflict${conflicts.length === 1 ? "" : "s"}`,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  const tone =
+    conflicts.length > 0
+      ? "border-amber-500/60 bg-amber-500/15 text-amber-200"
+      : online
+        ? "border-sky-500/60 bg-sky-500/15 text-sky-200"
+        : "border-slate-500 bg-slate-700 text-slate-200";
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen((open) => !open)}
+        className={`rounded-full border px-2 py-0.5 text-[11px] whitespace-nowrap ${tone}`}
+        title={
+          online
+            ? "Changes are syncing"
+            : "No signal. Changes are saved on this device and sync when you reconnect."
+        }
+      >
+        {label}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 rounded-md border border-slate-700 bg-slate-900 p-3 text-xs text-slate-300 shadow-lg z-30 space-y-2">
+          <p>
+            {online
+              ? pendingWrites > 0
+                ? "Sending your saved changes…"
+                : "All changes are synced."
+              : "You're offline. Edits are kept on this device and marked Pending until they sync."}
+          </p>
+          {conflicts.map((conflict) => (
+            <div key={conflict.id} className="rounded border border-amber-500/40 p-2">
+              <div className="font-semibold text-amber-200">{conflict.label}</div>
+              <div>{conflict.message}</div>
+              <button
+                type="button"
+                onClick={() => dismissSyncConflict(conflict.id)}
+                className="mt-1 text-[11px] text-slate-400 hover:text-slate-100 underline decoration-dotted"
+              >
+                Dismiss
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -5,8 +5,6 @@ import {
   collection,
   doc,
   onSnapshot,
-  addDoc,
-  setDoc,
   deleteDoc,
 } from "firebase/firestore";
 import type { PlannerData, Exercise, WorkoutRound, SavedPlan } from "../types";
@@ -29,6 +27,12 @@ import {
 } from "../constants";
 import { usePaxDirectoryVersion } from "../pax/PaxDirectoryContext";
 import { RoundTimerControl } from "./RoundTimerControl";
+import {
+  isOffline,
+  readRevision,
+  setDocWithRevision,
+  trackPendingWrite,
+} from "../services/syncStatus";
 
 /* AO Context */
 import { useAo } from "../ao/AoContext";
@@ -479,7 +483,15 @@ const defaultTimerState: TimerState = {
 /* -------------------------------------------------
    Local augmentation: plans can carry AO/location metadata
 ------------------------------------------------- */
-type SavedPlanWithAo = SavedPlan & { ao?: string };
+type SavedPlanWithAo = SavedPlan & { ao?: string; revision?: number };
+
+// Offline a write only settles on reconnect, so don't hold the UI on it;
+// syncStatus keeps counting it and reports it if it's rejected
+const awaitUnlessOffline = (write: Promise<unknown>) => {
+  if (!isOffline()) return write;
+  write.catch(() => undefined);
+  return Promise.resolve();
+};
 
 /* -------------------------------------------------
    MAIN COMPONENT
@@ -578,6 +590,8 @@ export const WorkoutPlannerView: React.FC<WorkoutPlannerViewProps> = ({
 
   const [isViewMode, setIsViewMode] = useState(false);
   const [savedPlans, setSavedPlans] = useState<SavedPlanWithAo[]>([]);
+  // Plans with changes saved on this device but not yet on the server
+  const [pendingPlanIds, setPendingPlanIds] = useState<Set<string>>(new Set());
   const [isLoadModalOpen, setIsLoadModalOpen] = useState(false);
   const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
   const [planNameInput, setPlanNameInput] = useState("");
@@ -595,12 +609,23 @@ export const WorkoutPlannerView: React.FC<WorkoutPlannerViewProps> = ({
   useEffect(() => {
     const plansCollectionRef = collection(db, "plans");
 
-    const unsubscribe = onSnapshot(plansCollectionRef, (snapshot) => {
-      const plans = snapshot.docs.map(
-        (docSnap) => ({ id: docSnap.id, ...docSnap.data() } as SavedPlanWithAo)
-      );
-      setSavedPlans(plans);
-    });
+    const unsubscribe = onSnapshot(
+      plansCollectionRef,
+      { includeMetadataChanges: true },
+      (snapshot) => {
+        const plans = snapshot.docs.map(
+          (docSnap) => ({ id: docSnap.id, ...docSnap.data() } as SavedPlanWithAo)
+        );
+        setSavedPlans(plans);
+        setPendingPlanIds(
+          new Set(
+            snapshot.docs
+              .filter((docSnap) => docSnap.metadata.hasPendingWrites)
+              .map((docSnap) => docSnap.id)
+          )
+        );
+      }
+    );
 
     const wipPlanRaw = localStorage.getItem("f3WipPlan");
     if (wipPlanRaw) {
@@ -789,23 +814,39 @@ export const WorkoutPlannerView: React.FC<WorkoutPlannerViewProps> = ({
         const docRef = doc(db, "plans", currentPlanId);
 
         // CRITICAL FIX: remove undefined fields before merge write
-        await setDoc(docRef, stripUndefined(patch) as any, { merge: true });
+        await awaitUnlessOffline(
+          setDocWithRevision(docRef, stripUndefined(patch) as any, {
+            baseRevision: readRevision(existing),
+            label: `Plan “${basePlanData.name}”`,
+            options: { merge: true },
+          })
+        );
       } else {
         const planData: Omit<SavedPlanWithAo, "id"> = {
           ...(basePlanData as any),
           createdAt: nowIso,
         };
 
-        const plansCollectionRef = collection(db, "plans");
+        // Id picked locally so a plan created offline can be edited before it syncs
+        const docRef = doc(collection(db, "plans"));
+        setCurrentPlanId(docRef.id);
 
         // CRITICAL FIX: remove undefined fields before create write
-        const docRef = await addDoc(plansCollectionRef, stripUndefined(planData) as any);
-        setCurrentPlanId(docRef.id);
+        await awaitUnlessOffline(
+          setDocWithRevision(docRef, stripUndefined(planData) as any, {
+            baseRevision: 0,
+            label: `Plan “${basePlanData.name}”`,
+          })
+        );
       }
 
       setIsSaveModalOpen(false);
       setPlanNameInput("");
-      alert(`Plan "${planNameInput}" saved successfully!`);
+      alert(
+        isOffline()
+          ? `Plan "${planNameInput}" saved on this device. It will sync when you're back online.`
+          : `Plan "${planNameInput}" saved successfully!`
+      );
     } catch (error) {
       console.error("Error saving plan to Firebase:", error);
       alert("Could not save plan. Please try again.");
@@ -843,7 +884,7 @@ export const WorkoutPlannerView: React.FC<WorkoutPlannerViewProps> = ({
     if (!confirm("Are you sure you want to delete this plan?")) return;
     try {
       const docRef = doc(db, "plans", planId);
-      await deleteDoc(docRef);
+      await awaitUnlessOffline(trackPendingWrite(deleteDoc(docRef), "Deleted plan"));
     } catch (error) {
       console.error("Error deleting plan from Firebase:", error);
       alert("Could not delete plan. Please try again.");
@@ -853,10 +894,12 @@ export const WorkoutPlannerView: React.FC<WorkoutPlannerViewProps> = ({
   const togglePinned = async (plan: SavedPlanWithAo) => {
     try {
       const docRef = doc(db, "plans", plan.id);
-      await setDoc(
-        docRef,
-        { isPinned: !plan.isPinned, updatedAt: new Date().toISOString() } as any,
-        { merge: true }
+      await awaitUnlessOffline(
+        setDocWithRevision(
+          docRef,
+          { isPinned: !plan.isPinned, updatedAt: new Date().toISOString() },
+          { baseRevision: readRevision(plan), label: `Plan “${plan.name}”`, options: { merge: true } }
+        )
       );
     } catch (e) {
       console.error("Error toggling pinned:", e);
@@ -866,10 +909,12 @@ export const WorkoutPlannerView: React.FC<WorkoutPlannerViewProps> = ({
   const toggleArchived = async (plan: SavedPlanWithAo) => {
     try {
       const docRef = doc(db, "plans", plan.id);
-      await setDoc(
-        docRef,
-        { isArchived: !plan.isArchived, updatedAt: new Date().toISOString() } as any,
-        { merge: true }
+      await awaitUnlessOffline(
+        setDocWithRevision(
+          docRef,
+          { isArchived: !plan.isArchived, updatedAt: new Date().toISOString() },
+          { baseRevision: readRevision(plan), label: `Plan “${plan.name}”`, options: { merge: true } }
+        )
       );
     } catch (e) {
       console.error("Error toggling archived:", e);
@@ -1474,6 +1519,14 @@ export const WorkoutPlannerView: React.FC<WorkoutPlannerViewProps> = ({
                             {archived ? " (Archived)" : ""}
                           </p>
 
+                          {pendingPlanIds.has(plan.id) && (
+                            <p
+                              className="text-xs text-sky-300"
+                              title="Saved on this device. It will sync when you're back online."
+                            >
+                              Pending sync
+                            </p>
+                          )}
                           <p className="text-xs text-slate-400">Q: {plan.q || "—"}</p>
                           <p className="text-xs text-slate-400">
                             Location: {plan.ao || "—"}
@@ -0,0 +1,69 @@
+import React, { useMemo } from "react";
+import type { AoConfig } from "../ao/aoConfig";
+import {
+  getScheduleSlotsForIsoDate,
+  type ResolvedScheduleSlot,
+} from "../shared/scheduleExceptions";
+
+/* ----------------------------------------------------
+   Which of a day's workouts a preblast or backblast is
+   for, on AOs that meet more than once that day.
+---------------------------------------------------- */
+
+type ScheduledAo = Pick<AoConfig, "id" | "scheduleBlocks" | "scheduleExceptions">;
+
+const formatTime12 = (time24: string) => {
+  const [h, m] = time24.split(":").map(Number);
+  const suffix = h >= 12 ? "PM" : "AM";
+  return `${h % 12 || 12}:${String(m).padStart(2, "0")} ${suffix}`;
+};
+
+const isSlotAt = (slot: ResolvedScheduleSlot, startTime24: string) =>
+  slot.startTime24 === startTime24 || slot.regularStartTime24 === startTime24;
+
+/**
+ * The slot on `isoDate` starting at `startTime24`, else that day's first.
+ * Undefined when the AO doesn't meet that day, so a hand-entered time stays.
+ */
+export const pickScheduleSlotForDate = (
+  ao: ScheduledAo,
+  isoDate: string,
+  startTime24: string
+): ResolvedScheduleSlot | undefined => {
+  const slots = getScheduleSlotsForIsoDate(ao, isoDate);
+  return slots.find((slot) => isSlotAt(slot, startTime24)) || slots[0];
+};
+
+export const WorkoutSlotChooser: React.FC<{
+  ao: ScheduledAo;
+  isoDate: string;
+  startTime24: string;
+  onSelect: (slot: ResolvedScheduleSlot) => void;
+}> = ({ ao, isoDate, startTime24, onSelect }) => {
+  const slots = useMemo(
+    () => (isoDate ? getScheduleSlotsForIsoDate(ao, isoDate) : []),
+    [ao, isoDate]
+  );
+  if (slots.length < 2) return null;
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-1 text-[11px] text-slate-400">
+      <span>{slots.length} workouts this day:</span>
+      {slots.map((slot) => (
+        <button
+          key={slot.regularStartTime24}
+          type="button"
+          onClick={() => onSelect(slot)}
+          className={`rounded px-2 py-0.5 border ${
+            isSlotAt(slot, startTime24)
+              ? "border-red-500 bg-red-600/30 text-white"
+              : "border-slate-600 hover:text-slate-200"
+          } ${slot.isHappening ? "" : "line-through opacity-60"}`}
+          title={slot.label || undefined}
+        >
+          {formatTime12(slot.startTime24)}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -132,7 +132,8 @@ export type AoIdLite =
   | "theshadows"
   | "gatorbay"
   | "phoenixrising"
-  | "smoakedgrove";
+  | "smoakedgrove"
+  | (string & {}); // AOs added through the Firestore registry
 
 export const PAX_LIST_THEHILL = [] as const;
 export const PAX_LIST_THESHADOWS = [] as const;
@@ -2,7 +2,11 @@
 // Firebase v9 Modular SDK
 // ------------------------------
 import { initializeApp } from "firebase/app";
-import { getFirestore } from "firebase/firestore";
+import {
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager,
+} from "firebase/firestore";
 import { FIRESTORE_DATABASE_ID } from "./shared/firestoreConfig";
 
 // ✅ App Check imports
@@ -79,10 +83,16 @@ if (siteKey) {
 // ------------------------------
 // Initialize Firestore
 // ------------------------------
+// Offline persistence: reads come from IndexedDB with no signal, and writes
+// queue there until the device reconnects (even across a reload)
+const firestoreSettings = {
+  localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() }),
+};
+
 export const db =
   FIRESTORE_DATABASE_ID === "(default)"
-    ? getFirestore(app)
-    : getFirestore(app, FIRESTORE_DATABASE_ID);
+    ? initializeFirestore(app, firestoreSettings)
+    : initializeFirestore(app, firestoreSettings, FIRESTORE_DATABASE_ID);
 
 if (env.DEV) {
   (
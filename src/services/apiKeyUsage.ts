@@ -0,0 +1,43 @@
+import type { ApiKeyUsageSummary } from "../shared/apiKeys";
+
+const API_KEY_USAGE_URL = "/.netlify/functions/api-key-usage";
+
+// An "admin" API key, kept on this device only
+const ADMIN_API_KEY_STORAGE_KEY = "f3AdminApiKey";
+
+export const getStoredAdminApiKey = () => localStorage.getItem(ADMIN_API_KEY_STORAGE_KEY) || "";
+
+export const setStoredAdminApiKey = (key: string) => {
+  if (key) localStorage.setItem(ADMIN_API_KEY_STORAGE_KEY, key);
+  else localStorage.removeItem(ADMIN_API_KEY_STORAGE_KEY);
+};
+
+/** The endpoint wants an admin key: none was sent, or the one sent can't see usage. */
+export class ApiKeyUsageAuthError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "ApiKeyUsageAuthError";
+    this.status = status;
+  }
+}
+
+/** Request counts per API key, newest day last. */
+export const fetchApiKeyUsage = async (days?: number): Promise<ApiKeyUsageSummary[]> => {
+  const adminKey = getStoredAdminApiKey();
+  const res = await fetch(days ? `${API_KEY_USAGE_URL}?days=${days}` : API_KEY_USAGE_URL, {
+    headers: adminKey ? { Authorization: `Bearer ${adminKey}` } : {},
+  });
+  const json = (await res.json().catch(() => null)) as {
+    keys?: ApiKeyUsageSummary[];
+    message?: string;
+    error?: string;
+  } | null;
+  const message = String(json?.message || json?.error || `Request failed (${res.status})`);
+  if (res.status === 401 || res.status === 403) {
+    throw new ApiKeyUsageAuthError(res.status, message);
+  }
+  if (!res.ok) throw new Error(message);
+  return json?.keys || [];
+};
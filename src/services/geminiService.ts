@@ -35,6 +35,12 @@ import { createId } from "../utils/ids";
 
 // ✅ AO config (make sure these exports exist in src/ao/aoConfig.ts)
 import { getAoById, type AoId } from "../ao/aoConfig";
+import {
+  findMostRecentScheduleSlot,
+  getAoTodayIsoDate,
+} from "../shared/scheduleExceptions";
+import { isoDateToLocalDate } from "../shared/timeZone";
+import { toSessionDateLabel } from "../utils/scheduleGenerator";
 
 // -----------------------------------------------------
 // VITE ENVIRONMENT VARIABLE (REQUIRED)
@@ -168,38 +174,33 @@ const retryGeminiCall = async (
 // -----------------------------------------------------
 // Helper – workout date strings (legacy helper; still used by parse)
 // -----------------------------------------------------
-const getWorkoutDateAndTime = () => {
-  const now = new Date();
-  const day = now.getDay(); // 0=Sun, 6=Sat
-  let workoutDate = new Date();
-  let time = "";
-
-  if (day === 2 || day === 4) {
-    time = "5:30 AM - 6:15 AM";
-  } else if (day === 6) {
-    time = "6:30 AM - 7:30 AM";
-  } else if (day === 0 || day === 1) {
-    workoutDate.setDate(now.getDate() - (day + 1));
-    time = "6:30 AM - 7:30 AM";
-  } else if (day === 3) {
-    workoutDate.setDate(now.getDate() - 1);
-    time = "5:30 AM - 6:15 AM";
-  } else {
-    workoutDate.setDate(now.getDate() - 1);
-    time = "5:30 AM - 6:15 AM";
-  }
+const formatTime12 = (time24: string) => {
+  const [hh, mm] = time24.split(":").map(Number);
+  const ap = hh >= 12 ? "PM" : "AM";
+  const hour12 = ((hh + 11) % 12) + 1;
+  return `${hour12}:${String(mm || 0).padStart(2, "0")} ${ap}`;
+};
+
+// Most recent workout for the AO, read on the AO's clock (not the browser's)
+const getWorkoutDateAndTime = (aoId: AoId) => {
+  const ao = getAoById(aoId);
+  const slot = findMostRecentScheduleSlot(ao);
+  const fallbackBlock = ao.scheduleBlocks[0] || {
+    startTime24: "05:30",
+    endTime24: "06:15",
+  };
+  const workoutDate = isoDateToLocalDate(slot?.isoDate || getAoTodayIsoDate(ao));
+  const startTime24 = slot?.startTime24 || fallbackBlock.startTime24;
+  const endTime24 = slot ? slot.endTime24 : fallbackBlock.endTime24;
+  const time = endTime24
+    ? `${formatTime12(startTime24)} - ${formatTime12(endTime24)}`
+    : formatTime12(startTime24);
 
   const dateString = `${workoutDate.toLocaleDateString("en-US", {
     weekday: "long",
   })}, ${workoutDate.getMonth() + 1}/${workoutDate.getDate()}/${workoutDate.getFullYear()}`;
 
-  const simpleDateString = `${
-    workoutDate.getMonth() + 1
-  }/${workoutDate.getDate()}/${String(workoutDate.getFullYear()).slice(
-    -2
-  )} (${workoutDate.toLocaleDateString("en-US", { weekday: "short" })})`;
-
-  return { date: dateString, time, simpleDate: simpleDateString };
+  return { date: dateString, time, simpleDate: toSessionDateLabel(workoutDate) };
 };
 
 const stripWeekdayFromDate = (value: string) =>
@@ -844,7 +845,8 @@ ${backblastContent}
 // PARSE BACKBLAST (unchanged except better guards)
 // -----------------------------------------------------
 export const parsePastedBackblast = async (
-  pastedText: string
+  pastedText: string,
+  aoId: AoId = "compass"
 ): Promise<Partial<WorkoutSession>> => {
   if (!API_KEY) throw new Error("Missing VITE_GEMINI_API_KEY.");
 
@@ -926,7 +928,7 @@ ${pastedText}
 
   return {
     q: parsed.q,
-    date: parsed.date || getWorkoutDateAndTime().simpleDate,
+    date: parsed.date || getWorkoutDateAndTime(aoId).simpleDate,
     paxAttendance,
     paxCount: paxAttendance.length,
     warmup: [],
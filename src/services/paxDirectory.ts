@@ -1,6 +1,6 @@
 const CACHE_KEY = "f3PaxDirectoryCache";
 const CACHE_TS_KEY = "f3PaxDirectoryCacheTs";
-const CACHE_TTL_MS = 1000 * 60 * 60 * 24 * 7; // 7 days
+const CACHE_ETAG_KEY = "f3PaxDirectoryEtag";
 
 export type PaxDirectory = {
   updatedAt?: string;
@@ -19,40 +19,38 @@ const readCache = (): PaxDirectory | null => {
   }
 };
 
-const readCacheTs = (): number | null => {
-  const raw = localStorage.getItem(CACHE_TS_KEY);
-  if (!raw) return null;
-  const n = Number(raw);
-  return Number.isFinite(n) ? n : null;
-};
-
-const writeCache = (data: PaxDirectory) => {
+const writeCache = (data: PaxDirectory, etag: string | null) => {
   localStorage.setItem(CACHE_KEY, JSON.stringify(data));
   localStorage.setItem(CACHE_TS_KEY, String(Date.now()));
+  if (etag) localStorage.setItem(CACHE_ETAG_KEY, etag);
+  else localStorage.removeItem(CACHE_ETAG_KEY);
 };
 
-export const getPaxDirectory = async (opts?: {
-  force?: boolean;
-}): Promise<PaxDirectory | null> => {
-  const force = !!opts?.force;
-  const cached = readCache();
-  const cachedTs = readCacheTs();
-  const isFresh =
-    cached && cachedTs && Date.now() - cachedTs < CACHE_TTL_MS;
-
-  if (!force && isFresh) return cached;
+const hasSameNames = (a: PaxDirectory, b: PaxDirectory) =>
+  JSON.stringify([a.paxByAo, a.bandNameByF3Name]) ===
+  JSON.stringify([b.paxByAo, b.bandNameByF3Name]);
 
-  const url = force
-    ? "/.netlify/functions/pax-directory?refresh=1"
-    : "/.netlify/functions/pax-directory";
+type FetchResult =
+  | { status: "updated"; data: PaxDirectory }
+  | { status: "notModified" }
+  | { status: "failed" };
 
+const fetchPaxDirectory = async (
+  force: boolean,
+  etag: string | null
+): Promise<FetchResult> => {
   try {
-    const res = await fetch(url);
+    // no-store so a 304 reaches us instead of being answered from the HTTP cache
+    const res = await fetch(
+      force ? "/.netlify/functions/pax-directory?refresh=1" : "/.netlify/functions/pax-directory",
+      { cache: "no-store", headers: etag ? { "If-None-Match": etag } : {} }
+    );
+    if (res.status === 304) return { status: "notModified" };
     if (res.ok) {
       const data = (await res.json()) as PaxDirectory;
       if (data?.paxByAo) {
-        writeCache(data);
-        return data;
+        writeCache(data, res.headers.get("ETag"));
+        return { status: "updated", data };
       }
     }
   } catch {
@@ -67,16 +65,61 @@ export const getPaxDirectory = async (opts?: {
     if (localRes.ok) {
       const data = (await localRes.json()) as PaxDirectory;
       if (data?.paxByAo) {
-        writeCache(data);
-        return data;
+        writeCache(data, null);
+        return { status: "updated", data };
       }
     }
   }
 
-  return cached;
+  return { status: "failed" };
+};
+
+// One revalidation per page load, shared by every caller
+let revalidation: Promise<PaxDirectory | null> | null = null;
+
+const revalidate = (cached: PaxDirectory) => {
+  revalidation =
+    revalidation ||
+    fetchPaxDirectory(false, localStorage.getItem(CACHE_ETAG_KEY)).then((result) => {
+      if (result.status === "notModified") {
+        localStorage.setItem(CACHE_TS_KEY, String(Date.now()));
+      }
+      return result.status === "updated" && !hasSameNames(result.data, cached)
+        ? result.data
+        : null;
+    });
+  return revalidation;
+};
+
+/**
+ * The cached directory comes back right away and is revalidated against the
+ * function's ETag in the background; `onUpdate` gets the new one if the
+ * names changed. Without a cache (or with `force`) this waits for the fetch.
+ */
+export const getPaxDirectory = async (opts?: {
+  force?: boolean;
+  onUpdate?: (data: PaxDirectory) => void;
+}): Promise<PaxDirectory | null> => {
+  const force = !!opts?.force;
+  const cached = readCache();
+
+  if (!force && cached) {
+    revalidate(cached)
+      .then((data) => {
+        if (data) opts?.onUpdate?.(data);
+      })
+      .catch((err) => {
+        console.warn("PAX directory revalidation failed:", err);
+      });
+    return cached;
+  }
+
+  const result = await fetchPaxDirectory(force, null);
+  return result.status === "updated" ? result.data : cached;
 };
 
 export const clearPaxDirectoryCache = () => {
   localStorage.removeItem(CACHE_KEY);
   localStorage.removeItem(CACHE_TS_KEY);
+  localStorage.removeItem(CACHE_ETAG_KEY);
 };
@@ -0,0 +1,477 @@
+// src/services/qSheetService.ts
+import {
+  collection,
+  doc,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where,
+  writeBatch,
+  FirestoreError,
+  type DocumentReference,
+  type Timestamp,
+} from "firebase/firestore";
+import { db } from "../firebase";
+import type { AoConfig } from "../ao/aoConfig";
+import type { WorkoutSession } from "../types";
+import { FIRESTORE_COLLECTION_PATH } from "../shared/firestoreConfig";
+import {
+  LEGACY_WORKOUT_SESSION_AO_ID,
+  buildEffectiveWorkoutSessionsForAo,
+  dateStringToKey,
+  filterWorkoutSessionsForAo,
+  type DateKeyWindow,
+} from "../shared/compassQSchedule";
+import { getAoTodayIsoDate } from "../shared/scheduleExceptions";
+import { isoDateToLocalDate } from "../shared/timeZone";
+import type { QSheetImportDiff } from "../shared/qSheetTable";
+import type { SheetWorkoutSession } from "../shared/sheetQSchedule";
+import {
+  formatSessionDesignations,
+  normalizeSessionDesignations,
+  parseSessionDesignations,
+} from "../shared/sessionDesignations";
+import { isOffline, reportSyncConflict, trackPendingWrite } from "./syncStatus";
+import {
+  addMonths,
+  buildWorkoutSessionId,
+  findMissingWorkoutSessions,
+  generateWorkoutSchedule,
+  getSessionSlotLabel,
+} from "../utils/scheduleGenerator";
+
+// Firestore caps a batch at 500 writes.
+const BATCH_LIMIT = 450;
+
+// workoutSessions/{id}/history/{changeId}
+const HISTORY_SUBCOLLECTION = "history";
+const HISTORY_PAGE_SIZE = 25;
+
+/**
+ * Session fields PAX edit from the Q-sheet; every change to these is logged.
+ * `designations` travels as its formatted text ("VQ, AQ (2 yr)") so history,
+ * conflicts and revert treat it like any other field.
+ */
+export type QSheetEditableField = "q" | "notes" | "dbj" | "food" | "designations";
+
+export interface WorkoutSessionChange {
+  id: string;
+  field: QSheetEditableField;
+  oldValue: string;
+  newValue: string;
+  editor: string;
+  // Null until the server timestamp lands on a local write
+  changedAt: Date | null;
+  // Set when the change undid an earlier one
+  revertOf?: string;
+  // Q takeovers: the holder or Site Q who OK'd it
+  confirmedBy?: string;
+  // Set when the change came from a spreadsheet import, the AO's synced Google
+  // Sheet, or the Q assignment API (compass-q-assign)
+  source?: "import" | "sheet" | "api";
+  // API changes: the name the caller gave; `editor` is the key that sent it
+  unverifiedEditor?: string;
+}
+
+/**
+ * Someone else changed the field after this PAX loaded it. `currentValue` is
+ * what's there now, so the UI can offer "keep theirs" or "overwrite".
+ */
+export class WorkoutSessionConflictError extends Error {
+  readonly field: QSheetEditableField;
+  readonly expectedValue: string;
+  readonly currentValue: string;
+
+  constructor(field: QSheetEditableField, expectedValue: string, currentValue: string) {
+    super(`"${field}" was changed to "${currentValue}" by someone else.`);
+    this.name = "WorkoutSessionConflictError";
+    this.field = field;
+    this.expectedValue = expectedValue;
+    this.currentValue = currentValue;
+  }
+}
+
+export interface WorkoutSessionFieldUpdate {
+  session: Pick<WorkoutSession, "id" | "aoId" | "date" | "dateKey" | "time">;
+  aoId: string;
+  field: QSheetEditableField;
+  // The value the editor saw; the write is refused if the stored value differs
+  expectedValue: string;
+  value: string;
+  editor: string;
+  revertOf?: string;
+  confirmedBy?: string;
+}
+
+// Matches how the schedule displays values, so whitespace never reads as a conflict
+const toFieldValue = (value: unknown) => (value == null ? "" : String(value).trim());
+
+const toStoredFieldValue = (field: QSheetEditableField, value: unknown) =>
+  field === "designations"
+    ? formatSessionDesignations(normalizeSessionDesignations(value))
+    : toFieldValue(value);
+
+// Compass reads the whole collection so docs written before sessions had an
+// aoId (which count as Compass) aren't missed
+export const listWorkoutSessionsForAo = async (aoId: string) => {
+  const snapshot = await getDocs(
+    aoId === LEGACY_WORKOUT_SESSION_AO_ID
+      ? collection(db, FIRESTORE_COLLECTION_PATH)
+      : query(collection(db, FIRESTORE_COLLECTION_PATH), where("aoId", "==", aoId))
+  );
+  return filterWorkoutSessionsForAo(
+    snapshot.docs.map((d) => ({
+      ...(d.data() as Omit<WorkoutSession, "id">),
+      id: d.id,
+    })),
+    aoId
+  );
+};
+
+type WorkoutSessionDoc = Omit<WorkoutSession, "id"> & { id: string };
+
+/**
+ * Live view of one AO's sessions in an inclusive dateKey range. Needs the
+ * (aoId, dateKey) composite index. Compass also reads the range without the
+ * aoId filter and keeps docs that have no aoId, so overrides written before
+ * sessions were scoped still show until scripts/migrateWorkoutSessionsAoId.mjs
+ * has run; docs without a dateKey need that migration to show at all.
+ * `pendingIds` are sessions with local edits the server hasn't confirmed yet.
+ */
+export const subscribeWorkoutSessionsInRange = (
+  aoId: string,
+  { fromDateKey, toDateKey }: DateKeyWindow,
+  onChange: (sessions: WorkoutSessionDoc[], pendingIds: Set<string>) => void,
+  onError: (error: Error) => void
+) => {
+  const inRange = [
+    where("dateKey", ">=", fromDateKey),
+    where("dateKey", "<=", toDateKey),
+    orderBy("dateKey"),
+  ];
+  const queries = [
+    query(collection(db, FIRESTORE_COLLECTION_PATH), where("aoId", "==", aoId), ...inRange),
+    ...(aoId === LEGACY_WORKOUT_SESSION_AO_ID
+      ? [query(collection(db, FIRESTORE_COLLECTION_PATH), ...inRange)]
+      : []),
+  ];
+  const results: Array<{ sessions: WorkoutSessionDoc[]; pendingIds: string[] } | null> =
+    queries.map(() => null);
+
+  const unsubscribes = queries.map((q, index) =>
+    onSnapshot(
+      q,
+      // Metadata changes too, so a row drops its pending mark once the write lands
+      { includeMetadataChanges: true },
+      (snapshot) => {
+        // The unscoped query only contributes the legacy (aoId-less) docs
+        const docs = snapshot.docs.filter((d) => index === 0 || !d.get("aoId"));
+        results[index] = {
+          sessions: docs.map((d) => ({ ...(d.data() as Omit<WorkoutSession, "id">), id: d.id })),
+          pendingIds: docs.filter((d) => d.metadata.hasPendingWrites).map((d) => d.id),
+        };
+        if (results.some((result) => !result)) return;
+        onChange(
+          results.flatMap((result) => result?.sessions || []),
+          new Set(results.flatMap((result) => result?.pendingIds || []))
+        );
+      },
+      onError
+    )
+  );
+  return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+};
+
+/**
+ * Live view of every AO's sessions in an inclusive dateKey range, for the
+ * region-wide views. A single-field range, so no composite index is needed;
+ * docs without a dateKey need scripts/migrateWorkoutSessionsAoId.mjs to show.
+ */
+export const subscribeRegionWorkoutSessionsInRange = (
+  { fromDateKey, toDateKey }: DateKeyWindow,
+  onChange: (sessions: WorkoutSessionDoc[]) => void,
+  onError: (error: Error) => void
+) =>
+  onSnapshot(
+    query(
+      collection(db, FIRESTORE_COLLECTION_PATH),
+      where("dateKey", ">=", fromDateKey),
+      where("dateKey", "<=", toDateKey),
+      orderBy("dateKey")
+    ),
+    (snapshot) =>
+      onChange(
+        snapshot.docs.map((d) => ({ ...(d.data() as Omit<WorkoutSession, "id">), id: d.id }))
+      ),
+    onError
+  );
+
+/**
+ * Make sure every schedule block has a session from today (on the AO's
+ * clock) through `months` months out. Only missing day/time slots are written, so running
+ * it again (or after a partial failure) never duplicates sessions.
+ */
+export const extendWorkoutSchedule = async (
+  ao: AoConfig,
+  months: number,
+  now: Date = new Date()
+) => {
+  const persisted = await listWorkoutSessionsForAo(ao.id);
+  const existing = buildEffectiveWorkoutSessionsForAo(ao.id, persisted).sessions;
+
+  const from = isoDateToLocalDate(getAoTodayIsoDate(ao, now));
+  const generated = generateWorkoutSchedule(ao, { from, to: addMonths(from, months) });
+  // A moved session keeps its generated id; don't clobber it.
+  const persistedIds = new Set(persisted.map((session) => session.id));
+  const missing = findMissingWorkoutSessions(generated, existing).filter(
+    (session) => !persistedIds.has(session.id)
+  );
+
+  for (let i = 0; i < missing.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    for (const { id, ...session } of missing.slice(i, i + BATCH_LIMIT)) {
+      batch.set(doc(db, FIRESTORE_COLLECTION_PATH, id), session);
+    }
+    await batch.commit();
+  }
+
+  return { created: missing.length, existing: generated.length - missing.length };
+};
+
+// aoId + dateKey ride along so the doc stays visible to the AO-scoped query,
+// and time so it still names its slot on a day with more than one workout.
+const buildFieldWrite = ({ session, aoId, field, value }: WorkoutSessionFieldUpdate) => ({
+  [field]:
+    field === "designations" ? parseSessionDesignations(value).designations : value,
+  aoId: session.aoId || aoId,
+  dateKey: session.dateKey || dateStringToKey(session.date),
+  ...(session.time ? { time: session.time } : {}),
+});
+
+const buildHistoryEntry = (
+  { field, value, editor, revertOf, confirmedBy }: WorkoutSessionFieldUpdate,
+  oldValue: string
+) => ({
+  field,
+  oldValue,
+  newValue: value,
+  editor,
+  changedAt: serverTimestamp(),
+  ...(revertOf ? { revertOf } : {}),
+  ...(confirmedBy ? { confirmedBy } : {}),
+});
+
+/**
+ * No signal, so no transaction: write the change and its history entry as a
+ * batch Firestore holds until reconnect. Once it lands, the entry before ours
+ * shows whether someone else changed the field in the meantime.
+ */
+const queueWorkoutSessionField = (update: WorkoutSessionFieldUpdate) => {
+  const { session, field, expectedValue, value } = update;
+  if (toFieldValue(expectedValue) === toFieldValue(value)) return false;
+
+  const ref = doc(db, FIRESTORE_COLLECTION_PATH, session.id);
+  const historyRef = doc(collection(ref, HISTORY_SUBCOLLECTION));
+  const batch = writeBatch(db);
+  batch.set(ref, buildFieldWrite(update), { merge: true });
+  batch.set(historyRef, buildHistoryEntry(update, toFieldValue(expectedValue)));
+
+  const label = `Q-sheet ${getSessionSlotLabel(session)}`;
+  trackPendingWrite(batch.commit(), label)
+    .then(async () => {
+      const history = await listWorkoutSessionHistory(session.id);
+      const ours = history.findIndex((change) => change.id === historyRef.id);
+      const before = history.slice(ours + 1).find((change) => change.field === field);
+      if (ours < 0 || !before || before.newValue === toFieldValue(expectedValue)) return;
+      reportSyncConflict(
+        label,
+        `${before.editor} set ${field} to "${before.newValue || "open"}" while you were offline, and your "${value || "open"}" replaced it. Use History to put theirs back.`
+      );
+    })
+    .catch((err) => console.error("Queued Q-sheet write failed:", err));
+  return true;
+};
+
+/**
+ * Write one Q-sheet field and its history entry in a single transaction.
+ * Throws WorkoutSessionConflictError when the stored value no longer matches
+ * `expectedValue`; returns false when there was nothing to change. Offline,
+ * the write is queued and conflicts are reported through syncStatus instead.
+ */
+export const updateWorkoutSessionField = async (update: WorkoutSessionFieldUpdate) => {
+  const { session, field, expectedValue, value } = update;
+  if (isOffline()) return queueWorkoutSessionField(update);
+
+  const ref = doc(db, FIRESTORE_COLLECTION_PATH, session.id);
+
+  try {
+    return await runTransaction(db, async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      const stored = snapshot.exists() ? snapshot.data() : undefined;
+      // Generated sessions have no doc yet; what the editor saw is the baseline
+      const currentValue =
+        stored && field in stored
+          ? toStoredFieldValue(field, stored[field])
+          : toFieldValue(expectedValue);
+
+      if (currentValue !== toFieldValue(expectedValue)) {
+        throw new WorkoutSessionConflictError(field, expectedValue, currentValue);
+      }
+      if (currentValue === toFieldValue(value)) return false;
+
+      transaction.set(ref, buildFieldWrite(update), { merge: true });
+      transaction.set(
+        doc(collection(ref, HISTORY_SUBCOLLECTION)),
+        buildHistoryEntry(update, currentValue)
+      );
+      return true;
+    });
+  } catch (err) {
+    // "Online" with no signal: the transaction gave up reaching the server
+    if (err instanceof FirestoreError && err.code === "unavailable") {
+      return queueWorkoutSessionField(update);
+    }
+    throw err;
+  }
+};
+
+/** Most recent changes to a session, newest first. */
+export const listWorkoutSessionHistory = async (
+  sessionId: string
+): Promise<WorkoutSessionChange[]> => {
+  const snapshot = await getDocs(
+    query(
+      collection(db, FIRESTORE_COLLECTION_PATH, sessionId, HISTORY_SUBCOLLECTION),
+      orderBy("changedAt", "desc"),
+      limit(HISTORY_PAGE_SIZE)
+    )
+  );
+  return snapshot.docs.map((d) => {
+    const data = d.data();
+    return {
+      id: d.id,
+      field: data.field,
+      oldValue: toFieldValue(data.oldValue),
+      newValue: toFieldValue(data.newValue),
+      editor: toFieldValue(data.editor),
+      changedAt: (data.changedAt as Timestamp | null)?.toDate() ?? null,
+      ...(data.revertOf ? { revertOf: String(data.revertOf) } : {}),
+      ...(data.confirmedBy ? { confirmedBy: String(data.confirmedBy) } : {}),
+      ...(["import", "sheet", "api"].includes(data.source) ? { source: data.source } : {}),
+      ...(data.unverifiedEditor ? { unverifiedEditor: String(data.unverifiedEditor) } : {}),
+    };
+  });
+};
+
+/**
+ * Write accepted import rows: new slots get a generated-style id, existing
+ * ones are merged field by field. Every field change is logged to history
+ * like a hand edit. This is a plain batch (no stale check), so the caller
+ * should diff against fresh sessions right before applying.
+ */
+export const applyQSheetImport = async (
+  aoId: string,
+  diffs: QSheetImportDiff[],
+  editor: string
+) => {
+  // A batch this size should land while the preview is still accurate
+  if (isOffline()) throw new Error("You're offline. Import once you have a signal.");
+
+  const writes: Array<{
+    ref: DocumentReference;
+    data: Record<string, unknown>;
+    merge?: boolean;
+  }> = [];
+
+  for (const { row, existing, changes } of diffs) {
+    const ref = doc(
+      db,
+      FIRESTORE_COLLECTION_PATH,
+      existing?.id || buildWorkoutSessionId(aoId, row.dateKey, row.time)
+    );
+    const fields = Object.fromEntries(changes.map((change) => [change.field, change.to]));
+
+    if (existing) {
+      if (changes.length === 0) continue;
+      writes.push({
+        ref,
+        data: {
+          ...fields,
+          aoId: existing.aoId || aoId,
+          dateKey: existing.dateKey || row.dateKey,
+        },
+        merge: true,
+      });
+    } else {
+      writes.push({
+        ref,
+        data: {
+          aoId,
+          date: row.date,
+          dateKey: row.dateKey,
+          time: row.time,
+          q: "",
+          notes: "",
+          dbj: "",
+          food: "",
+          ...fields,
+        },
+      });
+    }
+
+    for (const change of changes) {
+      writes.push({
+        ref: doc(collection(ref, HISTORY_SUBCOLLECTION)),
+        data: {
+          field: change.field,
+          oldValue: change.from,
+          newValue: change.to,
+          editor,
+          changedAt: serverTimestamp(),
+          source: "import",
+        },
+      });
+    }
+  }
+
+  for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+    const batch = writeBatch(db);
+    for (const { ref, data, merge } of writes.slice(i, i + BATCH_LIMIT)) {
+      if (merge) batch.set(ref, data, { merge: true });
+      else batch.set(ref, data);
+    }
+    await batch.commit();
+  }
+
+  return {
+    created: diffs.filter((diff) => !diff.existing).length,
+    updated: diffs.filter((diff) => diff.existing && diff.changes.length > 0).length,
+  };
+};
+
+/* ---------------- AO Google Sheet sync ---------------- */
+
+const AO_SHEET_SESSIONS_URL = "/.netlify/functions/ao-sheet-sessions";
+
+const readFunctionJson = async (res: Response) => {
+  const json = (await res.json().catch(() => null)) as Record<string, unknown> | null;
+  if (!res.ok) {
+    throw new Error(String(json?.message || json?.error || `Request failed (${res.status})`));
+  }
+  return json || {};
+};
+
+/**
+ * The AO's sheet rows as sessions. The workoutSessions copy is refreshed by
+ * the hourly sync; mirroring and write-back need an API key the app doesn't have.
+ */
+export const fetchSheetWorkoutSessions = async (aoId: string) => {
+  const json = await readFunctionJson(
+    await fetch(`${AO_SHEET_SESSIONS_URL}?ao=${encodeURIComponent(aoId)}`)
+  );
+  return (json.sessions || []) as SheetWorkoutSession[];
+};
@@ -0,0 +1,135 @@
+// src/services/syncStatus.ts
+import {
+  getDocFromServer,
+  increment,
+  setDoc,
+  type DocumentReference,
+  type SetOptions,
+} from "firebase/firestore";
+
+/* ----------------------------------------------------
+   App-wide offline state: whether we have a signal,
+   how many writes Firestore is still holding, and any
+   writes that collided with someone else's on the way
+   back online.
+---------------------------------------------------- */
+
+export type SyncConflict = {
+  id: string;
+  // What was being edited, e.g. "Q-sheet 11/22/25" or "Plan “Murph”"
+  label: string;
+  message: string;
+};
+
+export type SyncStatus = {
+  online: boolean;
+  pendingWrites: number;
+  conflicts: SyncConflict[];
+};
+
+let status: SyncStatus = {
+  online: typeof navigator === "undefined" ? true : navigator.onLine,
+  pendingWrites: 0,
+  conflicts: [],
+};
+
+const listeners = new Set<() => void>();
+
+const setStatus = (next: Partial<SyncStatus>) => {
+  status = { ...status, ...next };
+  listeners.forEach((listener) => listener());
+};
+
+export const getSyncStatus = () => status;
+
+export const subscribeSyncStatus = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+if (typeof window !== "undefined") {
+  window.addEventListener("online", () => setStatus({ online: true }));
+  window.addEventListener("offline", () => setStatus({ online: false }));
+}
+
+/** navigator.onLine can say yes with no signal; it never says no while online. */
+export const isOffline = () => !status.online;
+
+let conflictCounter = 0;
+
+export const reportSyncConflict = (label: string, message: string) =>
+  setStatus({
+    conflicts: [...status.conflicts, { id: `conflict-${++conflictCounter}`, label, message }],
+  });
+
+export const dismissSyncConflict = (id: string) =>
+  setStatus({ conflicts: status.conflicts.filter((conflict) => conflict.id !== id) });
+
+/**
+ * Count a write until the server acknowledges it. Firestore resolves a write
+ * only once it lands, so offline writes stay counted until reconnect. A write
+ * the server rejects is reported rather than swallowed.
+ */
+export const trackPendingWrite = <T>(write: Promise<T>, label: string): Promise<T> => {
+  setStatus({ pendingWrites: status.pendingWrites + 1 });
+  return write
+    .catch((error: unknown) => {
+      reportSyncConflict(
+        label,
+        `Couldn't be saved: ${error instanceof Error ? error.message : String(error)}`
+      );
+      throw error;
+    })
+    .finally(() => setStatus({ pendingWrites: Math.max(0, status.pendingWrites - 1) }));
+};
+
+/* ---------------- Revision-checked writes ---------------- */
+
+// Docs written while offline: the revision we last saw and how many of our
+// own writes are still on their way
+const offlineRevisions = new Map<string, { base: number; ours: number; inFlight: number }>();
+
+/** A doc's `revision` counter as read from a snapshot (0 before its first revision write). */
+export const readRevision = (data: { revision?: unknown } | undefined) =>
+  Number(data?.revision) || 0;
+
+/**
+ * setDoc that bumps the doc's `revision`. Writes made while offline remember
+ * the revision they started from; once the last of them lands, a server
+ * revision past base + our writes means someone else saved in between, and
+ * that is reported as a conflict. The check runs while this page stays open.
+ */
+export const setDocWithRevision = (
+  ref: DocumentReference,
+  data: Record<string, unknown>,
+  { baseRevision, label, options }: { baseRevision: number; label: string; options?: SetOptions }
+) => {
+  const write = setDoc(ref, { ...data, revision: increment(1) }, options ?? {});
+  const entry =
+    offlineRevisions.get(ref.path) ??
+    (isOffline() ? { base: baseRevision, ours: 0, inFlight: 0 } : undefined);
+  if (!entry) return trackPendingWrite(write, label);
+
+  entry.ours += 1;
+  entry.inFlight += 1;
+  offlineRevisions.set(ref.path, entry);
+
+  return trackPendingWrite(write, label).finally(async () => {
+    entry.inFlight -= 1;
+    if (entry.inFlight > 0) return;
+    offlineRevisions.delete(ref.path);
+    try {
+      const serverRevision = readRevision((await getDocFromServer(ref)).data());
+      if (serverRevision > entry.base + entry.ours) {
+        reportSyncConflict(
+          label,
+          "Someone else changed this while you were offline. Your version was saved over theirs."
+        );
+      }
+    } catch (error) {
+      console.error(`Conflict check failed for ${ref.path}:`, error);
+    }
+  });
+};
@@ -0,0 +1,172 @@
+import { AO_LIST, type AoConfig } from "../ao/aoConfig";
+import {
+  buildPreblastUrl,
+  getQAssignmentsBySlot,
+  toScheduleSlotKey,
+  type WorkoutSessionScheduleSource,
+} from "./compassQSchedule";
+import { getAoMapPoint, getAoMeetingPointMapsUrl } from "./aoMaps";
+import { buildIcsCalendar, type IcsEvent } from "./icsCalendar";
+import { qFieldIncludesPax, stripAt } from "./paxNames";
+import {
+  getAoTodayIsoDate,
+  getScheduleSlotsForIsoDate,
+  type ResolvedScheduleSlot,
+} from "./scheduleExceptions";
+import { addDaysToIsoDate, zonedTimeToUtc } from "./timeZone";
+
+// Calendar apps poll rarely, so the feed looks further ahead than the JSON API.
+export const AO_CALENDAR_DEFAULT_LOOKAHEAD_DAYS = 90;
+const CALENDAR_UID_DOMAIN = "f3workouthub.netlify.app";
+
+export const AO_CALENDAR_FUNCTION_PATH = "/.netlify/functions/ao-calendar";
+
+/** webcal:// link that opens "subscribe" in phone/desktop calendar apps */
+export const buildAoCalendarSubscribeUrl = (host: string, aoId: string) =>
+  `webcal://${host}${AO_CALENDAR_FUNCTION_PATH}?ao=${encodeURIComponent(aoId)}`;
+
+/** Feed of every slot one PAX holds across all AOs (`ao=all&q=<name>`). */
+export const buildPaxCalendarFeedUrl = (
+  host: string,
+  paxName: string,
+  protocol: "webcal" | "https" = "webcal"
+) =>
+  `${protocol}://${host}${AO_CALENDAR_FUNCTION_PATH}?ao=all&q=${encodeURIComponent(
+    stripAt(paxName)
+  )}`;
+
+export type AoCalendarEntry = {
+  slot: ResolvedScheduleSlot;
+  qName: string;
+};
+
+export type AoCalendarOptions = {
+  // Defaults to today in each AO's own time zone
+  fromDateIso?: string;
+  lookaheadDays: number;
+};
+
+/**
+ * Every scheduled slot for the AO in the window (from its scheduleBlocks,
+ * exceptions applied) with the assigned Q, if any.
+ */
+export const listAoCalendarEntries = (
+  ao: AoConfig,
+  persistedSessions: WorkoutSessionScheduleSource[],
+  { fromDateIso, lookaheadDays }: AoCalendarOptions
+): AoCalendarEntry[] => {
+  const assignments = getQAssignmentsBySlot(ao.id, persistedSessions);
+  const entries: AoCalendarEntry[] = [];
+  const startIso = fromDateIso ?? getAoTodayIsoDate(ao);
+
+  for (let offset = 0; offset < lookaheadDays; offset++) {
+    const isoDate = addDaysToIsoDate(startIso, offset);
+    for (const slot of getScheduleSlotsForIsoDate(ao, isoDate)) {
+      entries.push({
+        slot,
+        qName:
+          assignments.get(toScheduleSlotKey(isoDate, slot.regularStartTime24)) || "",
+      });
+    }
+  }
+
+  return entries;
+};
+
+export type PaxCalendarEntry = AoCalendarEntry & { ao: AoConfig };
+
+/**
+ * Every slot `paxName` holds as Q (or co-Q) across the given AOs, in date
+ * order. Names match ignoring case, spaces and a leading "@".
+ */
+export const listPaxCalendarEntries = (
+  paxName: string,
+  persistedSessions: WorkoutSessionScheduleSource[],
+  options: AoCalendarOptions,
+  aos: AoConfig[] = AO_LIST
+): PaxCalendarEntry[] =>
+  aos
+    .flatMap((ao) =>
+      listAoCalendarEntries(ao, persistedSessions, options)
+        .filter((entry) => qFieldIncludesPax(entry.qName, paxName))
+        .map((entry) => ({ ...entry, ao }))
+    )
+    .sort(
+      (a, b) =>
+        zonedTimeToUtc(a.slot.isoDate, a.slot.startTime24, a.ao.timeZone).getTime() -
+        zonedTimeToUtc(b.slot.isoDate, b.slot.startTime24, b.ao.timeZone).getTime()
+    );
+
+const buildEventLocation = (ao: AoConfig) =>
+  [ao.whereName, ao.address].filter(Boolean).join(", ");
+
+export const buildAoCalendarEvent = (ao: AoConfig, entry: AoCalendarEntry): IcsEvent => {
+  const { slot, qName } = entry;
+  const preblastUrl = buildPreblastUrl(ao.id);
+  const start = zonedTimeToUtc(slot.isoDate, slot.startTime24, ao.timeZone);
+  const end = slot.endTime24
+    ? zonedTimeToUtc(slot.isoDate, slot.endTime24, ao.timeZone)
+    : new Date(start.getTime() + 45 * 60000);
+
+  const summary = !slot.isHappening
+    ? `${ao.shortName}: ${slot.label || "No workout"}`
+    : qName
+      ? `F3 ${ao.shortName} (Q: ${qName})`
+      : `F3 ${ao.shortName} (Q needed)`;
+
+  const description = slot.isHappening
+    ? [
+        slot.label || "",
+        qName ? `Q: ${qName}` : "Q: open, sign up in the Q-Sheet",
+        ao.meetingPoint || "",
+        ao.meetingPointCoordinates || ao.coordinates
+          ? `Map: ${getAoMeetingPointMapsUrl(ao)}`
+          : "",
+        `Preblast: ${preblastUrl}`,
+      ]
+        .filter(Boolean)
+        .join("\n")
+    : `No ${ao.shortName} workout: ${slot.label || "cancelled"}`;
+
+  return {
+    // Keyed on the regular slot so a time change updates the same event.
+    uid: `${ao.id}-${slot.isoDate.replace(/-/g, "")}-${slot.regularStartTime24.replace(":", "")}@${CALENDAR_UID_DOMAIN}`,
+    start,
+    end: end > start ? end : new Date(start.getTime() + 45 * 60000),
+    summary,
+    description,
+    location: buildEventLocation(ao),
+    geo: getAoMapPoint(ao),
+    url: preblastUrl,
+    status: slot.isHappening ? "CONFIRMED" : "CANCELLED",
+  };
+};
+
+export const buildAoCalendarIcs = (
+  ao: AoConfig,
+  persistedSessions: WorkoutSessionScheduleSource[],
+  options: AoCalendarOptions
+) =>
+  buildIcsCalendar({
+    name: `F3 ${ao.shortName}`,
+    description: `${ao.displayName} workouts and Qs`,
+    refreshIntervalMinutes: 360,
+    events: listAoCalendarEntries(ao, persistedSessions, options).map((entry) =>
+      buildAoCalendarEvent(ao, entry)
+    ),
+  });
+
+export const buildPaxCalendarIcs = (
+  paxName: string,
+  persistedSessions: WorkoutSessionScheduleSource[],
+  options: AoCalendarOptions,
+  aos: AoConfig[] = AO_LIST
+) =>
+  buildIcsCalendar({
+    name: `F3 Qs: ${stripAt(paxName)}`,
+    description: `Every workout ${stripAt(paxName)} is Q for`,
+    refreshIntervalMinutes: 360,
+    events: listPaxCalendarEntries(paxName, persistedSessions, options, aos).map(
+      ({ ao, ...entry }) => buildAoCalendarEvent(ao, entry)
+    ),
+  });
@@ -0,0 +1,33 @@
+import type { AoConfig, GeoPoint } from "../ao/aoConfig";
+
+/* ----------------------------------------------------
+   Map links for AOs: coordinates when configured,
+   street address otherwise.
+---------------------------------------------------- */
+
+export const buildGoogleMapsPointUrl = ({ lat, lng }: GeoPoint) =>
+  `https://www.google.com/maps/search/?api=1&query=${lat},${lng}`;
+
+export const buildGoogleMapsAddressUrl = (address: string) =>
+  `https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(address)}`;
+
+/** Link to the AO itself, or undefined when it has neither pin nor address. */
+export const getAoMapsUrl = (
+  ao: Pick<AoConfig, "coordinates" | "address">
+): string | undefined => {
+  if (ao.coordinates) return buildGoogleMapsPointUrl(ao.coordinates);
+  return ao.address ? buildGoogleMapsAddressUrl(ao.address) : undefined;
+};
+
+/** Where PAX gather: the meeting-point pin if set, else the AO link. */
+export const getAoMeetingPointMapsUrl = (
+  ao: Pick<AoConfig, "coordinates" | "meetingPointCoordinates" | "address">
+): string | undefined =>
+  ao.meetingPointCoordinates
+    ? buildGoogleMapsPointUrl(ao.meetingPointCoordinates)
+    : getAoMapsUrl(ao);
+
+/** Best pin to plot for the AO (meeting point wins, since that's where you park). */
+export const getAoMapPoint = (
+  ao: Pick<AoConfig, "coordinates" | "meetingPointCoordinates">
+): GeoPoint | undefined => ao.meetingPointCoordinates || ao.coordinates;
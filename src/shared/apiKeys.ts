@@ -0,0 +1,72 @@
+/* ----------------------------------------------------
+   API keys for the Netlify functions: one per consumer
+   (Apps Script form, BAND bot, ...) so each can be
+   scoped, rate limited, counted and revoked on its own.
+---------------------------------------------------- */
+
+export const API_KEY_SCOPES = ["schedule:read", "q:write", "pax:read", "admin"] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+export const API_KEY_SCOPE_LABELS: Record<ApiKeyScope, string> = {
+  "schedule:read": "Read schedule",
+  "q:write": "Write Q",
+  "pax:read": "Read PAX",
+  admin: "Admin",
+};
+
+// The old shared Q_SCHEDULE_API_KEY, kept working for reads only
+export const LEGACY_API_KEY_ID = "legacy";
+
+export type ApiKeyRecord = {
+  id: string;
+  name: string;
+  // sha256 (hex) of the key; the key itself is only shown once, when created
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  // Requests per minute; unset means unlimited
+  rateLimitPerMinute?: number;
+  disabled: boolean;
+};
+
+const toText = (value: unknown) => (value == null ? "" : String(value).trim());
+
+/** An apiKeys doc, or null when it can't authorize anything (no hash or no scopes). */
+export const normalizeApiKeyRecord = (
+  doc: { id: string } & Record<string, unknown>
+): ApiKeyRecord | null => {
+  const keyHash = toText(doc.keyHash).toLowerCase();
+  const scopes = (Array.isArray(doc.scopes) ? doc.scopes : [])
+    .map(toText)
+    .filter((scope): scope is ApiKeyScope => (API_KEY_SCOPES as readonly string[]).includes(scope));
+  if (!/^[0-9a-f]{64}$/.test(keyHash) || scopes.length === 0) return null;
+
+  const rateLimit = Number(doc.rateLimitPerMinute);
+  return {
+    id: doc.id,
+    name: toText(doc.name) || doc.id,
+    keyHash,
+    scopes,
+    ...(Number.isInteger(rateLimit) && rateLimit > 0 ? { rateLimitPerMinute: rateLimit } : {}),
+    disabled: doc.disabled === true,
+  };
+};
+
+/** 2026-10-19T17:30Z -> { dateField: "d20261019", minuteId: "202610191730" } (UTC) */
+export const getApiKeyUsageBuckets = (now: Date = new Date()) => {
+  const stamp = now.toISOString().replace(/\D/g, "");
+  return { dateField: `d${stamp.slice(0, 8)}`, minuteId: stamp.slice(0, 12) };
+};
+
+/** What site Qs see for each key; never the hash. */
+export type ApiKeyUsageSummary = {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  rateLimitPerMinute?: number;
+  disabled: boolean;
+  totalCount: number;
+  rateLimitedCount: number;
+  lastUsedAt: string | null;
+  // Oldest first, UTC days
+  daily: Array<{ date: string; count: number }>;
+};
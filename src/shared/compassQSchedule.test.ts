@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCompassEffectiveWorkoutSessions,
+  getCompassBaseWorkoutSessions,
+} from "./compassQSchedule";
+
+const baseSession = getCompassBaseWorkoutSessions()[0];
+const findBaseSlot = (sessions: ReturnType<typeof getCompassBaseWorkoutSessions>) =>
+  sessions.find((session) => session.id === baseSession.id);
+
+describe("buildCompassEffectiveWorkoutSessions", () => {
+  it("merges a legacy override that has a date but no dateKey or time", () => {
+    const { sessions, matchedOverrideCount, unmatchedOverrideCount } =
+      buildCompassEffectiveWorkoutSessions([
+        { id: "legacy-doc", date: baseSession.date, q: "Hardwood" },
+      ]);
+
+    expect(findBaseSlot(sessions)?.q).toBe("Hardwood");
+    expect(matchedOverrideCount).toBe(1);
+    expect(unmatchedOverrideCount).toBe(0);
+  });
+
+  it("merges a legacy override whose time no longer names a slot", () => {
+    const { sessions, unmatchedOverrideCount } = buildCompassEffectiveWorkoutSessions([
+      { id: "legacy-doc", date: baseSession.date, time: "0415", q: "Sparky" },
+    ]);
+
+    expect(findBaseSlot(sessions)?.q).toBe("Sparky");
+    expect(unmatchedOverrideCount).toBe(0);
+  });
+
+  it("keeps a timed override with a dateKey on its own slot", () => {
+    const { sessions, unmatchedOverrideCount } = buildCompassEffectiveWorkoutSessions([
+      {
+        id: "other-slot",
+        date: baseSession.date,
+        dateKey: baseSession.dateKey,
+        time: "1800",
+        q: "Evening",
+      },
+    ]);
+
+    expect(findBaseSlot(sessions)?.q).toBe(baseSession.q);
+    expect(unmatchedOverrideCount).toBe(1);
+  });
+});
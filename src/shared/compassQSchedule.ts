@@ -1,10 +1,21 @@
 import type { WorkoutSession } from "../types";
-import { AO_CONFIG } from "../ao/aoConfig";
+import {
+  AO_LIST,
+  DEFAULT_AO_TIME_ZONE,
+  getAoRegistry,
+  type AoConfig,
+  type AoId,
+} from "../ao/aoConfig";
 import compassBaseWorkoutSessionsJson from "../data/workoutSessions.json";
+import { getAoTodayIsoDate, resolveScheduleSlot } from "./scheduleExceptions";
+import { zonedTimeToUtc } from "./timeZone";
+import { normalizeSessionDesignations } from "./sessionDesignations";
+import { getSessionSlotKey, toDateKey, toSessionTime } from "../utils/scheduleGenerator";
 
 export type WorkoutSessionScheduleSource = {
   [key: string]: unknown;
   id?: string;
+  aoId?: string;
   date?: string;
   dateKey?: string;
   time?: string;
@@ -15,31 +26,36 @@ export type WorkoutSessionScheduleSource = {
 };
 
 export type CompassQScheduleRow = {
-  aoId: "compass";
+  aoId: AoId;
   aoName: string;
   workoutDate: string;
   startTime: string;
+  timeZone: string;
   qPaxId: string;
   qName: string;
+  // No Q (never claimed, or released); only returned with `includeOpen`
+  isOpen: boolean;
   preblastUrl: string;
   bandUrl: string;
 };
 
 export const COMPASS_Q_SCHEDULE_DEFAULT_LOOKAHEAD_DAYS = 7;
-export const COMPASS_Q_SCHEDULE_TIME_ZONE = "America/Chicago";
 
-const COMPASS_AO = AO_CONFIG.compass;
-const COMPASS_AO_NAME = COMPASS_AO.displayName;
-const COMPASS_PREBLAST_URL = "https://f3workouthub.netlify.app/?ao=compass&view=preblast";
-const COMPASS_BAND_URL = COMPASS_AO.bandPostUrl || COMPASS_AO.bandUrl || "";
+export const APP_BASE_URL = "https://f3workouthub.netlify.app";
+export const ALL_AOS_PARAM = "all";
+
+// Sessions written before workoutSessions carried an aoId are all Compass.
+export const LEGACY_WORKOUT_SESSION_AO_ID: AoId = "compass";
+
 const COMPASS_BASE_WORKOUT_SESSIONS = compassBaseWorkoutSessionsJson as WorkoutSession[];
 
-const ISO_DATE_FORMATTER = new Intl.DateTimeFormat("en-US", {
-  timeZone: COMPASS_Q_SCHEDULE_TIME_ZONE,
-  year: "numeric",
-  month: "2-digit",
-  day: "2-digit",
-});
+export const buildPreblastUrl = (aoId: AoId) =>
+  `${APP_BASE_URL}/?ao=${encodeURIComponent(aoId)}&view=preblast`;
+
+export const buildQSheetUrl = (aoId: AoId) =>
+  `${APP_BASE_URL}/?ao=${encodeURIComponent(aoId)}&view=qsheet`;
+
+export const getAoBandUrl = (ao: AoConfig) => ao.bandPostUrl || ao.bandUrl || "";
 
 const SAMPLE_LIMIT = 5;
 const DATE_FIELD_CANDIDATES = [
@@ -57,6 +73,7 @@ type ExclusionReason =
   | "missingDate"
   | "invalidDate"
   | "outsideLookahead"
+  | "scheduleException"
   | "missingQ"
   | "included";
 
@@ -154,6 +171,32 @@ const getFirstFieldValue = (
   return null;
 };
 
+const normalizeAoLookupKey = (value: string) =>
+  String(value || "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+/**
+ * Resolve an `ao=` query value to an AO id.
+ * Accepts ids ("smoakedgrove") or names ("Smoaked Grove", "JP").
+ */
+export const resolveAoIdParam = (value: string | null | undefined): AoId | null => {
+  const key = normalizeAoLookupKey(String(value || ""));
+  if (!key) return null;
+  const registry = getAoRegistry();
+  if (registry[key]) return registry[key].id;
+  const match = Object.values(registry).find(
+    (ao) =>
+      normalizeAoLookupKey(ao.shortName) === key ||
+      normalizeAoLookupKey(ao.displayName) === key
+  );
+  return match?.id ?? null;
+};
+
+export const getWorkoutSessionAoId = (session: WorkoutSessionScheduleSource): AoId =>
+  normalizeDisplayValue(session.aoId) || LEGACY_WORKOUT_SESSION_AO_ID;
+
 const toIsoDate = (value: string): string | null => {
   const cleaned = normalizeDateText(value);
   if (/^\d{4}-\d{2}-\d{2}$/.test(cleaned)) return cleaned;
@@ -189,6 +232,17 @@ export const dateStringToKey = (dateStr: string) => {
   return isoDate ? isoDate.replace(/-/g, "") : "99999999";
 };
 
+/**
+ * Date, then start time: a session's identity is its slot, so a day with an
+ * AM and a PM workout keeps both, in order.
+ */
+export const compareWorkoutSessionSlots = (
+  a: Pick<WorkoutSession, "date" | "time">,
+  b: Pick<WorkoutSession, "date" | "time">
+) =>
+  dateStringToKey(a.date).localeCompare(dateStringToKey(b.date)) ||
+  toSessionTime(a.time || "").localeCompare(toSessionTime(b.time || ""));
+
 const normalizeStartTime = (value: string) => {
   const digits = String(value || "").replace(/\D/g, "");
   if (digits.length === 3) return `0${digits.slice(0, 1)}:${digits.slice(1)}`;
@@ -213,6 +267,7 @@ const cloneWorkoutSession = (session: WorkoutSession): WorkoutSession => ({
   theThang: session.theThang ? [...session.theThang] : undefined,
   mary: session.mary ? [...session.mary] : undefined,
   plan: session.plan ? { ...session.plan } : undefined,
+  designations: session.designations ? [...session.designations] : undefined,
 });
 
 const hasOwn = (value: object, key: string) =>
@@ -252,27 +307,20 @@ const materializeWorkoutSession = (
 
   return {
     id,
+    aoId: getWorkoutSessionAoId(session),
     date: dateField.value,
     dateKey: normalizeDisplayValue(session.dateKey) || dateStringToKey(dateField.value),
     time: timeField.value,
     q: normalizeDisplayValue(getFirstFieldValue(session, Q_FIELD_CANDIDATES)?.value),
     notes: normalizeDisplayValue(session.notes),
+    ...(Array.isArray(session.designations)
+      ? { designations: normalizeSessionDesignations(session.designations) }
+      : {}),
     dbj: normalizeDisplayValue(session.dbj),
     food: normalizeDisplayValue(session.food),
   };
 };
 
-export const getCompassScheduleTodayIsoDate = (now: Date = new Date()) => {
-  const parts = ISO_DATE_FORMATTER.formatToParts(now);
-  const year = parts.find((part) => part.type === "year")?.value;
-  const month = parts.find((part) => part.type === "month")?.value;
-  const day = parts.find((part) => part.type === "day")?.value;
-  if (!year || !month || !day) {
-    throw new Error("Failed to format Compass schedule date.");
-  }
-  return `${year}-${month}-${day}`;
-};
-
 export const parseLookaheadDays = (value: string | null | undefined) => {
   if (!value) return COMPASS_Q_SCHEDULE_DEFAULT_LOOKAHEAD_DAYS;
   const parsed = Number.parseInt(value, 10);
@@ -280,55 +328,78 @@ export const parseLookaheadDays = (value: string | null | undefined) => {
   return Math.min(parsed, 365);
 };
 
+/** `includeOpen=true` / `1` / `yes`; anything else (or absent) is false. */
+export const parseIncludeOpen = (value: string | null | undefined) =>
+  ["true", "1", "yes"].includes(String(value || "").trim().toLowerCase());
+
 export const parseFromDate = (value: string | null | undefined) => {
   if (!value) return null;
   return /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null;
 };
 
 export const getCompassBaseWorkoutSessions = (): WorkoutSession[] =>
-  COMPASS_BASE_WORKOUT_SESSIONS.map(cloneWorkoutSession);
+  COMPASS_BASE_WORKOUT_SESSIONS.map((session) => ({
+    ...cloneWorkoutSession(session),
+    aoId: LEGACY_WORKOUT_SESSION_AO_ID,
+  }));
 
 export const buildCompassEffectiveWorkoutSessions = (
-  persistedOverrides: WorkoutSessionScheduleSource[]
+  persistedOverrides: WorkoutSessionScheduleSource[],
+  window?: DateKeyWindow
 ): {
   sessions: WorkoutSession[];
   matchedOverrideCount: number;
   unmatchedOverrideCount: number;
 } => {
-  const baseSessions = getCompassBaseWorkoutSessions();
+  const baseSessions = window
+    ? getCompassBaseWorkoutSessions().filter((session) =>
+        isInDateKeyWindow(session.dateKey, window)
+      )
+    : getCompassBaseWorkoutSessions();
+  // Earliest first, so an untimed override lands on the day's first slot
+  baseSessions.sort(compareWorkoutSessionSlots);
   const overridesById = new Map<string, WorkoutSessionScheduleSource>();
-  const overridesByDateKey = new Map<string, WorkoutSessionScheduleSource>();
-  const overridesByDate = new Map<string, WorkoutSessionScheduleSource>();
+  const overridesBySlot = new Map<string, WorkoutSessionScheduleSource>();
+  // Early override docs carry a date but no time
+  const untimedOverridesByDateKey = new Map<string, WorkoutSessionScheduleSource>();
+  // Docs from before dateKey existed: matched on their date alone, so one whose
+  // time no longer names a slot (or whose date won't parse) still lands
+  const legacyOverridesByDate = new Map<string, WorkoutSessionScheduleSource>();
 
   for (const rawSession of persistedOverrides) {
     const session = sanitizePersistedSession(rawSession);
     const id = normalizeDisplayValue(session.id);
-    const dateKey = normalizeDisplayValue(session.dateKey);
-    const dateField = getFirstFieldValue(session, DATE_FIELD_CANDIDATES);
+    const date = normalizeDisplayValue(session.date);
+    const parsedDateKey = date ? dateStringToKey(date) : "";
+    const dateKey =
+      normalizeDisplayValue(session.dateKey) ||
+      (parsedDateKey === "99999999" ? "" : parsedDateKey);
+    const time = normalizeDisplayValue(session.time);
     if (id) {
       overridesById.set(id, { ...(overridesById.get(id) || {}), ...session, id });
     }
-    if (dateKey) {
-      overridesByDateKey.set(dateKey, {
-        ...(overridesByDateKey.get(dateKey) || {}),
-        ...session,
-      });
-    }
-    if (dateField?.value) {
-      overridesByDate.set(dateField.value, {
-        ...(overridesByDate.get(dateField.value) || {}),
-        ...session,
-      });
+    if (date && !normalizeDisplayValue(rawSession.dateKey)) {
+      legacyOverridesByDate.set(date, { ...(legacyOverridesByDate.get(date) || {}), ...session });
     }
+    if (!dateKey) continue;
+    const byKey = time ? overridesBySlot : untimedOverridesByDateKey;
+    const key = time ? getSessionSlotKey({ dateKey, time }) : dateKey;
+    byKey.set(key, { ...(byKey.get(key) || {}), ...session });
   }
 
   const matchedOverrideKeys = new Set<string>();
+  const claimedDateKeys = new Set<string>();
 
   const mergedBaseSessions = baseSessions.map((baseSession) => {
+    const dateKey = baseSession.dateKey || dateStringToKey(baseSession.date);
+    const isFirstSlotOfDay = !claimedDateKeys.has(dateKey);
+    claimedDateKeys.add(dateKey);
     const override =
       overridesById.get(baseSession.id) ||
-      (baseSession.dateKey ? overridesByDateKey.get(baseSession.dateKey) : undefined) ||
-      overridesByDate.get(baseSession.date);
+      overridesBySlot.get(getSessionSlotKey({ dateKey, time: baseSession.time })) ||
+      (isFirstSlotOfDay
+        ? untimedOverridesByDateKey.get(dateKey) || legacyOverridesByDate.get(baseSession.date)
+        : undefined);
 
     if (!override) return baseSession;
 
@@ -352,6 +423,9 @@ export const buildCompassEffectiveWorkoutSessions = (
       notes: hasOwn(override, "notes")
         ? normalizeDisplayValue(override.notes)
         : baseSession.notes,
+      designations: Array.isArray(override.designations)
+        ? normalizeSessionDesignations(override.designations)
+        : baseSession.designations,
       dbj: hasOwn(override, "dbj") ? normalizeDisplayValue(override.dbj) : baseSession.dbj,
       food: hasOwn(override, "food")
         ? normalizeDisplayValue(override.food)
@@ -368,11 +442,12 @@ export const buildCompassEffectiveWorkoutSessions = (
     .filter((session): session is WorkoutSession => Boolean(session))
     .filter((session) => {
       if (!session.dateKey) return true;
-      return !mergedBaseSessions.some((base) => base.dateKey === session.dateKey);
+      const slotKey = getSessionSlotKey(session);
+      return !mergedBaseSessions.some((base) => getSessionSlotKey(base) === slotKey);
     });
 
-  const sessions = [...mergedBaseSessions, ...unmatchedPersistedSessions].sort((a, b) =>
-    dateStringToKey(a.date).localeCompare(dateStringToKey(b.date))
+  const sessions = [...mergedBaseSessions, ...unmatchedPersistedSessions].sort(
+    compareWorkoutSessionSlots
   );
 
   return {
@@ -382,6 +457,85 @@ export const buildCompassEffectiveWorkoutSessions = (
   };
 };
 
+export const filterWorkoutSessionsForAo = <T extends WorkoutSessionScheduleSource>(
+  sessions: T[],
+  aoId: AoId
+): T[] => sessions.filter((session) => getWorkoutSessionAoId(session) === aoId);
+
+/** Inclusive "YYYYMMDD" range that a windowed query loaded. */
+export type DateKeyWindow = { fromDateKey: string; toDateKey: string };
+
+const isInDateKeyWindow = (dateKey: string | undefined, window: DateKeyWindow) =>
+  Boolean(dateKey) && dateKey! >= window.fromDateKey && dateKey! <= window.toDateKey;
+
+/**
+ * Effective schedule for one AO: Compass merges its bundled base sessions with
+ * Firestore overrides; every other AO is whatever Firestore holds for it.
+ * With `window`, `persistedSessions` is only the docs in that dateKey range,
+ * so Compass's base sessions are clipped to it too; a base session outside
+ * the range would otherwise show without its (unloaded) override.
+ */
+export const buildEffectiveWorkoutSessionsForAo = (
+  aoId: AoId,
+  persistedSessions: WorkoutSessionScheduleSource[],
+  window?: DateKeyWindow
+): {
+  sessions: WorkoutSession[];
+  baseSessionCount: number;
+  matchedOverrideCount: number;
+  unmatchedOverrideCount: number;
+} => {
+  const aoSessions = filterWorkoutSessionsForAo(persistedSessions, aoId);
+
+  if (aoId === "compass") {
+    const merged = buildCompassEffectiveWorkoutSessions(aoSessions, window);
+    return {
+      ...merged,
+      sessions: window
+        ? merged.sessions.filter((session) =>
+            isInDateKeyWindow(session.dateKey || dateStringToKey(session.date), window)
+          )
+        : merged.sessions,
+      baseSessionCount: COMPASS_BASE_WORKOUT_SESSIONS.length,
+    };
+  }
+
+  const sessions = aoSessions
+    .map((session) => materializeWorkoutSession(sanitizePersistedSession(session)))
+    .filter((session): session is WorkoutSession => Boolean(session))
+    .sort(compareWorkoutSessionSlots);
+
+  return {
+    sessions,
+    baseSessionCount: 0,
+    matchedOverrideCount: 0,
+    unmatchedOverrideCount: sessions.length,
+  };
+};
+
+/** "2026-05-09" + "05:30" -> "2026-05-09 05:30" */
+export const toScheduleSlotKey = (isoDate: string, startTime24: string) =>
+  `${isoDate} ${startTime24}`;
+
+/**
+ * Assigned Q names for one AO keyed by toScheduleSlotKey (regular start time),
+ * using the same date/time normalization as the schedule API.
+ */
+export const getQAssignmentsBySlot = (
+  aoId: AoId,
+  persistedSessions: WorkoutSessionScheduleSource[]
+): Map<string, string> => {
+  const assignments = new Map<string, string>();
+  for (const session of buildEffectiveWorkoutSessionsForAo(aoId, persistedSessions).sessions) {
+    const workoutDate = toIsoDate(session.date);
+    const startTime = normalizeStartTime(session.time);
+    const qName = normalizeDisplayValue(session.q);
+    if (!workoutDate || !startTime || !qName) continue;
+    assignments.set(toScheduleSlotKey(workoutDate, startTime), qName);
+  }
+  return assignments;
+};
+
 export const filterWorkoutSessionsByMonthWindow = (
   sessions: WorkoutSession[],
   today: Date,
@@ -404,12 +558,43 @@ export const filterWorkoutSessionsByMonthWindow = (
   });
 };
 
+const addMonthsToDate = (date: Date, months: number) => {
+  const next = new Date(date);
+  next.setMonth(date.getMonth() + months);
+  return next;
+};
+
+/**
+ * The dateKey range filterWorkoutSessionsByMonthWindow can show, split into
+ * one-month pages so widening the window only queries the new months.
+ * Pages share their boundary day; merge results by id.
+ */
+export const getMonthWindowPages = (
+  today: Date,
+  pastMonths: number,
+  futureMonths: number
+): DateKeyWindow[] => {
+  const pages: DateKeyWindow[] = [];
+  for (let offset = -pastMonths; offset < Math.max(futureMonths, 1); offset++) {
+    pages.push({
+      fromDateKey: toDateKey(addMonthsToDate(today, offset)),
+      toDateKey: toDateKey(addMonthsToDate(today, offset + 1)),
+    });
+  }
+  return pages;
+};
+
+export type QScheduleOptions = {
+  aoId?: AoId;
+  lookaheadDays?: number;
+  fromDateIso?: string;
+  // Also return happening slots that have no Q, flagged `isOpen`
+  includeOpen?: boolean;
+};
+
 export const mapWorkoutSessionsToCompassSchedule = (
   persistedOverrides: WorkoutSessionScheduleSource[],
-  options?: {
-    lookaheadDays?: number;
-    fromDateIso?: string;
-  }
+  options?: QScheduleOptions
 ): CompassQScheduleRow[] => {
   return mapWorkoutSessionsToCompassScheduleWithDiagnostics(
     persistedOverrides,
@@ -419,23 +604,28 @@ export const mapWorkoutSessionsToCompassSchedule = (
 
 export const mapWorkoutSessionsToCompassScheduleWithDiagnostics = (
   persistedOverrides: WorkoutSessionScheduleSource[],
-  options?: {
-    lookaheadDays?: number;
-    fromDateIso?: string;
-  }
+  options?: QScheduleOptions
 ): {
   schedule: CompassQScheduleRow[];
   diagnostics: CompassQScheduleDiagnostics;
 } => {
+  const aoId = options?.aoId ?? "compass";
+  const ao = getAoRegistry()[aoId];
+  const aoName = ao?.displayName || aoId;
+  const preblastUrl = buildPreblastUrl(aoId);
+  const bandUrl = ao ? getAoBandUrl(ao) : "";
+  const timeZone = ao?.timeZone || DEFAULT_AO_TIME_ZONE;
   const lookaheadDays =
     options?.lookaheadDays ?? COMPASS_Q_SCHEDULE_DEFAULT_LOOKAHEAD_DAYS;
-  const fromDateIso = options?.fromDateIso ?? getCompassScheduleTodayIsoDate();
+  // Without an explicit fromDate the window starts on "today" where the AO meets.
+  const fromDateIso = options?.fromDateIso ?? getAoTodayIsoDate(ao);
   const todayDayNumber = isoDateToUtcDayNumber(fromDateIso);
   const windowEndDayNumber = todayDayNumber + lookaheadDays - 1;
   const exclusionReasonCounts: Record<ExclusionReason, number> = {
     missingDate: 0,
     invalidDate: 0,
     outsideLookahead: 0,
+    scheduleException: 0,
     missingQ: 0,
     included: 0,
   };
@@ -444,7 +634,7 @@ export const mapWorkoutSessionsToCompassScheduleWithDiagnostics = (
   const detectedQFields: Array<{ fieldName: string; value: string }> = [];
   const parsedSamples: CompassQScheduleDiagnostics["parsedSamples"] = [];
 
-  const effective = buildCompassEffectiveWorkoutSessions(persistedOverrides);
+  const effective = buildEffectiveWorkoutSessionsForAo(aoId, persistedOverrides);
   const effectiveWithWorkoutDate = effective.sessions.map((session) => {
     const workoutDate = toIsoDate(session.date);
     return { session, workoutDate };
@@ -491,7 +681,7 @@ export const mapWorkoutSessionsToCompassScheduleWithDiagnostics = (
     })
     .map((item) => serializeSession(item.session));
 
-  const persistedSessionsInRequestedWindow = persistedOverrides
+  const persistedSessionsInRequestedWindow = filterWorkoutSessionsForAo(persistedOverrides, aoId)
     .map(materializeWorkoutSession)
     .filter((session): session is WorkoutSession => Boolean(session))
     .filter((session) => {
@@ -512,6 +702,16 @@ export const mapWorkoutSessionsToCompassScheduleWithDiagnostics = (
       const rawTime = timeField?.value || "";
       const rawQ = qField?.value || "";
       const workoutDate = rawDate ? toIsoDate(rawDate) : null;
+      const regularStartTime = normalizeStartTime(rawTime);
+      // Cancelled/holiday/convergence dates drop out; time changes move the start.
+      const slot =
+        ao && workoutDate
+          ? resolveScheduleSlot(ao, workoutDate, {
+              startTime24: regularStartTime,
+              endTime24: "",
+            })
+          : null;
+      const startTime = slot?.startTime24 || regularStartTime;
       let exclusionReason: ExclusionReason = "included";
 
       if (sampleRawDocs.length < SAMPLE_LIMIT) {
@@ -537,6 +737,8 @@ export const mapWorkoutSessionsToCompassScheduleWithDiagnostics = (
         const diffDays = isoDateToUtcDayNumber(workoutDate) - todayDayNumber;
         if (diffDays < 0 || diffDays >= lookaheadDays) {
           exclusionReason = "outsideLookahead";
+        } else if (slot && !slot.isHappening) {
+          exclusionReason = "scheduleException";
         } else if (!rawQ) {
           exclusionReason = "missingQ";
         }
@@ -551,23 +753,26 @@ export const mapWorkoutSessionsToCompassScheduleWithDiagnostics = (
           rawTime,
           rawQ,
           workoutDate,
-          startTime: normalizeStartTime(rawTime),
+          startTime,
           qName: rawQ,
           exclusionReason,
         });
       }
 
-      if (exclusionReason !== "included") return null;
+      const isOpenSlot = exclusionReason === "missingQ" && Boolean(options?.includeOpen);
+      if (exclusionReason !== "included" && !isOpenSlot) return null;
 
       return {
-        aoId: "compass" as const,
-        aoName: COMPASS_AO_NAME,
+        aoId,
+        aoName,
         workoutDate,
-        startTime: normalizeStartTime(rawTime),
+        startTime,
+        timeZone,
         qPaxId: slugifyPaxId(rawQ),
         qName: rawQ,
-        preblastUrl: COMPASS_PREBLAST_URL,
-        bandUrl: COMPASS_BAND_URL,
+        isOpen: isOpenSlot,
+        preblastUrl,
+        bandUrl,
       };
     })
     .filter((row): row is CompassQScheduleRow => Boolean(row))
@@ -585,8 +790,8 @@ export const mapWorkoutSessionsToCompassScheduleWithDiagnostics = (
       detectedQFields,
       parsedSamples,
       exclusionReasonCounts,
-      baseSessionCount: COMPASS_BASE_WORKOUT_SESSIONS.length,
-      persistedOverrideCount: persistedOverrides.length,
+      baseSessionCount: effective.baseSessionCount,
+      persistedOverrideCount: filterWorkoutSessionsForAo(persistedOverrides, aoId).length,
       matchedOverrideCount: effective.matchedOverrideCount,
       unmatchedOverrideCount: effective.unmatchedOverrideCount,
       effectiveSessionCount: effective.sessions.length,
@@ -602,3 +807,38 @@ export const mapWorkoutSessionsToCompassScheduleWithDiagnostics = (
     },
   };
 };
+
+// AOs can sit in different time zones, so order by the actual start instant.
+const compareScheduleRows = (a: CompassQScheduleRow, b: CompassQScheduleRow) => {
+  const startCompare =
+    zonedTimeToUtc(a.workoutDate, a.startTime, a.timeZone).getTime() -
+    zonedTimeToUtc(b.workoutDate, b.startTime, b.timeZone).getTime();
+  if (startCompare !== 0) return startCompare;
+  return a.aoName.localeCompare(b.aoName);
+};
+
+/**
+ * Same rows as the single-AO mapper, for every AO in the registry,
+ * merged into one date/time-ordered list.
+ */
+export const mapWorkoutSessionsToAllAoSchedules = (
+  persistedSessions: WorkoutSessionScheduleSource[],
+  options?: Omit<QScheduleOptions, "aoId">
+): {
+  schedule: CompassQScheduleRow[];
+  diagnosticsByAo: Record<string, CompassQScheduleDiagnostics>;
+} => {
+  const diagnosticsByAo: Record<string, CompassQScheduleDiagnostics> = {};
+  const schedule: CompassQScheduleRow[] = [];
+
+  for (const ao of AO_LIST) {
+    const mapped = mapWorkoutSessionsToCompassScheduleWithDiagnostics(persistedSessions, {
+      ...options,
+      aoId: ao.id,
+    });
+    schedule.push(...mapped.schedule);
+    diagnosticsByAo[ao.id] = mapped.diagnostics;
+  }
+
+  return { schedule: schedule.sort(compareScheduleRows), diagnosticsByAo };
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildIcsCalendar,
+  escapeIcsText,
+  foldIcsLine,
+  formatIcsUtcDateTime,
+} from "./icsCalendar";
+
+const octets = (text: string) => new TextEncoder().encode(text).length;
+
+describe("escapeIcsText", () => {
+  it("escapes backslashes, separators and newlines", () => {
+    expect(escapeIcsText("a\\b; c, d\r\ne\nf")).toBe("a\\\\b\\; c\\, d\\ne\\nf");
+  });
+});
+
+describe("foldIcsLine", () => {
+  it("leaves lines of 75 octets alone", () => {
+    const line = "x".repeat(75);
+    expect(foldIcsLine(line)).toBe(line);
+  });
+
+  it("folds longer lines with CRLF + space and keeps every line within 75 octets", () => {
+    const line = `SUMMARY:${"y".repeat(200)}`;
+    const folded = foldIcsLine(line);
+    const parts = folded.split("\r\n");
+
+    expect(parts.length).toBeGreaterThan(1);
+    parts.slice(1).forEach((part) => expect(part.startsWith(" ")).toBe(true));
+    parts.forEach((part) => expect(octets(part)).toBeLessThanOrEqual(75));
+    expect(parts.map((part, index) => (index === 0 ? part : part.slice(1))).join("")).toBe(line);
+  });
+
+  it("never splits a multi-byte character", () => {
+    const line = `SUMMARY:${"é".repeat(60)}`;
+    const parts = foldIcsLine(line).split("\r\n ");
+
+    // "é" is two octets, so a byte-based cut would land inside one
+    parts.forEach((part) => expect(octets(part)).toBeLessThanOrEqual(75));
+    expect(parts.join("")).toBe(line);
+  });
+});
+
+describe("buildIcsCalendar", () => {
+  it("writes UTC events with CRLF line endings", () => {
+    const ics = buildIcsCalendar(
+      {
+        name: "Compass, Q schedule",
+        refreshIntervalMinutes: 60,
+        events: [
+          {
+            uid: "compass-20261020-0530@f3",
+            start: new Date("2026-10-20T10:30:00Z"),
+            end: new Date("2026-10-20T11:15:00Z"),
+            summary: "Compass: Q Hardwood",
+            geo: { lat: 29.5947, lng: -95.5897 },
+            status: "CONFIRMED",
+          },
+        ],
+      },
+      new Date("2026-10-19T12:00:00Z")
+    );
+
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics.split("\r\n")).toEqual(
+      expect.arrayContaining([
+        "X-WR-CALNAME:Compass\\, Q schedule",
+        "REFRESH-INTERVAL;VALUE=DURATION:PT60M",
+        "DTSTAMP:20261019T120000Z",
+        "DTSTART:20261020T103000Z",
+        "DTEND:20261020T111500Z",
+        "GEO:29.5947;-95.5897",
+        "STATUS:CONFIRMED",
+      ])
+    );
+    expect(ics.replace(/\r\n/g, "")).not.toContain("\n");
+  });
+
+  it("formats instants without separators or milliseconds", () => {
+    expect(formatIcsUtcDateTime(new Date("2026-05-09T11:30:00.123Z"))).toBe("20260509T113000Z");
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Minimal RFC 5545 (iCalendar) writer for subscribe-able feeds.
+ * Times are emitted in UTC ("Z") so no VTIMEZONE block is needed.
+ */
+
+export type IcsEvent = {
+  uid: string;
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  location?: string;
+  // Decimal degrees; calendar apps show it as a map pin
+  geo?: { lat: number; lng: number };
+  url?: string;
+  status?: "CONFIRMED" | "CANCELLED";
+};
+
+export type IcsCalendar = {
+  name: string;
+  description?: string;
+  events: IcsEvent[];
+  // Hint for clients that honor it (Google ignores, Apple/Outlook poll sooner)
+  refreshIntervalMinutes?: number;
+};
+
+const CRLF = "\r\n";
+const MAX_LINE_OCTETS = 75;
+const PRODID = "-//F3 Workout Hub//AO Calendar//EN";
+
+const utf8 = new TextEncoder();
+
+/** TEXT escaping per RFC 5545 §3.3.11 */
+export const escapeIcsText = (value: string) =>
+  String(value || "")
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+
+/**
+ * Fold lines longer than 75 octets (§3.1): CRLF + a single space.
+ * Splits on code points so multi-byte characters are never cut in half.
+ */
+export const foldIcsLine = (line: string) => {
+  if (utf8.encode(line).length <= MAX_LINE_OCTETS) return line;
+
+  const chunks: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+  for (const char of line) {
+    const charOctets = utf8.encode(char).length;
+    // Continuation lines lose one octet to the leading space.
+    const limit = chunks.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + charOctets > limit) {
+      chunks.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += charOctets;
+  }
+  chunks.push(current);
+  return chunks.join(`${CRLF} `);
+};
+
+/** 2026-05-09T11:30:00.000Z -> "20260509T113000Z" */
+export const formatIcsUtcDateTime = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+export const buildIcsCalendar = (calendar: IcsCalendar, now: Date = new Date()) => {
+  const stamp = formatIcsUtcDateTime(now);
+  const lines: string[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    `PRODID:${PRODID}`,
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeIcsText(calendar.name)}`,
+  ];
+  if (calendar.description) {
+    lines.push(`X-WR-CALDESC:${escapeIcsText(calendar.description)}`);
+  }
+  if (calendar.refreshIntervalMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${calendar.refreshIntervalMinutes}M`,
+      `X-PUBLISHED-TTL:PT${calendar.refreshIntervalMinutes}M`
+    );
+  }
+
+  for (const event of calendar.events) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsUtcDateTime(event.start)}`,
+      `DTEND:${formatIcsUtcDateTime(event.end)}`,
+      `SUMMARY:${escapeIcsText(event.summary)}`
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeIcsText(event.description)}`);
+    if (event.location) lines.push(`LOCATION:${escapeIcsText(event.location)}`);
+    if (event.geo) lines.push(`GEO:${event.geo.lat};${event.geo.lng}`);
+    if (event.url) lines.push(`URL:${event.url}`);
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    lines.push("END:VEVENT");
+  }
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldIcsLine).join(CRLF) + CRLF;
+};
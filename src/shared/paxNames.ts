@@ -0,0 +1,34 @@
+/** localStorage key for "who am I" (My Qs, and the editor name on Q-sheet changes). */
+export const PAX_NAME_STORAGE_KEY = "f3MyQsName";
+
+/** "@Hardwood " -> "Hardwood" */
+export const stripAt = (name: string) => String(name || "").trim().replace(/^@+/, "");
+
+/**
+ * Comparison key for F3 names: "@Hard Wood", "hardwood" and "HARDWOOD"
+ * all collapse to "hardwood".
+ */
+export const toPaxNameKey = (name: string) =>
+  stripAt(name).toLowerCase().replace(/\s+/g, "");
+
+// Co-Qs are written "Hardwood & Sparky", "Hardwood/Sparky", "Hardwood, Sparky"
+const Q_FIELD_SEPARATOR = /\s*(?:[/&,+]|\band\b)\s*/i;
+
+export const splitQField = (q: string) =>
+  String(q || "")
+    .split(Q_FIELD_SEPARATOR)
+    .map(stripAt)
+    .filter(Boolean);
+
+/** True when `paxName` is the Q (or one of the co-Qs) in a session's `q` field. */
+export const qFieldIncludesPax = (q: string, paxName: string) => {
+  const key = toPaxNameKey(paxName);
+  if (!key) return false;
+  return splitQField(q).some((name) => toPaxNameKey(name) === key);
+};
+
+/** True when `paxName` is on the AO's Site Q list. */
+export const isSiteQ = (siteQs: string[] | undefined, paxName: string) => {
+  const key = toPaxNameKey(paxName);
+  return Boolean(key) && (siteQs || []).some((name) => toPaxNameKey(name) === key);
+};
@@ -0,0 +1,142 @@
+import { getAoRegistry } from "../ao/aoConfig";
+import { buildAoCalendarEvent } from "./aoCalendar";
+import { buildQSheetUrl, type CompassQScheduleRow } from "./compassQSchedule";
+import { buildIcsCalendar } from "./icsCalendar";
+import { formatSlotDateTime } from "./qsNeeded";
+import { escapeCsvCell } from "./qSheetTable";
+import { getScheduleSlotsForIsoDate, type ResolvedScheduleSlot } from "./scheduleExceptions";
+
+/* ----------------------------------------------------
+   The Q schedule API's `format=` outputs, all rendered
+   from the same CompassQScheduleRow list as the JSON.
+---------------------------------------------------- */
+
+export const Q_SCHEDULE_FORMATS = ["json", "csv", "text", "ics"] as const;
+export type QScheduleFormat = (typeof Q_SCHEDULE_FORMATS)[number];
+
+/** Absent means json; anything unrecognised is null (a 400). */
+export const parseScheduleFormat = (value: string | null | undefined): QScheduleFormat | null => {
+  const format = String(value || "json").trim().toLowerCase();
+  return (Q_SCHEDULE_FORMATS as readonly string[]).includes(format)
+    ? (format as QScheduleFormat)
+    : null;
+};
+
+export const Q_SCHEDULE_CONTENT_TYPES: Record<QScheduleFormat, string> = {
+  json: "application/json; charset=utf-8",
+  csv: "text/csv; charset=utf-8",
+  text: "text/plain; charset=utf-8",
+  ics: "text/calendar; charset=utf-8",
+};
+
+export type QScheduleFormatContext = {
+  // An AO's display name, or "All AOs"
+  aoName: string;
+  lookaheadDays: number;
+};
+
+/* ---------------- csv ---------------- */
+
+const CSV_COLUMNS: Array<keyof CompassQScheduleRow> = [
+  "aoId",
+  "aoName",
+  "workoutDate",
+  "startTime",
+  "timeZone",
+  "qPaxId",
+  "qName",
+  "isOpen",
+  "preblastUrl",
+  "bandUrl",
+];
+
+/**
+ * Header row plus one row per slot, for Google Sheets' IMPORTDATA. Cells go
+ * through the Q-sheet export's escaping, so a Q name like "=..." stays text.
+ */
+export const buildQScheduleCsv = (schedule: CompassQScheduleRow[]) =>
+  [CSV_COLUMNS, ...schedule.map((row) => CSV_COLUMNS.map((column) => String(row[column])))]
+    .map((cells) => cells.map(escapeCsvCell).join(","))
+    .join("\r\n") + "\r\n";
+
+/* ---------------- text ---------------- */
+
+/**
+ * Ready-to-post "Upcoming Qs" message: one block per AO, in the order the
+ * AOs first appear, closing with that AO's hashtags. Open slots get a
+ * sign-up link when `includeOpen` put them in the schedule.
+ */
+export const buildQSchedulePost = (
+  schedule: CompassQScheduleRow[],
+  { aoName, lookaheadDays }: QScheduleFormatContext
+) => {
+  if (schedule.length === 0) {
+    return `No Qs on the ${aoName} schedule for the next ${lookaheadDays} days yet.`;
+  }
+
+  const rowsByAo = new Map<string, CompassQScheduleRow[]>();
+  for (const row of schedule) {
+    rowsByAo.set(row.aoId, [...(rowsByAo.get(row.aoId) || []), row]);
+  }
+
+  const blocks = [...rowsByAo.entries()].map(([aoId, rows]) => {
+    const ao = getAoRegistry()[aoId];
+    return [
+      `📍 ${rows[0].aoName}`,
+      ...rows.map(
+        (row) =>
+          `• ${formatSlotDateTime(row.workoutDate, row.startTime)}: ${
+            row.isOpen ? "Q needed" : row.qName
+          }`
+      ),
+      rows.some((row) => row.isOpen) ? `Sign up: ${buildQSheetUrl(rows[0].aoId)}` : "",
+      (ao?.hashtags || []).join(" "),
+    ]
+      .filter(Boolean)
+      .join("\n");
+  });
+
+  return [`📣 Upcoming Qs (next ${lookaheadDays} days)`, ...blocks].join("\n\n");
+};
+
+/* ---------------- ics ---------------- */
+
+/**
+ * One event per row, built like the AO calendar feed's so a slot keeps the
+ * same UID in both. Rows off the AO's regular schedule get a slot of their own.
+ */
+export const buildQScheduleIcs = (
+  schedule: CompassQScheduleRow[],
+  { aoName }: QScheduleFormatContext
+) =>
+  buildIcsCalendar({
+    name: `F3 Qs: ${aoName}`,
+    description: `Upcoming Qs for ${aoName}`,
+    refreshIntervalMinutes: 360,
+    events: schedule.flatMap((row) => {
+      const ao = getAoRegistry()[row.aoId];
+      if (!ao) return [];
+      const slot: ResolvedScheduleSlot = getScheduleSlotsForIsoDate(ao, row.workoutDate).find(
+        (candidate) => candidate.startTime24 === row.startTime
+      ) || {
+        isoDate: row.workoutDate,
+        regularStartTime24: row.startTime,
+        startTime24: row.startTime,
+        endTime24: "",
+        isHappening: true,
+      };
+      return [buildAoCalendarEvent(ao, { slot, qName: row.isOpen ? "" : row.qName })];
+    }),
+  });
+
+/** Body for any non-JSON format. */
+export const renderQSchedule = (
+  format: Exclude<QScheduleFormat, "json">,
+  schedule: CompassQScheduleRow[],
+  context: QScheduleFormatContext
+) =>
+  format === "csv"
+    ? buildQScheduleCsv(schedule)
+    : format === "text"
+      ? buildQSchedulePost(schedule, context)
+      : buildQScheduleIcs(schedule, context);
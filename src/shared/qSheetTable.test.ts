@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import type { WorkoutSession } from "../types";
+import {
+  diffQSheetImport,
+  escapeCsvCell,
+  parseQSheetTable,
+  parseTableTime,
+  serializeQSheetTable,
+} from "./qSheetTable";
+
+const row = (q: string, notes = "") => ({
+  date: "10/20/26 (Tue)",
+  time: "0530",
+  q,
+  notes,
+  dbj: "",
+  food: "",
+});
+
+const FORMULA_VALUES = ["=HYPERLINK(\"x\")", "+1", "-1", "@SUM(A1)", "\tTabbed", "\rReturn"];
+
+describe("serializeQSheetTable", () => {
+  it("writes a header and quotes CSV cells that need it", () => {
+    const csv = serializeQSheetTable([row("Hardwood & Sparky", 'Bring a "coupon", 20 lb')], "csv");
+
+    expect(csv.split("\r\n")).toEqual([
+      "Date,Time,Q,Notes,DBJ,Food",
+      '10/20/26 (Tue),0530,Hardwood & Sparky,"Bring a ""coupon"", 20 lb",,',
+      "",
+    ]);
+  });
+
+  it.each(FORMULA_VALUES)("exports a cell starting %j as text", (value) => {
+    const csvCells = serializeQSheetTable([row(value)], "csv").split("\r\n")[1].split(",");
+    expect(csvCells[2]).toMatch(/^"?'/);
+
+    const tsvCells = serializeQSheetTable([row(value)], "tsv").split("\r\n")[1].split("\t");
+    expect(tsvCells[2].startsWith("'")).toBe(true);
+  });
+});
+
+describe("escapeCsvCell", () => {
+  it("guards formulas before quoting", () => {
+    expect(escapeCsvCell("Hardwood")).toBe("Hardwood");
+    expect(escapeCsvCell("=1+1")).toBe("'=1+1");
+    expect(escapeCsvCell('=HYPERLINK("x")')).toBe(`"'=HYPERLINK(""x"")"`);
+    expect(escapeCsvCell("\rReturn")).toBe(`"'\rReturn"`);
+  });
+});
+
+describe("parseQSheetTable", () => {
+  it.each(FORMULA_VALUES)("round-trips a CSV cell starting %j", (value) => {
+    const { format, rows, errors } = parseQSheetTable(
+      serializeQSheetTable([row(value, "=notes")], "csv")
+    );
+
+    expect(format).toBe("csv");
+    expect(errors).toEqual([]);
+    expect(rows[0]).toMatchObject({
+      dateKey: "20261020",
+      time: "0530",
+      q: value,
+      notes: "=notes",
+    });
+  });
+
+  it("keeps a leading quote that wasn't added by the export", () => {
+    const { rows } = parseQSheetTable("Date,Time,Q\r\n10/20/26,0530,'Hardwood\r\n");
+    expect(rows[0].q).toBe("'Hardwood");
+  });
+
+  it("reads pasted TSV without a header", () => {
+    const { format, rows } = parseQSheetTable("10/20/26\t5:30 AM\tHardwood\tVQ\n");
+
+    expect(format).toBe("tsv");
+    expect(rows[0]).toMatchObject({ dateKey: "20261020", q: "Hardwood", notes: "VQ" });
+  });
+
+  it("maps columns by header name, whatever the order", () => {
+    const { rows, errors } = parseQSheetTable(
+      "Date,Q,Time,Theme\r\n10/20/26,Hardwood,0530,Murph\r\n"
+    );
+
+    expect(errors).toEqual([]);
+    // "Theme" isn't a Q-sheet column, so it's ignored rather than read as notes
+    expect(rows[0]).toMatchObject({ time: "0530", q: "Hardwood", notes: "" });
+  });
+
+  it("reports a header that doesn't start with Date as an unreadable row", () => {
+    const { rows, errors } = parseQSheetTable("Day,Time,Q\r\n10/20/26,0530,Hardwood\r\n");
+
+    expect(rows).toHaveLength(1);
+    expect(errors).toEqual([{ line: 1, message: 'Can\'t read the date "Day".' }]);
+  });
+
+  it("skips a second row for the same date and time", () => {
+    const { rows, errors } = parseQSheetTable("10/20/26,0530,Hardwood\n10/20/26,5:30,Sparky\n");
+
+    expect(rows.map((entry) => entry.q)).toEqual(["Hardwood"]);
+    expect(errors).toEqual([{ line: 2, message: "Same date and time as line 1; skipped." }]);
+  });
+});
+
+describe("parseTableTime", () => {
+  it("reads 12h and 24h times", () => {
+    expect(parseTableTime("530")).toBe("0530");
+    expect(parseTableTime("5:30 PM")).toBe("1730");
+    expect(parseTableTime("12:15 am")).toBe("0015");
+    expect(parseTableTime("25:00")).toBe("");
+  });
+});
+
+describe("diffQSheetImport", () => {
+  it("classifies new, filled-in, conflicting and unchanged rows", () => {
+    const existing = [
+      { id: "a", ...row("Hardwood"), dateKey: "20261020" },
+      { id: "b", ...row(""), date: "10/22/26 (Thu)", dateKey: "20261022" },
+    ] as WorkoutSession[];
+    const { rows } = parseQSheetTable(
+      [
+        "10/20/26,0530,Hardwood",
+        "10/22/26,0530,Sparky",
+        "10/27/26,0530,Blackout",
+        "10/20/26,0630,Someone",
+      ].join("\n")
+    );
+    const conflict = parseQSheetTable("10/20/26,0530,Sparky").rows;
+
+    expect(diffQSheetImport([...rows, ...conflict], existing).map((diff) => diff.kind)).toEqual([
+      "unchanged",
+      "changed",
+      "new",
+      "new",
+      "conflict",
+    ]);
+  });
+});
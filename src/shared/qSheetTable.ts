@@ -0,0 +1,250 @@
+import type { WorkoutSession } from "../types";
+import { dateStringToKey } from "./compassQSchedule";
+import { dateKeyToIsoDate } from "./scheduleExceptions";
+import { isoDateToLocalDate } from "./timeZone";
+import {
+  getSessionSlotKey,
+  toSessionDateLabel,
+  toSessionTime,
+} from "../utils/scheduleGenerator";
+
+/* ----------------------------------------------------
+   Q-sheet <-> spreadsheet rows (CSV / TSV), and the
+   diff an import would make against current sessions.
+---------------------------------------------------- */
+
+export type QSheetTableField = "q" | "notes" | "dbj" | "food";
+export type QSheetTableFormat = "csv" | "tsv";
+
+export const Q_SHEET_TABLE_FIELDS: QSheetTableField[] = ["q", "notes", "dbj", "food"];
+
+// Same column order as the old pasted sheet in src/data.ts
+const HEADER = ["Date", "Time", "Q", "Notes", "DBJ", "Food"];
+const HEADER_KEYS: Record<string, "date" | "time" | QSheetTableField> = {
+  date: "date",
+  time: "time",
+  q: "q",
+  notes: "notes",
+  dbj: "dbj",
+  food: "food",
+};
+
+export type ParsedQSheetRow = {
+  line: number;
+  date: string; // "11/22/25 (Sat)"
+  dateKey: string;
+  time: string; // "0530"
+} & Record<QSheetTableField, string>;
+
+export type QSheetParseError = { line: number; message: string };
+
+/* ---------------- export ---------------- */
+
+// Excel and Sheets run a cell starting with one of these as a formula, so a
+// typed Q name or note like "=HYPERLINK(...)" is exported as text ('=...)
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const escapeFormulaCell = (value: string) =>
+  FORMULA_PREFIX.test(value) ? `'${value}` : value;
+// ...and the ' comes off again when the file is imported back
+const unescapeFormulaCell = (value: string) =>
+  value.startsWith("'") && FORMULA_PREFIX.test(value.slice(1)) ? value.slice(1) : value;
+
+/** One CSV cell that a spreadsheet opens as text: formula guard, then quoting. */
+export const escapeCsvCell = (value: string) => {
+  const text = escapeFormulaCell(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// TSV has no quoting, so tabs/newlines inside a cell become spaces
+const escapeTsvCell = (value: string) => escapeFormulaCell(value).replace(/[\t\r\n]+/g, " ");
+
+export const serializeQSheetTable = (
+  sessions: Pick<WorkoutSession, "date" | "time" | QSheetTableField>[],
+  format: QSheetTableFormat
+) => {
+  const escape = format === "csv" ? escapeCsvCell : escapeTsvCell;
+  const separator = format === "csv" ? "," : "\t";
+  const lines = [HEADER, ...sessions.map((s) => [s.date, s.time, s.q, s.notes, s.dbj, s.food])]
+    .map((cells) => cells.map((cell) => escape(cell || "")).join(separator));
+  return `${lines.join("\r\n")}\r\n`;
+};
+
+/* ---------------- import ---------------- */
+
+/** RFC 4180-ish: quoted cells may hold commas, quotes ("") and newlines. */
+const parseCsvRecords = (text: string) => {
+  const records: Array<{ line: number; cells: string[] }> = [];
+  let cells: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n") line++;
+        cell += char;
+      }
+    } else if (char === '"' && cell === "") {
+      inQuotes = true;
+    } else if (char === ",") {
+      cells.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      records.push({ line: recordLine, cells: [...cells, cell] });
+      cells = [];
+      cell = "";
+      line++;
+      recordLine = line;
+    } else {
+      cell += char;
+    }
+  }
+  records.push({ line: recordLine, cells: [...cells, cell] });
+  return records;
+};
+
+const parseTsvRecords = (text: string) =>
+  text.split(/\r?\n/).map((row, index) => ({ line: index + 1, cells: row.split("\t") }));
+
+/** "530", "0530", "5:30", "5:30 PM", "17:00" -> "0530" / "1700"; "" if unreadable */
+export const parseTableTime = (value: string) => {
+  const match = value.trim().match(/^(\d{1,2}):?(\d{2})\s*([ap])?\.?m?\.?$/i);
+  if (!match) return "";
+  let hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === "p" && hours < 12) hours += 12;
+  if (meridiem === "a" && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return "";
+  return toSessionTime(`${hours}:${String(minutes).padStart(2, "0")}`);
+};
+
+/**
+ * Rows pasted from Sheets/Excel (tab-separated) or a CSV file. A header row
+ * is optional; without one, columns are Date, Time, Q, Notes, DBJ, Food.
+ * Blank cells come back as "" and are treated as "no change" by the diff.
+ */
+export const parseQSheetTable = (text: string) => {
+  // Decided by the first line: a quoted CSV cell further down may hold a tab
+  const format: QSheetTableFormat = text.split(/\r?\n/, 1)[0].includes("\t") ? "tsv" : "csv";
+  const records = (format === "tsv" ? parseTsvRecords(text) : parseCsvRecords(text)).filter(
+    (record) => record.cells.some((cell) => cell.trim())
+  );
+
+  let columns: Array<"date" | "time" | QSheetTableField | undefined> = [
+    "date",
+    "time",
+    "q",
+    "notes",
+    "dbj",
+    "food",
+  ];
+  if (records[0] && records[0].cells[0]?.trim().toLowerCase() === "date") {
+    columns = records[0].cells.map((cell) => HEADER_KEYS[cell.trim().toLowerCase()]);
+    records.shift();
+  }
+
+  const rows: ParsedQSheetRow[] = [];
+  const errors: QSheetParseError[] = [];
+  const seenSlots = new Map<string, number>();
+
+  for (const { line, cells } of records) {
+    const values: Record<string, string> = {};
+    columns.forEach((column, index) => {
+      if (column) values[column] = unescapeFormulaCell((cells[index] || "").trim());
+    });
+
+    const dateKey = dateStringToKey(values.date || "");
+    const isoDate = dateKeyToIsoDate(dateKey);
+    if (!isoDate || dateKey === "99999999") {
+      errors.push({ line, message: `Can't read the date "${values.date || ""}".` });
+      continue;
+    }
+    const time = parseTableTime(values.time || "");
+    if (!time) {
+      errors.push({ line, message: `Can't read the time "${values.time || ""}".` });
+      continue;
+    }
+
+    const slotKey = getSessionSlotKey({ dateKey, time });
+    const firstLine = seenSlots.get(slotKey);
+    if (firstLine) {
+      errors.push({ line, message: `Same date and time as line ${firstLine}; skipped.` });
+      continue;
+    }
+    seenSlots.set(slotKey, line);
+
+    rows.push({
+      line,
+      date: toSessionDateLabel(isoDateToLocalDate(isoDate)),
+      dateKey,
+      time,
+      q: values.q || "",
+      notes: values.notes || "",
+      dbj: values.dbj || "",
+      food: values.food || "",
+    });
+  }
+
+  return { format, rows, errors };
+};
+
+/* ---------------- diff ---------------- */
+
+/**
+ * - new: no session in that day/time slot yet
+ * - changed: only fills in fields that are empty today
+ * - conflict: would replace something already entered
+ * - unchanged: nothing to do
+ */
+export type QSheetImportKind = "new" | "changed" | "conflict" | "unchanged";
+
+export type QSheetFieldChange = { field: QSheetTableField; from: string; to: string };
+
+export type QSheetImportDiff = {
+  row: ParsedQSheetRow;
+  kind: QSheetImportKind;
+  existing?: WorkoutSession;
+  changes: QSheetFieldChange[];
+};
+
+export const diffQSheetImport = (
+  rows: ParsedQSheetRow[],
+  existingSessions: WorkoutSession[]
+): QSheetImportDiff[] => {
+  const existingBySlot = new Map(
+    existingSessions.map((session) => [
+      getSessionSlotKey({
+        dateKey: session.dateKey || dateStringToKey(session.date),
+        time: session.time,
+      }),
+      session,
+    ])
+  );
+
+  return rows.map((row) => {
+    const existing = existingBySlot.get(getSessionSlotKey(row));
+    const changes = Q_SHEET_TABLE_FIELDS.filter(
+      (field) => row[field] && row[field] !== (existing?.[field] || "").trim()
+    ).map((field) => ({ field, from: (existing?.[field] || "").trim(), to: row[field] }));
+
+    const kind: QSheetImportKind = !existing
+      ? "new"
+      : changes.length === 0
+        ? "unchanged"
+        : changes.some((change) => change.from)
+          ? "conflict"
+          : "changed";
+
+    return { row, kind, existing, changes };
+  });
+};
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import {
+  Q_STATS_WINDOWS,
+  buildQLeaderboard,
+  countQsByMonth,
+  getQStatsWindowStart,
+  listDormantQs,
+  listQEvents,
+  listQRecords,
+} from "./qStats";
+
+const TODAY = "2026-10-19";
+
+const session = (dateKey: string, q: string, extra: Record<string, unknown> = {}) => ({
+  id: `compass-${dateKey}-0530`,
+  aoId: "compass",
+  dateKey,
+  date: "",
+  time: "0530",
+  q,
+  ...extra,
+});
+
+const SESSIONS = [
+  session("20260601", "Hardwood", { designations: [{ kind: "VQ" }] }),
+  session("20260701", "@Hardwood & Sparky"),
+  session("20260910", "hardwood", { notes: "AQ (2 yr)" }),
+  session("20261001", "Sparky"),
+  // Today and later aren't counted yet
+  session("20261019", "Hardwood"),
+  session("20261101", "Hardwood"),
+];
+
+describe("listQRecords", () => {
+  it("gives each co-Q a record and skips workouts from today on", () => {
+    const records = listQRecords(SESSIONS, TODAY);
+
+    expect(records.map((record) => `${record.isoDate} ${record.paxName}`)).toEqual([
+      "2026-06-01 Hardwood",
+      "2026-07-01 Hardwood",
+      "2026-07-01 Sparky",
+      "2026-09-10 hardwood",
+      "2026-10-01 Sparky",
+    ]);
+  });
+
+  it("lets the later source win when a slot appears twice", () => {
+    const records = listQRecords(
+      [session("20260601", "Sheet Name"), session("20260601", "Firestore Name")],
+      TODAY
+    );
+
+    expect(records.map((record) => record.paxName)).toEqual(["Firestore Name"]);
+  });
+});
+
+describe("buildQLeaderboard", () => {
+  it("counts Qs, the longest gap and VQ/GQ/AQ events per PAX", () => {
+    const [hardwood, sparky] = buildQLeaderboard(listQRecords(SESSIONS, TODAY), null);
+
+    expect(hardwood).toMatchObject({
+      paxKey: "hardwood",
+      paxName: "hardwood",
+      count: 3,
+      lastQIsoDate: "2026-09-10",
+      longestGapDays: 71,
+      events: { VQ: 1, GQ: 0, AQ: 1 },
+    });
+    expect(sparky).toMatchObject({ count: 2, longestGapDays: 92 });
+  });
+
+  it("only counts records inside the window", () => {
+    const records = listQRecords(SESSIONS, TODAY);
+    const window = Q_STATS_WINDOWS.find((entry) => entry.id === "90d")!;
+    const fromIsoDate = getQStatsWindowStart(window, TODAY);
+
+    expect(fromIsoDate).toBe("2026-07-21");
+    const rows = buildQLeaderboard(records, fromIsoDate);
+
+    expect(rows.map((row) => [row.paxKey, row.count, row.longestGapDays])).toEqual([
+      ["sparky", 1, null],
+      ["hardwood", 1, null],
+    ]);
+  });
+});
+
+describe("countQsByMonth and listQEvents", () => {
+  it("groups Qs by month and lists tagged workouts newest first", () => {
+    const records = listQRecords(SESSIONS, TODAY);
+
+    expect(countQsByMonth(records, null)).toEqual([
+      { month: "2026-06", count: 1 },
+      { month: "2026-07", count: 2 },
+      { month: "2026-09", count: 1 },
+      { month: "2026-10", count: 1 },
+    ]);
+    expect(listQEvents(records, null).map((record) => [record.isoDate, record.tags])).toEqual([
+      ["2026-09-10", ["AQ"]],
+      ["2026-06-01", ["VQ"]],
+    ]);
+  });
+});
+
+describe("listDormantQs", () => {
+  it("lists PAX idle past the cutoff and roster names who never Q'd", () => {
+    const records = listQRecords(SESSIONS, TODAY);
+    const roster = () => ["Hardwood (Jim Smith)", "Sparky", "Blackout “Buu”"];
+
+    const { dormant, neverQd } = listDormantQs(records, ["compass"], roster, TODAY, 30);
+
+    expect(dormant).toEqual([
+      { aoId: "compass", paxName: "hardwood", lastQIsoDate: "2026-09-10", daysSince: 39 },
+    ]);
+    expect(neverQd).toEqual([{ aoId: "compass", paxName: "Blackout" }]);
+  });
+});
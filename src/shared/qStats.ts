@@ -0,0 +1,220 @@
+import type { AoId } from "../ao/aoConfig";
+import {
+  dateStringToKey,
+  getWorkoutSessionAoId,
+  type WorkoutSessionScheduleSource,
+} from "./compassQSchedule";
+import { splitQField, toPaxNameKey } from "./paxNames";
+import { getSessionDesignations } from "./sessionDesignations";
+import { dateKeyToIsoDate } from "./scheduleExceptions";
+import { addDaysToIsoDate } from "./timeZone";
+import { getSessionSlotKey } from "../utils/scheduleGenerator";
+
+/* ----------------------------------------------------
+   Q leadership stats from past workoutSessions: who has
+   led where, how often, and who is due for a nudge.
+---------------------------------------------------- */
+
+export type QStatsWindow = { id: string; label: string; days: number | null };
+
+export const Q_STATS_WINDOWS: QStatsWindow[] = [
+  { id: "90d", label: "Last 90 days", days: 90 },
+  { id: "6m", label: "Last 6 months", days: 182 },
+  { id: "1y", label: "Last 12 months", days: 365 },
+  { id: "all", label: "All time", days: null },
+];
+
+// "Hasn't Q'd in 90 days" list for site Qs
+export const Q_STATS_DORMANT_DAYS = 90;
+
+/** VQ: first (virgin) Q · GQ: guest Q · AQ: anniversary Q */
+export const Q_EVENT_TAGS = ["VQ", "GQ", "AQ"] as const;
+export type QEventTag = (typeof Q_EVENT_TAGS)[number];
+
+const isQEventTag = (kind: string): kind is QEventTag =>
+  Q_EVENT_TAGS.includes(kind as QEventTag);
+
+/** The session's VQ/GQ/AQ designations (notes on older docs). */
+export const getQEventTags = (session: WorkoutSessionScheduleSource): QEventTag[] =>
+  getSessionDesignations(session)
+    .map((designation) => designation.kind)
+    .filter(isQEventTag);
+
+/** One PAX leading one past workout; co-Qs each get a record. */
+export type QRecord = {
+  aoId: AoId;
+  isoDate: string;
+  paxKey: string;
+  paxName: string;
+  tags: QEventTag[];
+};
+
+const toText = (value: unknown) => (value == null ? "" : String(value).trim());
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const daysBetween = (fromIsoDate: string, toIsoDate: string) =>
+  Math.round(
+    (Date.parse(`${toIsoDate}T00:00:00Z`) - Date.parse(`${fromIsoDate}T00:00:00Z`)) / MS_PER_DAY
+  );
+
+/**
+ * Q records for every workout before `todayIsoDate`. When the same AO slot
+ * shows up more than once (e.g. a historical sheet row and its Firestore
+ * doc), the later source wins.
+ */
+export const listQRecords = (
+  sessions: WorkoutSessionScheduleSource[],
+  todayIsoDate: string
+): QRecord[] => {
+  const bySlot = new Map<string, WorkoutSessionScheduleSource>();
+  for (const session of sessions) {
+    const dateKey = toText(session.dateKey) || dateStringToKey(toText(session.date));
+    const slotKey = `${getWorkoutSessionAoId(session)}|${getSessionSlotKey({
+      dateKey,
+      time: toText(session.time),
+    })}`;
+    bySlot.set(slotKey, { ...session, dateKey });
+  }
+
+  const records: QRecord[] = [];
+  for (const session of bySlot.values()) {
+    const isoDate = dateKeyToIsoDate(toText(session.dateKey));
+    if (!isoDate || isoDate >= todayIsoDate) continue;
+    const tags = getQEventTags(session);
+    for (const paxName of splitQField(toText(session.q))) {
+      records.push({
+        aoId: getWorkoutSessionAoId(session),
+        isoDate,
+        paxKey: toPaxNameKey(paxName),
+        paxName,
+        tags,
+      });
+    }
+  }
+  return records.sort((a, b) => a.isoDate.localeCompare(b.isoDate));
+};
+
+/** First day of a window ending today, or null for all time. */
+export const getQStatsWindowStart = (window: QStatsWindow, todayIsoDate: string) =>
+  window.days === null ? null : addDaysToIsoDate(todayIsoDate, -window.days);
+
+const inWindow = (record: QRecord, fromIsoDate: string | null) =>
+  !fromIsoDate || record.isoDate >= fromIsoDate;
+
+export type QLeaderboardRow = {
+  aoId: AoId;
+  paxKey: string;
+  // Most recent spelling used on the sheet
+  paxName: string;
+  count: number;
+  lastQIsoDate: string;
+  // Days between two consecutive Qs at this AO; null with fewer than two
+  longestGapDays: number | null;
+  events: Record<QEventTag, number>;
+};
+
+/** Qs per PAX per AO in the window, most Qs first. `records` must be date-sorted. */
+export const buildQLeaderboard = (
+  records: QRecord[],
+  fromIsoDate: string | null
+): QLeaderboardRow[] => {
+  const rows = new Map<string, QLeaderboardRow>();
+  for (const record of records) {
+    if (!inWindow(record, fromIsoDate)) continue;
+    const key = `${record.aoId}|${record.paxKey}`;
+    const row = rows.get(key);
+    if (!row) {
+      rows.set(key, {
+        aoId: record.aoId,
+        paxKey: record.paxKey,
+        paxName: record.paxName,
+        count: 1,
+        lastQIsoDate: record.isoDate,
+        longestGapDays: null,
+        events: Object.fromEntries(
+          Q_EVENT_TAGS.map((tag) => [tag, record.tags.includes(tag) ? 1 : 0])
+        ) as Record<QEventTag, number>,
+      });
+      continue;
+    }
+    const gap = daysBetween(row.lastQIsoDate, record.isoDate);
+    row.longestGapDays = Math.max(row.longestGapDays ?? 0, gap);
+    row.count += 1;
+    row.lastQIsoDate = record.isoDate;
+    row.paxName = record.paxName;
+    record.tags.forEach((tag) => {
+      row.events[tag] += 1;
+    });
+  }
+
+  return [...rows.values()].sort(
+    (a, b) =>
+      b.count - a.count ||
+      b.lastQIsoDate.localeCompare(a.lastQIsoDate) ||
+      a.paxName.localeCompare(b.paxName)
+  );
+};
+
+/** Qs led per calendar month ("2025-11") in the window, oldest first. */
+export const countQsByMonth = (records: QRecord[], fromIsoDate: string | null) => {
+  const counts = new Map<string, number>();
+  for (const record of records) {
+    if (!inWindow(record, fromIsoDate)) continue;
+    const month = record.isoDate.slice(0, 7);
+    counts.set(month, (counts.get(month) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([month, count]) => ({ month, count }));
+};
+
+/** VQ/GQ/AQ workouts in the window, newest first. */
+export const listQEvents = (records: QRecord[], fromIsoDate: string | null) =>
+  records.filter((record) => record.tags.length > 0 && inWindow(record, fromIsoDate)).reverse();
+
+// Directory names carry the real name: "Blackout (Buu Quach)", "Vespa “Carlos”"
+const ROSTER_NAME_SUFFIX = /\s*(\(.*\)|[“"].*[”"])\s*$/;
+
+export type DormantQ = { aoId: AoId; paxName: string; lastQIsoDate: string; daysSince: number };
+
+/**
+ * PAX who have Q'd at an AO before but not in the last `days` days, longest
+ * idle first, plus roster names with no Q on record there at all.
+ * `rosterByAo` is the PAX directory list per AO.
+ */
+export const listDormantQs = (
+  records: QRecord[],
+  aoIds: AoId[],
+  rosterByAo: (aoId: AoId) => readonly string[],
+  todayIsoDate: string,
+  days: number = Q_STATS_DORMANT_DAYS
+) => {
+  const lastByPax = buildQLeaderboard(records, null);
+  const cutoff = addDaysToIsoDate(todayIsoDate, -days);
+
+  const dormant: DormantQ[] = lastByPax
+    .filter((row) => aoIds.includes(row.aoId) && row.lastQIsoDate < cutoff)
+    .map((row) => ({
+      aoId: row.aoId,
+      paxName: row.paxName,
+      lastQIsoDate: row.lastQIsoDate,
+      daysSince: daysBetween(row.lastQIsoDate, todayIsoDate),
+    }))
+    .sort((a, b) => b.daysSince - a.daysSince);
+
+  // Roster names that are also on the Q list count as seen, so each shows once
+  const seen = new Set(lastByPax.map((row) => `${row.aoId}|${row.paxKey}`));
+  const neverQd: Array<{ aoId: AoId; paxName: string }> = [];
+  for (const aoId of aoIds) {
+    for (const rosterName of rosterByAo(aoId)) {
+      const paxName = rosterName.replace(ROSTER_NAME_SUFFIX, "").trim();
+      const key = `${aoId}|${toPaxNameKey(paxName)}`;
+      if (!paxName || seen.has(key)) continue;
+      seen.add(key);
+      neverQd.push({ aoId, paxName });
+    }
+  }
+
+  return { dormant, neverQd };
+};
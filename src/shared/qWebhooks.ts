@@ -0,0 +1,132 @@
+import type { AoConfig, AoId } from "../ao/aoConfig";
+import { buildQSheetUrl, type CompassQScheduleRow } from "./compassQSchedule";
+import { splitQField } from "./paxNames";
+import { formatSlotDateTime } from "./qsNeeded";
+
+/* ----------------------------------------------------
+   "Tomorrow's Q" webhooks: who subscribes (qWebhooks
+   docs) and what each kind of endpoint is sent.
+---------------------------------------------------- */
+
+export const Q_WEBHOOK_FORMATS = ["slack", "groupme", "json"] as const;
+export type QWebhookFormat = (typeof Q_WEBHOOK_FORMATS)[number];
+
+const GROUPME_BOT_POST_URL = "https://api.groupme.com/v3/bots/post";
+// GroupMe drops longer bot messages
+const GROUPME_MAX_TEXT_LENGTH = 1000;
+
+export type QWebhookSubscription = {
+  id: string;
+  aoId: AoId;
+  format: QWebhookFormat;
+  // Slack incoming webhook / generic endpoint; GroupMe defaults to its bot API
+  url: string;
+  // GroupMe only
+  botId?: string;
+  // One line per workout; see fillQWebhookTemplate for the placeholders
+  template?: string;
+  // Also post when tomorrow's workout has no Q yet
+  includeOpen: boolean;
+  disabled: boolean;
+  // Workout date ("YYYY-MM-DD") last delivered, so a re-run doesn't post twice
+  lastSentDate?: string;
+};
+
+const toText = (value: unknown) => (value == null ? "" : String(value).trim());
+
+/** A qWebhooks doc, or null when it can't be delivered (no AO, bad URL, GroupMe without a bot). */
+export const normalizeQWebhookSubscription = (
+  doc: { id: string } & Record<string, unknown>
+): QWebhookSubscription | null => {
+  const aoId = toText(doc.aoId);
+  const format = (toText(doc.format).toLowerCase() || "json") as QWebhookFormat;
+  if (!aoId || !Q_WEBHOOK_FORMATS.includes(format)) return null;
+
+  const url = toText(doc.url) || (format === "groupme" ? GROUPME_BOT_POST_URL : "");
+  const botId = toText(doc.botId);
+  if (!/^https?:\/\//i.test(url) || (format === "groupme" && !botId)) return null;
+
+  return {
+    id: doc.id,
+    aoId,
+    format,
+    url,
+    ...(botId ? { botId } : {}),
+    ...(toText(doc.template) ? { template: toText(doc.template) } : {}),
+    includeOpen: doc.includeOpen === true,
+    disabled: doc.disabled === true,
+    ...(toText(doc.lastSentDate) ? { lastSentDate: toText(doc.lastSentDate) } : {}),
+  };
+};
+
+export const DEFAULT_Q_WEBHOOK_TEMPLATE = "Tomorrow's Q at {ao} is {q}";
+// With an AM and a PM workout the same day, each line needs its time
+const DEFAULT_MULTI_SLOT_TEMPLATE = "Tomorrow's {time} Q at {ao} is {q}";
+const OPEN_SLOT_TEMPLATE = "Tomorrow's {time} {ao} workout still needs a Q! Sign up: {qSheetUrl}";
+
+/** "Hardwood, @Sandbar" -> "@Hardwood & @Sandbar" */
+const formatQMentions = (qName: string) =>
+  splitQField(qName)
+    .map((name) => `@${name}`)
+    .join(" & ");
+
+/**
+ * Placeholders: {ao} (short name), {aoName}, {q} ("@Hardwood"), {date}
+ * ("Tue 10/20"), {time} ("5:30 AM"), {preblastUrl}, {qSheetUrl}.
+ */
+export const fillQWebhookTemplate = (
+  template: string,
+  ao: Pick<AoConfig, "id" | "shortName">,
+  row: CompassQScheduleRow
+) => {
+  const [date, time] = formatSlotDateTime(row.workoutDate, row.startTime).split(", ");
+  const values: Record<string, string> = {
+    ao: ao.shortName,
+    aoName: row.aoName,
+    q: formatQMentions(row.qName),
+    date,
+    time,
+    preblastUrl: row.preblastUrl,
+    qSheetUrl: buildQSheetUrl(ao.id),
+  };
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+};
+
+/** One line per workout tomorrow; empty when there is nothing this subscriber wants. */
+export const buildQWebhookText = (
+  subscription: Pick<QWebhookSubscription, "template" | "includeOpen">,
+  ao: Pick<AoConfig, "id" | "shortName">,
+  rows: CompassQScheduleRow[]
+) => {
+  const template =
+    subscription.template ||
+    (rows.length > 1 ? DEFAULT_MULTI_SLOT_TEMPLATE : DEFAULT_Q_WEBHOOK_TEMPLATE);
+  return rows
+    .filter((row) => !row.isOpen || subscription.includeOpen)
+    .map((row) => fillQWebhookTemplate(row.isOpen ? OPEN_SLOT_TEMPLATE : template, ao, row))
+    .join("\n");
+};
+
+/** Request body for the subscriber's endpoint, or null when there is nothing to post. */
+export const buildQWebhookPayload = (
+  subscription: QWebhookSubscription,
+  ao: Pick<AoConfig, "id" | "shortName" | "displayName">,
+  workoutDate: string,
+  rows: CompassQScheduleRow[]
+): Record<string, unknown> | null => {
+  const text = buildQWebhookText(subscription, ao, rows);
+  if (!text) return null;
+
+  if (subscription.format === "slack") return { text };
+  if (subscription.format === "groupme") {
+    return { bot_id: subscription.botId, text: text.slice(0, GROUPME_MAX_TEXT_LENGTH) };
+  }
+  return {
+    event: "upcoming_qs",
+    aoId: ao.id,
+    aoName: ao.displayName,
+    workoutDate,
+    text,
+    workouts: rows.filter((row) => !row.isOpen || subscription.includeOpen),
+  };
+};
@@ -0,0 +1,102 @@
+import { AO_LIST, type AoConfig } from "../ao/aoConfig";
+import { buildQSheetUrl, type WorkoutSessionScheduleSource } from "./compassQSchedule";
+import type { AoCalendarOptions } from "./aoCalendar";
+import { isUnfilledRegionWorkout, listRegionWorkouts } from "./regionSchedule";
+import type { ResolvedScheduleSlot } from "./scheduleExceptions";
+import { getIsoDateDayOfWeek } from "./timeZone";
+
+/* ----------------------------------------------------
+   "Qs needed": open slots per AO and the BAND post
+   that begs for someone to take them.
+---------------------------------------------------- */
+
+export const QS_NEEDED_DEFAULT_LOOKAHEAD_DAYS = 14;
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export type QsNeededAo = {
+  ao: AoConfig;
+  qSheetUrl: string;
+  // Happening slots with nobody on them, in start-time order
+  slots: ResolvedScheduleSlot[];
+};
+
+/**
+ * AOs with at least one open slot in the window, in `aos` order. AOs that
+ * sign Qs up off-app are skipped, since an empty `q` there means nothing.
+ */
+export const listQsNeeded = (
+  persistedSessions: WorkoutSessionScheduleSource[],
+  options: AoCalendarOptions = { lookaheadDays: QS_NEEDED_DEFAULT_LOOKAHEAD_DAYS },
+  aos: AoConfig[] = AO_LIST
+): QsNeededAo[] => {
+  const slotsByAo = new Map<string, ResolvedScheduleSlot[]>();
+  for (const entry of listRegionWorkouts(persistedSessions, options, aos)) {
+    if (!isUnfilledRegionWorkout(entry)) continue;
+    const slots = slotsByAo.get(entry.ao.id) || [];
+    slots.push(entry.slot);
+    slotsByAo.set(entry.ao.id, slots);
+  }
+
+  return aos
+    .filter((ao) => slotsByAo.has(ao.id))
+    .map((ao) => ({ ao, qSheetUrl: buildQSheetUrl(ao.id), slots: slotsByAo.get(ao.id)! }));
+};
+
+const formatTime12 = (time24: string) => {
+  const [hh, mm] = time24.split(":").map(Number);
+  const ap = hh >= 12 ? "PM" : "AM";
+  return `${((hh + 11) % 12) + 1}:${String(mm || 0).padStart(2, "0")} ${ap}`;
+};
+
+/** "2026-10-20" + "05:30" -> "Tue 10/20, 5:30 AM" */
+export const formatSlotDateTime = (isoDate: string, startTime24: string) => {
+  const [, month, day] = isoDate.split("-").map(Number);
+  const weekday = DAY_NAMES[getIsoDateDayOfWeek(isoDate)];
+  return `${weekday} ${month}/${day}, ${formatTime12(startTime24)}`;
+};
+
+/** "Tue 10/20, 5:30 AM (5K)" */
+export const formatQsNeededSlot = (slot: ResolvedScheduleSlot) => {
+  const label = slot.label ? ` (${slot.label})` : "";
+  return `${formatSlotDateTime(slot.isoDate, slot.startTime24)}${label}`;
+};
+
+/** Ready-to-paste BAND post; one block per AO with its hashtags and Q-sheet link. */
+export const buildQsNeededPost = (groups: QsNeededAo[], lookaheadDays: number) => {
+  if (groups.length === 0) {
+    return `Every workout in the next ${lookaheadDays} days has a Q. Thanks, men! 💪`;
+  }
+
+  const blocks = groups.map(({ ao, qSheetUrl, slots }) =>
+    [
+      `📍 ${ao.displayName}`,
+      ...slots.map((slot) => `• ${formatQsNeededSlot(slot)}`),
+      `Sign up: ${qSheetUrl}`,
+      ao.hashtags.join(" "),
+    ]
+      .filter(Boolean)
+      .join("\n")
+  );
+
+  return [
+    "🚨 Qs NEEDED 🚨",
+    `These workouts in the next ${lookaheadDays} days still need a Q. Step up and lead!`,
+    ...blocks,
+  ].join("\n\n");
+};
+
+/** Plain JSON shape for the qs-needed endpoint. */
+export const toQsNeededJson = (groups: QsNeededAo[]) =>
+  groups.map(({ ao, qSheetUrl, slots }) => ({
+    aoId: ao.id,
+    aoName: ao.displayName,
+    qSheetUrl,
+    hashtags: ao.hashtags,
+    openSlots: slots.map((slot) => ({
+      workoutDate: slot.isoDate,
+      startTime: slot.startTime24,
+      timeZone: ao.timeZone,
+      label: slot.label || "",
+    })),
+  }));
@@ -0,0 +1,78 @@
+import { AO_LIST, type AoConfig } from "../ao/aoConfig";
+import type { DateKeyWindow, WorkoutSessionScheduleSource } from "./compassQSchedule";
+import {
+  listAoCalendarEntries,
+  type AoCalendarOptions,
+  type PaxCalendarEntry,
+} from "./aoCalendar";
+import { zonedTimeToUtc } from "./timeZone";
+import { toDateKey } from "../utils/scheduleGenerator";
+
+export const REGION_DASHBOARD_DAYS = 7;
+
+/**
+ * - assigned: a Q is on the slot
+ * - open: nobody has claimed it
+ * - offApp: the AO signs Qs up on a sheet/form this app can't read yet
+ */
+export type RegionQStatus = "assigned" | "open" | "offApp";
+
+export type RegionWorkoutEntry = PaxCalendarEntry & { qStatus: RegionQStatus };
+
+/** True when the AO's Q sign-ups live outside workoutSessions (a synced sheet is mirrored in). */
+export const tracksQsOffApp = (ao: Pick<AoConfig, "qSheet">) =>
+  !ao.qSheet.native &&
+  !ao.qSheet.sheetSync &&
+  Boolean(ao.qSheet.googleSheetUrl || ao.qSheet.externalUrl || ao.qSheet.tinyUrl);
+
+/**
+ * The dateKey range to load for `lookaheadDays` from today, with a day of
+ * slack each side for AOs whose clock is ahead of or behind this device.
+ */
+export const getRegionDateKeyWindow = (lookaheadDays: number, now = new Date()): DateKeyWindow => {
+  const dayOffset = (days: number) =>
+    toDateKey(new Date(now.getFullYear(), now.getMonth(), now.getDate() + days));
+  return { fromDateKey: dayOffset(-1), toDateKey: dayOffset(lookaheadDays + 1) };
+};
+
+/**
+ * Every slot across the given AOs in the window (cancelled ones included,
+ * flagged by `slot.isHappening`), ordered by actual start time.
+ */
+export const listRegionWorkouts = (
+  persistedSessions: WorkoutSessionScheduleSource[],
+  options: AoCalendarOptions = { lookaheadDays: REGION_DASHBOARD_DAYS },
+  aos: AoConfig[] = AO_LIST
+): RegionWorkoutEntry[] =>
+  aos
+    .flatMap((ao) =>
+      listAoCalendarEntries(ao, persistedSessions, options).map((entry) => ({
+        ...entry,
+        ao,
+        qStatus: (entry.qName
+          ? "assigned"
+          : tracksQsOffApp(ao)
+            ? "offApp"
+            : "open") as RegionQStatus,
+      }))
+    )
+    .sort(
+      (a, b) =>
+        zonedTimeToUtc(a.slot.isoDate, a.slot.startTime24, a.ao.timeZone).getTime() -
+          zonedTimeToUtc(b.slot.isoDate, b.slot.startTime24, b.ao.timeZone).getTime() ||
+        a.ao.shortName.localeCompare(b.ao.shortName)
+    );
+
+/** Slots that are happening but still need a Q. */
+export const isUnfilledRegionWorkout = (entry: RegionWorkoutEntry) =>
+  entry.slot.isHappening && entry.qStatus === "open";
+
+/** AO id -> number of unfilled slots, only for AOs that have any. */
+export const countUnfilledSlotsByAo = (entries: RegionWorkoutEntry[]) => {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    if (!isUnfilledRegionWorkout(entry)) continue;
+    counts.set(entry.ao.id, (counts.get(entry.ao.id) || 0) + 1);
+  }
+  return counts;
+};
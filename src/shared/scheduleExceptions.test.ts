@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import type { AoConfig, ScheduleException } from "../ao/aoConfig";
+import {
+  dateKeyToIsoDate,
+  findScheduleException,
+  findUpcomingScheduleSlot,
+  getScheduleSlotsForIsoDate,
+  resolveScheduleSlot,
+  sessionTimeToTime24,
+} from "./scheduleExceptions";
+
+const EARLY = { startTime24: "05:30", endTime24: "06:15" };
+const LATE = { startTime24: "06:30", endTime24: "07:15" };
+
+// 2026-10-20 is a Tuesday
+const makeAo = (scheduleExceptions: ScheduleException[] = []) =>
+  ({
+    id: "compass",
+    timeZone: "America/Chicago",
+    scheduleBlocks: [
+      { daysOfWeek: [2, 4], ...LATE },
+      { daysOfWeek: [2, 4], ...EARLY },
+    ],
+    scheduleExceptions,
+  }) as Pick<AoConfig, "id" | "scheduleBlocks" | "scheduleExceptions" | "timeZone">;
+
+describe("findScheduleException", () => {
+  it("prefers a slot-specific exception over a whole-day one", () => {
+    const ao = makeAo([
+      { date: "2026-10-20", kind: "holiday", label: "Whole day" },
+      { date: "2026-10-20", kind: "cancelled", startTime24: "05:30" },
+    ]);
+
+    expect(findScheduleException(ao, "2026-10-20", "05:30")?.kind).toBe("cancelled");
+    expect(findScheduleException(ao, "2026-10-20", "06:30")?.kind).toBe("holiday");
+    expect(findScheduleException(ao, "2026-10-22", "05:30")).toBeUndefined();
+  });
+});
+
+describe("resolveScheduleSlot", () => {
+  it("moves a time-changed slot but keeps its regular start as identity", () => {
+    const ao = makeAo([
+      {
+        date: "2026-10-20",
+        kind: "timeChange",
+        startTime24: "05:30",
+        newStartTime24: "06:00",
+        label: "5K",
+      },
+    ]);
+    const slot = resolveScheduleSlot(ao, "2026-10-20", EARLY);
+
+    expect(slot).toMatchObject({
+      regularStartTime24: "05:30",
+      startTime24: "06:00",
+      endTime24: "06:15",
+      isHappening: true,
+      label: "Moved to 6:00 AM (5K)",
+    });
+  });
+
+  it("only keeps a convergence slot at the hosting AO", () => {
+    const hostedHere = makeAo([
+      { date: "2026-10-20", kind: "convergence", convergenceAoId: "compass" },
+    ]);
+    const hostedElsewhere = makeAo([
+      { date: "2026-10-20", kind: "convergence", convergenceAoId: "colosseum" },
+    ]);
+
+    expect(resolveScheduleSlot(hostedHere, "2026-10-20", EARLY).isHappening).toBe(true);
+    expect(resolveScheduleSlot(hostedElsewhere, "2026-10-20", EARLY).isHappening).toBe(false);
+  });
+
+  it("drops cancelled and holiday slots", () => {
+    const ao = makeAo([{ date: "2026-10-20", kind: "cancelled", label: "Lightning" }]);
+    const slot = resolveScheduleSlot(ao, "2026-10-20", EARLY);
+
+    expect(slot.isHappening).toBe(false);
+    expect(slot.label).toBe("Cancelled (Lightning)");
+  });
+});
+
+describe("getScheduleSlotsForIsoDate", () => {
+  it("returns the day's slots earliest first and none on off days", () => {
+    const ao = makeAo();
+
+    expect(getScheduleSlotsForIsoDate(ao, "2026-10-20").map((slot) => slot.startTime24)).toEqual([
+      "05:30",
+      "06:30",
+    ]);
+    expect(getScheduleSlotsForIsoDate(ao, "2026-10-21")).toEqual([]);
+  });
+});
+
+describe("findUpcomingScheduleSlot", () => {
+  it("skips slots that have started and reports the first cancelled one passed over", () => {
+    const ao = makeAo([{ date: "2026-10-22", kind: "holiday", label: "Closed" }]);
+    // 06:00 in Chicago (CDT, UTC-5) on Tuesday: 05:30 has started, 06:30 hasn't
+    const tuesdayMorning = new Date("2026-10-20T11:00:00Z");
+    expect(findUpcomingScheduleSlot(ao, tuesdayMorning).slot?.startTime24).toBe("06:30");
+
+    // After Tuesday's last slot, Thursday is a holiday, so the next one is the week after
+    const tuesdayNight = new Date("2026-10-21T02:00:00Z");
+    const { slot, skipped } = findUpcomingScheduleSlot(ao, tuesdayNight);
+    expect(slot?.isoDate).toBe("2026-10-27");
+    expect(slot?.startTime24).toBe("05:30");
+    expect(skipped?.isoDate).toBe("2026-10-22");
+  });
+});
+
+describe("date and time keys", () => {
+  it("converts stored keys to ISO dates and 24h times", () => {
+    expect(dateKeyToIsoDate("20251225")).toBe("2025-12-25");
+    expect(dateKeyToIsoDate("12/25/25")).toBe("");
+    expect(sessionTimeToTime24("530")).toBe("05:30");
+    expect(sessionTimeToTime24("05:30")).toBe("05:30");
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  DEFAULT_AO_TIME_ZONE,
+  getAoRegistry,
+  type AoConfig,
+  type ScheduleBlock,
+  type ScheduleException,
+} from "../ao/aoConfig";
+import {
+  addDaysToIsoDate,
+  getIsoDateDayOfWeek,
+  getIsoDateInTimeZone,
+  getTime24InTimeZone,
+} from "./timeZone";
+
+/**
+ * One regular schedule slot on a specific date, with any exception applied.
+ * `isHappening` is false when the AO doesn't meet (cancelled, holiday, or a
+ * convergence hosted somewhere else).
+ */
+export type ResolvedScheduleSlot = {
+  isoDate: string;
+  regularStartTime24: string;
+  startTime24: string;
+  endTime24: string;
+  isHappening: boolean;
+  exception?: ScheduleException;
+  label?: string;
+};
+
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+/** "20251225" -> "2025-12-25" */
+export const dateKeyToIsoDate = (dateKey: string) =>
+  /^\d{8}$/.test(dateKey)
+    ? `${dateKey.slice(0, 4)}-${dateKey.slice(4, 6)}-${dateKey.slice(6, 8)}`
+    : "";
+
+/** "0530" / "530" / "05:30" -> "05:30" */
+export const sessionTimeToTime24 = (time: string) => {
+  const digits = String(time || "").replace(/\D/g, "").padStart(4, "0").slice(0, 4);
+  return `${digits.slice(0, 2)}:${digits.slice(2)}`;
+};
+
+const formatTime12 = (time24: string) => {
+  const [hh, mm] = time24.split(":").map(Number);
+  const suffix = hh >= 12 ? "PM" : "AM";
+  const hour12 = hh % 12 === 0 ? 12 : hh % 12;
+  return `${hour12}:${pad2(mm || 0)} ${suffix}`;
+};
+
+/**
+ * The exception for one slot, if any. A slot-specific exception wins over
+ * one that covers the whole day.
+ */
+export const findScheduleException = (
+  ao: Pick<AoConfig, "scheduleExceptions">,
+  isoDate: string,
+  startTime24?: string
+): ScheduleException | undefined => {
+  const forDate = (ao.scheduleExceptions || []).filter((e) => e.date === isoDate);
+  return (
+    (startTime24 && forDate.find((e) => e.startTime24 === startTime24)) ||
+    forDate.find((e) => !e.startTime24)
+  );
+};
+
+/** Short human label: "Cancelled", "Christmas", "Convergence at Colosseum", "Moved to 6:00 AM (5K)". */
+export const describeScheduleException = (exception: ScheduleException): string => {
+  switch (exception.kind) {
+    case "cancelled":
+      return exception.label ? `Cancelled (${exception.label})` : "Cancelled";
+    case "holiday":
+      return exception.label || "Holiday";
+    case "convergence": {
+      const host = exception.convergenceAoId
+        ? getAoRegistry()[exception.convergenceAoId]?.shortName ||
+          exception.convergenceAoId
+        : "";
+      const base = host ? `Convergence at ${host}` : "Convergence";
+      return exception.label ? `${base} (${exception.label})` : base;
+    }
+    case "timeChange": {
+      const moved = exception.newStartTime24
+        ? `Moved to ${formatTime12(exception.newStartTime24)}`
+        : "Time change";
+      return exception.label ? `${moved} (${exception.label})` : moved;
+    }
+  }
+};
+
+/**
+ * Apply the AO's exceptions to one regular slot. A convergence hosted by
+ * this AO still happens here (just relabeled).
+ */
+export const resolveScheduleSlot = (
+  ao: Pick<AoConfig, "id" | "scheduleExceptions">,
+  isoDate: string,
+  block: Pick<ScheduleBlock, "startTime24" | "endTime24">
+): ResolvedScheduleSlot => {
+  const exception = findScheduleException(ao, isoDate, block.startTime24);
+  const slot: ResolvedScheduleSlot = {
+    isoDate,
+    regularStartTime24: block.startTime24,
+    startTime24: block.startTime24,
+    endTime24: block.endTime24,
+    isHappening: true,
+  };
+  if (!exception) return slot;
+
+  slot.exception = exception;
+  slot.label = describeScheduleException(exception);
+
+  if (exception.kind === "timeChange") {
+    slot.startTime24 = exception.newStartTime24 || block.startTime24;
+    slot.endTime24 = exception.newEndTime24 || slot.endTime24;
+  } else if (exception.kind === "convergence") {
+    slot.isHappening = exception.convergenceAoId === ao.id;
+  } else {
+    slot.isHappening = false;
+  }
+  return slot;
+};
+
+/** Every regular slot on a calendar date ("YYYY-MM-DD"), exceptions applied, earliest first. */
+export const getScheduleSlotsForIsoDate = (
+  ao: Pick<AoConfig, "id" | "scheduleBlocks" | "scheduleExceptions">,
+  isoDate: string
+): ResolvedScheduleSlot[] => {
+  const dayOfWeek = getIsoDateDayOfWeek(isoDate);
+  return (ao.scheduleBlocks || [])
+    .filter((block) => block.daysOfWeek.includes(dayOfWeek))
+    .map((block) => resolveScheduleSlot(ao, isoDate, block))
+    .sort((a, b) => a.startTime24.localeCompare(b.startTime24));
+};
+
+type ScheduledAo = Pick<
+  AoConfig,
+  "id" | "scheduleBlocks" | "scheduleExceptions" | "timeZone"
+>;
+
+// How far the generators look for a next/most recent workout
+export const SLOT_SEARCH_DAYS = 14;
+
+/** Today's date ("YYYY-MM-DD") on the AO's own clock, not the browser's or server's. */
+export const getAoTodayIsoDate = (
+  ao: Pick<AoConfig, "timeZone"> | undefined,
+  now: Date = new Date()
+) => getIsoDateInTimeZone(now, ao?.timeZone || DEFAULT_AO_TIME_ZONE);
+
+/**
+ * The next slot that hasn't started yet in the AO's time zone. `skipped` is
+ * the first cancelled/holiday/convergence slot passed over on the way.
+ */
+export const findUpcomingScheduleSlot = (
+  ao: ScheduledAo,
+  now: Date = new Date()
+): { slot?: ResolvedScheduleSlot; skipped?: ResolvedScheduleSlot } => {
+  const todayIso = getAoTodayIsoDate(ao, now);
+  const nowTime24 = getTime24InTimeZone(now, ao.timeZone || DEFAULT_AO_TIME_ZONE);
+  let skipped: ResolvedScheduleSlot | undefined;
+
+  for (let add = 0; add <= SLOT_SEARCH_DAYS; add++) {
+    for (const slot of getScheduleSlotsForIsoDate(ao, addDaysToIsoDate(todayIso, add))) {
+      if (add === 0 && slot.startTime24 <= nowTime24) continue;
+      if (!slot.isHappening) {
+        skipped ??= slot;
+        continue;
+      }
+      return { slot, skipped };
+    }
+  }
+  return { skipped };
+};
+
+/** The latest slot that has already started in the AO's time zone, skipping ones that didn't happen. */
+export const findMostRecentScheduleSlot = (
+  ao: ScheduledAo,
+  now: Date = new Date()
+): ResolvedScheduleSlot | undefined => {
+  const todayIso = getAoTodayIsoDate(ao, now);
+  const nowTime24 = getTime24InTimeZone(now, ao.timeZone || DEFAULT_AO_TIME_ZONE);
+
+  for (let back = 0; back <= SLOT_SEARCH_DAYS; back++) {
+    const started = getScheduleSlotsForIsoDate(ao, addDaysToIsoDate(todayIso, -back)).filter(
+      (slot) => slot.isHappening && (back > 0 || slot.startTime24 <= nowTime24)
+    );
+    if (started.length) return started[started.length - 1];
+  }
+  return undefined;
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatSessionDesignations,
+  getSessionDesignations,
+  parseSessionDesignations,
+} from "./sessionDesignations";
+
+describe("parseSessionDesignations", () => {
+  it("reads TIR out of the notes column", () => {
+    expect(parseSessionDesignations("TIR")).toEqual({
+      designations: [{ kind: "TIR" }],
+      isOnlyDesignations: true,
+    });
+  });
+
+  it("reads the free-text forms the sheet has used", () => {
+    expect(parseSessionDesignations("VQ/BQ!!!")).toEqual({
+      designations: [{ kind: "VQ" }, { kind: "BQ" }],
+      isOnlyDesignations: true,
+    });
+    expect(parseSessionDesignations("AQ (2 yr)").designations).toEqual([{ kind: "AQ", years: 2 }]);
+    expect(parseSessionDesignations("2..0").designations).toEqual([{ kind: "2.0" }]);
+  });
+
+  it("keeps notes that say more than the tags", () => {
+    const { designations, isOnlyDesignations } =
+      parseSessionDesignations("TIR - meet at the pavilion");
+
+    expect(designations).toEqual([{ kind: "TIR" }]);
+    expect(isOnlyDesignations).toBe(false);
+  });
+
+  it("doesn't match tags inside other words", () => {
+    expect(parseSessionDesignations("Tired legs, GQuest").designations).toEqual([]);
+  });
+});
+
+describe("formatSessionDesignations", () => {
+  it("writes picker order that parses back to the same tags", () => {
+    const text = formatSessionDesignations([
+      { kind: "TIR" },
+      { kind: "AQ", years: 3 },
+      { kind: "VQ" },
+    ]);
+
+    expect(text).toBe("VQ, AQ (3 yr), TIR");
+    expect(parseSessionDesignations(text).designations).toEqual([
+      { kind: "VQ" },
+      { kind: "AQ", years: 3 },
+      { kind: "TIR" },
+    ]);
+  });
+});
+
+describe("getSessionDesignations", () => {
+  it("prefers the stored field and falls back to the notes", () => {
+    expect(getSessionDesignations({ designations: [{ kind: "GQ" }], notes: "TIR" })).toEqual([
+      { kind: "GQ" },
+    ]);
+    expect(getSessionDesignations({ notes: "TIR" })).toEqual([{ kind: "TIR" }]);
+  });
+});
@@ -0,0 +1,198 @@
+/* ----------------------------------------------------
+   Session designations: the VQ / AQ / CSAUP style tags
+   that used to live as free text in the notes column.
+   Stored as `designations` on workoutSessions docs.
+---------------------------------------------------- */
+
+export const SESSION_DESIGNATION_KINDS = [
+  "VQ",
+  "GQ",
+  "AQ",
+  "BQ",
+  "CSAUP",
+  "TIR",
+  "CONVERGENCE",
+  "2.0",
+] as const;
+export type SessionDesignationKind = (typeof SESSION_DESIGNATION_KINDS)[number];
+
+/** `years` is only used by AQ ("AQ (2 yr)"). */
+export type SessionDesignation = { kind: SessionDesignationKind; years?: number };
+
+export const SESSION_DESIGNATION_LABELS: Record<SessionDesignationKind, string> = {
+  VQ: "Virgin Q",
+  GQ: "Guest Q",
+  AQ: "Anniversary Q",
+  BQ: "Birthday Q",
+  CSAUP: "CSAUP",
+  TIR: "TIR",
+  CONVERGENCE: "Convergence",
+  "2.0": "2.0 (kids welcome)",
+};
+
+// What the notes column has held for each: "VQ/BQ!!!", "AQ (1 Yr)", "2..0", "2.0*"
+const DESIGNATION_PATTERNS: Record<SessionDesignationKind, RegExp> = {
+  VQ: /\bVQ\b/gi,
+  GQ: /\bGQ\b/gi,
+  AQ: /\bAQ\b(?:\s*\(?\s*(\d+)\s*(?:yrs?|years?)\s*\)?)?/gi,
+  BQ: /\bBQ\b/gi,
+  CSAUP: /\bCSAUP\b/gi,
+  TIR: /\bTIR\b/gi,
+  CONVERGENCE: /\bconvergence\b/gi,
+  "2.0": /\b2\s*\.+\s*0\b/g,
+};
+
+const isDesignationKind = (value: unknown): value is SessionDesignationKind =>
+  SESSION_DESIGNATION_KINDS.includes(value as SessionDesignationKind);
+
+/** "AQ (2 yr)", "VQ", "Convergence" */
+export const formatSessionDesignation = ({ kind, years }: SessionDesignation) =>
+  kind === "AQ" && years
+    ? `AQ (${years} yr)`
+    : kind === "CONVERGENCE"
+      ? "Convergence"
+      : kind;
+
+/** Comma-separated, in picker order; parseSessionDesignations reads it back. */
+export const formatSessionDesignations = (designations: SessionDesignation[]) =>
+  sortSessionDesignations(designations).map(formatSessionDesignation).join(", ");
+
+export const sortSessionDesignations = (designations: SessionDesignation[]) =>
+  [...designations].sort(
+    (a, b) =>
+      SESSION_DESIGNATION_KINDS.indexOf(a.kind) - SESSION_DESIGNATION_KINDS.indexOf(b.kind)
+  );
+
+/**
+ * Pull designations out of free text. `isOnlyDesignations` is true when
+ * nothing but tags and punctuation is left ("VQ/BQ!!!"), so a migration can
+ * clear the notes without losing anything a PAX wrote.
+ */
+export const parseSessionDesignations = (text: string) => {
+  let remaining = String(text || "");
+  const designations: SessionDesignation[] = [];
+
+  for (const kind of SESSION_DESIGNATION_KINDS) {
+    const pattern = DESIGNATION_PATTERNS[kind];
+    let years: number | undefined;
+    let found = false;
+    remaining = remaining.replace(pattern, (_match, yearText: unknown) => {
+      found = true;
+      // Patterns without a year group get the match offset here instead
+      if (typeof yearText === "string") years = Number(yearText);
+      return " ";
+    });
+    if (found) designations.push(years ? { kind, years } : { kind });
+  }
+
+  return {
+    designations,
+    isOnlyDesignations: designations.length > 0 && !/[a-z0-9]/i.test(remaining),
+  };
+};
+
+/** Firestore value -> designations, dropping anything unrecognised. */
+export const normalizeSessionDesignations = (value: unknown): SessionDesignation[] =>
+  Array.isArray(value)
+    ? value.flatMap((entry) => {
+        const kind = (entry as { kind?: unknown } | null)?.kind;
+        if (!isDesignationKind(kind)) return [];
+        const years = Number((entry as { years?: unknown }).years);
+        return [kind === "AQ" && years > 0 ? { kind, years } : { kind }];
+      })
+    : [];
+
+/**
+ * A session's designations. Docs from before the field existed (and the
+ * bundled sheet history) fall back to whatever the notes say.
+ */
+export const getSessionDesignations = (session: {
+  designations?: unknown;
+  notes?: unknown;
+}): SessionDesignation[] =>
+  Array.isArray(session.designations)
+    ? normalizeSessionDesignations(session.designations)
+    : parseSessionDesignations(String(session.notes ?? "")).designations;
+
+/* ---------------- Preblast / backblast callouts ---------------- */
+
+type CalloutCopy = {
+  emoji: string;
+  upcoming: (q: string, years?: number) => string;
+  past: (q: string, years?: number) => string;
+};
+
+const yearsText = (years?: number) => (years ? `${years} year${years === 1 ? "" : "s"}` : "");
+
+const CALLOUTS: Record<SessionDesignationKind, CalloutCopy> = {
+  VQ: {
+    emoji: "🔥",
+    upcoming: (q) => `VQ ALERT: ${q} is leading for the first time. Come out and show your support!`,
+    past: (q) => `Congrats to ${q} on a strong VQ!`,
+  },
+  GQ: {
+    emoji: "🤝",
+    upcoming: (q) => `Guest Q: ${q} is visiting to lead. Let's give a warm welcome.`,
+    past: (q) => `Thanks to ${q} for making the trip to Q.`,
+  },
+  AQ: {
+    emoji: "🎉",
+    upcoming: (q, years) =>
+      years
+        ? `Anniversary Q: ${q} is celebrating ${yearsText(years)} in F3. Come help mark it!`
+        : `Anniversary Q: ${q} is celebrating an F3 anniversary. Come help mark it!`,
+    past: (q, years) =>
+      years
+        ? `Happy F3 anniversary, ${q}! ${yearsText(years)} in the gloom and still leading.`
+        : `Happy F3 anniversary, ${q}!`,
+  },
+  BQ: {
+    emoji: "🎂",
+    upcoming: (q) => `Birthday Q: ${q} is spending the birthday leading us. Don't miss it.`,
+    past: (q) => `Happy birthday, ${q}!`,
+  },
+  CSAUP: {
+    emoji: "⚠️",
+    upcoming: () => "CSAUP: plan on something longer and harder than usual.",
+    past: () => "CSAUP complete. Well done, PAX.",
+  },
+  TIR: {
+    emoji: "📌",
+    upcoming: () => "TIR: this one's on the calendar for a reason. Don't miss it.",
+    past: () => "TIR in the books. Thanks for posting, PAX.",
+  },
+  CONVERGENCE: {
+    emoji: "🌐",
+    upcoming: () => "Convergence: PAX from every AO are welcome.",
+    past: () => "Thanks to everyone who came out for the convergence.",
+  },
+  "2.0": {
+    emoji: "👦",
+    upcoming: () => "2.0 workout: bring your kids.",
+    past: () => "Great to see the 2.0s out with us.",
+  },
+};
+
+/**
+ * One line per designation for the top of a preblast ("upcoming") or
+ * backblast ("past"). Empty when there is nothing to celebrate.
+ */
+export const buildDesignationCallouts = (
+  designations: SessionDesignation[],
+  qName: string,
+  { tense, useEmojis }: { tense: "upcoming" | "past"; useEmojis: boolean }
+) =>
+  sortSessionDesignations(designations).map(({ kind, years }) => {
+    const copy = CALLOUTS[kind];
+    const line = copy[tense](qName || "the Q", years);
+    return useEmojis ? `${copy.emoji} ${line}` : line;
+  });
+
+/** Callouts, a blank line, then the post; the post unchanged when there are none. */
+export const prependDesignationCallouts = (
+  text: string,
+  ...args: Parameters<typeof buildDesignationCallouts>
+) => {
+  const callouts = buildDesignationCallouts(...args);
+  return callouts.length ? `${callouts.join("\n")}\n\n${text}` : text;
+};
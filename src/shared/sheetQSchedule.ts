@@ -0,0 +1,183 @@
+import type { AoConfig } from "../ao/aoConfig";
+import type { WorkoutSession } from "../types";
+import { dateStringToKey } from "./compassQSchedule";
+import { parseTableTime } from "./qSheetTable";
+import { dateKeyToIsoDate, getScheduleSlotsForIsoDate } from "./scheduleExceptions";
+import { isoDateToLocalDate } from "./timeZone";
+import {
+  buildWorkoutSessionId,
+  getSessionSlotKey,
+  toSessionDateLabel,
+  toSessionTime,
+} from "../utils/scheduleGenerator";
+
+/* ----------------------------------------------------
+   An AO's own Google Sheet Q schedule -> WorkoutSession
+   rows. Each sheet has its own layout, so columns are
+   found by header name rather than position.
+---------------------------------------------------- */
+
+export type SheetQField = "q" | "notes" | "dbj" | "food";
+type SheetColumn = "date" | "time" | SheetQField;
+
+// Normalized header text (lowercase, letters/digits only) -> column
+const HEADER_ALIASES: Record<string, SheetColumn> = {
+  date: "date",
+  day: "date",
+  workoutdate: "date",
+  time: "time",
+  start: "time",
+  starttime: "time",
+  q: "q",
+  qs: "q",
+  qname: "q",
+  whosq: "q",
+  notes: "notes",
+  note: "notes",
+  theme: "notes",
+  comments: "notes",
+  dbj: "dbj",
+  food: "food",
+  coffeeteria: "food",
+};
+
+// Title rows / instructions often sit above the real header
+const HEADER_SCAN_ROWS = 15;
+
+// Sheets serial dates count days from 1899-12-30
+const SHEETS_EPOCH_UTC = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export type SheetWorkoutSession = WorkoutSession & {
+  // 1-based row number in the sheet tab, for writing a cell back
+  sheetRow: number;
+};
+
+export type SheetQSchedule = {
+  sessions: SheetWorkoutSession[];
+  // 0-based column index per field the sheet has
+  columns: Partial<Record<SheetQField, number>>;
+};
+
+/** ".../spreadsheets/d/<id>/edit?gid=123#gid=123" -> { spreadsheetId, gid } */
+export const parseGoogleSheetUrl = (url: string) => {
+  const match = String(url || "").match(/\/spreadsheets\/d\/([a-zA-Z0-9_-]+)/);
+  if (!match) return null;
+  const gidMatch = url.match(/[#?&]gid=(\d+)/);
+  return { spreadsheetId: match[1], gid: gidMatch ? gidMatch[1] : "0" };
+};
+
+const normalizeHeader = (value: unknown) =>
+  String(value ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]/g, "");
+
+const cellText = (value: unknown) =>
+  value === null || value === undefined ? "" : String(value).trim();
+
+// Exact alias first, then "Theme / Notes"-style headers containing a longer alias
+const toSheetColumn = (cell: unknown): SheetColumn | undefined => {
+  const header = normalizeHeader(cell);
+  if (!header) return undefined;
+  if (HEADER_ALIASES[header]) return HEADER_ALIASES[header];
+  const alias = Object.keys(HEADER_ALIASES).find(
+    (key) => key.length >= 4 && header.includes(key)
+  );
+  return alias ? HEADER_ALIASES[alias] : undefined;
+};
+
+const findHeader = (rows: unknown[][]) => {
+  for (let index = 0; index < Math.min(rows.length, HEADER_SCAN_ROWS); index++) {
+    const columns: Partial<Record<SheetColumn, number>> = {};
+    (rows[index] || []).forEach((cell, columnIndex) => {
+      const column = toSheetColumn(cell);
+      if (column && columns[column] === undefined) columns[column] = columnIndex;
+    });
+    if (columns.date !== undefined && columns.q !== undefined) {
+      return { headerIndex: index, columns };
+    }
+  }
+  return null;
+};
+
+/** Serial number (UNFORMATTED_VALUE) or text like "11/22/25" / "Sat 11/22/2025" -> "YYYYMMDD" */
+const parseSheetDateKey = (value: unknown) => {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    const date = new Date(SHEETS_EPOCH_UTC + Math.floor(value) * MS_PER_DAY);
+    return date.toISOString().slice(0, 10).replace(/-/g, "");
+  }
+  const dateKey = dateStringToKey(cellText(value));
+  return dateKey === "99999999" ? "" : dateKey;
+};
+
+/** Fraction of a day (UNFORMATTED_VALUE) or text -> "0530"; "" if unreadable */
+const parseSheetTime = (value: unknown) => {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    const minutes = Math.round((value - Math.floor(value)) * 24 * 60);
+    return toSessionTime(`${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, "0")}`);
+  }
+  return parseTableTime(cellText(value));
+};
+
+/**
+ * Rows without a readable date are skipped (headers, spacer rows, notes).
+ * Without a time column, each date uses the AO's regular start times for
+ * that weekday, in row order: a day with an AM and a PM workout takes two
+ * rows. Dates the AO doesn't meet on are skipped.
+ */
+export const parseSheetQSchedule = (
+  ao: Pick<AoConfig, "id" | "scheduleBlocks" | "scheduleExceptions">,
+  rows: unknown[][]
+): SheetQSchedule => {
+  const header = findHeader(rows);
+  if (!header) return { sessions: [], columns: {} };
+
+  const { headerIndex, columns } = header;
+  const sessions: SheetWorkoutSession[] = [];
+  const seenSlots = new Set<string>();
+  const untimedRowsByDateKey = new Map<string, number>();
+  const readField = (row: unknown[], field: SheetQField) =>
+    columns[field] === undefined ? "" : cellText(row[columns[field]]);
+
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    const dateKey = parseSheetDateKey(row?.[columns.date!]);
+    const isoDate = dateKeyToIsoDate(dateKey);
+    if (!isoDate) return;
+
+    let time = columns.time !== undefined ? parseSheetTime(row[columns.time]) : "";
+    if (!time) {
+      const untimedIndex = untimedRowsByDateKey.get(dateKey) || 0;
+      untimedRowsByDateKey.set(dateKey, untimedIndex + 1);
+      const regularStartTime24 =
+        getScheduleSlotsForIsoDate(ao, isoDate)[untimedIndex]?.regularStartTime24;
+      time = regularStartTime24 ? toSessionTime(regularStartTime24) : "";
+    }
+    if (!time) return;
+
+    // First row wins if the sheet lists a slot twice
+    const slotKey = getSessionSlotKey({ dateKey, time });
+    if (seenSlots.has(slotKey)) return;
+    seenSlots.add(slotKey);
+
+    sessions.push({
+      id: buildWorkoutSessionId(ao.id, dateKey, time),
+      aoId: ao.id,
+      date: toSessionDateLabel(isoDateToLocalDate(isoDate)),
+      dateKey,
+      time,
+      q: readField(row, "q"),
+      notes: readField(row, "notes"),
+      dbj: readField(row, "dbj"),
+      food: readField(row, "food"),
+      sheetRow: headerIndex + offset + 2,
+    });
+  });
+
+  sessions.sort((a, b) => getSessionSlotKey(a).localeCompare(getSessionSlotKey(b)));
+
+  const fieldColumns: SheetQSchedule["columns"] = {};
+  for (const field of ["q", "notes", "dbj", "food"] as const) {
+    if (columns[field] !== undefined) fieldColumns[field] = columns[field];
+  }
+  return { sessions, columns: fieldColumns };
+};
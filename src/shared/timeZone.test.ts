@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDaysToIsoDate,
+  getIsoDateDayOfWeek,
+  getIsoDateInTimeZone,
+  getTime24InTimeZone,
+  getTimeZoneOffsetMinutes,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from "./timeZone";
+
+const CHICAGO = "America/Chicago";
+
+describe("zonedTimeToUtc", () => {
+  it("uses the offset in effect on the date, not today's", () => {
+    expect(zonedTimeToUtc("2026-07-14", "05:30", CHICAGO).toISOString()).toBe(
+      "2026-07-14T10:30:00.000Z"
+    );
+    expect(zonedTimeToUtc("2026-12-15", "05:30", CHICAGO).toISOString()).toBe(
+      "2026-12-15T11:30:00.000Z"
+    );
+  });
+
+  it("lands correctly on DST transition days", () => {
+    // Spring forward (2026-03-08) and fall back (2026-11-01) both happen at 2 AM
+    expect(zonedTimeToUtc("2026-03-08", "05:30", CHICAGO).toISOString()).toBe(
+      "2026-03-08T10:30:00.000Z"
+    );
+    expect(zonedTimeToUtc("2026-11-01", "05:30", CHICAGO).toISOString()).toBe(
+      "2026-11-01T11:30:00.000Z"
+    );
+  });
+});
+
+describe("wall clock in a time zone", () => {
+  it("reads the AO's date and time, not the host's", () => {
+    // 04:30 UTC is still the previous evening in Chicago
+    const instant = new Date("2026-10-20T04:30:00Z");
+
+    expect(getIsoDateInTimeZone(instant, CHICAGO)).toBe("2026-10-19");
+    expect(getTime24InTimeZone(instant, CHICAGO)).toBe("23:30");
+    expect(getIsoDateInTimeZone(instant, "UTC")).toBe("2026-10-20");
+  });
+
+  it("reports the offset in minutes ahead of UTC", () => {
+    expect(getTimeZoneOffsetMinutes(new Date("2026-07-01T12:00:00Z"), CHICAGO)).toBe(-300);
+    expect(getTimeZoneOffsetMinutes(new Date("2026-01-01T12:00:00Z"), CHICAGO)).toBe(-360);
+  });
+});
+
+describe("calendar date math", () => {
+  it("adds days across month, year and DST boundaries", () => {
+    expect(addDaysToIsoDate("2026-10-31", 1)).toBe("2026-11-01");
+    expect(addDaysToIsoDate("2026-11-01", 1)).toBe("2026-11-02");
+    expect(addDaysToIsoDate("2026-12-31", 1)).toBe("2027-01-01");
+    expect(addDaysToIsoDate("2026-03-01", -1)).toBe("2026-02-28");
+  });
+
+  it("gets the weekday of a calendar date", () => {
+    expect(getIsoDateDayOfWeek("2026-10-19")).toBe(1);
+    expect(getIsoDateDayOfWeek("2026-11-01")).toBe(0);
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA names and rejects anything else", () => {
+    expect(isValidTimeZone(CHICAGO)).toBe(true);
+    expect(isValidTimeZone("Central")).toBe(false);
+    expect(isValidTimeZone("")).toBe(false);
+  });
+});
@@ -0,0 +1,102 @@
+const offsetFormatterCache = new Map<string, Intl.DateTimeFormat>();
+
+const getOffsetFormatter = (timeZone: string) => {
+  let formatter = offsetFormatterCache.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    offsetFormatterCache.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const getZonedParts = (instant: Date, timeZone: string) => {
+  const parts = getOffsetFormatter(timeZone).formatToParts(instant);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value || 0);
+  return {
+    year: get("year"),
+    month: get("month"),
+    day: get("day"),
+    hour: get("hour"),
+    minute: get("minute"),
+    second: get("second"),
+  };
+};
+
+const pad2 = (n: number) => String(n).padStart(2, "0");
+
+/** True for IANA zone names the runtime knows ("America/Chicago"). */
+export const isValidTimeZone = (timeZone: string) => {
+  if (!timeZone) return false;
+  try {
+    getOffsetFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Minutes the zone is ahead of UTC at `instant` (Chicago in summer: -300). */
+export const getTimeZoneOffsetMinutes = (instant: Date, timeZone: string) => {
+  const { year, month, day, hour, minute, second } = getZonedParts(instant, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  return Math.round((asUtc - instant.getTime()) / 60000);
+};
+
+/** Calendar date ("YYYY-MM-DD") at `instant` on a wall clock in `timeZone`. */
+export const getIsoDateInTimeZone = (instant: Date, timeZone: string) => {
+  const { year, month, day } = getZonedParts(instant, timeZone);
+  return `${year}-${pad2(month)}-${pad2(day)}`;
+};
+
+/** Wall-clock time ("HH:MM", 24h) at `instant` in `timeZone`. */
+export const getTime24InTimeZone = (instant: Date, timeZone: string) => {
+  const { hour, minute } = getZonedParts(instant, timeZone);
+  return `${pad2(hour)}:${pad2(minute)}`;
+};
+
+/**
+ * Wall-clock date + time in `timeZone` -> the UTC instant.
+ * ("2026-03-08", "05:30", "America/Chicago") -> 2026-03-08T11:30:00Z
+ * Re-checks the offset once so DST transition days land correctly.
+ */
+export const zonedTimeToUtc = (isoDate: string, time24: string, timeZone: string) => {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  const [hour, minute] = time24.split(":").map(Number);
+  const wallClockAsUtc = Date.UTC(year, (month || 1) - 1, day || 1, hour || 0, minute || 0);
+
+  const firstGuess = wallClockAsUtc - getTimeZoneOffsetMinutes(new Date(wallClockAsUtc), timeZone) * 60000;
+  const offset = getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone);
+  return new Date(wallClockAsUtc - offset * 60000);
+};
+
+/** "2026-05-09" + n days -> "2026-05-(09+n)" (calendar math, no time zone involved) */
+export const addDaysToIsoDate = (isoDate: string, days: number) => {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  const date = new Date(Date.UTC(year, (month || 1) - 1, (day || 1) + days));
+  return date.toISOString().slice(0, 10);
+};
+
+/** Day of week (0=Sun) for a calendar date, independent of the host time zone */
+export const getIsoDateDayOfWeek = (isoDate: string) => {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  return new Date(Date.UTC(year, (month || 1) - 1, day || 1)).getUTCDay();
+};
+
+/**
+ * "2026-05-09" -> local midnight on that calendar date. Only for code that
+ * formats or walks calendar days with Date; never compare it to `new Date()`.
+ */
+export const isoDateToLocalDate = (isoDate: string) => {
+  const [year, month, day] = isoDate.split("-").map(Number);
+  return new Date(year, (month || 1) - 1, day || 1);
+};
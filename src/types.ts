@@ -1,3 +1,6 @@
+import type { AoId } from "./ao/aoConfig";
+import type { SessionDesignation } from "./shared/sessionDesignations";
+
 export interface Exercise {
   id: string; // Unique ID for React keys
   name: string;
@@ -67,12 +70,16 @@ export interface PaxAttendance {
 
 export interface WorkoutSession {
   id: string;
+  // Owning AO. Docs written before this field existed are Compass.
+  aoId?: AoId;
   date: string;
   // YYYYMMDD string for efficient Firestore queries/sorting
   dateKey?: string;
   time: string;
   q: string;
   notes: string;
+  // VQ, AQ, CSAUP, ... Unset on docs from before the field; see getSessionDesignations
+  designations?: SessionDesignation[];
   dbj: string;
   food: string;
 
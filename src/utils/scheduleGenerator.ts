@@ -1,36 +1,82 @@
 import type { WorkoutSession } from '../types';
-import { v4 as uuidv4 } from 'uuid';
+import type { AoConfig, AoId } from '../ao/aoConfig';
 
-export const generateWorkoutSchedule = (monthsToGenerate: number = 24): WorkoutSession[] => {
-  const sessions: WorkoutSession[] = [];
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+const WEEKDAY_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+/** "05:30" -> "0530" (the format stored on WorkoutSession.time) */
+export const toSessionTime = (startTime24: string) =>
+  startTime24.replace(/\D/g, '').padStart(4, '0').slice(0, 4);
+
+/** 2025-11-22 -> "20251122" */
+export const toDateKey = (date: Date) =>
+  `${date.getFullYear()}${pad2(date.getMonth() + 1)}${pad2(date.getDate())}`;
+
+/** 2025-11-22 -> "11/22/25 (Sat)" */
+export const toSessionDateLabel = (date: Date) =>
+  `${date.getMonth() + 1}/${date.getDate()}/${String(date.getFullYear()).slice(-2)} (${
+    WEEKDAY_SHORT[date.getDay()]
+  })`;
+
+/** Deterministic id so re-generating a slot always lands on the same doc */
+export const buildWorkoutSessionId = (aoId: AoId, dateKey: string, time: string) =>
+  `${aoId}-${dateKey}-${time}`;
+
+/**
+ * Identity of a scheduled workout within one AO: day + start time.
+ * Tolerates legacy "530" / "05:30" time values.
+ */
+export const getSessionSlotKey = (session: Pick<WorkoutSession, 'dateKey' | 'time'>) =>
+  `${session.dateKey || ''}-${toSessionTime(session.time || '')}`;
 
-  const futureDate = new Date();
-  futureDate.setMonth(today.getMonth() + monthsToGenerate);
+/** "11/22/25 (Sat) 0530": how a slot is named wherever a day can hold more than one */
+export const getSessionSlotLabel = (session: Pick<WorkoutSession, 'date' | 'time'>) =>
+  [session.date, session.time].filter(Boolean).join(' ');
 
-  let currentDate = new Date(today);
-  // Start from the beginning of the current week to ensure we don't miss past workout days in the initial generation
-  currentDate.setDate(currentDate.getDate() - currentDate.getDay());
+export const addMonths = (date: Date, months: number) => {
+  const next = new Date(date);
+  next.setMonth(next.getMonth() + months);
+  return next;
+};
+
+export type ScheduleRange = {
+  from: Date;
+  to: Date;
+};
 
+/**
+ * Walk every day in [from, to] and emit one empty session per matching
+ * schedule block. Days with several blocks get several sessions.
+ */
+export const generateWorkoutSchedule = (
+  ao: AoConfig,
+  { from, to }: ScheduleRange
+): WorkoutSession[] => {
+  const sessions: WorkoutSession[] = [];
 
-  while (currentDate <= futureDate) {
-    const dayOfWeek = currentDate.getDay(); // 0=Sun, 2=Tue, 4=Thu, 6=Sat
+  const currentDate = new Date(from);
+  currentDate.setHours(0, 0, 0, 0);
+  const endDate = new Date(to);
+  endDate.setHours(0, 0, 0, 0);
 
-    if (dayOfWeek === 2 || dayOfWeek === 4 || dayOfWeek === 6) {
-      let time = '';
-      if (dayOfWeek === 2 || dayOfWeek === 4) { // Tuesday or Thursday
-        time = '0530';
-      } else { // Saturday
-        time = '0630';
-      }
-      
-      const dateString = `${currentDate.getMonth() + 1}/${currentDate.getDate()}/${String(currentDate.getFullYear()).slice(-2)} (${currentDate.toLocaleString('en-US', { weekday: 'short' })})`;
+  while (currentDate <= endDate) {
+    const dayOfWeek = currentDate.getDay();
+    const dateKey = toDateKey(currentDate);
+    const date = toSessionDateLabel(currentDate);
 
+    const times = ao.scheduleBlocks
+      .filter((block) => block.daysOfWeek.includes(dayOfWeek))
+      .map((block) => toSessionTime(block.startTime24))
+      .sort();
+
+    for (const time of new Set(times)) {
       sessions.push({
-        id: uuidv4(), // Use uuid for a unique string ID
-        date: dateString,
-        time: time,
+        id: buildWorkoutSessionId(ao.id, dateKey, time),
+        aoId: ao.id,
+        date,
+        dateKey,
+        time,
         q: '',
         notes: '',
         dbj: '',
@@ -43,3 +89,16 @@ export const generateWorkoutSchedule = (monthsToGenerate: number = 24): WorkoutS
 
   return sessions;
 };
+
+/**
+ * Sessions from `generated` whose day + time slot isn't already taken by
+ * `existing`. Matching on the slot (not the id) keeps legacy docs with
+ * random/numeric ids from being duplicated.
+ */
+export const findMissingWorkoutSessions = (
+  generated: WorkoutSession[],
+  existing: Pick<WorkoutSession, 'dateKey' | 'time'>[]
+): WorkoutSession[] => {
+  const taken = new Set(existing.map(getSessionSlotKey));
+  return generated.filter((session) => !taken.has(getSessionSlotKey(session)));
+};